@@ -20,6 +20,11 @@ import audioRoute from "./routes/audio.route";
 import authRoute from "./routes/auth.route";
 import userRoute from "./routes/user.route";
 import geminiRoute from "./routes/gemini.route";
+import actionsRoute from "./routes/actions.route";
+import { adminInitialized } from "./firebaseAdmin";
+import { startScheduledEmailSweeper } from "./services/actionJournal.service";
+import { getIntentProviderName } from "./services/intentProviders";
+import { getSpeechEngineName } from "./services/speechEngines";
 
 const app = express();
 
@@ -45,6 +50,10 @@ if (process.env.NODE_ENV === "production" && PORT === 5000 && !process.env.PORT)
 // The cors() middleware automatically handles OPTIONS preflight requests
 app.use(cors(corsOptions));
 
+// Email attachments arrive base64-encoded in the JSON body of a commit, so only those
+// requests may be as large as Gmail allows (25 MB); "/api/process/commit" also covers
+// its streaming variant. Every other route keeps the default limit.
+app.use("/api/process/commit", express.json({ limit: "25mb" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -80,6 +89,8 @@ app.get("/api/diagnostics/oauth", (_req: Request, res: Response) => {
     gemini: {
       apiKey: process.env.GEMINI_API_KEY ? "✅ Set" : "❌ Missing",
     },
+    intentProvider: getIntentProviderName(),
+    speechEngine: getSpeechEngineName(),
     timestamp: new Date().toISOString(),
   };
   
@@ -91,6 +102,7 @@ app.use("/api", audioRoute);
 app.use("/api/auth", authRoute);
 app.use("/api/user", userRoute);
 app.use("/api/gemini", geminiRoute);
+app.use("/api/actions", actionsRoute);
 
 // Error handling middleware
 app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
@@ -124,8 +136,14 @@ app.listen(PORT, '0.0.0.0', () => {
   console.log("=".repeat(50));
   
   // Validate required environment variables
+  // Only Gemini needs an API key, and the local speech engine a model file
+  const intentProvider = getIntentProviderName();
+  const speechEngine = getSpeechEngineName();
+  console.log(`🧠 Intent provider: ${intentProvider}`);
+  console.log(`🎙️ Speech engine: ${speechEngine}`);
   const requiredEnvVars = [
-    "GEMINI_API_KEY",
+    ...(intentProvider === "gemini" || speechEngine === "gemini" ? ["GEMINI_API_KEY"] : []),
+    ...(speechEngine === "local" ? ["WHISPER_MODEL_PATH"] : []),
     "GOOGLE_CLIENT_ID",
     "GOOGLE_CLIENT_SECRET",
   ];
@@ -141,6 +159,12 @@ app.listen(PORT, '0.0.0.0', () => {
     console.log("✅ All required environment variables are set");
   }
   
+  // Deliver emails held back for the undo window
+  if (adminInitialized) {
+    startScheduledEmailSweeper();
+    console.log("📬 Scheduled email sweeper started");
+  }
+
   console.log("=".repeat(50));
   console.log(`🚀 Server is ready to accept connections on port ${PORT}`);
   console.log("=".repeat(50));
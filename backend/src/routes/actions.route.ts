@@ -0,0 +1,108 @@
+import { Router, Response } from "express";
+import { verifyFirebaseToken, AuthenticatedRequest } from "../middlewares/firebaseAuth";
+import { UndoError, UndoFailure, undoAction } from "../services/actionJournal.service";
+import { routeAction } from "../services/actionRouter.service";
+import { resolveUserTimeZone } from "../services/userProfile.service";
+import { formatValidationErrors, validateGeminiResponse } from "../schemas/geminiResponse.schema";
+
+const router = Router();
+
+const UNDO_FAILURE_STATUS: Record<UndoFailure, number> = {
+  notFound: 404,
+  notUndoable: 409,
+  expired: 410,
+};
+
+/**
+ * POST /api/actions/execute
+ * Run a single already-parsed action, e.g. a calendar event rebooked at a
+ * suggested slot or forced past a conflict (allowConflicts: true), or a
+ * previewed change to an existing event or task (confirmChanges: true)
+ */
+router.post(
+  "/execute",
+  verifyFirebaseToken,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { action, allowConflicts, confirmChanges, command, timeZone: requestedTimeZone } = req.body;
+
+      if (!req.user?.uid) {
+        res.status(401).json({
+          success: false,
+          message: "User authentication failed",
+        });
+        return;
+      }
+
+      const validation = validateGeminiResponse(action);
+      if (!validation.valid || validation.value.actions || validation.value.action === "unknown") {
+        res.status(400).json({
+          success: false,
+          message: validation.valid
+            ? "A single calendar, task or email action is required"
+            : `Invalid action:\n${formatValidationErrors(validation.errors)}`,
+        });
+        return;
+      }
+
+      const timeZone = await resolveUserTimeZone(req.user.uid, requestedTimeZone);
+
+      console.log("🔄 Executing action:", validation.value.action, allowConflicts === true ? "(conflicts allowed)" : "");
+      const result = await routeAction(req.user.uid, validation.value, {
+        command: typeof command === "string" ? command : undefined,
+        timeZone,
+        allowConflicts: allowConflicts === true,
+        confirmChanges: confirmChanges === true,
+      });
+      res.status(result.success ? 200 : 400).json(result);
+    } catch (error: any) {
+      console.error("Error executing action:", error);
+      res.status(500).json({
+        success: false,
+        message: error.message || "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/actions/:id/undo
+ * Reverse a journaled action while its undo window is open
+ */
+router.post(
+  "/:id/undo",
+  verifyFirebaseToken,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      if (!req.user?.uid) {
+        res.status(401).json({
+          success: false,
+          message: "User authentication failed",
+        });
+        return;
+      }
+
+      const { entry, message } = await undoAction(req.user.uid, String(req.params.id));
+
+      res.status(200).json({
+        success: true,
+        action: entry.action,
+        message,
+        data: {
+          id: entry.id,
+          title: entry.title,
+          status: entry.status,
+        },
+      });
+    } catch (error: any) {
+      console.error("Error undoing action:", error);
+
+      res.status(error instanceof UndoError ? UNDO_FAILURE_STATUS[error.reason] : 500).json({
+        success: false,
+        message: error.message || "Failed to undo action",
+      });
+    }
+  }
+);
+
+export default router;
@@ -1,20 +1,86 @@
-import { Router, Response } from "express";
+import express, { Router, Response } from "express";
 import { verifyFirebaseToken, AuthenticatedRequest } from "../middlewares/firebaseAuth";
-import { analyzeText } from "../services/gemini.service";
-import { routeAction, routeMultipleActions } from "../services/actionRouter.service";
+import { analyzeText, GeminiResponse, mergeClarification } from "../services/gemini.service";
+import { routeAction, routeMultipleActions, RouteOptions } from "../services/actionRouter.service";
+import { resolveEmailStyle, resolveUserTimeZone } from "../services/userProfile.service";
+import { EmailThreadError, EmailThreadFailure, resolveEmailThread } from "../services/emailThread.service";
+import { nextClarification, withoutAskableErrors } from "../services/clarification.service";
+import { ConversationTurn, parseConversation } from "../services/conversation.service";
+import { validateGeminiResponse } from "../schemas/geminiResponse.schema";
+import { EventStream, openEventStream } from "../utils/eventStream";
+import { getSpeechEngine } from "../services/speechEngines";
+import {
+  applyDraftEdits,
+  createActionDraft,
+  getActionDraft,
+  getDraftActions,
+  claimActionDraft,
+} from "../services/actionDraft.service";
 
 const router = Router();
 
+const EMAIL_THREAD_FAILURE_STATUS: Record<EmailThreadFailure, number> = {
+  unclear: 400,
+  notFound: 404,
+};
+
+// Recordings are uploaded as the raw request body; Chrome may label WebM audio as video/webm
+const isAudioUpload = (req: { headers: { "content-type"?: string } }) =>
+  /^(audio\/|video\/webm)/i.test(req.headers["content-type"] || "");
+
+/**
+ * Execute one or more parsed actions and send the result
+ */
+async function executeActions(
+  res: Response,
+  userId: string,
+  actions: GeminiResponse[],
+  options: RouteOptions = {}
+): Promise<void> {
+  if (actions.length > 1) {
+    console.log(`🔄 Routing ${actions.length} action(s)`);
+    const multiResult = await routeMultipleActions(userId, actions, options);
+    console.log(`✅ Multi-action result: ${multiResult.successfulActions}/${multiResult.totalActions} successful`);
+    res.status(multiResult.success ? 200 : 400).json(multiResult);
+    return;
+  }
+
+  console.log("🔄 Routing action:", actions[0].action);
+  const result = await routeAction(userId, actions[0], options);
+  console.log("✅ Action result:", result.success ? "Success" : "Failed");
+  res.status(result.success ? 200 : 400).json(result);
+}
+
+/**
+ * Execute one or more parsed actions, streaming each step as it starts and ends
+ * The "done" event carries what executeActions would have sent.
+ */
+async function streamActions(
+  stream: EventStream,
+  userId: string,
+  actions: GeminiResponse[],
+  options: RouteOptions = {}
+): Promise<void> {
+  console.log(`🔄 Streaming ${actions.length} action(s)`);
+  const multiResult = await routeMultipleActions(userId, actions, {
+    ...options,
+    onProgress: (progress) => stream.send(`action-${progress.stage}`, progress),
+  });
+  console.log(`✅ Streamed result: ${multiResult.successfulActions}/${multiResult.totalActions} successful`);
+  stream.send("done", actions.length > 1 ? multiResult : multiResult.results[0]);
+}
+
 /**
  * POST /api/process
  * Process text input from frontend and execute action
+ * An optional "conversation" of earlier turns lets the command follow up on them.
  */
 router.post(
   "/process",
   verifyFirebaseToken,
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
-      const { text } = req.body;
+      const { text, conversation: rawConversation, timeZone: requestedTimeZone } = req.body;
 
       if (!text || typeof text !== "string" || text.trim().length === 0) {
         res.status(400).json({
@@ -24,6 +90,18 @@ router.post(
         return;
       }
 
+      // Earlier turns of the chat, so a follow-up can refer to them
+      let conversation: ConversationTurn[];
+      try {
+        conversation = parseConversation(rawConversation);
+      } catch (conversationError: any) {
+        res.status(400).json({
+          success: false,
+          message: conversationError.message,
+        });
+        return;
+      }
+
       if (!req.user?.uid) {
         res.status(401).json({
           success: false,
@@ -32,11 +110,14 @@ router.post(
         return;
       }
 
+      const timeZone = await resolveUserTimeZone(req.user.uid, requestedTimeZone);
+      const emailStyle = await resolveEmailStyle(req.user.uid);
+
       // Analyze text with Gemini
       console.log("📝 Processing text with Gemini:", text.trim());
       let geminiResponse;
       try {
-        geminiResponse = await analyzeText(text.trim());
+        geminiResponse = await analyzeText(text.trim(), undefined, { timeZone, emailStyle, conversation });
         console.log("✅ Gemini response received:", geminiResponse);
       } catch (geminiError: any) {
         console.error("❌ Gemini API Error:", geminiError);
@@ -48,39 +129,670 @@ router.post(
         return;
       }
 
-      // Check if multiple actions are requested
-      if (geminiResponse.actions && Array.isArray(geminiResponse.actions) && geminiResponse.actions.length > 0) {
-        console.log(`🔄 Routing ${geminiResponse.actions.length} action(s)`);
-        const multiResult = await routeMultipleActions(req.user.uid, geminiResponse.actions);
-        console.log(`✅ Multi-action result: ${multiResult.successfulActions}/${multiResult.totalActions} successful`);
+      const isMultiAction = geminiResponse.actions && Array.isArray(geminiResponse.actions) && geminiResponse.actions.length > 0;
+      if (!isMultiAction && !geminiResponse.action) {
+        res.status(400).json({
+          success: false,
+          message: "No action detected in the input. Please be more specific.",
+        });
+        return;
+      }
+
+      await executeActions(res, req.user.uid, getDraftActions(geminiResponse), {
+        command: text.trim(),
+        timeZone,
+      });
+    } catch (error: any) {
+      console.error("Error processing request:", error);
+      res.status(500).json({
+        success: false,
+        message: error.message || "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/process/stream
+ * Like /process, but answers with Server-Sent Events as the command is worked through:
+ * parsing, parsed (the actions understood), action-started / action-succeeded / action-failed
+ * for each action, then done with the usual result. Problems after the stream has opened
+ * arrive as an error event.
+ */
+router.post(
+  "/process/stream",
+  verifyFirebaseToken,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { text, conversation: rawConversation, timeZone: requestedTimeZone } = req.body;
+
+      if (!text || typeof text !== "string" || text.trim().length === 0) {
+        res.status(400).json({
+          success: false,
+          message: "Text input is required",
+        });
+        return;
+      }
 
-        if (multiResult.success) {
-          res.status(200).json(multiResult);
-        } else {
-          res.status(400).json(multiResult);
+      let conversation: ConversationTurn[];
+      try {
+        conversation = parseConversation(rawConversation);
+      } catch (conversationError: any) {
+        res.status(400).json({
+          success: false,
+          message: conversationError.message,
+        });
+        return;
+      }
+
+      if (!req.user?.uid) {
+        res.status(401).json({
+          success: false,
+          message: "User authentication failed",
+        });
+        return;
+      }
+
+      const userId = req.user.uid;
+      const timeZone = await resolveUserTimeZone(userId, requestedTimeZone);
+      const emailStyle = await resolveEmailStyle(userId);
+
+      const stream = openEventStream(res);
+      try {
+        stream.send("parsing", { text: text.trim() });
+
+        console.log("📝 Processing text with Gemini (streaming):", text.trim());
+        let geminiResponse;
+        try {
+          geminiResponse = await analyzeText(text.trim(), undefined, { timeZone, emailStyle, conversation });
+        } catch (geminiError: any) {
+          console.error("❌ Gemini API Error:", geminiError);
+          stream.send("error", {
+            success: false,
+            message: `Gemini API Error: ${geminiError.message || "Failed to process text"}`,
+            error: "GEMINI_ERROR",
+          });
+          return;
         }
-      } else {
-        // Single action
-        if (!geminiResponse.action) {
-          res.status(400).json({
+
+        const actions = getDraftActions(geminiResponse).filter(
+          (action) => action.action && action.action !== "unknown"
+        );
+        if (actions.length === 0) {
+          stream.send("error", {
             success: false,
             message: "No action detected in the input. Please be more specific.",
           });
           return;
         }
 
-        console.log("🔄 Routing action:", geminiResponse.action);
-        const result = await routeAction(req.user.uid, geminiResponse);
-        console.log("✅ Action result:", result.success ? "Success" : "Failed");
+        stream.send("parsed", { actions });
+        await streamActions(stream, userId, actions, { command: text.trim(), timeZone });
+      } catch (error: any) {
+        console.error("Error streaming request:", error);
+        stream.send("error", {
+          success: false,
+          message: error.message || "Internal server error",
+        });
+      } finally {
+        stream.end();
+      }
+    } catch (error: any) {
+      console.error("Error processing request:", error);
+      res.status(500).json({
+        success: false,
+        message: error.message || "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/process/plan
+ * Analyze text and store the parsed actions as a draft for review.
+ * Nothing is executed until the draft is committed.
+ * Takes the same optional "conversation" as /process.
+ */
+router.post(
+  "/process/plan",
+  verifyFirebaseToken,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { text, conversation: rawConversation, timeZone: requestedTimeZone } = req.body;
+
+      if (!text || typeof text !== "string" || text.trim().length === 0) {
+        res.status(400).json({
+          success: false,
+          message: "Text input is required",
+        });
+        return;
+      }
+
+      // Earlier turns of the chat, so a follow-up can refer to them
+      let conversation: ConversationTurn[];
+      try {
+        conversation = parseConversation(rawConversation);
+      } catch (conversationError: any) {
+        res.status(400).json({
+          success: false,
+          message: conversationError.message,
+        });
+        return;
+      }
+
+      if (!req.user?.uid) {
+        res.status(401).json({
+          success: false,
+          message: "User authentication failed",
+        });
+        return;
+      }
+
+      const timeZone = await resolveUserTimeZone(req.user.uid, requestedTimeZone);
+      const emailStyle = await resolveEmailStyle(req.user.uid);
+
+      console.log("📝 Planning text with Gemini:", text.trim());
+      let geminiResponse;
+      try {
+        geminiResponse = await analyzeText(text.trim(), undefined, { timeZone, emailStyle, conversation });
+        console.log("✅ Gemini response received:", geminiResponse);
+      } catch (geminiError: any) {
+        console.error("❌ Gemini API Error:", geminiError);
+        res.status(500).json({
+          success: false,
+          message: `Gemini API Error: ${geminiError.message || "Failed to process text"}`,
+          error: "GEMINI_ERROR",
+        });
+        return;
+      }
+
+      const actions = getDraftActions(geminiResponse).filter(
+        (action) => action.action && action.action !== "unknown"
+      );
 
-        if (result.success) {
-          res.status(200).json(result);
-        } else {
-          res.status(400).json(result);
+      if (actions.length === 0) {
+        res.status(400).json({
+          success: false,
+          action: "unknown",
+          message: "Could not determine the action from the input. Please be more specific.",
+        });
+        return;
+      }
+
+      // Replies and forwards are looked up now, so the review shows the email they answer
+      const userId = req.user.uid;
+      let prepared: GeminiResponse[];
+      try {
+        prepared = await Promise.all(actions.map(async (action) => (await resolveEmailThread(userId, action)).data));
+      } catch (lookupError: any) {
+        console.error("❌ Could not find the email to answer:", lookupError.message);
+        res.status(lookupError instanceof EmailThreadError ? EMAIL_THREAD_FAILURE_STATUS[lookupError.reason] : 500).json({
+          success: false,
+          action: "email",
+          message: lookupError.message || "Could not find the email to answer",
+        });
+        return;
+      }
+
+      const draft = await createActionDraft(userId, text.trim(), prepared);
+      const clarification = nextClarification(draft.actions);
+
+      res.status(200).json({
+        success: true,
+        message: clarification
+          ? clarification.question
+          : `Review ${actions.length} action${actions.length > 1 ? "s" : ""} before confirming`,
+        draftId: draft.id,
+        actions: draft.actions,
+        ...(clarification && { clarification }),
+      });
+    } catch (error: any) {
+      console.error("Error planning request:", error);
+      res.status(500).json({
+        success: false,
+        message: error.message || "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/process/clarify
+ * Merge the user's answer to a clarification question into what it was asked about:
+ * - draftId: the first action of that pending draft that still misses something
+ * - action: an action that came back with status "needsClarification"; a new draft is made for it
+ * Responds like /process/plan, with another clarification if something is still missing.
+ */
+router.post(
+  "/process/clarify",
+  verifyFirebaseToken,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { answer, draftId, action, timeZone: requestedTimeZone } = req.body;
+
+      if (!answer || typeof answer !== "string" || answer.trim().length === 0) {
+        res.status(400).json({
+          success: false,
+          message: "Answer is required",
+        });
+        return;
+      }
+
+      // A pending action may lack exactly what is being asked for, but nothing else
+      const validation = typeof draftId === "string" ? undefined : validateGeminiResponse(action);
+      if (
+        validation &&
+        (validation.value.actions ||
+          validation.value.action === "unknown" ||
+          withoutAskableErrors(validation.errors, validation.value).length > 0)
+      ) {
+        res.status(400).json({
+          success: false,
+          message: "A draft ID or a single pending action is required",
+        });
+        return;
+      }
+
+      if (!req.user?.uid) {
+        res.status(401).json({
+          success: false,
+          message: "User authentication failed",
+        });
+        return;
+      }
+
+      const userId = req.user.uid;
+      const timeZone = await resolveUserTimeZone(userId, requestedTimeZone);
+      const emailStyle = await resolveEmailStyle(userId);
+
+      let draft;
+      if (typeof draftId === "string") {
+        draft = await getActionDraft(userId, draftId);
+        if (!draft) {
+          res.status(404).json({
+            success: false,
+            message: "Draft not found",
+          });
+          return;
         }
+        if (draft.status !== "pending") {
+          res.status(409).json({
+            success: false,
+            message: `Draft has already been ${draft.status}`,
+          });
+          return;
+        }
+
+        const pending = nextClarification(draft.actions);
+        if (pending) {
+          const actions = [...draft.actions];
+          const merged = await mergeClarification(answer.trim(), actions[pending.index], { timeZone, emailStyle });
+          // A reply or forward may only now say which email it answers
+          actions[pending.index] = (await resolveEmailThread(userId, merged)).data;
+          const previous = await claimActionDraft(draft.id, "pending", actions);
+          if (previous !== "pending") {
+            res.status(409).json({
+              success: false,
+              message: `Draft has already been ${previous}`,
+            });
+            return;
+          }
+          draft = { ...draft, actions };
+        }
+      } else {
+        const merged = await mergeClarification(answer.trim(), validation!.value, { timeZone, emailStyle });
+        draft = await createActionDraft(userId, answer.trim(), [(await resolveEmailThread(userId, merged)).data]);
       }
+
+      const clarification = nextClarification(draft.actions);
+      console.log(clarification ? `💬 Still missing: ${clarification.missing.join(", ")}` : "✅ Clarified draft ready for review");
+
+      res.status(200).json({
+        success: true,
+        message: clarification
+          ? clarification.question
+          : `Review ${draft.actions.length} action${draft.actions.length > 1 ? "s" : ""} before confirming`,
+        draftId: draft.id,
+        actions: draft.actions,
+        ...(clarification && { clarification }),
+      });
     } catch (error: any) {
-      console.error("Error processing request:", error);
+      console.error("Error clarifying request:", error);
+      res.status(error instanceof EmailThreadError ? EMAIL_THREAD_FAILURE_STATUS[error.reason] : 500).json({
+        success: false,
+        message: error.message || "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/process/commit
+ * Execute a pending draft, applying any edits the user made to its actions
+ */
+router.post(
+  "/process/commit",
+  verifyFirebaseToken,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { draftId, actions: editedActions, attachments, timeZone: requestedTimeZone } = req.body;
+
+      if (!draftId || typeof draftId !== "string") {
+        res.status(400).json({
+          success: false,
+          message: "Draft ID is required",
+        });
+        return;
+      }
+
+      if (attachments !== undefined && !Array.isArray(attachments)) {
+        res.status(400).json({
+          success: false,
+          message: "Attachments must be a list of files",
+        });
+        return;
+      }
+
+      if (!req.user?.uid) {
+        res.status(401).json({
+          success: false,
+          message: "User authentication failed",
+        });
+        return;
+      }
+
+      const draft = await getActionDraft(req.user.uid, draftId);
+      if (!draft) {
+        res.status(404).json({
+          success: false,
+          message: "Draft not found",
+        });
+        return;
+      }
+
+      if (draft.status !== "pending") {
+        res.status(409).json({
+          success: false,
+          message: `Draft has already been ${draft.status}`,
+        });
+        return;
+      }
+
+      let actions: GeminiResponse[];
+      try {
+        actions = applyDraftEdits(draft.actions, editedActions);
+      } catch (editError: any) {
+        res.status(400).json({
+          success: false,
+          message: editError.message,
+        });
+        return;
+      }
+
+      // Claim the draft before executing so a double click can't run it twice
+      const previous = await claimActionDraft(draft.id, "committed", actions);
+      if (previous !== "pending") {
+        res.status(409).json({
+          success: false,
+          message: `Draft has already been ${previous}`,
+        });
+        return;
+      }
+
+      const timeZone = await resolveUserTimeZone(req.user.uid, requestedTimeZone);
+
+      console.log("✅ Committing draft:", draft.id);
+      await executeActions(res, req.user.uid, actions, { command: draft.text, timeZone, attachments });
+    } catch (error: any) {
+      console.error("Error committing draft:", error);
+      res.status(500).json({
+        success: false,
+        message: error.message || "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/process/commit/stream
+ * Like /process/commit, but streams each action as it starts and ends (see /process/stream)
+ */
+router.post(
+  "/process/commit/stream",
+  verifyFirebaseToken,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { draftId, actions: editedActions, attachments, timeZone: requestedTimeZone } = req.body;
+
+      if (!draftId || typeof draftId !== "string") {
+        res.status(400).json({
+          success: false,
+          message: "Draft ID is required",
+        });
+        return;
+      }
+
+      if (attachments !== undefined && !Array.isArray(attachments)) {
+        res.status(400).json({
+          success: false,
+          message: "Attachments must be a list of files",
+        });
+        return;
+      }
+
+      if (!req.user?.uid) {
+        res.status(401).json({
+          success: false,
+          message: "User authentication failed",
+        });
+        return;
+      }
+
+      const userId = req.user.uid;
+      const draft = await getActionDraft(userId, draftId);
+      if (!draft) {
+        res.status(404).json({
+          success: false,
+          message: "Draft not found",
+        });
+        return;
+      }
+
+      if (draft.status !== "pending") {
+        res.status(409).json({
+          success: false,
+          message: `Draft has already been ${draft.status}`,
+        });
+        return;
+      }
+
+      let actions: GeminiResponse[];
+      try {
+        actions = applyDraftEdits(draft.actions, editedActions);
+      } catch (editError: any) {
+        res.status(400).json({
+          success: false,
+          message: editError.message,
+        });
+        return;
+      }
+
+      // Claim the draft before executing so a double click can't run it twice
+      const previous = await claimActionDraft(draft.id, "committed", actions);
+      if (previous !== "pending") {
+        res.status(409).json({
+          success: false,
+          message: `Draft has already been ${previous}`,
+        });
+        return;
+      }
+
+      const timeZone = await resolveUserTimeZone(userId, requestedTimeZone);
+
+      console.log("✅ Committing draft (streaming):", draft.id);
+      const stream = openEventStream(res);
+      try {
+        await streamActions(stream, userId, actions, { command: draft.text, timeZone, attachments });
+      } catch (error: any) {
+        console.error("Error streaming draft:", error);
+        stream.send("error", {
+          success: false,
+          message: error.message || "Internal server error",
+        });
+      } finally {
+        stream.end();
+      }
+    } catch (error: any) {
+      console.error("Error committing draft:", error);
+      res.status(500).json({
+        success: false,
+        message: error.message || "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/process/discard
+ * Discard a pending draft without executing it
+ */
+router.post(
+  "/process/discard",
+  verifyFirebaseToken,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { draftId } = req.body;
+
+      if (!draftId || typeof draftId !== "string") {
+        res.status(400).json({
+          success: false,
+          message: "Draft ID is required",
+        });
+        return;
+      }
+
+      if (!req.user?.uid) {
+        res.status(401).json({
+          success: false,
+          message: "User authentication failed",
+        });
+        return;
+      }
+
+      const draft = await getActionDraft(req.user.uid, draftId);
+      if (!draft) {
+        res.status(404).json({
+          success: false,
+          message: "Draft not found",
+        });
+        return;
+      }
+
+      if (draft.status !== "pending") {
+        res.status(409).json({
+          success: false,
+          message: `Draft has already been ${draft.status}`,
+        });
+        return;
+      }
+
+      const previous = await claimActionDraft(draft.id, "discarded");
+      if (previous !== "pending") {
+        res.status(409).json({
+          success: false,
+          message: `Draft has already been ${previous}`,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "Draft discarded",
+      });
+    } catch (error: any) {
+      console.error("Error discarding draft:", error);
+      res.status(500).json({
+        success: false,
+        message: error.message || "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/transcribe
+ * Turn a voice recording into text with the configured speech engine (SPEECH_ENGINE),
+ * for browsers without the Web Speech API. The recording is the request body, sent with
+ * its own Content-Type (audio/webm, audio/ogg, audio/mp4, ...). Optional ?language=en
+ */
+router.post(
+  "/transcribe",
+  verifyFirebaseToken,
+  express.raw({ type: isAudioUpload, limit: "25mb" }),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        res.status(400).json({
+          success: false,
+          message: "Audio is required. Send the recording as the request body with an audio Content-Type.",
+        });
+        return;
+      }
+
+      const language = typeof req.query.language === "string" ? req.query.language.trim() : "";
+      if (language && !/^[a-z]{2,3}(-[a-z0-9]{2,8})?$/i.test(language)) {
+        res.status(400).json({
+          success: false,
+          message: "Language must be a language code such as \"en\" or \"en-US\"",
+        });
+        return;
+      }
+
+      if (!req.user?.uid) {
+        res.status(401).json({
+          success: false,
+          message: "User authentication failed",
+        });
+        return;
+      }
+
+      const engine = getSpeechEngine();
+      const mimeType = (req.headers["content-type"] || "audio/webm").split(";")[0].trim().toLowerCase();
+      console.log(`🎙️ Transcribing ${Math.round(req.body.length / 1024)} KB of ${mimeType} with ${engine.name}`);
+
+      let text: string;
+      try {
+        text = await engine.transcribe({
+          audio: req.body,
+          mimeType,
+          language: language ? language.split("-")[0].toLowerCase() : undefined,
+        });
+      } catch (engineError: any) {
+        console.error("❌ Transcription error:", engineError);
+        res.status(500).json({
+          success: false,
+          message: `Transcription failed: ${engineError.message || "Speech engine error"}`,
+          error: "TRANSCRIPTION_ERROR",
+        });
+        return;
+      }
+
+      if (!text) {
+        res.status(422).json({
+          success: false,
+          message: "No speech detected. Please try again.",
+        });
+        return;
+      }
+
+      console.log("✅ Transcribed:", text.substring(0, 50));
+      res.status(200).json({
+        success: true,
+        text,
+        engine: engine.name,
+      });
+    } catch (error: any) {
+      console.error("Error transcribing audio:", error);
       res.status(500).json({
         success: false,
         message: error.message || "Internal server error",
@@ -1,6 +1,8 @@
 import { Router, Request, Response } from "express";
 import { verifyFirebaseToken } from "../middlewares/firebaseAuth";
 import { analyzeText } from "../services/gemini.service";
+import { resolveEmailStyle, resolveUserTimeZone } from "../services/userProfile.service";
+import { ConversationTurn, parseConversation } from "../services/conversation.service";
 
 const router = Router();
 
@@ -12,7 +14,11 @@ router.post(
   verifyFirebaseToken,
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const { text } = req.body as { text?: string };
+      const { text, conversation: rawConversation, timeZone: requestedTimeZone } = req.body as {
+        text?: string;
+        conversation?: unknown;
+        timeZone?: string;
+      };
 
       if (!text || typeof text !== "string" || text.trim().length === 0) {
         res.status(400).json({
@@ -22,6 +28,17 @@ router.post(
         return;
       }
 
+      let conversation: ConversationTurn[];
+      try {
+        conversation = parseConversation(rawConversation);
+      } catch (conversationError: any) {
+        res.status(400).json({
+          success: false,
+          message: conversationError.message,
+        });
+        return;
+      }
+
       // 🔐 Safely extract username from Firebase middleware
       const userName =
         (req as any).user?.name ||
@@ -32,7 +49,13 @@ router.post(
       console.log("👤 User:", userName);
 
       // ✅ SINGLE Gemini call
-      const geminiResponse = await analyzeText(text.trim(), userName);
+      const timeZone = (req as any).user?.uid
+        ? await resolveUserTimeZone((req as any).user.uid, requestedTimeZone)
+        : undefined;
+      const emailStyle = (req as any).user?.uid
+        ? await resolveEmailStyle((req as any).user.uid)
+        : undefined;
+      const geminiResponse = await analyzeText(text.trim(), userName, { timeZone, emailStyle, conversation });
 
       res.status(200).json({
         success: true,
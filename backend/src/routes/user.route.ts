@@ -1,6 +1,14 @@
 import { Router, Response } from "express";
 import { verifyFirebaseToken, AuthenticatedRequest } from "../middlewares/firebaseAuth";
 import { getUserTokens } from "../services/googleOAuth.service";
+import {
+  getEmailPreferences,
+  getSchedulingPreferences,
+  parseEmailPreferences,
+  parseSchedulingPreferencesUpdate,
+  updateEmailPreferences,
+  updateSchedulingPreferences,
+} from "../services/userProfile.service";
 
 const router = Router();
 
@@ -42,5 +50,163 @@ router.get(
   }
 );
 
+/**
+ * GET /api/user/scheduling-preferences
+ * Working hours and other preferences used to rank free times
+ */
+router.get(
+  "/scheduling-preferences",
+  verifyFirebaseToken,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      if (!req.user?.uid) {
+        res.status(401).json({
+          success: false,
+          message: "User authentication failed",
+        });
+        return;
+      }
+
+      const preferences = await getSchedulingPreferences(req.user.uid);
+      res.json({
+        success: true,
+        preferences,
+      });
+    } catch (error: any) {
+      console.error("Error loading scheduling preferences:", error);
+      res.status(500).json({
+        success: false,
+        message: error.message || "Failed to load scheduling preferences",
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/user/scheduling-preferences
+ * Update some of the scheduling preferences; omitted fields are kept
+ */
+router.put(
+  "/scheduling-preferences",
+  verifyFirebaseToken,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user?.uid) {
+      res.status(401).json({
+        success: false,
+        message: "User authentication failed",
+      });
+      return;
+    }
+
+    let changes;
+    try {
+      changes = parseSchedulingPreferencesUpdate(req.body);
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    let preferences;
+    try {
+      preferences = await updateSchedulingPreferences(req.user.uid, changes);
+    } catch (error: any) {
+      console.error("Error updating scheduling preferences:", error);
+      res.status(500).json({
+        success: false,
+        message: error.message || "Failed to update scheduling preferences",
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: "Scheduling preferences updated",
+      preferences,
+    });
+  }
+);
+
+/**
+ * GET /api/user/email-preferences
+ * How composed emails are handled, e.g. saved as Gmail drafts instead of sent
+ */
+router.get(
+  "/email-preferences",
+  verifyFirebaseToken,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      if (!req.user?.uid) {
+        res.status(401).json({
+          success: false,
+          message: "User authentication failed",
+        });
+        return;
+      }
+
+      const preferences = await getEmailPreferences(req.user.uid);
+      res.json({
+        success: true,
+        preferences,
+      });
+    } catch (error: any) {
+      console.error("Error loading email preferences:", error);
+      res.status(500).json({
+        success: false,
+        message: error.message || "Failed to load email preferences",
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/user/email-preferences
+ * Update some of the email preferences; omitted fields are kept
+ */
+router.put(
+  "/email-preferences",
+  verifyFirebaseToken,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user?.uid) {
+      res.status(401).json({
+        success: false,
+        message: "User authentication failed",
+      });
+      return;
+    }
+
+    let changes;
+    try {
+      changes = parseEmailPreferences(req.body);
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    let preferences;
+    try {
+      preferences = await updateEmailPreferences(req.user.uid, changes);
+    } catch (error: any) {
+      console.error("Error updating email preferences:", error);
+      res.status(500).json({
+        success: false,
+        message: error.message || "Failed to update email preferences",
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: "Email preferences updated",
+      preferences,
+    });
+  }
+);
+
 export default router;
 
@@ -0,0 +1,480 @@
+import { ResponseSchema, Schema, SchemaType } from "@google/generative-ai";
+import type { GeminiResponse } from "../services/gemini.service";
+
+/* ================== FIELD SPECS ================== */
+
+interface BaseFieldSpec {
+  required?: boolean;
+  description?: string;
+}
+
+export type FieldSpec =
+  | (BaseFieldSpec & { type: "string"; format?: "date" | "time" })
+  | (BaseFieldSpec & { type: "number"; min?: number; max?: number; integer?: boolean })
+  | (BaseFieldSpec & { type: "boolean" })
+  | (BaseFieldSpec & { type: "enum"; values: readonly string[] })
+  | (BaseFieldSpec & { type: "array"; items: FieldSpec })
+  | (BaseFieldSpec & { type: "object"; fields: Record<string, FieldSpec> });
+
+export type ActionType = NonNullable<GeminiResponse["action"]>;
+
+export const ACTION_TYPES: readonly ActionType[] = ["calendar", "task", "email", "findTime", "query", "update", "delete", "unknown"];
+
+// How an existing event or task is described for update/delete
+const MATCH_SPEC: FieldSpec = {
+  type: "object",
+  required: true,
+  description: "The existing item the user means",
+  fields: {
+    title: { type: "string", description: "Words from its title, as said" },
+    when: { type: "string", description: "The user's own words for when it is, verbatim" },
+    date: { type: "string", format: "date", description: "Filled in from \"when\"" },
+    time: { type: "string", format: "time", description: "Filled in from \"when\"" },
+    attendee: { type: "string", description: "Someone it is with, as said" },
+  },
+};
+
+/**
+ * Declarative schema for every GeminiResponse variant.
+ * Used both to validate model output and to build the SDK's response schema.
+ */
+export const ACTION_SCHEMAS: Record<ActionType, Record<string, FieldSpec>> = {
+  calendar: {
+    title: { type: "string", required: true, description: "Short event title" },
+    when: { type: "string", description: "The user's own words for the date and time, verbatim" },
+    date: { type: "string", format: "date", required: true, description: "Event date, YYYY-MM-DD; filled in from \"when\"" },
+    time: { type: "string", format: "time", required: true, description: "Start time, 24-hour HH:MM; filled in from \"when\"" },
+    duration: { type: "number", integer: true, min: 1, max: 1440, description: "Length in minutes" },
+    location: { type: "string" },
+    description: { type: "string" },
+    repeat: { type: "string", description: "The user's own words for how the event repeats, verbatim" },
+    recurrence: {
+      type: "object",
+      description: "Filled in from \"repeat\"",
+      fields: {
+        frequency: { type: "enum", values: ["daily", "weekly", "monthly", "yearly"], required: true },
+        interval: { type: "number", integer: true, min: 1, max: 99 },
+        byWeekday: { type: "array", items: { type: "enum", values: ["mo", "tu", "we", "th", "fr", "sa", "su"] } },
+        setPosition: { type: "number", integer: true, min: -1, max: 4 },
+        byMonthDay: { type: "number", integer: true, min: 1, max: 31 },
+        until: { type: "string", format: "date" },
+        count: { type: "number", integer: true, min: 1, max: 730 },
+      },
+    },
+    attendees: {
+      type: "array",
+      items: { type: "string" },
+      description: "People to invite: email addresses, or names exactly as said",
+    },
+    conference: { type: "boolean", description: "Add a Google Meet link" },
+    sendUpdates: {
+      type: "enum",
+      values: ["all", "externalOnly", "none"],
+      description: "Who is emailed about the invitation; only when the user says",
+    },
+  },
+  task: {
+    title: { type: "string", required: true, description: "Short task title" },
+    when: { type: "string", description: "The user's own words for the due date and time, verbatim" },
+    dueDate: { type: "string", format: "date", description: "Due date, YYYY-MM-DD; filled in from \"when\"" },
+    dueTime: { type: "string", format: "time", description: "Due time, 24-hour HH:MM; filled in from \"when\"" },
+    priority: { type: "enum", values: ["low", "medium", "high"] },
+    duration: { type: "number", integer: true, min: 5, max: 480, description: "Minutes to block on the calendar" },
+    calendarBlock: { type: "boolean", description: "Only when the user asks to block time for the task" },
+    description: { type: "string" },
+    list: { type: "string", description: "Task list name, only when the user names one" },
+    createList: { type: "boolean", description: "Only when the user asks for a new list" },
+    parent: { type: "string", description: "Title of the task to add this under as a subtask, as said" },
+  },
+  email: {
+    recipient: { type: "string", required: true, description: "Recipient email addresses, comma-separated" },
+    cc: { type: "string", description: "Cc email addresses, comma-separated; only when the user says" },
+    bcc: { type: "string", description: "Bcc email addresses, comma-separated; only when the user says" },
+    subject: { type: "string", required: true },
+    body: { type: "string", required: true, description: "Email body without signature" },
+    saveAsDraft: { type: "boolean", description: "Only when the user asks to draft the email rather than send it" },
+    gmailDraftId: { type: "string", description: "Id of an existing Gmail draft to send or update, as said" },
+    emailType: { type: "enum", values: ["reply", "replyAll", "forward"], description: "Only when answering or passing on an existing email" },
+    thread: {
+      type: "object",
+      description: "The existing email to reply to or forward",
+      fields: {
+        from: { type: "string", description: "Who sent it, as said" },
+        subject: { type: "string", description: "Words from its subject, as said" },
+      },
+    },
+  },
+  findTime: {
+    title: { type: "string", description: "Short meeting title" },
+    when: { type: "string", description: "The user's own words for the days or part of the day to search, verbatim" },
+    duration: { type: "number", integer: true, min: 5, max: 480, description: "Meeting length in minutes" },
+    attendees: {
+      type: "array",
+      items: { type: "string" },
+      description: "People to meet: email addresses, or names exactly as said",
+    },
+    searchFrom: { type: "string", format: "date", description: "First day to search, YYYY-MM-DD; filled in from \"when\"" },
+    searchTo: { type: "string", format: "date", description: "Last day to search, YYYY-MM-DD; filled in from \"when\"" },
+    dayPart: { type: "enum", values: ["morning", "afternoon", "evening"], description: "Filled in from \"when\"" },
+    conference: { type: "boolean", description: "Add a Google Meet link when booked" },
+  },
+  query: {
+    question: {
+      type: "enum",
+      values: ["agenda", "nextEvent", "availability", "tasks"],
+      required: true,
+      description: "List events, find the next matching event, check whether a time is free, or list open tasks",
+    },
+    list: { type: "string", description: "tasks: the task list asked about, as said" },
+    overdue: { type: "boolean", description: "tasks: only tasks past their due date" },
+    when: { type: "string", description: "The user's own words for the day, range or time asked about, verbatim" },
+    about: { type: "string", description: "What the events are about, e.g. \"dentist\"; only when said" },
+    attendees: {
+      type: "array",
+      items: { type: "string" },
+      description: "People the events are with: email addresses, or names exactly as said",
+    },
+    date: { type: "string", format: "date", description: "Filled in from \"when\" when a time was asked about" },
+    time: { type: "string", format: "time", description: "Filled in from \"when\"" },
+    duration: { type: "number", integer: true, min: 5, max: 1440, description: "Length of the asked time in minutes" },
+    searchFrom: { type: "string", format: "date", description: "First day asked about; filled in from \"when\"" },
+    searchTo: { type: "string", format: "date", description: "Last day asked about; filled in from \"when\"" },
+    dayPart: { type: "enum", values: ["morning", "afternoon", "evening"], description: "Filled in from \"when\"" },
+  },
+  update: {
+    itemType: { type: "enum", values: ["event", "task"], required: true, description: "Change a calendar event or a task" },
+    match: MATCH_SPEC,
+    title: { type: "string", description: "New title, only when the user renames it" },
+    when: { type: "string", description: "The user's own words for the new date or time, verbatim" },
+    date: { type: "string", format: "date", description: "New event date; filled in from \"when\"" },
+    time: { type: "string", format: "time", description: "New start time; filled in from \"when\"" },
+    duration: { type: "number", integer: true, min: 1, max: 1440, description: "New length in minutes" },
+    location: { type: "string", description: "New location" },
+    description: { type: "string", description: "New description or notes" },
+    attendees: {
+      type: "array",
+      items: { type: "string" },
+      description: "People to add to the event: email addresses, or names exactly as said",
+    },
+    sendUpdates: {
+      type: "enum",
+      values: ["all", "externalOnly", "none"],
+      description: "Who is emailed about the change; only when the user says",
+    },
+    dueDate: { type: "string", format: "date", description: "New task due date; filled in from \"when\"" },
+    dueTime: { type: "string", format: "time", description: "New task due time; filled in from \"when\"" },
+    completed: { type: "boolean", description: "Mark the task done" },
+    targetId: { type: "string", description: "Set by the system once the item is chosen, or from an earlier result in the conversation" },
+    targetListId: { type: "string", description: "Set by the system once the item is chosen, or from an earlier result in the conversation" },
+  },
+  delete: {
+    itemType: { type: "enum", values: ["event", "task"], required: true, description: "Cancel a calendar event or delete a task" },
+    match: MATCH_SPEC,
+    targetId: { type: "string", description: "Set by the system once the item is chosen, or from an earlier result in the conversation" },
+    targetListId: { type: "string", description: "Set by the system once the item is chosen, or from an earlier result in the conversation" },
+  },
+  unknown: {
+    title: { type: "string" },
+    description: { type: "string" },
+  },
+};
+
+/* ================== VALIDATION ================== */
+
+export interface ValidationError {
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  value: GeminiResponse;
+  errors: ValidationError[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+// Values that reference an earlier action's result are resolved at execution time
+const REFERENCE_PATTERN = /\{\{\s*actions\[\d+\]\.\w+\s*\}\}/;
+
+function describe(value: unknown): string {
+  return JSON.stringify(value) ?? String(value);
+}
+
+function isRealDate(value: string): boolean {
+  const [year, month, day] = value.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Validate (and lightly coerce) a single value against its spec
+ * @returns The coerced value, or undefined when the value is missing
+ */
+function validateField(
+  spec: FieldSpec,
+  raw: unknown,
+  path: string,
+  errors: ValidationError[]
+): unknown {
+  // Treat null and blank strings as missing
+  if (raw === undefined || raw === null || (typeof raw === "string" && raw.trim() === "")) {
+    if (spec.required) {
+      errors.push({ path, message: "is required" });
+    }
+    return undefined;
+  }
+
+  switch (spec.type) {
+    case "string": {
+      if (typeof raw !== "string") {
+        errors.push({ path, message: `expected a string, got ${describe(raw)}` });
+        return undefined;
+      }
+      const value = raw.trim();
+      if (REFERENCE_PATTERN.test(value)) {
+        return value;
+      }
+      if (spec.format === "date" && (!DATE_PATTERN.test(value) || !isRealDate(value))) {
+        errors.push({ path, message: `expected a calendar date in YYYY-MM-DD format, got ${describe(raw)}` });
+        return undefined;
+      }
+      if (spec.format === "time" && !TIME_PATTERN.test(value)) {
+        errors.push({ path, message: `expected a 24-hour time in HH:MM format, got ${describe(raw)}` });
+        return undefined;
+      }
+      return value;
+    }
+
+    case "number": {
+      // Numeric strings like "60" are accepted; "an hour" is not
+      const value = typeof raw === "string" && /^\s*-?\d+(\.\d+)?\s*$/.test(raw) ? Number(raw) : raw;
+      if (typeof value !== "number" || !isFinite(value)) {
+        errors.push({ path, message: `expected a number, got ${describe(raw)}` });
+        return undefined;
+      }
+      if (spec.integer && !Number.isInteger(value)) {
+        errors.push({ path, message: `expected a whole number, got ${describe(raw)}` });
+        return undefined;
+      }
+      if (spec.min !== undefined && value < spec.min) {
+        errors.push({ path, message: `must be at least ${spec.min}, got ${value}` });
+        return undefined;
+      }
+      if (spec.max !== undefined && value > spec.max) {
+        errors.push({ path, message: `must be at most ${spec.max}, got ${value}` });
+        return undefined;
+      }
+      return value;
+    }
+
+    case "boolean": {
+      if (typeof raw === "boolean") return raw;
+      if (raw === "true" || raw === "false") return raw === "true";
+      errors.push({ path, message: `expected true or false, got ${describe(raw)}` });
+      return undefined;
+    }
+
+    case "enum": {
+      // Case-insensitive, but always returns the canonical spelling ("externalonly" → "externalOnly")
+      const value = typeof raw === "string"
+        ? spec.values.find((candidate) => candidate.toLowerCase() === raw.trim().toLowerCase())
+        : undefined;
+      if (value === undefined) {
+        errors.push({ path, message: `expected one of ${spec.values.map((v) => `"${v}"`).join(", ")}, got ${describe(raw)}` });
+        return undefined;
+      }
+      return value;
+    }
+
+    case "array": {
+      if (!Array.isArray(raw)) {
+        errors.push({ path, message: `expected an array, got ${describe(raw)}` });
+        return undefined;
+      }
+      return raw
+        .map((item, index) => validateField(spec.items, item, `${path}[${index}]`, errors))
+        .filter((item) => item !== undefined);
+    }
+
+    case "object": {
+      if (typeof raw !== "object" || Array.isArray(raw)) {
+        errors.push({ path, message: `expected an object, got ${describe(raw)}` });
+        return undefined;
+      }
+      return validateFields(spec.fields, raw as Record<string, unknown>, path, errors);
+    }
+  }
+}
+
+function validateFields(
+  fields: Record<string, FieldSpec>,
+  raw: Record<string, unknown>,
+  path: string,
+  errors: ValidationError[]
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [name, spec] of Object.entries(fields)) {
+    const value = validateField(spec, raw[name], path ? `${path}.${name}` : name, errors);
+    if (value !== undefined) {
+      result[name] = value;
+    }
+  }
+  return result;
+}
+
+// Email fields that come from the original when replying or forwarding
+const ORIGINAL_EMAIL_FIELDS: Record<string, string[]> = {
+  reply: ["recipient", "subject"],
+  replyall: ["recipient", "subject"],
+  forward: ["subject", "body"],
+};
+
+/**
+ * The field specs an action is validated against
+ * - An email that names an existing Gmail draft only needs the fields being changed
+ * - A reply takes its recipients and subject from the original; a forward, its subject and body
+ * - A change or cancellation with a targetId (chosen, or taken from the conversation) needs no match
+ */
+function schemaFor(action: ActionType, record: Record<string, unknown>): Record<string, FieldSpec> {
+  const schema = ACTION_SCHEMAS[action];
+  let optional: string[] = [];
+  if (action === "email") {
+    optional = typeof record.gmailDraftId === "string" && record.gmailDraftId.trim()
+      ? Object.keys(schema)
+      : ORIGINAL_EMAIL_FIELDS[typeof record.emailType === "string" ? record.emailType.trim().toLowerCase() : ""] || [];
+  } else if ((action === "update" || action === "delete") && typeof record.targetId === "string" && record.targetId.trim()) {
+    optional = ["match"];
+  }
+
+  if (optional.length === 0) {
+    return schema;
+  }
+  return Object.fromEntries(
+    Object.entries(schema).map(([name, spec]) => [name, optional.includes(name) ? { ...spec, required: false } : spec])
+  ) as Record<string, FieldSpec>;
+}
+
+/**
+ * Validate a single action object; unknown fields are dropped
+ */
+function validateAction(
+  raw: unknown,
+  path: string,
+  errors: ValidationError[]
+): GeminiResponse {
+  const prefix = path ? `${path}.` : "";
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    errors.push({ path: path || "(root)", message: `expected an object, got ${describe(raw)}` });
+    return { action: "unknown" };
+  }
+
+  const record = raw as Record<string, unknown>;
+  // Case-insensitive like enums, so "findtime" still means "findTime"
+  const action = typeof record.action === "string"
+    ? ACTION_TYPES.find((type) => type.toLowerCase() === (record.action as string).trim().toLowerCase())
+    : undefined;
+
+  if (!action) {
+    errors.push({
+      path: `${prefix}action`,
+      message: `expected one of ${ACTION_TYPES.map((t) => `"${t}"`).join(", ")}, got ${describe(record.action)}`,
+    });
+    return { action: "unknown" };
+  }
+
+  const fields = validateFields(schemaFor(action, record), record, path, errors);
+  return { action, ...fields };
+}
+
+/**
+ * Validate parsed model output against the GeminiResponse schema
+ * Handles both a single action and an { actions: [...] } compound response
+ */
+export function validateGeminiResponse(raw: unknown): ValidationResult {
+  const errors: ValidationError[] = [];
+
+  if (raw && typeof raw === "object" && !Array.isArray(raw) && "actions" in raw) {
+    const actions = (raw as { actions: unknown }).actions;
+    if (!Array.isArray(actions) || actions.length === 0) {
+      errors.push({ path: "actions", message: "expected a non-empty array of actions" });
+      return { valid: false, value: { action: "unknown" }, errors };
+    }
+
+    const value: GeminiResponse = {
+      actions: actions.map((item, index) => validateAction(item, `actions[${index}]`, errors)),
+    };
+    return { valid: errors.length === 0, value, errors };
+  }
+
+  const value = validateAction(raw, "", errors);
+  return { valid: errors.length === 0, value, errors };
+}
+
+/**
+ * Render validation errors for logs and repair prompts
+ */
+export function formatValidationErrors(errors: ValidationError[]): string {
+  return errors.map((error) => `- ${error.path}: ${error.message}`).join("\n");
+}
+
+/* ================== SDK RESPONSE SCHEMA ================== */
+
+function toSdkSchema(spec: FieldSpec): Schema {
+  const base = spec.description ? { description: spec.description } : {};
+  switch (spec.type) {
+    case "string":
+      return { type: SchemaType.STRING, ...base };
+    case "number":
+      return spec.integer ? { type: SchemaType.INTEGER, ...base } : { type: SchemaType.NUMBER, ...base };
+    case "boolean":
+      return { type: SchemaType.BOOLEAN, ...base };
+    case "enum":
+      return { type: SchemaType.STRING, format: "enum", enum: [...spec.values], ...base };
+    case "array":
+      return { type: SchemaType.ARRAY, items: toSdkSchema(spec.items), ...base };
+    case "object":
+      return {
+        type: SchemaType.OBJECT,
+        properties: Object.fromEntries(
+          Object.entries(spec.fields).map(([name, field]) => [name, toSdkSchema(field)])
+        ),
+        ...base,
+      };
+  }
+}
+
+/**
+ * The SDK schema has no union type, so every variant's fields are merged
+ * into one object and per-variant requirements are left to validateGeminiResponse
+ */
+function buildActionProperties(): Record<string, Schema> {
+  const properties: Record<string, Schema> = {
+    action: { type: SchemaType.STRING, format: "enum", enum: [...ACTION_TYPES] },
+  };
+  for (const fields of Object.values(ACTION_SCHEMAS)) {
+    for (const [name, spec] of Object.entries(fields)) {
+      if (!properties[name]) {
+        properties[name] = toSdkSchema(spec);
+      }
+    }
+  }
+  return properties;
+}
+
+export const GEMINI_RESPONSE_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    ...buildActionProperties(),
+    actions: {
+      type: SchemaType.ARRAY,
+      description: "Only for compound commands: each action in execution order",
+      items: {
+        type: SchemaType.OBJECT,
+        properties: buildActionProperties(),
+        required: ["action"],
+      },
+    },
+  },
+};
@@ -0,0 +1,222 @@
+import admin from "../firebaseAdmin";
+import { GeminiResponse } from "./gemini.service";
+import { DAY_PART_HOURS } from "../utils/availability";
+
+const DRAFTS_COLLECTION = "actionDrafts";
+
+export type ActionDraftStatus = "pending" | "committed" | "discarded";
+
+export interface ActionDraft {
+  id: string;
+  userId: string;
+  text: string;
+  actions: GeminiResponse[];
+  status: ActionDraftStatus;
+}
+
+/**
+ * Fields the user may edit on a draft action before committing it.
+ * The action type itself is never taken from the client.
+ */
+const EDITABLE_DRAFT_FIELDS: (keyof GeminiResponse)[] = [
+  "title",
+  "description",
+  "date",
+  "time",
+  "duration",
+  "location",
+  "attendees",
+  "conference",
+  "recipient",
+  "cc",
+  "bcc",
+  "subject",
+  "body",
+  "saveAsDraft",
+  "gmailDraftId",
+  "dueDate",
+  "dueTime",
+  "priority",
+  "calendarBlock",
+  "searchFrom",
+  "searchTo",
+  "dayPart",
+  "question",
+  "about",
+  "list",
+  "createList",
+  "parent",
+  "completed",
+  "overdue",
+];
+
+// Fields set by a checkbox in the review card
+const BOOLEAN_DRAFT_FIELDS: (keyof GeminiResponse)[] = ["conference", "createList", "completed", "overdue", "calendarBlock", "saveAsDraft"];
+
+const QUERY_QUESTIONS: NonNullable<GeminiResponse["question"]>[] = ["agenda", "nextEvent", "availability", "tasks"];
+
+/**
+ * Firestore rejects undefined values, so strip them before writing
+ */
+function toFirestoreActions(actions: GeminiResponse[]): GeminiResponse[] {
+  return JSON.parse(JSON.stringify(actions));
+}
+
+/**
+ * Flatten a Gemini response into the list of actions it asks for
+ */
+export function getDraftActions(geminiResponse: GeminiResponse): GeminiResponse[] {
+  if (geminiResponse.actions && Array.isArray(geminiResponse.actions) && geminiResponse.actions.length > 0) {
+    return geminiResponse.actions;
+  }
+  return [geminiResponse];
+}
+
+/**
+ * Apply user edits to the stored draft actions
+ * Only whitelisted fields are copied; anything else in the edit is ignored
+ */
+export function applyDraftEdits(
+  stored: GeminiResponse[],
+  edited: unknown
+): GeminiResponse[] {
+  if (!Array.isArray(edited)) {
+    return stored;
+  }
+
+  if (edited.length !== stored.length) {
+    throw new Error("Edited draft must contain the same number of actions");
+  }
+
+  return stored.map((action, index) => {
+    const edit = edited[index];
+    if (!edit || typeof edit !== "object") {
+      return action;
+    }
+
+    const merged: GeminiResponse = { ...action };
+    for (const field of EDITABLE_DRAFT_FIELDS) {
+      const value = (edit as Record<string, unknown>)[field];
+      if (value === undefined) continue;
+
+      if (field === "duration") {
+        const minutes = Number(value);
+        if (!isNaN(minutes) && minutes > 0) {
+          merged.duration = minutes;
+        }
+      } else if (field === "attendees") {
+        // Accept a list or the comma-separated text of the review field
+        const entries = Array.isArray(value) ? value : typeof value === "string" ? value.split(/[,;]/) : [];
+        merged.attendees = entries
+          .filter((entry): entry is string => typeof entry === "string")
+          .map((entry) => entry.trim())
+          .filter(Boolean);
+      } else if (field === "dayPart") {
+        // An empty choice means any time of day
+        if (value === "") {
+          delete merged.dayPart;
+        } else if (typeof value === "string" && Object.keys(DAY_PART_HOURS).includes(value)) {
+          merged.dayPart = value as GeminiResponse["dayPart"];
+        }
+      } else if (field === "question") {
+        if (QUERY_QUESTIONS.includes(value as NonNullable<GeminiResponse["question"]>)) {
+          merged.question = value as GeminiResponse["question"];
+        }
+      } else if (BOOLEAN_DRAFT_FIELDS.includes(field)) {
+        if (typeof value === "boolean") {
+          (merged as Record<string, unknown>)[field] = value;
+        }
+      } else if (typeof value === "string") {
+        (merged as Record<string, unknown>)[field] = value.trim();
+      }
+    }
+    return merged;
+  });
+}
+
+/**
+ * Persist a new pending draft for a user
+ */
+export async function createActionDraft(
+  userId: string,
+  text: string,
+  actions: GeminiResponse[]
+): Promise<ActionDraft> {
+  const db = admin.firestore();
+  const docRef = await db.collection(DRAFTS_COLLECTION).add({
+    userId,
+    text,
+    actions: toFirestoreActions(actions),
+    status: "pending",
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  console.log("📝 Action draft created:", docRef.id);
+  return {
+    id: docRef.id,
+    userId,
+    text,
+    actions,
+    status: "pending",
+  };
+}
+
+/**
+ * Load a draft owned by the given user
+ * @returns The draft, or null if it does not exist or belongs to someone else
+ */
+export async function getActionDraft(
+  userId: string,
+  draftId: string
+): Promise<ActionDraft | null> {
+  const db = admin.firestore();
+  const doc = await db.collection(DRAFTS_COLLECTION).doc(draftId).get();
+
+  if (!doc.exists) {
+    return null;
+  }
+
+  const data = doc.data();
+  if (data?.userId !== userId) {
+    console.warn("⚠️  Draft", draftId, "does not belong to user", userId);
+    return null;
+  }
+
+  return {
+    id: doc.id,
+    userId: data.userId,
+    text: data.text || "",
+    actions: data.actions || [],
+    status: data.status || "pending",
+  };
+}
+
+/**
+ * Move a pending draft to a new status, storing the actions that were finally used
+ * Runs in a transaction, so of two concurrent commits (or a commit racing a discard or
+ * a clarification) only one gets the draft.
+ * @returns The status the draft had; anything but "pending" means it was left unchanged
+ */
+export async function claimActionDraft(
+  draftId: string,
+  status: ActionDraftStatus,
+  actions?: GeminiResponse[]
+): Promise<ActionDraftStatus> {
+  const db = admin.firestore();
+  const docRef = db.collection(DRAFTS_COLLECTION).doc(draftId);
+
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(docRef);
+    const current: ActionDraftStatus = snapshot.data()?.status || "pending";
+    if (current !== "pending") {
+      return current;
+    }
+    transaction.update(docRef, {
+      status,
+      ...(actions && { actions: toFirestoreActions(actions) }),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return current;
+  });
+}
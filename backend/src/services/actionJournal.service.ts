@@ -0,0 +1,300 @@
+import admin from "../firebaseAdmin";
+import { deleteCalendarEvent } from "./googleCalendar.service";
+import { deleteTask } from "./googleTasks.service";
+import { deleteDraft, sendRawEmail, trashEmail } from "./googleGmail.service";
+
+const JOURNAL_COLLECTION = "actionJournal";
+
+/**
+ * How long (in seconds) an executed action can be undone.
+ * Configure with ACTION_UNDO_WINDOW_SECONDS (default 30).
+ */
+export function getUndoWindowSeconds(): number {
+  const configured = Number(process.env.ACTION_UNDO_WINDOW_SECONDS);
+  return !isNaN(configured) && configured > 0 ? configured : 30;
+}
+
+/**
+ * When GMAIL_DELAY_SEND=true, emails are held for the undo window
+ * and only delivered once it has passed, so "undo send" prevents delivery.
+ */
+export function isEmailSendDelayed(): boolean {
+  return process.env.GMAIL_DELAY_SEND === "true";
+}
+
+export type JournalStatus =
+  | "executed"   // Google resource exists and can still be removed
+  | "scheduled"  // Email held back, waiting for the undo window to pass
+  | "sent"       // Scheduled email has been delivered
+  | "undone"     // Reversed by the user
+  | "failed";    // Scheduled email could not be delivered
+
+export interface ActionJournalEntry {
+  id: string;
+  userId: string;
+  action: "calendar" | "task" | "email";
+  status: JournalStatus;
+  resourceId?: string;
+  taskListId?: string;
+  blockEventId?: string; // task: the calendar block created alongside it
+  gmailDraftId?: string; // email: saved as a Gmail draft rather than sent
+  threadId?: string;
+  title?: string;
+  command?: string;
+  undoDeadline: number; // ms since epoch
+}
+
+export interface NewJournalEntry {
+  action: ActionJournalEntry["action"];
+  status?: "executed" | "scheduled";
+  resourceId?: string;
+  taskListId?: string;
+  blockEventId?: string;
+  gmailDraftId?: string;
+  threadId?: string;
+  title?: string;
+  command?: string;
+  rawMessage?: string;
+}
+
+/**
+ * Record an executed (or scheduled) action in the user's journal
+ * @returns The journal entry id and the time until which it can be undone
+ */
+export async function recordAction(
+  userId: string,
+  entry: NewJournalEntry
+): Promise<{ id: string; undoDeadline: number }> {
+  const db = admin.firestore();
+  const undoDeadline = Date.now() + getUndoWindowSeconds() * 1000;
+  const status = entry.status || "executed";
+
+  const docRef = await db.collection(JOURNAL_COLLECTION).add({
+    userId,
+    action: entry.action,
+    status,
+    resourceId: entry.resourceId || null,
+    taskListId: entry.taskListId || null,
+    blockEventId: entry.blockEventId || null,
+    gmailDraftId: entry.gmailDraftId || null,
+    threadId: entry.threadId || null,
+    title: entry.title || "",
+    command: entry.command || "",
+    undoDeadline,
+    // Only scheduled emails carry a send time, so the sweeper's range query stays index-free
+    ...(status === "scheduled" && {
+      rawMessage: entry.rawMessage,
+      sendAt: admin.firestore.Timestamp.fromMillis(undoDeadline),
+    }),
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  console.log(`📓 Journaled ${entry.action} action:`, docRef.id, `(status: ${status})`);
+  return { id: docRef.id, undoDeadline };
+}
+
+/**
+ * Load a journal entry owned by the given user
+ */
+export async function getJournalEntry(
+  userId: string,
+  entryId: string
+): Promise<ActionJournalEntry | null> {
+  const db = admin.firestore();
+  const doc = await db.collection(JOURNAL_COLLECTION).doc(entryId).get();
+
+  if (!doc.exists) {
+    return null;
+  }
+
+  const data = doc.data();
+  if (data?.userId !== userId) {
+    return null;
+  }
+
+  return {
+    id: doc.id,
+    userId: data.userId,
+    action: data.action,
+    status: data.status,
+    resourceId: data.resourceId || undefined,
+    taskListId: data.taskListId || undefined,
+    blockEventId: data.blockEventId || undefined,
+    gmailDraftId: data.gmailDraftId || undefined,
+    threadId: data.threadId || undefined,
+    title: data.title || "",
+    command: data.command || "",
+    undoDeadline: data.undoDeadline || 0,
+  };
+}
+
+export type UndoFailure =
+  | "notFound"     // No such entry for this user
+  | "notUndoable"  // Already undone, or a scheduled email that was sent or failed
+  | "expired";     // The undo window has passed
+
+/**
+ * Why an action could not be undone; anything else thrown by undoAction is a server error
+ */
+export class UndoError extends Error {
+  constructor(readonly reason: UndoFailure, message: string) {
+    super(message);
+    this.name = "UndoError";
+  }
+}
+
+/**
+ * Reverse a journaled action if it is still inside its undo window
+ * - calendar: deletes the event
+ * - task: deletes the task and its calendar block
+ * - email: cancels delivery if still scheduled, deletes a saved draft,
+ *   otherwise trashes the sent message
+ */
+export async function undoAction(
+  userId: string,
+  entryId: string
+): Promise<{ entry: ActionJournalEntry; message: string }> {
+  const entry = await getJournalEntry(userId, entryId);
+  if (!entry) {
+    throw new UndoError("notFound", "Action not found");
+  }
+
+  if (entry.status !== "executed" && entry.status !== "scheduled") {
+    throw new UndoError("notUndoable", `Action cannot be undone (status: ${entry.status})`);
+  }
+
+  if (Date.now() > entry.undoDeadline) {
+    throw new UndoError("expired", "Undo window has expired");
+  }
+
+  const db = admin.firestore();
+  const docRef = db.collection(JOURNAL_COLLECTION).doc(entry.id);
+  let message: string;
+
+  if (entry.status === "scheduled") {
+    // Claim the entry in a transaction so the sweeper can't send it concurrently
+    const cancelled = await db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(docRef);
+      if (snapshot.data()?.status !== "scheduled") {
+        return false;
+      }
+      transaction.update(docRef, {
+        status: "undone",
+        sendAt: admin.firestore.FieldValue.delete(),
+        rawMessage: admin.firestore.FieldValue.delete(),
+        undoneAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return true;
+    });
+
+    if (!cancelled) {
+      throw new UndoError("notUndoable", "Email has already been sent");
+    }
+    message = "📧 Email cancelled before it was sent";
+  } else {
+    if (!entry.resourceId && !entry.gmailDraftId) {
+      throw new Error("Action has no Google resource to undo");
+    }
+
+    switch (entry.action) {
+      case "calendar":
+        await deleteCalendarEvent(userId, entry.resourceId!);
+        message = "📅 Calendar event deleted";
+        break;
+      case "task":
+        await deleteTask(userId, entry.taskListId || "@default", entry.resourceId!);
+        if (entry.blockEventId) {
+          await deleteCalendarEvent(userId, entry.blockEventId);
+        }
+        message = entry.blockEventId ? "✅ Task and its calendar block deleted" : "✅ Task deleted";
+        break;
+      case "email":
+        if (entry.gmailDraftId) {
+          await deleteDraft(userId, entry.gmailDraftId);
+          message = "📝 Gmail draft deleted";
+          break;
+        }
+        await trashEmail(userId, entry.resourceId!);
+        message = "📧 Sent email moved to trash";
+        break;
+      default:
+        throw new Error(`Unknown action type: ${entry.action}`);
+    }
+
+    await docRef.update({
+      status: "undone",
+      undoneAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+
+  console.log("↩️  Undid action:", entry.id, `(${entry.action})`);
+  return { entry: { ...entry, status: "undone" }, message };
+}
+
+/**
+ * Deliver scheduled emails whose undo window has passed
+ */
+export async function sendDueScheduledEmails(): Promise<void> {
+  const db = admin.firestore();
+  const due = await db
+    .collection(JOURNAL_COLLECTION)
+    .where("sendAt", "<=", admin.firestore.Timestamp.now())
+    .limit(20)
+    .get();
+
+  for (const doc of due.docs) {
+    // Claim the entry first so an undo racing with us wins or loses cleanly
+    const claimed = await db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(doc.ref);
+      const data = snapshot.data();
+      if (data?.status !== "scheduled") {
+        return null;
+      }
+      transaction.update(doc.ref, {
+        status: "sent",
+        sendAt: admin.firestore.FieldValue.delete(),
+        rawMessage: admin.firestore.FieldValue.delete(),
+      });
+      return data;
+    });
+
+    if (!claimed) continue;
+
+    try {
+      const sent = await sendRawEmail(claimed.userId, claimed.rawMessage, claimed.threadId || undefined);
+      await doc.ref.update({
+        resourceId: sent.id || null,
+        threadId: sent.threadId || null,
+        sentAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      console.log("✅ Scheduled email delivered:", doc.id);
+    } catch (error: any) {
+      console.error("❌ Failed to deliver scheduled email:", doc.id, error.message);
+      await doc.ref.update({
+        status: "failed",
+        error: error.message || "Failed to send email",
+      });
+    }
+  }
+}
+
+/**
+ * Periodically deliver scheduled emails
+ * @returns A function that stops the sweeper
+ */
+export function startScheduledEmailSweeper(intervalMs: number = 5000): () => void {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await sendDueScheduledEmails();
+    } catch (error: any) {
+      console.error("❌ Scheduled email sweep failed:", error.message);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
@@ -1,7 +1,37 @@
+import { calendar_v3 } from "googleapis";
 import { GeminiResponse } from "./gemini.service";
-import { createCalendarEvent } from "./googleCalendar.service";
-import { createTask } from "./googleTasks.service";
-import { sendEmail } from "./googleGmail.service";
+import { CalendarConflict, checkEventConflicts, createCalendarEvent } from "./googleCalendar.service";
+import {
+  CreatedTask,
+  createTask,
+  formatDueTime,
+  isTaskCalendarBlockEnabled,
+  listOpenTasks,
+  plainTaskTitle,
+  readTaskDetails,
+} from "./googleTasks.service";
+import { MeetingTimeSearch, findMeetingTimes } from "./scheduling.service";
+import { AgendaEvent, CalendarAnswer, answerCalendarQuery } from "./calendarQuery.service";
+import { EditPreview, EditTarget, applyEdit, findEditTargets, previewEdit } from "./itemEdit.service";
+import {
+  EmailAttachment,
+  EmailThreadContext,
+  composeEmail,
+  createDraft,
+  draftLink,
+  getDraft,
+  sendDraft,
+  sendEmail,
+  updateDraft,
+} from "./googleGmail.service";
+import { getEmailPreferences } from "./userProfile.service";
+import { ActionContacts, resolveActionContacts } from "./googleContacts.service";
+import { clarificationQuestion, missingSlots } from "./clarification.service";
+import { draftReplyContext, resolveEmailThread, threadContext } from "./emailThread.service";
+import { isEmailSendDelayed, recordAction, NewJournalEntry } from "./actionJournal.service";
+import { getDefaultTimeZone, resolveDate, toZonedIso, zonedDateTimeToInstant } from "../utils/temporalResolver";
+import { RecurrenceRule, describeRecurrence, listOccurrences, toRRule } from "../utils/recurrence";
+import { toLocalDate, toLocalTime } from "../utils/availability";
 
 export interface ActionResult {
   success: boolean;
@@ -9,6 +39,34 @@ export interface ActionResult {
   message: string;
   data?: any;
   requiresAuth?: boolean;
+  undo?: UndoInfo;
+  status?: "conflict" | "ambiguous" | "preview" | "needsClarification"; // Not executed: the user has to choose how to proceed, or say more
+}
+
+export interface UndoInfo {
+  journalId: string;
+  expiresAt: string; // ISO timestamp
+}
+
+export interface RouteOptions {
+  command?: string;  // Original user command, stored in the action journal
+  timeZone?: string; // User's IANA time zone for dates and result formatting
+  allowConflicts?: boolean; // Book calendar events even when the time is already taken
+  confirmChanges?: boolean; // Apply an update/delete instead of previewing it
+  attachments?: EmailAttachment[]; // Files to attach to the email actions
+  onProgress?: (progress: ActionProgress) => void; // Told as each action of a command starts and ends
+}
+
+/**
+ * One step of a multi-action run, for live progress
+ * "failed" includes actions held back for the user (a conflict, a preview); see result.status.
+ */
+export interface ActionProgress {
+  stage: "started" | "succeeded" | "failed";
+  index: number; // Position of the action in the command
+  total: number;
+  action: string;
+  result?: ActionResult; // Once the action has ended
 }
 
 export interface MultiActionResult {
@@ -20,67 +78,870 @@ export interface MultiActionResult {
   failedActions: number;
 }
 
+/**
+ * Record an executed action so it can be undone
+ * Journal failures are logged but never fail the action itself
+ */
+async function journalAction(
+  userId: string,
+  entry: NewJournalEntry
+): Promise<UndoInfo | undefined> {
+  try {
+    const { id, undoDeadline } = await recordAction(userId, entry);
+    return {
+      journalId: id,
+      expiresAt: new Date(undoDeadline).toISOString(),
+    };
+  } catch (error: any) {
+    console.error("⚠️  Failed to journal action:", error.message);
+    return undefined;
+  }
+}
+
+/**
+ * Format a date-only value (YYYY-MM-DD or a Tasks due timestamp) for display
+ * Task due dates are stored as UTC midnight, so they are formatted in UTC
+ * to show the same calendar day in every zone
+ */
+function formatDay(value: string): string {
+  const date = new Date(value.length === 10 ? `${value}T00:00:00.000Z` : value);
+  return date.toLocaleDateString(undefined, { timeZone: "UTC" });
+}
+
+/**
+ * A task's due day, with the time when it has one, e.g. "10/20/2026, 3:00 PM"
+ */
+function formatTaskDue(due: string, dueTime?: string): string {
+  return dueTime ? `${formatDay(due)}, ${formatDueTime(dueTime)}` : formatDay(due);
+}
+
+// Length of a task's calendar block when the user did not say
+const TASK_BLOCK_MINUTES = 30;
+
+/**
+ * Block a time-bound task's due time on the calendar, when asked or configured to
+ * The block is the task's reminder on the calendar, so it is booked even if the time is taken.
+ */
+async function createTaskBlock(
+  userId: string,
+  geminiResponse: GeminiResponse,
+  task: CreatedTask,
+  timeZone: string
+): Promise<calendar_v3.Schema$Event | undefined> {
+  const { dueTime } = readTaskDetails(task);
+  if (!dueTime || !task.due || !(geminiResponse.calendarBlock ?? isTaskCalendarBlockEnabled())) {
+    return undefined;
+  }
+
+  return createCalendarEvent(userId, {
+    action: "calendar",
+    title: plainTaskTitle(task.title),
+    date: task.due.slice(0, 10),
+    time: dueTime,
+    duration: geminiResponse.duration || TASK_BLOCK_MINUTES,
+    description: `Time set aside for the task "${plainTaskTitle(task.title)}"` +
+      (task.taskListTitle ? ` on your "${task.taskListTitle}" list.` : "."),
+  }, timeZone);
+}
+
+/**
+ * Short label for a bookable slot, e.g. "Tue, Oct 27, 3:00 PM"
+ */
+function formatSlotLabel(date: Date, timeZone: string): string {
+  return date.toLocaleString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone,
+  });
+}
+
+/**
+ * Check a calendar action for clashes
+ * A failed check is logged and treated as free so it never blocks booking
+ */
+async function findConflict(
+  userId: string,
+  geminiResponse: GeminiResponse,
+  timeZone: string
+): Promise<CalendarConflict | null> {
+  try {
+    return await checkEventConflicts(userId, geminiResponse, timeZone);
+  } catch (error: any) {
+    console.warn("⚠️  Conflict check failed, booking anyway:", error.message);
+    return null;
+  }
+}
+
+/**
+ * Ask which person the user meant by a name that matched several people, or only roughly
+ * Choosing one puts their address in place of the name in the pending action.
+ */
+function contactChoiceResult(
+  geminiResponse: GeminiResponse,
+  choice: Extract<ActionContacts, { status: "ambiguous" }>
+): ActionResult {
+  const [only] = choice.candidates;
+  return {
+    success: false,
+    action: geminiResponse.action!,
+    status: "ambiguous",
+    message: choice.candidates.length === 1
+      ? `🤔 By "${choice.name}", did you mean ${only.name || only.email} (${only.email})?`
+      : `🤔 ${choice.candidates.length} people could be "${choice.name}". Which one do you mean?`,
+    data: {
+      contact: {
+        field: choice.field,
+        name: choice.name,
+        candidates: choice.candidates.map(({ name, email, source }) => ({ name, email, source })),
+      },
+      pendingAction: geminiResponse,
+    },
+  };
+}
+
+/**
+ * Describe a clash so the user can pick a suggested slot or book anyway
+ * The pending action is returned with each suggestion's date/time ready to resubmit
+ */
+function conflictResult(
+  geminiResponse: GeminiResponse,
+  conflict: CalendarConflict,
+  timeZone: string
+): ActionResult {
+  const formatTime = (date: Date) => date.toLocaleString(undefined, { timeZone });
+  const names = conflict.conflicts.map((event) => `"${event.title}"`).join(", ");
+
+  return {
+    success: false,
+    action: "calendar",
+    status: "conflict",
+    message: `⚠️ That time clashes with ${names}. Pick another time or book it anyway.`,
+    data: {
+      title: geminiResponse.title,
+      start: formatTime(conflict.requested.start),
+      end: formatTime(conflict.requested.end),
+      conflicts: conflict.conflicts.map((event) => ({
+        id: event.id,
+        title: event.title,
+        start: formatTime(event.start),
+        end: formatTime(event.end),
+      })),
+      suggestions: conflict.suggestions.map((slot) => ({
+        date: toLocalDate(slot.start, timeZone),
+        time: toLocalTime(slot.start, timeZone),
+        label: formatSlotLabel(slot.start, timeZone),
+        startISO: toZonedIso(slot.start, timeZone),
+        endISO: toZonedIso(slot.end, timeZone),
+      })),
+      pendingAction: geminiResponse,
+    },
+  };
+}
+
+/**
+ * Present ranked free times; each comes with the date/time to book it as a calendar action
+ */
+function timeSearchResult(
+  geminiResponse: GeminiResponse,
+  search: MeetingTimeSearch,
+  timeZone: string
+): ActionResult {
+  const range = search.from === search.to
+    ? formatDay(search.from)
+    : `${formatDay(search.from)} – ${formatDay(search.to)}`;
+  const window = search.dayPart ? `${range}, ${search.dayPart}s` : range;
+
+  return {
+    success: search.slots.length > 0,
+    action: "findTime",
+    message: search.slots.length > 0
+      ? `🗓️ Found ${search.slots.length} time${search.slots.length > 1 ? "s" : ""} for ${search.duration} minutes. Pick one to book it.`
+      : `No free ${search.duration}-minute slot found (${window}). Try a wider range or a shorter meeting.`,
+    data: {
+      title: search.title,
+      duration: search.duration,
+      window,
+      attendees: search.attendees,
+      unavailable: search.unavailable,
+      slots: search.slots.map((slot) => ({
+        date: toLocalDate(slot.start, timeZone),
+        time: toLocalTime(slot.start, timeZone),
+        label: formatSlotLabel(slot.start, timeZone),
+        startISO: toZonedIso(slot.start, timeZone),
+        endISO: toZonedIso(slot.end, timeZone),
+        score: slot.score,
+        reasons: slot.reasons,
+      })),
+      // Booking a slot fills in date and time; attendees are already resolved to addresses
+      pendingAction: {
+        action: "calendar",
+        title: search.title,
+        duration: search.duration,
+        ...(search.attendees.length > 0 && { attendees: search.attendees.map((attendee) => attendee.email) }),
+        ...(geminiResponse.conference !== undefined && { conference: geminiResponse.conference }),
+      },
+    },
+  };
+}
+
+/**
+ * Change or cancel an existing event or task
+ * Nothing is applied until the user has seen which item matched and what will change:
+ * several close matches ask the user to choose, and one match returns a preview to confirm.
+ */
+async function editItem(
+  userId: string,
+  geminiResponse: GeminiResponse,
+  options: RouteOptions,
+  timeZone: string
+): Promise<ActionResult> {
+  const action = geminiResponse.action!;
+  const noun = geminiResponse.itemType === "task" ? "task" : "event";
+  const targets = await findEditTargets(userId, geminiResponse, timeZone);
+
+  if (targets.length === 0) {
+    const described = geminiResponse.match?.title ? ` matching "${geminiResponse.match.title}"` : "";
+    return {
+      success: false,
+      action,
+      message: `No ${noun}${described} found${noun === "event" ? " on your calendar" : " in your open tasks"}.`,
+    };
+  }
+
+  if (targets.length > 1) {
+    return {
+      success: false,
+      action,
+      status: "ambiguous",
+      message: `🤔 ${targets.length} ${noun}s match. Which one do you mean?`,
+      data: {
+        itemType: noun,
+        operation: action,
+        candidates: targets.map((target) => describeTarget(target)),
+        pendingAction: geminiResponse,
+      },
+    };
+  }
+
+  const preview = await previewEdit(userId, targets[0], geminiResponse, timeZone);
+  const target = describeTarget(preview.target);
+
+  if (action === "update" && preview.changes.length === 0) {
+    return {
+      success: false,
+      action,
+      message: `Nothing to change: "${target.title}" already looks like that.`,
+    };
+  }
+
+  if (!options.confirmChanges) {
+    return editPreviewResult(geminiResponse, preview);
+  }
+
+  await applyEdit(userId, geminiResponse, preview);
+  const verb = action === "delete"
+    ? (noun === "event" ? "cancelled" : "deleted")
+    : geminiResponse.completed ? "marked done" : "updated";
+
+  return {
+    success: true,
+    action,
+    message: `${noun === "event" ? "📅" : "✅"} ${noun === "event" ? "Event" : "Task"} "${target.title}" ${verb}`,
+    data: {
+      itemType: noun,
+      operation: action,
+      target,
+      changes: preview.changes,
+    },
+  };
+}
+
+/**
+ * The parts of a matched event or task the user needs to recognise it
+ */
+function describeTarget(target: EditTarget) {
+  return {
+    id: target.id,
+    taskListId: target.taskListId,
+    title: target.title,
+    when: target.when,
+  };
+}
+
+/**
+ * Show what an update or delete will do; the pending action carries the chosen item to confirm it
+ */
+function editPreviewResult(geminiResponse: GeminiResponse, preview: EditPreview): ActionResult {
+  const target = describeTarget(preview.target);
+  const noun = preview.target.kind;
+
+  return {
+    success: false,
+    action: geminiResponse.action!,
+    status: "preview",
+    message: geminiResponse.action === "delete"
+      ? `🗑️ ${noun === "event" ? "Cancel" : "Delete"} "${target.title}" (${target.when})? Confirm to go ahead.`
+      : geminiResponse.completed && preview.changes.length === 1
+        ? `☑️ Mark "${target.title}" as done? Confirm to go ahead.`
+        : `✏️ Here's what will change on "${target.title}". Confirm to apply it.`,
+    data: {
+      itemType: noun,
+      operation: geminiResponse.action,
+      target,
+      changes: preview.changes,
+      pendingAction: {
+        ...geminiResponse,
+        targetId: target.id,
+        ...(target.taskListId && { targetListId: target.taskListId }),
+      },
+    },
+  };
+}
+
+/**
+ * Short label for an agenda day, e.g. "Tue, Oct 27"
+ */
+function formatAgendaDay(date: string): string {
+  return new Date(`${date}T12:00:00.000Z`).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Time span of an agenda event in the user's zone, e.g. "9:00 AM – 9:30 AM"
+ */
+function formatEventSpan(event: AgendaEvent, timeZone: string): string {
+  if (event.allDay) {
+    return "All day";
+  }
+  const format = (date: Date) => date.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit", timeZone });
+  return `${format(event.start)} – ${format(event.end)}`;
+}
+
+/**
+ * Answer a calendar question in one sentence, with the events grouped by day for an agenda card
+ */
+function calendarAnswerResult(
+  geminiResponse: GeminiResponse,
+  answer: CalendarAnswer,
+  timeZone: string
+): ActionResult {
+  const range = answer.from === answer.to
+    ? formatAgendaDay(answer.from)
+    : `${formatAgendaDay(answer.from)} – ${formatAgendaDay(answer.to)}`;
+  const asked = answer.interval
+    ? `${formatSlotLabel(answer.interval.start, timeZone)} – ${toLocalTime(answer.interval.end, timeZone)}`
+    : answer.dayPart ? `${range}, ${answer.dayPart}` : range;
+
+  const titles = answer.events.map((event) => `"${event.title}"`).join(", ");
+  const withWhom = geminiResponse.attendees?.length ? ` with ${geminiResponse.attendees.join(", ")}` : "";
+  const what = geminiResponse.about ? ` "${geminiResponse.about}"` : " event";
+  let message: string;
+
+  switch (answer.question) {
+    case "nextEvent":
+      const next = answer.events[0];
+      message = next
+        ? `📅 Your next${what}${withWhom} is "${next.title}", ${next.allDay ? formatAgendaDay(toLocalDate(next.start, timeZone)) : formatSlotLabel(next.start, timeZone)}.`
+        : `📅 No upcoming${what}${withWhom} found on your calendar.`;
+      break;
+    case "availability":
+      message = answer.free
+        ? `✅ You're free ${asked}.`
+        : `⛔ You're busy ${asked}: ${titles}.`;
+      break;
+    default:
+      message = answer.events.length > 0
+        ? `📅 You have ${answer.events.length} event${answer.events.length > 1 ? "s" : ""}${withWhom} (${asked}).`
+        : `📅 Nothing on your calendar${withWhom} (${asked}).`;
+  }
+
+  // Group by the local day each event starts on; events already under way count from the first day
+  const days: { date: string; label: string; events: any[] }[] = [];
+  for (const event of answer.events) {
+    const start = toLocalDate(event.start, timeZone);
+    const date = start < answer.from ? answer.from : start;
+    let day = days.find((entry) => entry.date === date);
+    if (!day) {
+      day = { date, label: formatAgendaDay(date), events: [] };
+      days.push(day);
+    }
+    day.events.push({
+      id: event.id,
+      title: event.title,
+      time: formatEventSpan(event, timeZone),
+      startISO: toZonedIso(event.start, timeZone),
+      endISO: toZonedIso(event.end, timeZone),
+      allDay: event.allDay,
+      location: event.location,
+      attendees: event.attendees,
+      meetLink: event.meetLink,
+      link: event.link,
+    });
+  }
+
+  return {
+    success: true,
+    action: "query",
+    message,
+    data: {
+      question: answer.question,
+      range: asked,
+      ...(answer.free !== undefined && { free: answer.free }),
+      days,
+    },
+  };
+}
+
+/**
+ * List the user's open (or only overdue) tasks, grouped by list with subtasks under their parents
+ */
+async function taskQueryResult(
+  userId: string,
+  geminiResponse: GeminiResponse,
+  timeZone: string
+): Promise<ActionResult> {
+  const today = resolveDate("today", { timeZone })!;
+  const now = toLocalTime(new Date(), timeZone);
+  // A task due at a time of day is overdue once that time has passed
+  const overdue = (task: CreatedTask) => {
+    if (!task.due) return false;
+    const dueTime = readTaskDetails(task).dueTime;
+    return task.due.slice(0, 10) < today || (task.due.slice(0, 10) === today && !!dueTime && dueTime < now);
+  };
+  const onlyOverdue = !!geminiResponse.overdue;
+
+  const open = await listOpenTasks(userId, geminiResponse.list);
+  const byPosition = (a: CreatedTask, b: CreatedTask) => (a.position || "").localeCompare(b.position || "");
+
+  const lists: { id: string; title: string; tasks: any[] }[] = [];
+  for (const task of open) {
+    if (onlyOverdue && !overdue(task)) continue;
+    let list = lists.find((entry) => entry.id === task.taskListId);
+    if (!list) {
+      list = { id: task.taskListId || "@default", title: task.taskListTitle || "My Tasks", tasks: [] };
+      lists.push(list);
+    }
+    list.tasks.push(task);
+  }
+
+  // Google returns tasks by position within their parent; show each parent followed by its subtasks
+  for (const list of lists) {
+    const tasks: CreatedTask[] = list.tasks;
+    const parents = tasks.filter((task) => !task.parent || !tasks.some((other) => other.id === task.parent)).sort(byPosition);
+    list.tasks = parents.flatMap((parent) => [
+      parent,
+      ...tasks.filter((task) => task.parent === parent.id).sort(byPosition),
+    ]).map((task) => {
+      const details = readTaskDetails(task);
+      return {
+        id: task.id,
+        title: plainTaskTitle(task.title) || "(No title)",
+        due: task.due ? formatTaskDue(task.due, details.dueTime) : undefined,
+        dueDate: task.due?.slice(0, 10),
+        dueTime: details.dueTime,
+        priority: details.priority || "medium",
+        overdue: overdue(task),
+        notes: details.notes || undefined,
+        subtask: !parents.includes(task),
+      };
+    });
+  }
+
+  const count = lists.reduce((total, list) => total + list.tasks.length, 0);
+  const where = geminiResponse.list && lists[0] ? ` on "${lists[0].title}"` : "";
+  const noun = `${onlyOverdue ? "overdue " : "open "}task${count === 1 ? "" : "s"}`;
+  const message = count === 0
+    ? onlyOverdue ? `✅ Nothing overdue${where}.` : `✅ No open tasks${where}.`
+    : `${onlyOverdue ? "⏰" : "📋"} You have ${count} ${noun}${where}.`;
+
+  console.log(`📋 Task query: ${count} task(s) in ${lists.length} list(s)`);
+
+  return {
+    success: true,
+    action: "query",
+    message,
+    data: {
+      question: "tasks",
+      overdue: onlyOverdue,
+      lists,
+    },
+  };
+}
+
+/**
+ * What kind of email this is, for result messages ("Reply sent successfully")
+ */
+function emailNoun(data: GeminiResponse): string {
+  switch (data.emailType) {
+    case "reply":
+    case "replyAll":
+      return "Reply";
+    case "forward":
+      return "Forwarded email";
+    default:
+      return "Email";
+  }
+}
+
+/**
+ * Whether the user saves emails as drafts by default
+ * A preference that cannot be loaded means sending, as before drafts existed
+ */
+async function prefersEmailDrafts(userId: string): Promise<boolean> {
+  try {
+    return (await getEmailPreferences(userId)).saveAsDraft;
+  } catch (error: any) {
+    console.warn("⚠️  Could not load email preferences:", error.message);
+    return false;
+  }
+}
+
+/**
+ * Save an email as a Gmail draft, or update or send an existing one
+ * - no gmailDraftId: a new draft is saved (undo deletes it)
+ * - gmailDraftId with saveAsDraft: the draft is updated with the given fields
+ * - gmailDraftId alone: the draft is sent, after applying any changed fields
+ */
+async function gmailDraftResult(
+  userId: string,
+  geminiResponse: GeminiResponse,
+  attachments: EmailAttachment[],
+  options: RouteOptions,
+  thread?: EmailThreadContext
+): Promise<ActionResult> {
+  const draftId = geminiResponse.gmailDraftId;
+
+  if (!draftId) {
+    const draft = await createDraft(userId, geminiResponse, attachments, thread);
+    const messageId = draft.message?.id || "";
+    return {
+      success: true,
+      action: "email",
+      message: `📝 Saved as a Gmail draft. Say "send draft ${draft.id}" when it is ready to go.`,
+      undo: await journalAction(userId, {
+        action: "email",
+        gmailDraftId: draft.id || undefined,
+        title: geminiResponse.subject,
+        command: options.command,
+      }),
+      data: {
+        draftId: draft.id,
+        messageId,
+        link: draftLink(messageId),
+        recipient: geminiResponse.recipient || "",
+        ...(geminiResponse.cc && { cc: geminiResponse.cc }),
+        ...(geminiResponse.bcc && { bcc: geminiResponse.bcc }),
+        subject: geminiResponse.subject || "",
+        body: geminiResponse.body || "",
+        ...(attachments.length > 0 && { attachments: attachments.map((attachment) => attachment.filename) }),
+        ...(geminiResponse.original && { emailType: geminiResponse.emailType, original: geminiResponse.original }),
+      },
+    };
+  }
+
+  const changed = Boolean(
+    geminiResponse.recipient || geminiResponse.cc || geminiResponse.bcc ||
+    geminiResponse.subject || geminiResponse.body || attachments.length > 0
+  );
+  if (geminiResponse.saveAsDraft || changed) {
+    // Rebuilding a reply draft quotes its original again
+    const existing = await getDraft(userId, draftId);
+    const context = thread || await draftReplyContext(userId, existing.message);
+    await updateDraft(userId, draftId, geminiResponse, attachments, context);
+  }
+  const current = await getDraft(userId, draftId);
+
+  if (geminiResponse.saveAsDraft) {
+    return {
+      success: true,
+      action: "email",
+      message: `📝 Gmail draft ${draftId} updated`,
+      data: {
+        draftId,
+        messageId: current.messageId,
+        link: draftLink(current.messageId),
+        recipient: current.recipient,
+        ...(current.cc && { cc: current.cc }),
+        ...(current.bcc && { bcc: current.bcc }),
+        subject: current.subject,
+        body: current.body,
+      },
+    };
+  }
+
+  const email = await sendDraft(userId, draftId);
+  return {
+    success: true,
+    action: "email",
+    message: "📧 Draft sent successfully",
+    undo: await journalAction(userId, {
+      action: "email",
+      resourceId: email.id || undefined,
+      threadId: email.threadId || undefined,
+      title: current.subject,
+      command: options.command,
+    }),
+    data: {
+      id: email.id,
+      threadId: email.threadId,
+      draftId,
+      recipient: current.recipient,
+      ...(current.cc && { cc: current.cc }),
+      ...(current.bcc && { bcc: current.bcc }),
+      subject: current.subject,
+      body: current.body,
+    },
+  };
+}
+
+/**
+ * The Google Meet join link of an event, if it has one
+ */
+function getMeetLink(event: calendar_v3.Schema$Event): string | undefined {
+  const video = event.conferenceData?.entryPoints?.find((entry) => entry.entryPointType === "video");
+  return event.hangoutLink || video?.uri || undefined;
+}
+
+/**
+ * Summarise a repeating event: its RRULE, a readable description and the next few dates
+ */
+function summarizeRecurrence(
+  rule: RecurrenceRule,
+  start: calendar_v3.Schema$EventDateTime | undefined,
+  timeZone: string,
+  count: number = 3
+) {
+  const startIso = start?.dateTime ? toZonedIso(new Date(start.dateTime), timeZone) : start?.date;
+  if (!startIso) {
+    return { rrule: toRRule(rule, timeZone), description: describeRecurrence(rule), nextOccurrences: [] };
+  }
+
+  const [firstDate, timePart] = startIso.split("T");
+  const nextOccurrences = listOccurrences(rule, firstDate, count).map((date) =>
+    timePart
+      ? zonedDateTimeToInstant(date, timePart.substring(0, 5), timeZone).toLocaleString(undefined, { timeZone })
+      : formatDay(date)
+  );
+
+  return { rrule: toRRule(rule, timeZone), description: describeRecurrence(rule), nextOccurrences };
+}
+
 /**
  * Route Gemini response to appropriate Google service
  */
 export async function routeAction(
   userId: string,
-  geminiResponse: GeminiResponse
+  geminiResponse: GeminiResponse,
+  options: RouteOptions = {}
 ): Promise<ActionResult> {
+  const timeZone = options.timeZone || getDefaultTimeZone();
+
   try {
+    // Ask for anything the action cannot run without instead of failing on it
+    const missing = missingSlots(geminiResponse);
+    if (missing.length > 0) {
+      return {
+        success: false,
+        action: geminiResponse.action!,
+        status: "needsClarification",
+        message: clarificationQuestion(geminiResponse, missing),
+        data: { missing, pendingAction: geminiResponse },
+      };
+    }
+
+    // Names in recipients and attendees become addresses, unless the user has to pick who
+    const contacts = await resolveActionContacts(userId, geminiResponse);
+    if (contacts.status === "ambiguous") {
+      return contactChoiceResult(geminiResponse, contacts);
+    }
+    geminiResponse = contacts.action;
+
     switch (geminiResponse.action) {
       case "calendar":
-        const event = await createCalendarEvent(userId, geminiResponse);
+        if (!options.allowConflicts) {
+          const conflict = await findConflict(userId, geminiResponse, timeZone);
+          if (conflict) {
+            return conflictResult(geminiResponse, conflict, timeZone);
+          }
+        }
+
+        const event = await createCalendarEvent(userId, geminiResponse, timeZone);
         const startDate = event.start?.dateTime ? new Date(event.start.dateTime) : null;
         const endDate = event.end?.dateTime ? new Date(event.end.dateTime) : null;
+        const invited = event.attendees?.length && geminiResponse.sendUpdates !== "none";
         return {
           success: true,
           action: "calendar",
-          message: "📅 Calendar event created successfully",
+          message: invited
+            ? "📅 Calendar event created and invitations sent"
+            : "📅 Calendar event created successfully",
+          undo: await journalAction(userId, {
+            action: "calendar",
+            resourceId: event.id || undefined,
+            title: event.summary || undefined,
+            command: options.command,
+          }),
           data: {
             id: event.id,
             title: event.summary,
             description: event.description || "",
             location: event.location || "",
-            start: startDate ? startDate.toLocaleString() : "Not specified",
-            end: endDate ? endDate.toLocaleString() : "Not specified",
-            startISO: event.start?.dateTime,
-            endISO: event.end?.dateTime,
+            start: startDate
+              ? startDate.toLocaleString(undefined, { timeZone })
+              : event.start?.date ? `${formatDay(event.start.date)} (all day)` : "Not specified",
+            end: endDate ? endDate.toLocaleString(undefined, { timeZone }) : "Not specified",
+            startISO: event.start?.dateTime || event.start?.date,
+            endISO: event.end?.dateTime || event.end?.date,
+            timeZone,
+            link: event.htmlLink || "",
+            attendees: (event.attendees || []).map((attendee) => ({
+              email: attendee.email || "",
+              name: attendee.displayName || undefined,
+              responseStatus: attendee.responseStatus || "needsAction",
+            })),
+            meetLink: getMeetLink(event),
+            ...(geminiResponse.recurrence && {
+              recurrence: summarizeRecurrence(geminiResponse.recurrence, event.start, timeZone),
+            }),
           },
         };
 
       case "task":
-        const task = await createTask(userId, geminiResponse);
-        const dueDate = task.due ? new Date(task.due) : null;
+        const task = await createTask(userId, geminiResponse, timeZone);
+        // The task exists either way, so a failed block is reported rather than failing the action
+        const block = await createTaskBlock(userId, geminiResponse, task, timeZone).catch((error: any) => {
+          console.error("⚠️  Failed to block task time on the calendar:", error.message);
+          return null;
+        });
+        const details = readTaskDetails(task);
         return {
           success: true,
           action: "task",
-          message: "✅ Task created successfully",
+          message: (task.parentTitle
+            ? `✅ Subtask added under "${task.parentTitle}"`
+            : "✅ Task created successfully") +
+            (block ? " and blocked on your calendar" : block === null ? " (could not block the time on your calendar)" : ""),
+          undo: await journalAction(userId, {
+            action: "task",
+            resourceId: task.id || undefined,
+            taskListId: task.taskListId,
+            blockEventId: block?.id || undefined,
+            title: task.title || undefined,
+            command: options.command,
+          }),
           data: {
             id: task.id,
-            title: task.title,
-            notes: task.notes || "",
-            due: dueDate ? dueDate.toLocaleDateString() : "No due date",
+            title: plainTaskTitle(task.title),
+            notes: details.notes,
+            due: task.due ? formatTaskDue(task.due, details.dueTime) : "No due date",
             dueISO: task.due,
+            ...(details.dueTime && { dueTime: details.dueTime }),
+            priority: details.priority || "medium",
             status: task.status || "needsAction",
+            list: task.taskListTitle,
+            ...(task.parentTitle && { parent: task.parentTitle }),
+            ...(block && { calendarBlock: { id: block.id, link: block.htmlLink } }),
           },
         };
 
       case "email":
-        const email = await sendEmail(userId, geminiResponse);
+        const attachments = options.attachments || [];
+        // Replies and forwards take recipients, subject and the quoted original from the email they answer
+        const emailThread = await resolveEmailThread(userId, geminiResponse);
+        const emailData = emailThread.data;
+        const thread = emailThread.original ? await threadContext(userId, emailData, emailThread.original) : undefined;
+
+        // An existing draft is only ever saved again when the user says so
+        const saveAsDraft = emailData.gmailDraftId
+          ? Boolean(emailData.saveAsDraft)
+          : emailData.saveAsDraft ?? await prefersEmailDrafts(userId);
+        if (saveAsDraft || emailData.gmailDraftId) {
+          return await gmailDraftResult(userId, { ...emailData, saveAsDraft }, attachments, options, thread);
+        }
+
+        const threadData = emailData.original
+          ? { emailType: emailData.emailType, original: emailData.original }
+          : {};
+
+        // Held messages are stored in Firestore, whose 1 MB document limit attachments would break
+        if (isEmailSendDelayed() && attachments.length === 0 && !thread?.attachments?.length) {
+          // Hold the message for the undo window; the journal sweeper delivers it
+          const rawMessage = await composeEmail(userId, emailData, [], thread);
+          const undo = await journalAction(userId, {
+            action: "email",
+            status: "scheduled",
+            rawMessage,
+            threadId: thread?.threadId,
+            title: emailData.subject,
+            command: options.command,
+          });
+          if (!undo) {
+            throw new Error("Failed to schedule email");
+          }
+          return {
+            success: true,
+            action: "email",
+            message: `📧 ${emailNoun(emailData)} scheduled to send. You can undo it until it goes out.`,
+            undo,
+            data: {
+              recipient: emailData.recipient || "",
+              ...(emailData.cc && { cc: emailData.cc }),
+              ...(emailData.bcc && { bcc: emailData.bcc }),
+              subject: emailData.subject || "",
+              body: emailData.body || "",
+              scheduled: true,
+              ...threadData,
+            },
+          };
+        }
+
+        const email = await sendEmail(userId, emailData, attachments, thread);
         return {
           success: true,
           action: "email",
-          message: "📧 Email sent successfully",
+          message: `📧 ${emailNoun(emailData)} sent successfully`,
+          undo: await journalAction(userId, {
+            action: "email",
+            resourceId: email.id || undefined,
+            threadId: email.threadId || undefined,
+            title: emailData.subject,
+            command: options.command,
+          }),
           data: {
             id: email.id,
             threadId: email.threadId,
-            recipient: geminiResponse.recipient || "",
-            subject: geminiResponse.subject || "",
-            body: geminiResponse.body || "",
+            recipient: emailData.recipient || "",
+            ...(emailData.cc && { cc: emailData.cc }),
+            ...(emailData.bcc && { bcc: emailData.bcc }),
+            subject: emailData.subject || "",
+            body: emailData.body || "",
+            ...(attachments.length > 0 && { attachments: attachments.map((attachment) => attachment.filename) }),
+            ...threadData,
           },
         };
 
+      case "findTime":
+        const search = await findMeetingTimes(userId, geminiResponse, timeZone);
+        return timeSearchResult(geminiResponse, search, timeZone);
+
+      case "query":
+        if (geminiResponse.question === "tasks") {
+          return await taskQueryResult(userId, geminiResponse, timeZone);
+        }
+        const answer = await answerCalendarQuery(userId, geminiResponse, timeZone);
+        return calendarAnswerResult(geminiResponse, answer, timeZone);
+
+      case "update":
+      case "delete":
+        return await editItem(userId, geminiResponse, options, timeZone);
+
       case "unknown":
         return {
           success: false,
@@ -100,8 +961,8 @@ export async function routeAction(
     
     // Check if it's an OAuth error
     if (error.message?.includes("not authenticated") || error.message?.includes("OAuth") || error.message?.includes("connect")) {
-      const actionType = geminiResponse.action === "calendar" ? "Calendar" : 
-                        geminiResponse.action === "task" ? "Tasks" : 
+      const actionType = geminiResponse.action === "task" || geminiResponse.itemType === "task" || geminiResponse.question === "tasks" ? "Tasks" : 
+                        ["calendar", "findTime", "query", "update", "delete"].includes(geminiResponse.action || "") ? "Calendar" : 
                         geminiResponse.action === "email" ? "Gmail" : "Google services";
       
       return {
@@ -120,36 +981,102 @@ export async function routeAction(
   }
 }
 
+// Matches {{actions[N].field}} placeholders that point at an earlier action's result
+const ACTION_REFERENCE_PATTERN = /\{\{\s*actions\[(\d+)\]\.(\w+)\s*\}\}/g;
+
+/**
+ * Replace {{actions[N].field}} placeholders in an action's text fields with
+ * data from earlier results
+ * @returns The resolved action, or an error naming the unusable reference
+ */
+export function resolveActionReferences(
+  geminiResponse: GeminiResponse,
+  priorResults: ActionResult[]
+): { resolved: GeminiResponse; error?: string } {
+  let error: string | undefined;
+  const resolved: GeminiResponse = { ...geminiResponse };
+
+  const replaceReferences = (value: string): string =>
+    value.replace(ACTION_REFERENCE_PATTERN, (placeholder, indexText: string, field: string) => {
+      const index = Number(indexText);
+      const prior = priorResults[index];
+
+      if (!prior) {
+        error = error || `Action refers to action ${index + 1}, which has not run yet`;
+        return placeholder;
+      }
+      if (!prior.success) {
+        error = error || `Skipped because action ${index + 1} (${prior.action}) failed`;
+        return placeholder;
+      }
+
+      const fieldValue = prior.data?.[field];
+      if (fieldValue === undefined || fieldValue === null) {
+        console.warn(`⚠️  Reference ${placeholder} has no value; leaving it empty`);
+        return "";
+      }
+      return String(fieldValue);
+    });
+
+  for (const key of Object.keys(resolved) as (keyof GeminiResponse)[]) {
+    const value = resolved[key];
+    if (typeof value === "string" && value.includes("{{")) {
+      (resolved as Record<string, unknown>)[key] = replaceReferences(value);
+    }
+  }
+
+  return { resolved, error };
+}
+
 /**
  * Route multiple actions sequentially
- * Executes all actions and returns combined results
+ * Executes all actions in order, resolving references to earlier results,
+ * and returns combined results
  */
 export async function routeMultipleActions(
   userId: string,
-  geminiResponses: GeminiResponse[]
+  geminiResponses: GeminiResponse[],
+  options: RouteOptions = {}
 ): Promise<MultiActionResult> {
   const results: ActionResult[] = [];
   let successfulActions = 0;
   let failedActions = 0;
 
+  const total = geminiResponses.length;
+  const report = (progress: Omit<ActionProgress, "total">) => options.onProgress?.({ ...progress, total });
+  const finish = (index: number, result: ActionResult) => {
+    results.push(result);
+    if (result.success) {
+      successfulActions++;
+    } else {
+      failedActions++;
+    }
+    report({ stage: result.success ? "succeeded" : "failed", index, action: result.action, result });
+  };
+
   // Execute all actions sequentially
-  for (const geminiResponse of geminiResponses) {
+  for (const [index, geminiResponse] of geminiResponses.entries()) {
+    report({ stage: "started", index, action: geminiResponse.action || "unknown" });
+
+    const { resolved, error: referenceError } = resolveActionReferences(geminiResponse, results);
+    if (referenceError) {
+      finish(index, {
+        success: false,
+        action: geminiResponse.action || "unknown",
+        message: referenceError,
+      });
+      continue;
+    }
+
     try {
-      const result = await routeAction(userId, geminiResponse);
-      results.push(result);
-      if (result.success) {
-        successfulActions++;
-      } else {
-        failedActions++;
-      }
+      finish(index, await routeAction(userId, resolved, options));
     } catch (error: any) {
       console.error(`Error executing action ${geminiResponse.action}:`, error);
-      results.push({
+      finish(index, {
         success: false,
         action: geminiResponse.action || "unknown",
         message: error.message || "An error occurred while processing the action",
       });
-      failedActions++;
     }
   }
 
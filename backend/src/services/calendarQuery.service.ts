@@ -0,0 +1,194 @@
+import { calendar_v3, google } from "googleapis";
+import { getAuthenticatedClient } from "./googleOAuth.service";
+import { GeminiResponse } from "./gemini.service";
+import {
+  DAY_PART_HOURS,
+  DayPart,
+  TimeInterval,
+  toLocalDate,
+} from "../utils/availability";
+import { getDefaultTimeZone, resolveDate, shiftDate, zonedDateTimeToInstant } from "../utils/temporalResolver";
+
+export type CalendarQuestion = "agenda" | "nextEvent" | "availability";
+
+export interface AgendaEvent {
+  id: string;
+  title: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  location?: string;
+  attendees: { email: string; name?: string }[];
+  meetLink?: string;
+  link?: string;
+}
+
+export interface CalendarAnswer {
+  question: CalendarQuestion;
+  from: string; // First day covered, YYYY-MM-DD
+  to: string;   // Last day covered, inclusive
+  dayPart?: DayPart;
+  interval?: TimeInterval; // The exact time asked about, if there was one
+  events: AgendaEvent[];
+  free?: boolean;          // availability: nothing blocks the asked time
+}
+
+// How far ahead "when is my next ..." looks
+const NEXT_EVENT_DAYS = 90;
+const MAX_EVENTS = 100;
+
+/**
+ * Does an event take up the user's time?
+ * Events marked "free" and invitations the user declined do not, matching free/busy.
+ */
+export function isBlocking(event: calendar_v3.Schema$Event): boolean {
+  return event.status !== "cancelled" &&
+    event.transparency !== "transparent" &&
+    !event.attendees?.some((attendee) => attendee.self && attendee.responseStatus === "declined");
+}
+
+/**
+ * List the events on the user's primary calendar that overlap a time range
+ * Repeating events are expanded into their occurrences.
+ * @param query Free-text filter Google applies to titles, descriptions, locations and attendees
+ */
+export async function listEvents(
+  userId: string,
+  timeMin: Date,
+  timeMax: Date,
+  query?: string
+): Promise<calendar_v3.Schema$Event[]> {
+  const auth = await getAuthenticatedClient(userId);
+  const calendar = google.calendar({ version: "v3", auth: auth as any });
+
+  const response = await calendar.events.list({
+    calendarId: "primary",
+    timeMin: timeMin.toISOString(),
+    timeMax: timeMax.toISOString(),
+    singleEvents: true,
+    orderBy: "startTime",
+    maxResults: MAX_EVENTS,
+    ...(query && { q: query }),
+  });
+  return response.data.items || [];
+}
+
+/**
+ * Convert an API event into agenda data; all-day events span whole local days
+ */
+export function toAgendaEvent(event: calendar_v3.Schema$Event, timeZone: string): AgendaEvent {
+  const allDay = !event.start?.dateTime;
+  const start = event.start?.dateTime
+    ? new Date(event.start.dateTime)
+    : zonedDateTimeToInstant(event.start!.date!, "00:00", timeZone);
+  const end = event.end?.dateTime
+    ? new Date(event.end.dateTime)
+    : zonedDateTimeToInstant(event.end?.date || shiftDate(event.start!.date!, 1), "00:00", timeZone);
+  const video = event.conferenceData?.entryPoints?.find((entry) => entry.entryPointType === "video");
+
+  return {
+    id: event.id || "",
+    title: event.summary || "(No title)",
+    start,
+    end,
+    allDay,
+    location: event.location || undefined,
+    attendees: (event.attendees || [])
+      .filter((attendee) => !attendee.self && attendee.email)
+      .map((attendee) => ({ email: attendee.email!, name: attendee.displayName || undefined })),
+    meetLink: event.hangoutLink || video?.uri || undefined,
+    link: event.htmlLink || undefined,
+  };
+}
+
+/**
+ * Does any attendee of the event match one of the spoken names or addresses?
+ */
+export function hasAttendee(event: calendar_v3.Schema$Event, people: string[]): boolean {
+  return people.some((person) => {
+    const wanted = person.trim().toLowerCase();
+    return (event.attendees || []).some((attendee) =>
+      attendee.email?.toLowerCase() === wanted ||
+      attendee.email?.toLowerCase().split("@")[0].includes(wanted.split(/\s+/)[0]) ||
+      attendee.displayName?.toLowerCase().includes(wanted)
+    );
+  });
+}
+
+/**
+ * Answer a read-only calendar question: the agenda for a range, the next matching
+ * event, or whether a time is free
+ */
+export async function answerCalendarQuery(
+  userId: string,
+  data: GeminiResponse,
+  timeZone: string = getDefaultTimeZone(),
+  now: Date = new Date()
+): Promise<CalendarAnswer> {
+  if (data.action !== "query" || data.question === "tasks") {
+    throw new Error("Invalid action type for calendar query service");
+  }
+
+  const question: CalendarQuestion = data.question || "agenda";
+  const today = resolveDate("today", { timeZone, clock: () => now })!;
+
+  // "when is my next ..." looks forward from now unless a range was given
+  const from = data.date || data.searchFrom || today;
+  const to = data.date || data.searchTo || (question === "nextEvent" ? shiftDate(today, NEXT_EVENT_DAYS) : from);
+
+  let timeMin = zonedDateTimeToInstant(from, "00:00", timeZone);
+  let timeMax = zonedDateTimeToInstant(shiftDate(to, 1), "00:00", timeZone);
+  let interval: TimeInterval | undefined;
+
+  if (data.time) {
+    const start = zonedDateTimeToInstant(from, data.time, timeZone);
+    interval = { start, end: new Date(start.getTime() + (data.duration || 60) * 60 * 1000) };
+    timeMin = interval.start;
+    timeMax = interval.end;
+  } else if (data.dayPart) {
+    // Each day's part is checked separately; the query covers the first to the last
+    timeMin = zonedDateTimeToInstant(from, DAY_PART_HOURS[data.dayPart].start, timeZone);
+    timeMax = zonedDateTimeToInstant(to, DAY_PART_HOURS[data.dayPart].end, timeZone);
+  }
+
+  if (question === "nextEvent" && timeMin < now) {
+    timeMin = now;
+  }
+
+  let items = (await listEvents(userId, timeMin, timeMax, data.about)).filter(isBlocking);
+
+  if (data.dayPart && !data.time) {
+    const hours = DAY_PART_HOURS[data.dayPart];
+    items = items.filter((event) => {
+      const agendaEvent = toAgendaEvent(event, timeZone);
+      const day = toLocalDate(agendaEvent.start, timeZone);
+      const partStart = zonedDateTimeToInstant(day, hours.start, timeZone);
+      const partEnd = zonedDateTimeToInstant(day, hours.end, timeZone);
+      return agendaEvent.start < partEnd && agendaEvent.end > partStart;
+    });
+  }
+
+  if (data.attendees?.length) {
+    items = items.filter((event) => hasAttendee(event, data.attendees!));
+  }
+
+  let events = items.map((event) => toAgendaEvent(event, timeZone));
+
+  if (question === "nextEvent") {
+    // All-day entries (holidays, OOO) are rarely what "my next meeting" means
+    const timed = events.filter((event) => !event.allDay);
+    events = (timed.length > 0 ? timed : events).slice(0, 1);
+  }
+
+  console.log(`📖 Calendar query (${question}): ${events.length} event(s) ${from} → ${to}`);
+
+  return {
+    question,
+    from,
+    to,
+    dayPart: data.dayPart,
+    interval,
+    events,
+    ...(question === "availability" && { free: events.every((event) => event.allDay) }),
+  };
+}
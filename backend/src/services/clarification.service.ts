@@ -0,0 +1,118 @@
+import { GeminiResponse } from "./gemini.service";
+import { ValidationError } from "../schemas/geminiResponse.schema";
+
+/**
+ * Details an action cannot run without, which the user is asked for instead of
+ * failing ("Event title is required")
+ * - when: the day (and time) of an event; time: just its start time, the day is known
+ */
+export type ClarificationSlot = "title" | "when" | "time" | "recipient" | "subject" | "body";
+
+/**
+ * A question waiting for the user's next utterance
+ */
+export interface Clarification {
+  index: number;                // Which action of the draft it is about
+  missing: ClarificationSlot[]; // Every slot still empty, the first one asked for
+  question: string;
+}
+
+// The action fields each slot fills
+export const SLOT_FIELDS: Record<ClarificationSlot, (keyof GeminiResponse)[]> = {
+  title: ["title"],
+  when: ["date", "time"],
+  time: ["time"],
+  recipient: ["recipient"],
+  subject: ["subject"],
+  body: ["body"],
+};
+
+const QUESTIONS: Record<string, string> = {
+  "calendar.title": "What should I call the event?",
+  "calendar.when": "When is it?",
+  "calendar.time": "What time does it start?",
+  "task.title": "What's the task?",
+  "email.recipient": "Who should I send the email to?",
+  "email.subject": "What's the email about?",
+  "email.body": "What should the email say?",
+};
+
+/**
+ * The slots an action still needs, in the order to ask for them
+ * Replies take their recipients and subject from the original, a forward needs no note,
+ * and an existing Gmail draft already has whatever the user does not change.
+ */
+export function missingSlots(action: GeminiResponse): ClarificationSlot[] {
+  const missing: ClarificationSlot[] = [];
+  const isBlank = (value: unknown) => typeof value !== "string" || value.trim() === "";
+
+  switch (action.action) {
+    case "calendar":
+      if (isBlank(action.title)) missing.push("title");
+      if (isBlank(action.date)) missing.push("when");
+      else if (isBlank(action.time)) missing.push("time");
+      break;
+
+    case "task":
+      if (isBlank(action.title)) missing.push("title");
+      break;
+
+    case "email":
+      if (action.gmailDraftId) break;
+      if (isBlank(action.recipient) && action.emailType !== "reply" && action.emailType !== "replyAll") {
+        missing.push("recipient");
+      }
+      if (isBlank(action.subject) && !action.emailType) missing.push("subject");
+      if (isBlank(action.body) && action.emailType !== "forward") missing.push("body");
+      break;
+  }
+  return missing;
+}
+
+/**
+ * What to ask for the first missing slot
+ */
+export function clarificationQuestion(action: GeminiResponse, missing: ClarificationSlot[]): string {
+  const [slot] = missing;
+  if (slot === "time" && action.title) {
+    return `What time does "${action.title}" start?`;
+  }
+  return QUESTIONS[`${action.action}.${slot}`] || `What's the ${slot}?`;
+}
+
+/**
+ * The first action of a draft that still needs something from the user
+ * @returns Undefined when every action can run as it is
+ */
+export function nextClarification(actions: GeminiResponse[]): Clarification | undefined {
+  for (const [index, action] of actions.entries()) {
+    const missing = missingSlots(action);
+    if (missing.length > 0) {
+      return { index, missing, question: clarificationQuestion(action, missing) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Drop the "is required" errors for slots the user will be asked for, so a command
+ * that leaves them out is kept rather than re-prompted or rejected
+ */
+export function withoutAskableErrors(
+  errors: ValidationError[],
+  value: GeminiResponse
+): ValidationError[] {
+  const actions = value.actions || [value];
+  return errors.filter((error) => {
+    if (error.message !== "is required") {
+      return true;
+    }
+    const match = error.path.match(/^(?:actions\[(\d+)\]\.)?(\w+)$/);
+    const action = match ? actions[Number(match[1] || 0)] : undefined;
+    if (!match || !action) {
+      return true;
+    }
+    const askable = missingSlots(action).flatMap((slot) => SLOT_FIELDS[slot]);
+    return !askable.includes(match[2] as keyof GeminiResponse);
+  });
+}
@@ -0,0 +1,224 @@
+/**
+ * Earlier turns of a chat, sent with a command so follow-ups like "make it 4pm instead"
+ * or "also invite Raj" can be understood
+ */
+export interface ConversationTurn {
+  role: "user" | "assistant";
+  text: string;
+  results?: TurnResult[]; // assistant: what its actions did
+}
+
+/**
+ * The structured outcome of one action in an assistant turn
+ * Only the fields a follow-up can refer to are kept.
+ */
+export interface TurnResult {
+  action: string;
+  success: boolean;
+  status?: string;              // conflict | ambiguous | preview | needsClarification
+  itemType?: "event" | "task";
+  id?: string;                  // Calendar event or task ID
+  listId?: string;              // Task list of a task
+  title?: string;
+  when?: string;                // ISO start or due date
+  attendees?: string[];
+  recipient?: string;
+  subject?: string;
+  threadId?: string;
+}
+
+// Roughly what the model is given about the chat; older turns are summarized, then dropped
+export const CONTEXT_TOKEN_BUDGET = 1200;
+// Share of the budget for the most recent turns, given word for word
+const RECENT_SHARE = 0.75;
+const MAX_TURNS = 40;
+const MAX_TURN_CHARS = 2000;
+const MAX_RESULTS_PER_TURN = 10;
+const SUMMARY_CHARS = 80;
+
+const RESULT_TEXT_FIELDS = ["action", "status", "id", "listId", "title", "when", "recipient", "subject", "threadId"] as const;
+
+/**
+ * About four characters per token for English text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function clip(text: string, length: number): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > length ? `${flat.substring(0, length - 1)}…` : flat;
+}
+
+function parseResult(raw: unknown, path: string): TurnResult {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`${path} must be an object`);
+  }
+  const record = raw as Record<string, unknown>;
+  if (typeof record.action !== "string" || typeof record.success !== "boolean") {
+    throw new Error(`${path} must have an action and success`);
+  }
+
+  const result: TurnResult = { action: record.action, success: record.success };
+  for (const field of RESULT_TEXT_FIELDS) {
+    const value = record[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== "string") {
+      throw new Error(`${path}.${field} must be a string`);
+    }
+    if (field !== "action") {
+      result[field] = clip(value, 200);
+    }
+  }
+  if (record.itemType !== undefined) {
+    if (record.itemType !== "event" && record.itemType !== "task") {
+      throw new Error(`${path}.itemType must be "event" or "task"`);
+    }
+    result.itemType = record.itemType;
+  }
+  if (record.attendees !== undefined) {
+    if (!Array.isArray(record.attendees) || record.attendees.some((attendee) => typeof attendee !== "string")) {
+      throw new Error(`${path}.attendees must be a list of strings`);
+    }
+    result.attendees = record.attendees.slice(0, 20).map((attendee: string) => clip(attendee, 200));
+  }
+  return result;
+}
+
+/**
+ * Validate the conversation sent with a command
+ * Only the last turns are kept, and very long messages are cut short.
+ * @throws If it is not a list of turns
+ */
+export function parseConversation(raw: unknown): ConversationTurn[] {
+  if (raw === undefined || raw === null) {
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    throw new Error("Conversation context must be a list of turns");
+  }
+
+  return raw.slice(-MAX_TURNS).map((turn, index) => {
+    const path = `Conversation context turn ${index + 1}`;
+    if (!turn || typeof turn !== "object") {
+      throw new Error(`${path} must be an object`);
+    }
+    const { role, text, results } = turn as Record<string, unknown>;
+    if (role !== "user" && role !== "assistant") {
+      throw new Error(`${path} must have the role "user" or "assistant"`);
+    }
+    if (typeof text !== "string") {
+      throw new Error(`${path} must have text`);
+    }
+    if (results !== undefined && !Array.isArray(results)) {
+      throw new Error(`${path} results must be a list`);
+    }
+
+    const parsed: ConversationTurn = { role, text: text.trim().substring(0, MAX_TURN_CHARS) };
+    if (results && results.length > 0) {
+      parsed.results = results
+        .slice(0, MAX_RESULTS_PER_TURN)
+        .map((result, resultIndex) => parseResult(result, `${path} result ${resultIndex + 1}`));
+    }
+    return parsed;
+  });
+}
+
+/**
+ * One line per action result, e.g.
+ * calendar done: event "Sync with Priya" [id abc123] at 2026-10-20T15:00:00-04:00 with priya@example.com
+ */
+function describeResult(result: TurnResult): string {
+  const outcome = result.status || (result.success ? "done" : "failed");
+  const parts = [`${result.action} ${outcome}:`];
+  if (result.itemType) parts.push(result.itemType);
+  if (result.title) parts.push(`"${result.title}"`);
+  if (result.id) parts.push(`[id ${result.id}${result.listId ? `, list ${result.listId}` : ""}]`);
+  if (result.when) parts.push(`at ${result.when}`);
+  if (result.recipient) parts.push(`to ${result.recipient}`);
+  if (result.subject) parts.push(`subject "${result.subject}"`);
+  if (result.threadId) parts.push(`[thread ${result.threadId}]`);
+  if (result.attendees?.length) parts.push(`with ${result.attendees.join(", ")}`);
+  return parts.join(" ");
+}
+
+function speaker(turn: ConversationTurn): string {
+  return turn.role === "user" ? "User" : "Assistant";
+}
+
+/**
+ * A turn word for word, with its results underneath
+ */
+function renderTurn(turn: ConversationTurn): string {
+  const lines = [`${speaker(turn)}: ${turn.text}`];
+  for (const result of turn.results || []) {
+    lines.push(`  → ${describeResult(result)}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * A turn in one short line; results keep their IDs so older items can still be referred to
+ */
+function summarizeTurn(turn: ConversationTurn): string {
+  if (turn.results?.length) {
+    return `- ${speaker(turn)}: ${turn.results.map(describeResult).join("; ")}`;
+  }
+  return `- ${speaker(turn)}: ${clip(turn.text, SUMMARY_CHARS)}`;
+}
+
+/**
+ * The conversation as prompt text within a token budget
+ * The newest turns are given in full. Older ones are summarized to a line each,
+ * and whatever still does not fit is left out, oldest first.
+ * @returns An empty string when there is no conversation
+ */
+export function formatConversation(
+  turns: ConversationTurn[],
+  budget: number = CONTEXT_TOKEN_BUDGET
+): string {
+  const recent: string[] = [];
+  let used = 0;
+  let index = turns.length - 1;
+
+  for (; index >= 0; index--) {
+    const rendered = renderTurn(turns[index]);
+    const cost = estimateTokens(rendered);
+    // The latest turn is always kept, cut down if it has to be
+    if (recent.length === 0 && cost > budget * RECENT_SHARE) {
+      const shortened = { ...turns[index], text: clip(turns[index].text, Math.floor(budget * RECENT_SHARE * 2)) };
+      recent.unshift(renderTurn(shortened));
+      used += budget * RECENT_SHARE;
+      index--;
+      break;
+    }
+    if (used + cost > budget * RECENT_SHARE) {
+      break;
+    }
+    recent.unshift(rendered);
+    used += cost;
+  }
+
+  const summary: string[] = [];
+  for (; index >= 0; index--) {
+    const line = summarizeTurn(turns[index]);
+    const cost = estimateTokens(line);
+    if (used + cost > budget) {
+      break;
+    }
+    summary.unshift(line);
+    used += cost;
+  }
+
+  const sections: string[] = [];
+  if (index >= 0) {
+    sections.push(`(${index + 1} earlier turn${index > 0 ? "s" : ""} left out)`);
+  }
+  if (summary.length > 0) {
+    sections.push(`Earlier (summarized):\n${summary.join("\n")}`);
+  }
+  if (recent.length > 0) {
+    sections.push(`${summary.length > 0 || index >= 0 ? "Most recent:\n" : ""}${recent.join("\n")}`);
+  }
+  return sections.join("\n\n");
+}
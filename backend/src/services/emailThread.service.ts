@@ -0,0 +1,256 @@
+import { GeminiResponse, QuotedEmail } from "./gemini.service";
+import {
+  EmailMessage,
+  EmailThreadContext,
+  downloadAttachments,
+  findMessage,
+  searchMessages,
+} from "./googleGmail.service";
+import { getUserProfile } from "./googleOAuth.service";
+import { extractAddresses } from "../utils/mime";
+
+// How much of the original is shown while reviewing a reply or forward
+const PREVIEW_CHARS = 1500;
+// Older ids are dropped from long References chains so the header stays a sensible length
+const MAX_REFERENCES = 10;
+
+export type EmailThreadFailure =
+  | "unclear"   // The command does not say which email to answer, or whom
+  | "notFound"; // No email matches, or the one picked is gone
+
+/**
+ * Why the email to answer could not be resolved; anything else thrown is a server error
+ */
+export class EmailThreadError extends Error {
+  constructor(readonly reason: EmailThreadFailure, message: string) {
+    super(message);
+    this.name = "EmailThreadError";
+  }
+}
+
+/**
+ * Gmail search for the email the user described, e.g. from:(sarah) subject:(budget)
+ */
+function threadQuery(data: GeminiResponse): string {
+  const clean = (text: string) => text.replace(/["()]/g, " ").replace(/\s+/g, " ").trim();
+  const from = data.thread?.from ? clean(data.thread.from.replace(/'s$/i, "")) : "";
+  const subject = data.thread?.subject ? clean(data.thread.subject) : "";
+  return [
+    from && `from:(${from})`,
+    subject && `subject:(${subject})`,
+    "-in:drafts",
+    "-in:chats",
+  ].filter(Boolean).join(" ");
+}
+
+/**
+ * Describe the email the user meant, for messages like "No email from Sarah found"
+ */
+function describeThread(data: GeminiResponse): string {
+  const parts = [
+    data.thread?.from && `from ${data.thread.from}`,
+    data.thread?.subject && `about "${data.thread.subject}"`,
+  ].filter(Boolean);
+  return parts.length > 0 ? `email ${parts.join(" ")}` : "email to answer";
+}
+
+/**
+ * Find the most recent email matching the description
+ * @throws EmailThreadError when the description is missing or nothing matches
+ */
+export async function findOriginalEmail(
+  userId: string,
+  data: GeminiResponse
+): Promise<EmailMessage> {
+  if (!data.thread?.from && !data.thread?.subject) {
+    throw new EmailThreadError("unclear", "Say whose email or which subject to reply to or forward");
+  }
+
+  const [message] = await searchMessages(userId, threadQuery(data));
+  if (!message) {
+    throw new EmailThreadError("notFound", `No ${describeThread(data)} found`);
+  }
+  return message;
+}
+
+function addSubjectPrefix(subject: string, prefix: "Re" | "Fwd"): string {
+  const existing = prefix === "Re" ? /^re:/i : /^(fwd?|fw):/i;
+  return existing.test(subject.trim()) ? subject.trim() : `${prefix}: ${subject.trim()}`;
+}
+
+/**
+ * Who a reply goes to
+ * - reply: the sender (or their Reply-To); replying to one's own message goes to its recipients
+ * - replyAll: also everyone else on To and Cc, as Cc, except the user
+ */
+function replyRecipients(
+  original: EmailMessage,
+  ownEmail: string,
+  replyAll: boolean
+): { to: string[]; cc: string[] } {
+  const own = ownEmail.toLowerCase();
+  const fromMe = extractAddresses(original.from).some((address) => address.toLowerCase() === own);
+  const to = fromMe
+    ? extractAddresses(original.to)
+    : extractAddresses(original.replyTo || original.from);
+
+  if (!replyAll) {
+    return { to, cc: [] };
+  }
+
+  const seen = new Set([own, ...to.map((address) => address.toLowerCase())]);
+  const cc: string[] = [];
+  for (const address of [...extractAddresses(original.to), ...extractAddresses(original.cc)]) {
+    if (!seen.has(address.toLowerCase())) {
+      seen.add(address.toLowerCase());
+      cc.push(address);
+    }
+  }
+  return { to, cc };
+}
+
+/**
+ * The original, shortened for the review card
+ */
+function toQuotedEmail(original: EmailMessage): QuotedEmail {
+  const body = original.body.trim();
+  return {
+    id: original.id,
+    threadId: original.threadId,
+    from: original.from,
+    to: original.to,
+    date: original.date,
+    subject: original.subject,
+    body: body.length > PREVIEW_CHARS ? `${body.slice(0, PREVIEW_CHARS).trimEnd()}…` : body,
+  };
+}
+
+/**
+ * Find the email a reply or forward is about and fill in what follows from it
+ * Recipients, Cc and subject the user already gave are kept; everything else comes
+ * from the original (sender, everyone on the thread for reply-all, "Re:"/"Fwd:" subject).
+ * @returns The action with `original` set, and the full original message
+ */
+export async function resolveEmailThread(
+  userId: string,
+  data: GeminiResponse
+): Promise<{ data: GeminiResponse; original?: EmailMessage }> {
+  if (data.action !== "email" || !data.emailType) {
+    return { data };
+  }
+
+  const original = data.original?.id
+    ? await findMessage(userId, data.original.id)
+    : await findOriginalEmail(userId, data);
+  if (!original) {
+    throw new EmailThreadError("notFound", "That email no longer exists");
+  }
+
+  if (data.emailType === "forward") {
+    return {
+      data: {
+        ...data,
+        subject: data.subject || addSubjectPrefix(original.subject, "Fwd"),
+        original: toQuotedEmail(original),
+      },
+      original,
+    };
+  }
+
+  const { email } = await getUserProfile(userId);
+  const recipients = replyRecipients(original, email, data.emailType === "replyAll");
+  if (recipients.to.length === 0) {
+    throw new EmailThreadError("unclear", "Could not tell who to reply to");
+  }
+
+  return {
+    data: {
+      ...data,
+      recipient: data.recipient || recipients.to.join(", "),
+      cc: data.cc ?? (recipients.cc.length > 0 ? recipients.cc.join(", ") : undefined),
+      subject: data.subject || addSubjectPrefix(original.subject, "Re"),
+      original: toQuotedEmail(original),
+    },
+    original,
+  };
+}
+
+/**
+ * Quote the original below a reply, "> " before each line
+ */
+function quoteReply(original: EmailMessage): string {
+  const lines = original.body.trim().split(/\r?\n/).map((line) => (line ? `> ${line}` : ">"));
+  return `On ${original.date}, ${original.from} wrote:\n${lines.join("\n")}`;
+}
+
+/**
+ * The forwarded message block, as Gmail writes it
+ */
+function forwardedMessage(original: EmailMessage): string {
+  return [
+    "---------- Forwarded message ---------",
+    `From: ${original.from}`,
+    `Date: ${original.date}`,
+    `Subject: ${original.subject}`,
+    `To: ${original.to}`,
+    ...(original.cc ? [`Cc: ${original.cc}`] : []),
+    "",
+    original.body.trim(),
+  ].join("\n");
+}
+
+/**
+ * Threading headers for a reply: In-Reply-To the original, References the whole chain
+ * Long chains keep the first id and the most recent ones, as RFC 5322 suggests.
+ */
+function replyHeaders(original: EmailMessage): Record<string, string> {
+  if (!original.rfcMessageId) {
+    return {};
+  }
+  const chain = [...original.references.split(/\s+/).filter(Boolean), original.rfcMessageId];
+  const references = chain.length > MAX_REFERENCES
+    ? [chain[0], ...chain.slice(-(MAX_REFERENCES - 1))]
+    : chain;
+  return {
+    "In-Reply-To": original.rfcMessageId,
+    References: references.join(" "),
+  };
+}
+
+/**
+ * What a reply or forward carries over from the original
+ * - replies stay in the original's thread, with threading headers and the quoted original
+ * - forwards start a new thread with the original's text and files
+ */
+export async function threadContext(
+  userId: string,
+  data: GeminiResponse,
+  original: EmailMessage
+): Promise<EmailThreadContext> {
+  if (data.emailType === "forward") {
+    return {
+      quote: forwardedMessage(original),
+      attachments: await downloadAttachments(userId, original),
+    };
+  }
+  return {
+    threadId: original.threadId,
+    headers: replyHeaders(original),
+    quote: quoteReply(original),
+  };
+}
+
+/**
+ * Thread context for an existing reply draft, so updating it keeps the quoted original
+ * @returns Undefined when the draft is not a reply or its original is gone
+ */
+export async function draftReplyContext(
+  userId: string,
+  draft: EmailMessage
+): Promise<EmailThreadContext | undefined> {
+  if (!draft.inReplyTo) {
+    return undefined;
+  }
+  const [original] = await searchMessages(userId, `rfc822msgid:${draft.inReplyTo.replace(/[<>]/g, "")}`);
+  return original ? threadContext(userId, { emailType: "reply" }, original) : undefined;
+}
@@ -1,77 +1,394 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  GEMINI_RESPONSE_SCHEMA,
+  ValidationError,
+  formatValidationErrors,
+  validateGeminiResponse,
+} from "../schemas/geminiResponse.schema";
+import { getIntentProvider, parseCommand } from "./intentProviders";
+import {
+  TemporalOptions,
+  getDefaultTimeZone,
+  minutesBetween,
+  resolveDate,
+  resolveTemporal,
+  resolveTime,
+} from "../utils/temporalResolver";
+import {
+  RecurrenceRule,
+  alignToRecurrence,
+  describeRecurrence,
+  parseRecurrence,
+} from "../utils/recurrence";
+import { DayPart, resolveQueryTiming, resolveSearchWindow } from "../utils/availability";
+import type { EmailLength, EmailStyle, EmailTone } from "./userProfile.service";
+import {
+  ClarificationSlot,
+  SLOT_FIELDS,
+  clarificationQuestion,
+  missingSlots,
+  withoutAskableErrors,
+} from "./clarification.service";
+import { ConversationTurn, formatConversation } from "./conversation.service";
+
+/**
+ * How the user described an existing event or task to change or cancel
+ */
+export interface ItemDescription {
+  title?: string;    // Words from its title ("dentist")
+  when?: string;     // The user's words for when it is ("my 3pm", "tomorrow's")
+  date?: string;     // Filled in from "when" when a day was said
+  time?: string;     // Filled in from "when" when a time was said
+  attendee?: string; // Someone it is with
+}
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
+/**
+ * How the user described an existing email to reply to or forward
+ */
+export interface EmailDescription {
+  from?: string;    // Who sent it, as said ("Sarah")
+  subject?: string; // Words from its subject ("budget")
+}
+
+/**
+ * The email being replied to or forwarded, as shown for review
+ */
+export interface QuotedEmail {
+  id: string;       // Gmail message id
+  threadId: string;
+  from: string;
+  to: string;
+  date: string;
+  subject: string;
+  body: string;     // Plain text, shortened for display
+}
 
 export interface GeminiResponse {
-  action?: "calendar" | "task" | "email" | "unknown";
+  action?: "calendar" | "task" | "email" | "findTime" | "query" | "update" | "delete" | "unknown";
   actions?: GeminiResponse[];
   title?: string;
   description?: string;
+  when?: string; // The user's own date/time words, resolved into date/time/dueDate
   date?: string;
   time?: string;
   duration?: number;
   location?: string;
-  recipient?: string;
+  repeat?: string; // How the event repeats: the user's words, then a readable description
+  recurrence?: RecurrenceRule;
+  attendees?: string[]; // Email addresses or names to invite; names are resolved via contacts
+  conference?: boolean; // Add a Google Meet link
+  sendUpdates?: "all" | "externalOnly" | "none"; // Who Google emails about the invitation
+  searchFrom?: string; // findTime: first day to search, YYYY-MM-DD
+  searchTo?: string;   // findTime: last day to search, inclusive
+  dayPart?: DayPart;   // findTime: only look in the morning, afternoon or evening
+  question?: "agenda" | "nextEvent" | "availability" | "tasks"; // query: what the user wants to know
+  about?: string;      // query: words the matching events contain ("dentist")
+  itemType?: "event" | "task"; // update/delete: what kind of item to change
+  match?: ItemDescription;     // update/delete: which existing item the user means
+  targetId?: string;           // update/delete: the item, once it is known
+  targetListId?: string;       // update/delete: the task list of a chosen task
+  recipient?: string;   // email: To addresses, comma-separated
+  cc?: string;          // email: Cc addresses, comma-separated
+  bcc?: string;         // email: Bcc addresses, comma-separated
   subject?: string;
   body?: string;
+  saveAsDraft?: boolean;  // email: save as a Gmail draft instead of sending
+  gmailDraftId?: string;  // email: an existing Gmail draft to update (with saveAsDraft) or send
+  emailType?: "reply" | "replyAll" | "forward"; // email: answer or pass on an existing email
+  thread?: EmailDescription; // email: the existing email to reply to or forward
+  original?: QuotedEmail;    // email: that email, once it is found
   dueDate?: string;
+  dueTime?: string;     // task: HH:MM it is due at; Tasks itself only keeps the day
   priority?: "low" | "medium" | "high";
+  calendarBlock?: boolean; // task: also block the due time on the calendar
+  list?: string;        // task/query: task list name as said ("Groceries")
+  createList?: boolean; // task: create the named list if it does not exist
+  parent?: string;      // task: title of the task to add this one under, as a subtask
+  completed?: boolean;  // update: mark the task done
+  overdue?: boolean;    // query: only tasks past their due date
+}
+
+// How many times the model is re-prompted with validation errors before falling back
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Extract the JSON object from a model reply, tolerating markdown fences
+ */
+function extractJson(responseText: string): unknown {
+  let cleanedText = responseText
+    .replace(/```json/g, "")
+    .replace(/```/g, "")
+    .trim();
+
+  const jsonMatch = cleanedText.match(/\{[\s\S]*\}/);
+  if (jsonMatch) {
+    cleanedText = jsonMatch[0];
+  }
+
+  try {
+    return JSON.parse(cleanedText);
+  } catch (err: any) {
+    throw new Error("JSON parse failed: " + err.message);
+  }
+}
+
+/**
+ * Resolve the raw "when" phrases in a model reply into date/time/dueDate fields
+ * The model only copies the user's words; all date arithmetic happens here.
+ * @returns Errors for phrases that could not be resolved
+ */
+function resolveTemporalFields(raw: unknown, options: TemporalOptions): ValidationError[] {
+  if (!raw || typeof raw !== "object") {
+    return [];
+  }
+
+  const record = raw as Record<string, unknown>;
+  if (Array.isArray(record.actions)) {
+    return record.actions.flatMap((item, index) =>
+      resolveTemporalFields(item, options).map((error) => ({ ...error, path: `actions[${index}].${error.path}` }))
+    );
+  }
+
+  const errors: ValidationError[] = [];
+
+  // "Find me a time" searches a range of days rather than booking one date
+  if (record.action === "findTime") {
+    if (typeof record.when === "string" && record.when.trim() !== "") {
+      const window = resolveSearchWindow(record.when, options);
+      if (!window) {
+        errors.push({ path: "when", message: `could not be resolved to days to search: ${JSON.stringify(record.when)}` });
+        return errors;
+      }
+      record.searchFrom = window.from;
+      record.searchTo = window.to;
+      if (window.dayPart) record.dayPart = window.dayPart;
+    }
+    delete record.when;
+    return errors;
+  }
+
+  // Calendar questions are about a range of days, or one slot when a time was said
+  if (record.action === "query") {
+    if (typeof record.when === "string" && record.when.trim() !== "") {
+      const timing = resolveQueryTiming(record.when, options);
+      if (!timing) {
+        errors.push({ path: "when", message: `could not be resolved to a day or time: ${JSON.stringify(record.when)}` });
+        return errors;
+      }
+      if (timing.time) {
+        record.date = timing.window.from;
+        record.time = timing.time;
+        if (timing.endTime && record.duration === undefined) {
+          record.duration = minutesBetween(timing.time, timing.endTime);
+        }
+      } else {
+        record.searchFrom = timing.window.from;
+        record.searchTo = timing.window.to;
+        if (timing.window.dayPart) record.dayPart = timing.window.dayPart;
+      }
+    }
+    delete record.when;
+    return errors;
+  }
+
+  // Changes keep whatever the user did not mention, so a day and a time are resolved separately
+  if (record.action === "update" || record.action === "delete") {
+    const match = record.match as Record<string, unknown> | undefined;
+    if (match && typeof match === "object" && typeof match.when === "string" && match.when.trim() !== "") {
+      const date = resolveDate(match.when, options);
+      const time = resolveTime(match.when);
+      if (!date && !time) {
+        errors.push({ path: "match.when", message: `could not be resolved to a date or time: ${JSON.stringify(match.when)}` });
+      }
+      if (date) match.date = date;
+      if (time) match.time = time.start;
+    }
+    if (match && typeof match === "object") {
+      delete match.when;
+    }
+
+    if (record.action === "update" && typeof record.when === "string" && record.when.trim() !== "") {
+      const date = resolveDate(record.when, options);
+      const time = resolveTime(record.when);
+      if (!date && !time) {
+        errors.push({ path: "when", message: `could not be resolved to a date or time: ${JSON.stringify(record.when)}` });
+      } else if (record.itemType === "task") {
+        if (date) record.dueDate = date;
+        if (time) record.dueTime = time.start;
+      } else {
+        if (date) record.date = date;
+        if (time) record.time = time.start;
+        if (time?.end && record.duration === undefined) {
+          record.duration = minutesBetween(time.start, time.end);
+        }
+      }
+    }
+    delete record.when;
+    return errors;
+  }
+
+  if (typeof record.when === "string" && record.when.trim() !== "") {
+    const resolution = resolveTemporal(record.when, options);
+    if (!resolution) {
+      errors.push({ path: "when", message: `could not be resolved to a date or time: ${JSON.stringify(record.when)}` });
+    } else {
+      if (record.action === "task") {
+        record.dueDate = resolution.date;
+        if (resolution.time) {
+          record.dueTime = resolution.time;
+        }
+      } else {
+        record.date = resolution.date;
+        if (resolution.time) {
+          record.time = resolution.time;
+        }
+        // A range ("3 to 4:30pm") fixes the length unless one was said explicitly
+        if (resolution.time && resolution.endTime && record.duration === undefined) {
+          record.duration = minutesBetween(resolution.time, resolution.endTime);
+        }
+      }
+      delete record.when;
+    }
+  } else {
+    delete record.when;
+  }
+
+  if (record.action === "calendar" && typeof record.repeat === "string" && record.repeat.trim() !== "") {
+    const recurrence = parseRecurrence(record.repeat, options);
+    if (!recurrence) {
+      errors.push({ path: "repeat", message: `could not be understood as a repeating schedule: ${JSON.stringify(record.repeat)}` });
+    } else {
+      // "every Monday at 10" may carry the time; the first event must fall on an occurrence
+      if (typeof record.time !== "string") {
+        const time = resolveTime(record.repeat);
+        if (time) record.time = time.start;
+      }
+      const startDate = typeof record.date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(record.date)
+        ? record.date
+        : resolveDate("today", options)!;
+      record.date = alignToRecurrence(recurrence.rule, startDate);
+      record.recurrence = recurrence.rule;
+      record.repeat = describeRecurrence(recurrence.rule);
+    }
+  } else if (record.action === "calendar") {
+    delete record.repeat;
+  }
+
+  return errors;
+}
+
+/**
+ * Build a follow-up prompt asking the model to fix its previous reply
+ */
+function buildRepairPrompt(
+  originalPrompt: string,
+  previousReply: string,
+  errors: ValidationError[] | string
+): string {
+  const problems = typeof errors === "string" ? `- ${errors}` : formatValidationErrors(errors);
+  return `${originalPrompt}
+
+==================== CORRECTION REQUIRED ====================
+Your previous reply was:
+${previousReply}
+
+It is invalid:
+${problems}
+
+Return the corrected JSON object only. Keep every value that was already valid.
+==============================================================`;
+}
+
+export interface AnalyzeOptions {
+  timeZone?: string; // User's IANA time zone; defaults to the server's
+  emailStyle?: EmailStyle; // Tone and length for written emails; defaults to formal, medium
+  conversation?: ConversationTurn[]; // Earlier turns of the chat, oldest first
+}
+
+/**
+ * The chat so far and how to read follow-ups against it; empty when there is none
+ */
+function buildConversationSection(turns: ConversationTurn[] | undefined): string {
+  const conversation = formatConversation(turns || []);
+  if (!conversation) {
+    return "";
+  }
+
+  return `
+==================== CONVERSATION SO FAR ====================
+${conversation}
+===============================================================
+
+FOLLOW-UP RULES:
+- The user input may continue the conversation above ("make it 4pm instead", "also invite Raj", "cancel it").
+- When it changes something an earlier action made or found, return action "update" or "delete" with
+  the same itemType and "targetId" set to that result's id (and "targetListId" to its list, for tasks).
+  Leave "match" out when you set "targetId".
+- "it", "that", "the meeting" mean the most recent matching item, unless the user names another.
+- If the earlier action failed or is still waiting for the user, repeat it with the change applied
+  instead of updating it.
+- Only use the conversation to fill in what the input leaves out. A new, complete command stands on its own.
+
+FOLLOW-UP EXAMPLES (after: calendar done: event "Sync with Priya" [id abc123] at 2026-10-20T15:00:00-04:00):
+- "make it 4pm instead" → action: "update", itemType: "event", targetId: "abc123", when: "4pm"
+- "also invite Raj" → action: "update", itemType: "event", targetId: "abc123", attendees: ["Raj"]
+- "actually cancel it" → action: "delete", itemType: "event", targetId: "abc123"
+- "email Priya the agenda for it" → action: "email", recipient: "Priya", subject: "Agenda for Sync with Priya"
+`;
 }
 
+const EMAIL_TONE_RULES: Record<EmailTone, string> = {
+  formal: "formal and professional: a polite greeting, complete sentences, no slang or exclamation marks",
+  friendly: "warm and friendly: a casual greeting, conversational sentences, contractions are fine",
+  terse: "terse and direct: no greeting or small talk, short sentences, only what the reader needs",
+};
+
+const EMAIL_LENGTH_RULES: Record<EmailLength, string> = {
+  short: "40–70 words",
+  medium: "120–150 words",
+  long: "200–250 words",
+};
 
 export async function analyzeText(
   text: string,
-  userName: string = "User"
+  userName: string = "User",
+  options: AnalyzeOptions = {}
 ): Promise<GeminiResponse> {
 
-  // � Compute current date info for accurate date resolution
+  // 📅 One clock for the whole request so every phrase resolves against the same "now"
   const now = new Date();
-  const todayDate = now.toISOString().split("T")[0]; // YYYY-MM-DD
-  const currentYear = now.getFullYear();
-  const currentMonth = now.getMonth() + 1; // 1-12
-  const currentDay = now.getDate();
-
-  // 🔐 Validate API key
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey || apiKey.trim() === "") {
-    throw new Error("GEMINI_API_KEY is not set in .env file.");
-  }
+  const timeZone = options.timeZone || getDefaultTimeZone();
+  const temporalOptions: TemporalOptions = { timeZone, clock: () => now };
+  const todayDate = resolveTemporal("today", temporalOptions)!.date;
+  const weekday = new Intl.DateTimeFormat("en-US", { weekday: "long", timeZone }).format(now);
+  const emailStyle: EmailStyle = options.emailStyle || { tone: "formal", length: "medium" };
 
-  console.log("🔍 Calling Gemini with:", text.substring(0, 50) + "...");
-  console.log("👤 Sender name:", userName);
-  console.log("📅 Today's date:", todayDate, "| Current year:", currentYear);
+  const provider = getIntentProvider();
 
-  // 🧠 Model selection
-  let model;
-  try {
-    model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
-  } catch {
-    try {
-      model = genAI.getGenerativeModel({ model: "gemini-pro-latest" });
-    } catch {
-      model = genAI.getGenerativeModel({ model: "gemini-flash-latest" });
-    }
+  console.log(`🔍 Calling ${provider.name} with:`, text.substring(0, 50) + "...");
+  console.log("👤 Sender name:", userName);
+  console.log("📅 Today's date:", todayDate, "| Time zone:", timeZone);
+  if (options.conversation?.length) {
+    console.log(`💬 With ${options.conversation.length} earlier turn(s) of conversation`);
   }
 
+  const generate = (promptText: string): Promise<string> =>
+    provider.generate({ prompt: promptText, text, now, timeZone, responseSchema: GEMINI_RESPONSE_SCHEMA });
+
   const prompt = `You are a smart assistant that extracts structured information from user commands.
 
 ==================== CURRENT DATE CONTEXT ====================
-Today's date is: ${todayDate}
-Current year is: ${currentYear}
-Current month is: ${currentMonth}
-Current day is: ${currentDay}
+Today is: ${weekday}, ${todayDate}
+User's time zone: ${timeZone}
 ===============================================================
 
-==================== DATE RULES (CRITICAL) ====================
-- If user says "today", use EXACTLY: ${todayDate}
-- If user says "tomorrow", calculate today + 1 day = ${new Date(now.getTime() + 24 * 60 * 60 * 1000).toISOString().split("T")[0]}
-- If user says "next week", add 7 days to today's date.
-- If user does NOT specify a year, ALWAYS assume the current year: ${currentYear}
-- NEVER return a year before ${currentYear}. This is absolutely forbidden.
-- All dates MUST be in YYYY-MM-DD format (ISO format).
-- When user mentions a day of the week (Monday, Tuesday, etc.), calculate the NEXT occurrence from today.
+==================== DATE & TIME RULES (CRITICAL) ====================
+- Do NOT calculate dates or times yourself.
+- Copy the user's own words for the date and time, verbatim, into "when"
+  (e.g. "next Tuesday at 3", "in 3 weeks", "end of month", "the 5th at half past four", "tomorrow 3 to 4:30pm").
+- The system resolves "when" into exact dates and times.
+- If the user gave no date or time, leave "when" out.
 ===============================================================
-
+${buildConversationSection(options.conversation)}
 User input: "${text}"
 
 CRITICAL:
@@ -82,8 +399,12 @@ Decide the intent strictly:
 
 1. If user is asking to schedule a meeting, event, or appointment → action: "calendar"
 2. If user is asking to create a task or reminder → action: "task"
-3. If user is asking to write or send an email → action: "email"
-4. Otherwise → action: "unknown"
+3. If user is asking to write, draft, send, reply to or forward an email → action: "email"
+4. If user is asking to FIND a free time or slot, without a fixed time → action: "findTime"
+5. If user is asking ABOUT their calendar or tasks (what's on it, when something is, whether they are free, what's still to do) → action: "query"
+6. If user wants to CHANGE an existing event or task (move, reschedule, rename, add someone, mark done) → action: "update"
+7. If user wants to CANCEL or DELETE an existing event or task → action: "delete"
+8. Otherwise → action: "unknown"
 
 ------------------------------------
 FOR CALENDAR ACTION:
@@ -91,17 +412,27 @@ Return JSON with:
 {
   "action": "calendar",
   "title": "...",
-  "date": "YYYY-MM-DD",
-  "time": "HH:MM",
-  "duration": number (in minutes),
-  "location": "..."
+  "when": "the user's words for the date and time",
+  "duration": number (in minutes, only if the user said how long),
+  "location": "...",
+  "repeat": "the user's words for how the event repeats, only for repeating events",
+  "attendees": ["each person to invite: their email address if the user said one, otherwise their name"],
+  "conference": true only if the user asks for a video call, Google Meet or a meeting link,
+  "sendUpdates": "none" only if the user says not to notify or invite anyone by email
 }
 
-CALENDAR DATE EXAMPLES (based on today = ${todayDate}):
-- "tomorrow at 5pm" → date: "${new Date(now.getTime() + 24 * 60 * 60 * 1000).toISOString().split("T")[0]}", time: "17:00"
-- "today at 3pm" → date: "${todayDate}", time: "15:00"
-- "next Monday" → calculate the next Monday from ${todayDate}
-- "January 25" → date: "${currentYear}-01-25" (use current year)
+ATTENDEE RULES:
+- Only list people the user wants to meet with or invite; never the user themselves.
+- Copy names exactly as said ("Priya", "Sam Lee"). Never make up an email address.
+
+CALENDAR EXAMPLES:
+- "sync with Sam tomorrow at 5pm" → title: "Sync with Sam", when: "tomorrow at 5pm"
+- "dentist next Tuesday from 3 to 4:30pm" → title: "Dentist", when: "next Tuesday from 3 to 4:30pm"
+- "standup every Monday at 10" → title: "Standup", when: "at 10", repeat: "every Monday"
+- "review every other Friday until March" → title: "Review", repeat: "every other Friday until March"
+- "book club on the first Tuesday of every month at 7pm" → title: "Book club", when: "at 7pm", repeat: "first Tuesday of every month"
+- "set up a call with sam@acme.com and Priya on Thursday" → title: "Call with Sam and Priya", when: "on Thursday", attendees: ["sam@acme.com", "Priya"]
+- "video call with Dana tomorrow at 4, don't send invites" → title: "Video call with Dana", when: "tomorrow at 4", attendees: ["Dana"], conference: true, sendUpdates: "none"
 
 ------------------------------------
 FOR TASK ACTION:
@@ -109,128 +440,193 @@ Return JSON with:
 {
   "action": "task",
   "title": "...",
-  "dueDate": "YYYY-MM-DD",
-  "priority": "low" | "medium" | "high"
+  "when": "the user's words for the due date and time",
+  "priority": "low" | "medium" | "high" (only if the user said how important or urgent it is),
+  "calendarBlock": true only if the user asks to block time for it or put it on their calendar,
+  "duration": number (minutes to block, only if said),
+  "list": "the task list named by the user, as said (leave out for their default list)",
+  "createList": true only if the user asks for a NEW list,
+  "parent": "title of the task this is a subtask of, as said"
+}
+
+TASK EXAMPLES:
+- "remind me to call the bank on Friday" → title: "Call the bank", when: "on Friday"
+- "urgent: submit the report by 5pm tomorrow" → title: "Submit the report", when: "5pm tomorrow", priority: "high"
+- "remind me to call mom at 6 and block 15 minutes for it" → title: "Call mom", when: "at 6", calendarBlock: true, duration: 15
+- "add milk to my groceries list" → title: "Milk", list: "groceries"
+- "put sunscreen on a new packing list" → title: "Sunscreen", list: "packing", createList: true
+- "add a subtask book flights under plan the trip" → title: "Book flights", parent: "plan the trip"
+
+------------------------------------
+FOR FINDTIME ACTION:
+Return JSON with:
+{
+  "action": "findTime",
+  "title": "...",
+  "when": "the user's words for the days or part of the day to search",
+  "duration": number (in minutes, only if the user said how long),
+  "attendees": ["each person to meet: their email address if the user said one, otherwise their name"]
+}
+
+FINDTIME EXAMPLES:
+- "find 30 minutes with Alex next week in the afternoon" → duration: 30, attendees: ["Alex"], when: "next week in the afternoon"
+- "when can I meet priya@acme.com for an hour tomorrow?" → duration: 60, attendees: ["priya@acme.com"], when: "tomorrow"
+
+------------------------------------
+FOR QUERY ACTION (questions only; nothing is created or changed):
+Return JSON with:
+{
+  "action": "query",
+  "question": "agenda" | "nextEvent" | "availability" | "tasks",
+  "when": "the user's words for the day, range or time asked about",
+  "about": "what the event is, only if the user named it",
+  "attendees": ["each person the event is with, as said"],
+  "list": "tasks only: the task list asked about, as said",
+  "overdue": true only for tasks past their due date
+}
+
+QUERY EXAMPLES:
+- "what's on my calendar tomorrow?" → question: "agenda", when: "tomorrow"
+- "what does my week look like next week" → question: "agenda", when: "next week"
+- "when is my next meeting with Dana" → question: "nextEvent", attendees: ["Dana"]
+- "when's the dentist?" → question: "nextEvent", about: "dentist"
+- "am I free Friday afternoon?" → question: "availability", when: "Friday afternoon"
+- "am I busy tomorrow at 3?" → question: "availability", when: "tomorrow at 3"
+- "what's on my to-do list?" → question: "tasks"
+- "what tasks are overdue?" → question: "tasks", overdue: true
+- "what's left on my groceries list" → question: "tasks", list: "groceries"
+
+------------------------------------
+FOR UPDATE AND DELETE ACTIONS (existing events and tasks):
+Return JSON with:
+{
+  "action": "update" | "delete",
+  "itemType": "event" | "task",
+  "match": {
+    "title": "words from its title, as said",
+    "when": "the user's words for when it is now",
+    "attendee": "someone it is with, as said"
+  },
+  "title": "new title, only when renaming",
+  "when": "the user's words for the NEW date or time (update only)",
+  "duration": number (new length in minutes, only if said),
+  "location": "new location, only if said",
+  "attendees": ["people to add, as said"],
+  "completed": true only when marking a task done (update only)
 }
 
+UPDATE AND DELETE RULES:
+- "match" describes the item as it is NOW; the other fields are only what changes.
+- Leave out anything the user did not ask to change.
+
+UPDATE AND DELETE EXAMPLES:
+- "move my 3pm dentist appointment to Thursday" → action: "update", itemType: "event", match: { title: "dentist", when: "3pm" }, when: "Thursday"
+- "push the sync with Dana to 4:30" → action: "update", itemType: "event", match: { title: "sync", attendee: "Dana" }, when: "4:30"
+- "cancel tomorrow's standup" → action: "delete", itemType: "event", match: { title: "standup", when: "tomorrow" }
+- "delete the task buy milk" → action: "delete", itemType: "task", match: { title: "buy milk" }
+- "change the report task to be due Friday" → action: "update", itemType: "task", match: { title: "report" }, when: "Friday"
+- "mark buy milk as done" → action: "update", itemType: "task", match: { title: "buy milk" }, completed: true
+
 ------------------------------------
 FOR EMAIL ACTION:
- recipient
+- recipient (every "to" address, separated by commas)
+- cc (addresses to copy, separated by commas; only if the user says "cc" or "copy")
+- bcc (addresses to blind-copy, separated by commas; only if the user says "bcc" or "blind copy")
 - subject
-- body (complete professional email, 120–150 words)
+- body (complete email, ${EMAIL_LENGTH_RULES[emailStyle.length]}, unless the user dictates it word for word)
+
+- saveAsDraft (true only if the user asks to draft the email or save it as a draft instead of sending it)
+- gmailDraftId (only when the user names an existing Gmail draft by its id, e.g. "r-123456789")
+  - To send that draft as it is, give only gmailDraftId.
+  - To change it, give gmailDraftId, saveAsDraft: true and only the fields that change.
+- emailType (only when answering or passing on an email the user received):
+  - "reply": reply to the sender; "replyAll": reply to everyone on it; "forward": send it on to someone
+- thread: { "from": who sent that email, as said, "subject": words from its subject, as said }
+  - For a reply, leave out recipient and subject; they come from the original. The body is the reply only.
+  - For a forward, recipient is who to forward it to; body is an optional short note.
+
+EMAIL EXAMPLES:
+- "email sam@acme.com and priya@acme.com about the launch, cc lee@acme.com" → recipient: "sam@acme.com, priya@acme.com", cc: "lee@acme.com"
+- "draft an email to landlord@acme.com about the leaking tap" → recipient: "landlord@acme.com", saveAsDraft: true
+- "send draft r-5871204" → gmailDraftId: "r-5871204"
+- "change the subject of draft r-5871204 to Leak update" → gmailDraftId: "r-5871204", saveAsDraft: true, subject: "Leak update"
+- "reply to Sarah's last email saying I'll be there" → emailType: "reply", thread: { from: "Sarah" }, body: "I'll be there."
+- "reply all to the budget thread saying approved" → emailType: "replyAll", thread: { subject: "budget" }, body: "Approved."
+- "forward the invoice from Acme to sam@acme.com" → emailType: "forward", thread: { from: "Acme", subject: "invoice" }, recipient: "sam@acme.com"
 
 EMAIL BODY RULES:
 - Write only the email body content.
+- Tone: ${EMAIL_TONE_RULES[emailStyle.tone]}.
 - Do NOT include any signature or sign-off.
 - Do NOT include "Best regards", "Sincerely", "Thanks", etc.
 - Do NOT include sender name.
 - The system will add the signature automatically.
 
+------------------------------------
+COMPOUND COMMANDS (MORE THAN ONE REQUEST):
+If the user asks for more than one thing (e.g. "schedule a sync tomorrow at 3 and email Priya the agenda"),
+return ONE JSON object with an "actions" array, listing each action in the order it should run:
+{
+  "actions": [
+    { "action": "calendar", ... },
+    { "action": "email", ... }
+  ]
+}
+- Each item follows the same format as a single action above.
+- An action may use results of an EARLIER action with a placeholder: {{actions[N].field}}
+  where N is the 0-based index of the earlier action.
+  Available fields:
+  - calendar: title, start, end, link, meetLink
+  - task: title, due
+  - email: recipient, subject
+- Example: an email body can say "Our sync is at {{actions[0].start}}. Join here: {{actions[0].link}}"
+- NEVER reference an action that comes later in the list.
+
 ------------------------------------
 IMPORTANT:
-- If the intent is calendar, DO NOT return email.
-- If the intent is email, DO NOT return calendar.
-- Choose ONLY ONE action.
-- REMEMBER: The current year is ${currentYear}. NEVER use any year before this.
+- Only return actions the user actually asked for. Do not invent extra actions.
+- If there is exactly one request, return a single action object (no "actions" array).
+- If the user did not say something an action needs (what an event or task is called, when an event is,
+  who an email goes to, what it is about or should say), leave that field out instead of guessing.
+  The system asks the user for it.
 
 Return ONLY the JSON object.`;
 
-  let result: any;
-
   try {
-    result = await model.generateContent(prompt);
+    // 🔁 Generate, validate, and re-prompt with precise errors until the reply fits the schema
+    // Deterministic providers would return the same reply again, so they get a single attempt
+    let parsed: GeminiResponse | undefined;
+    let currentPrompt = prompt;
+    const maxAttempts = provider.deterministic ? 0 : MAX_REPAIR_ATTEMPTS;
 
-    const responseText = result?.response?.text();
-    if (!responseText) {
-      throw new Error("Empty response from Gemini");
-    }
+    for (let attempt = 0; attempt <= maxAttempts; attempt++) {
+      const responseText = await generate(currentPrompt);
 
-    // 🧹 Clean response
-    let cleanedText = responseText
-      .replace(/```json/g, "")
-      .replace(/```/g, "")
-      .trim();
-
-    const jsonMatch = cleanedText.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      cleanedText = jsonMatch[0];
-    }
+      let raw: unknown;
+      try {
+        raw = extractJson(responseText);
+      } catch (parseError: any) {
+        console.warn(`⚠️ Attempt ${attempt + 1}: ${parseError.message}`);
+        currentPrompt = buildRepairPrompt(prompt, responseText, "Reply is not valid JSON");
+        continue;
+      }
 
-    let parsed: GeminiResponse;
+      const temporalErrors = resolveTemporalFields(raw, temporalOptions);
+      const validation = validateGeminiResponse(raw);
+      // Missing details the user can be asked for are not the model's mistake
+      const errors = [...temporalErrors, ...withoutAskableErrors(validation.errors, validation.value)];
+      if (errors.length === 0) {
+        parsed = validation.value;
+        break;
+      }
 
-    try {
-      parsed = JSON.parse(cleanedText);
-    } catch (err: any) {
-      throw new Error("JSON parse failed: " + err.message);
+      console.warn(`⚠️ Attempt ${attempt + 1}: ${provider.name} output failed validation:\n${formatValidationErrors(errors)}`);
+      currentPrompt = buildRepairPrompt(prompt, responseText, errors);
     }
 
-    /* ================= DATE VALIDATION & FIX (CRITICAL) ================= */
-    // Backend safety layer: NEVER trust Gemini blindly for dates
-    // This ensures no calendar event or task is ever created in a past year
-    
-    const validateAndFixDate = (dateStr: string | undefined, fieldName: string): string | undefined => {
-      if (!dateStr) return dateStr;
-      
-      try {
-        const parsedDate = new Date(dateStr);
-        const currentYear = new Date().getFullYear();
-        
-        // Check if date is valid
-        if (isNaN(parsedDate.getTime())) {
-          console.warn(`⚠️ Invalid ${fieldName} returned by Gemini: ${dateStr}`);
-          return undefined;
-        }
-        
-        // Fix past year - CRITICAL: Gemini sometimes returns wrong years
-        if (parsedDate.getFullYear() < currentYear) {
-          console.warn(`⚠️ Fixing past year in ${fieldName}: ${dateStr} → changing year to ${currentYear}`);
-          parsedDate.setFullYear(currentYear);
-          
-          // If the fixed date is still in the past (e.g., Jan 1 when we're in Dec), 
-          // it might be intended for next year
-          const today = new Date();
-          today.setHours(0, 0, 0, 0);
-          if (parsedDate < today) {
-            // Date has already passed this year, assume next year
-            parsedDate.setFullYear(currentYear + 1);
-            console.warn(`⚠️ Date already passed this year, using next year: ${parsedDate.toISOString().split("T")[0]}`);
-          }
-          
-          return parsedDate.toISOString().split("T")[0];
-        }
-        
-        return dateStr;
-      } catch (e) {
-        console.error(`❌ Error validating ${fieldName}:`, e);
-        return dateStr;
-      }
-    };
-    
-    // Apply date validation to calendar events
-    if (parsed.action === "calendar" && parsed.date) {
-      parsed.date = validateAndFixDate(parsed.date, "calendar date");
-      console.log("📅 Validated calendar date:", parsed.date);
-    }
-    
-    // Apply date validation to tasks
-    if (parsed.action === "task" && parsed.dueDate) {
-      parsed.dueDate = validateAndFixDate(parsed.dueDate, "task dueDate");
-      console.log("📅 Validated task dueDate:", parsed.dueDate);
-    }
-    
-    // Apply date validation to multiple actions (if present)
-    if (parsed.actions && Array.isArray(parsed.actions)) {
-      parsed.actions = parsed.actions.map((action, index) => {
-        if (action.action === "calendar" && action.date) {
-          action.date = validateAndFixDate(action.date, `actions[${index}].date`);
-        }
-        if (action.action === "task" && action.dueDate) {
-          action.dueDate = validateAndFixDate(action.dueDate, `actions[${index}].dueDate`);
-        }
-        return action;
-      });
+    if (!parsed) {
+      throw new Error(`${provider.name} output still invalid after ${maxAttempts} repair attempts`);
     }
-    /* ================= END DATE VALIDATION ================= */
 
     /* ================= EMAIL BODY CLEANUP ================= */
     // NOTE: Signature is NOT added here. It is handled by gmail.service.ts
@@ -238,32 +634,145 @@ Return ONLY the JSON object.`;
     // Any AI-generated signature will be removed by the Gmail service.
     /* ================= END CLEANUP ================= */
 
-    // ✅ Validate action
-    if (!parsed.action && !parsed.actions) {
-      throw new Error("Missing action in Gemini response");
-    }
-
     return parsed;
 
   } catch (error: any) {
-    console.error("❌ Gemini error:", error.message);
-
-    // 🔁 Fallback logic
-    const lowerText = text.toLowerCase();
-    let fallbackAction: "calendar" | "task" | "email" | "unknown" = "unknown";
-
-    if (lowerText.includes("meet") || lowerText.includes("schedule")) {
-      fallbackAction = "calendar";
-    } else if (lowerText.includes("task") || lowerText.includes("todo")) {
-      fallbackAction = "task";
-    } else if (lowerText.includes("email") || lowerText.includes("mail")) {
-      fallbackAction = "email";
+    console.error(`❌ ${provider.name} error:`, error.message);
+
+    // 🔁 Fallback: offline rule-based parser
+    if (provider.name !== "rules") {
+      const fallback = validateGeminiResponse(parseCommand(text, temporalOptions));
+      if (withoutAskableErrors(fallback.errors, fallback.value).length === 0 && fallback.value.action !== "unknown") {
+        console.log("🧩 Using rule-based fallback parse");
+        return fallback.value;
+      }
     }
 
     return {
-      action: fallbackAction,
+      action: "unknown",
       title: text.substring(0, 50),
       description: "AI parsing failed. Please refine the input."
     };
   }
 }
+
+/**
+ * Put the user's answer straight into the slot they were asked about
+ * Used when no model is available: the whole answer is the title, subject, body or
+ * recipient, and for "when"/"time" it is resolved like any other date phrase.
+ */
+function fillSlot(
+  action: GeminiResponse,
+  slot: ClarificationSlot,
+  answer: string,
+  options: TemporalOptions
+): GeminiResponse {
+  const value = answer.trim().replace(/[.!?]+$/, "");
+  if (slot === "time") {
+    const time = resolveTime(value);
+    return time ? { ...action, time: time.start } : action;
+  }
+  if (slot === "when") {
+    const record: Record<string, unknown> = { ...action, when: value };
+    return resolveTemporalFields(record, options).length === 0 ? (record as GeminiResponse) : action;
+  }
+  return { ...action, [slot]: value };
+}
+
+/**
+ * Merge the user's answer to a clarification question into the action it is about
+ * The model reads the answer in the context of the pending action, so "Sam, and tell him
+ * the launch moved" can fill the recipient and write the body at once. Whatever is still
+ * missing afterwards is asked for again by the caller.
+ */
+export async function mergeClarification(
+  answer: string,
+  action: GeminiResponse,
+  options: AnalyzeOptions = {}
+): Promise<GeminiResponse> {
+  const missing = missingSlots(action);
+  if (missing.length === 0) {
+    return action;
+  }
+
+  const now = new Date();
+  const timeZone = options.timeZone || getDefaultTimeZone();
+  const temporalOptions: TemporalOptions = { timeZone, clock: () => now };
+  const emailStyle: EmailStyle = options.emailStyle || { tone: "formal", length: "medium" };
+  const provider = getIntentProvider();
+
+  console.log(`💬 Merging answer for ${missing.join(", ")}:`, answer.substring(0, 50));
+
+  // Rules cannot read an answer in context, so it fills the slot that was asked about
+  if (provider.deterministic) {
+    return fillSlot(action, missing[0], answer, temporalOptions);
+  }
+
+  const todayDate = resolveTemporal("today", temporalOptions)!.date;
+  const prompt = `You are completing a command the user gave earlier. Some details were missing, so the user was asked for them.
+
+Today is: ${todayDate}
+User's time zone: ${timeZone}
+
+Pending action:
+${JSON.stringify(action, null, 2)}
+
+Missing fields: ${missing.flatMap((slot) => SLOT_FIELDS[slot]).join(", ")}
+Question asked: "${clarificationQuestion(action, missing)}"
+User's answer: "${answer}"
+
+Return the pending action as ONE JSON object with what the answer says filled in:
+- Keep "action" and every value of the pending action unless the answer changes it.
+- Copy the user's words for a date or time, verbatim, into "when"; the system resolves it.
+- Copy names exactly as said. Never make up an email address.
+- An email body is the complete email written from what the user said, ${EMAIL_LENGTH_RULES[emailStyle.length]},
+  ${EMAIL_TONE_RULES[emailStyle.tone]}. No signature or sign-off.
+- Leave out anything the answer does not say.
+
+Return ONLY the JSON object.`;
+
+  try {
+    let currentPrompt = prompt;
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const responseText = await provider.generate({
+        prompt: currentPrompt,
+        text: answer,
+        now,
+        timeZone,
+        responseSchema: GEMINI_RESPONSE_SCHEMA,
+      });
+
+      let raw: unknown;
+      try {
+        raw = extractJson(responseText);
+      } catch (parseError: any) {
+        console.warn(`⚠️ Attempt ${attempt + 1}: ${parseError.message}`);
+        currentPrompt = buildRepairPrompt(prompt, responseText, "Reply is not valid JSON");
+        continue;
+      }
+
+      // The answer only adds to the pending action; its kind never changes
+      const record: Record<string, unknown> = { ...action, ...(raw as object), action: action.action };
+      // Only the start time was asked for, so "at 3" keeps the day already chosen
+      if (missing[0] === "time" && typeof record.when === "string") {
+        const time = resolveTime(record.when);
+        delete record.when;
+        if (time) record.time = time.start;
+      }
+
+      const temporalErrors = resolveTemporalFields(record, temporalOptions);
+      const validation = validateGeminiResponse(record);
+      const errors = [...temporalErrors, ...withoutAskableErrors(validation.errors, validation.value)];
+      if (errors.length === 0) {
+        // Fields the model never sees (the quoted original of a reply) are kept as they were
+        return { ...action, ...validation.value };
+      }
+      console.warn(`⚠️ Attempt ${attempt + 1}: merged answer failed validation:\n${formatValidationErrors(errors)}`);
+      currentPrompt = buildRepairPrompt(prompt, responseText, errors);
+    }
+    throw new Error(`${provider.name} could not merge the answer`);
+  } catch (error: any) {
+    console.error(`❌ ${provider.name} error:`, error.message);
+    return fillSlot(action, missing[0], answer, temporalOptions);
+  }
+}
@@ -1,63 +1,220 @@
+import { randomUUID } from "crypto";
 import { calendar_v3, google } from "googleapis";
 import { getAuthenticatedClient } from "./googleOAuth.service";
+import { resolveContact } from "./googleContacts.service";
+import { isEmailAddress } from "../utils/mime";
+import { isBlocking, listEvents } from "./calendarQuery.service";
 import { GeminiResponse } from "./gemini.service";
+import {
+  getDefaultTimeZone,
+  resolveDate,
+  resolveTime,
+  shiftDate,
+  toZonedIso,
+  zonedDateTimeToInstant,
+} from "../utils/temporalResolver";
+import { alignToRecurrence, toRRule } from "../utils/recurrence";
+import { TimeInterval, findFreeSlots, overlaps, toLocalDate } from "../utils/availability";
+
+export type SendUpdates = "all" | "externalOnly" | "none";
+
+const SEND_UPDATES_VALUES: readonly SendUpdates[] = ["all", "externalOnly", "none"];
 
 /**
- * Parse date string (supports relative dates like "tomorrow", "next Monday")
+ * Who Google emails about new events with attendees, unless the command says otherwise.
+ * Configure with CALENDAR_SEND_UPDATES (default "all").
  */
-function parseDate(dateString: string): Date {
-  const now = new Date();
-  const lowerDate = dateString.toLowerCase().trim();
+export function getDefaultSendUpdates(): SendUpdates {
+  const configured = process.env.CALENDAR_SEND_UPDATES as SendUpdates | undefined;
+  return configured && SEND_UPDATES_VALUES.includes(configured) ? configured : "all";
+}
 
-  // Handle relative dates
-  if (lowerDate === "today") {
-    return new Date(now.setHours(0, 0, 0, 0));
-  }
-  if (lowerDate === "tomorrow") {
-    const tomorrow = new Date(now);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    return new Date(tomorrow.setHours(0, 0, 0, 0));
+/**
+ * When CALENDAR_AUTO_MEET=true, every event with attendees gets a Google Meet link
+ */
+function isAutoMeetEnabled(): boolean {
+  return process.env.CALENDAR_AUTO_MEET === "true";
+}
+
+/**
+ * Turn spoken attendees (email addresses or names) into event attendees
+ * Names are looked up in the user's contacts; nobody is invited at a guessed address,
+ * so a name that matches several people (or only roughly) is an error listing them.
+ */
+export async function resolveAttendees(
+  userId: string,
+  attendees: string[]
+): Promise<calendar_v3.Schema$EventAttendee[]> {
+  const resolved: calendar_v3.Schema$EventAttendee[] = [];
+  const unresolved: string[] = [];
+
+  for (const attendee of attendees.map((value) => value.trim()).filter(Boolean)) {
+    if (isEmailAddress(attendee)) {
+      resolved.push({ email: attendee });
+      continue;
+    }
+    if (attendee.includes("@")) {
+      throw new Error(`"${attendee}" is not a valid email address`);
+    }
+
+    const match = await resolveContact(userId, attendee);
+    if (match.status === "resolved") {
+      resolved.push({ email: match.contact.email, displayName: match.contact.name });
+    } else if (match.status === "ambiguous") {
+      const options = match.candidates.map((candidate) => `${candidate.name || candidate.email} <${candidate.email}>`);
+      throw new Error(`Several people could be ${attendee}: ${options.join(", ")}. Use their email address.`);
+    } else {
+      unresolved.push(attendee);
+    }
   }
-  if (lowerDate.startsWith("next ")) {
-    // Simple implementation - can be enhanced
-    const daysToAdd = 7;
-    const nextWeek = new Date(now);
-    nextWeek.setDate(nextWeek.getDate() + daysToAdd);
-    return new Date(nextWeek.setHours(0, 0, 0, 0));
+
+  if (unresolved.length > 0) {
+    throw new Error(
+      `Could not find an email address for ${unresolved.join(", ")}. Use their email address or add them to your Google contacts.`
+    );
   }
 
-  // Try parsing as ISO date
-  const parsed = new Date(dateString);
-  if (!isNaN(parsed.getTime())) {
-    return parsed;
+  // The same person may be named and spelled out ("Sam" and sam@acme.com)
+  const seen = new Set<string>();
+  return resolved.filter((attendee) => {
+    const key = attendee.email!.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * When an event would take place: its first day, and its start/end for timed events
+ */
+interface EventTiming {
+  date: string;
+  interval?: TimeInterval;
+}
+
+/**
+ * Resolve an event's date and time in the user's zone
+ * Usually already YYYY-MM-DD / HH:MM from analyzeText, but edited drafts may hold phrases.
+ */
+function resolveEventTiming(data: GeminiResponse, timeZone: string): EventTiming {
+  const requestedDate = (data.date && resolveDate(data.date, { timeZone })) || resolveDate("today", { timeZone })!;
+  const eventTime = data.time ? resolveTime(data.time)?.start : undefined;
+
+  // A repeating event must start on one of its occurrences, or Google adds the start as an extra one
+  const date = data.recurrence ? alignToRecurrence(data.recurrence, requestedDate) : requestedDate;
+  if (!eventTime) {
+    return { date };
   }
 
-  // Default to today if parsing fails
-  return new Date(now.setHours(0, 0, 0, 0));
+  // Default to 1 hour if no duration was given
+  const duration = data.duration || 60;
+  const start = zonedDateTimeToInstant(date, eventTime, timeZone);
+  return { date, interval: { start, end: new Date(start.getTime() + duration * 60 * 1000) } };
 }
 
+export interface ConflictingEvent {
+  id?: string;
+  title: string;
+  start: Date;
+  end: Date;
+}
+
+export interface CalendarConflict {
+  requested: TimeInterval;
+  conflicts: ConflictingEvent[];
+  suggestions: TimeInterval[]; // The next free slots of the same length
+}
+
+// How far ahead free slots are suggested when the requested time is taken
+const SUGGESTION_DAYS = 3;
+
 /**
- * Parse time string (HH:MM format) and combine with date
+ * Query free/busy for the given calendars
+ * @returns Busy intervals per calendar id; null for calendars whose availability is not visible
  */
-function parseDateTime(date: Date, timeString?: string): Date {
-  const result = new Date(date);
-  
-  if (timeString) {
-    const [hours, minutes] = timeString.split(":").map(Number);
-    if (!isNaN(hours) && !isNaN(minutes)) {
-      result.setHours(hours, minutes, 0, 0);
-    }
+export async function queryFreeBusy(
+  userId: string,
+  timeMin: Date,
+  timeMax: Date,
+  calendarIds: string[] = ["primary"]
+): Promise<Record<string, TimeInterval[] | null>> {
+  const auth = await getAuthenticatedClient(userId);
+  const calendar = google.calendar({ version: "v3", auth: auth as any });
+
+  const response = await calendar.freebusy.query({
+    requestBody: {
+      timeMin: timeMin.toISOString(),
+      timeMax: timeMax.toISOString(),
+      items: calendarIds.map((id) => ({ id })),
+    },
+  });
+
+  const result: Record<string, TimeInterval[] | null> = {};
+  for (const id of calendarIds) {
+    const entry = response.data.calendars?.[id];
+    result[id] = !entry || entry.errors?.length
+      ? null
+      : (entry.busy || [])
+        .filter((period) => period.start && period.end)
+        .map((period) => ({ start: new Date(period.start!), end: new Date(period.end!) }));
   }
-  
   return result;
 }
 
+/**
+ * Check whether a calendar action clashes with the user's existing events
+ * Only timed events are checked, and for repeating events only the first occurrence.
+ * @returns The clash with suggested free slots, or null when the time is free
+ */
+export async function checkEventConflicts(
+  userId: string,
+  data: GeminiResponse,
+  timeZone: string = getDefaultTimeZone()
+): Promise<CalendarConflict | null> {
+  const { interval: requested } = resolveEventTiming(data, timeZone);
+  if (!requested) {
+    return null;
+  }
+
+  // One query covers both the requested slot and the days searched for alternatives
+  const horizon = zonedDateTimeToInstant(shiftDate(toLocalDate(requested.start, timeZone), SUGGESTION_DAYS), "00:00", timeZone);
+  const busy = (await queryFreeBusy(userId, requested.start, horizon)).primary || [];
+
+  const clashes = busy.filter((interval) => overlaps(interval, requested));
+  if (clashes.length === 0) {
+    return null;
+  }
+
+  // Free/busy ignores events marked "free" and invitations the user declined, so skip them here too
+  const conflicts: ConflictingEvent[] = (await listEvents(userId, requested.start, requested.end))
+    .filter((item) => item.start?.dateTime && item.end?.dateTime)
+    .filter(isBlocking)
+    .map((item) => ({
+      id: item.id || undefined,
+      title: item.summary || "Busy",
+      start: new Date(item.start!.dateTime!),
+      end: new Date(item.end!.dateTime!),
+    }));
+
+  const duration = (requested.end.getTime() - requested.start.getTime()) / 60000;
+
+  return {
+    requested,
+    // Busy time from other calendars has no event to name
+    conflicts: conflicts.length > 0
+      ? conflicts
+      : clashes.map((interval) => ({ title: "Busy", start: interval.start, end: interval.end })),
+    suggestions: findFreeSlots(busy, { from: requested.start, duration, timeZone, days: SUGGESTION_DAYS }),
+  };
+}
+
 /**
  * Create a calendar event
  */
 export async function createCalendarEvent(
   userId: string,
-  data: GeminiResponse
+  data: GeminiResponse,
+  timeZone: string = getDefaultTimeZone()
 ): Promise<calendar_v3.Schema$Event> {
   if (data.action !== "calendar") {
     throw new Error("Invalid action type for calendar service");
@@ -70,31 +227,47 @@ export async function createCalendarEvent(
   const auth = await getAuthenticatedClient(userId);
   const calendar = google.calendar({ version: "v3", auth: auth as any });
 
-  // Parse date and time
-  const eventDate = data.date ? parseDate(data.date) : new Date();
-  const startDateTime = parseDateTime(eventDate, data.time);
-  
-  // Calculate end time (default 1 hour if duration not specified)
-  const duration = data.duration || 60; // minutes
-  const endDateTime = new Date(startDateTime.getTime() + duration * 60 * 1000);
+  const timing = resolveEventTiming(data, timeZone);
 
-  const event: calendar_v3.Schema$Event = {
+  const attendees = data.attendees?.length ? await resolveAttendees(userId, data.attendees) : [];
+  const addMeet = data.conference ?? (attendees.length > 0 && isAutoMeetEnabled());
+
+  let event: calendar_v3.Schema$Event = {
     summary: data.title,
     description: data.description || "",
-    start: {
-      dateTime: startDateTime.toISOString(),
-      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-    },
-    end: {
-      dateTime: endDateTime.toISOString(),
-      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-    },
     location: data.location || "",
+    ...(data.recurrence && { recurrence: [toRRule(data.recurrence, timeZone)] }),
+    ...(attendees.length > 0 && { attendees }),
+    ...(addMeet && {
+      conferenceData: {
+        createRequest: {
+          requestId: randomUUID(),
+          conferenceSolutionKey: { type: "hangoutsMeet" },
+        },
+      },
+    }),
   };
 
+  if (timing.interval) {
+    event = {
+      ...event,
+      start: { dateTime: toZonedIso(timing.interval.start, timeZone), timeZone },
+      end: { dateTime: toZonedIso(timing.interval.end, timeZone), timeZone },
+    };
+  } else {
+    // No time given: an all-day event (Google's end date is exclusive)
+    event = {
+      ...event,
+      start: { date: timing.date },
+      end: { date: shiftDate(timing.date, 1) },
+    };
+  }
+
   const response = await calendar.events.insert({
     calendarId: "primary",
     requestBody: event,
+    conferenceDataVersion: 1, // Required for Google to create the Meet link
+    sendUpdates: attendees.length > 0 ? data.sendUpdates || getDefaultSendUpdates() : "none",
   });
 
   if (!response.data) {
@@ -104,5 +277,58 @@ export async function createCalendarEvent(
   return response.data;
 }
 
+/**
+ * Delete a calendar event (when the user cancels it, or to undo a created one)
+ * Attendees who were invited are told the event is cancelled.
+ */
+export async function deleteCalendarEvent(
+  userId: string,
+  eventId: string
+): Promise<void> {
+  const auth = await getAuthenticatedClient(userId);
+  const calendar = google.calendar({ version: "v3", auth: auth as any });
 
+  await calendar.events.delete({
+    calendarId: "primary",
+    eventId,
+    sendUpdates: "all",
+  });
+  console.log("🗑️  Calendar event deleted:", eventId);
+}
 
+/**
+ * Load one event from the user's primary calendar
+ */
+export async function getCalendarEvent(
+  userId: string,
+  eventId: string
+): Promise<calendar_v3.Schema$Event> {
+  const auth = await getAuthenticatedClient(userId);
+  const calendar = google.calendar({ version: "v3", auth: auth as any });
+
+  const response = await calendar.events.get({ calendarId: "primary", eventId });
+  return response.data;
+}
+
+/**
+ * Change fields of an existing event; fields left out of the patch are kept
+ * Attendees are told about the change unless sendUpdates says otherwise.
+ */
+export async function updateCalendarEvent(
+  userId: string,
+  eventId: string,
+  patch: calendar_v3.Schema$Event,
+  sendUpdates: SendUpdates = getDefaultSendUpdates()
+): Promise<calendar_v3.Schema$Event> {
+  const auth = await getAuthenticatedClient(userId);
+  const calendar = google.calendar({ version: "v3", auth: auth as any });
+
+  const response = await calendar.events.patch({
+    calendarId: "primary",
+    eventId,
+    requestBody: patch,
+    sendUpdates,
+  });
+  console.log("✏️  Calendar event updated:", eventId);
+  return response.data;
+}
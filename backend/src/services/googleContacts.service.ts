@@ -0,0 +1,246 @@
+import { people_v1, google } from "googleapis";
+import { getAuthenticatedClient } from "./googleOAuth.service";
+import { listRecentCorrespondents } from "./googleGmail.service";
+import { GeminiResponse } from "./gemini.service";
+import { nameSimilarity } from "../utils/fuzzyMatch";
+import { isEmailAddress, splitAddressList } from "../utils/mime";
+
+export interface ContactMatch {
+  name: string;
+  email: string;
+}
+
+// Where a person was found: saved contacts, Google's "other contacts", or recent mail
+export type ContactSource = "contact" | "other" | "recent";
+
+export interface ContactCandidate extends ContactMatch {
+  source: ContactSource;
+  score: number; // 0–1, how well the spoken name matched
+}
+
+export type ContactResolution =
+  | { status: "resolved"; contact: ContactMatch }
+  | { status: "ambiguous"; candidates: ContactCandidate[] }
+  | { status: "notFound" };
+
+const READ_MASK = "names,emailAddresses";
+// The directory is rebuilt at most this often per user
+const DIRECTORY_TTL_MS = 10 * 60 * 1000;
+// Below this a name is not considered a match at all
+const MIN_MATCH_SCORE = 0.75;
+// An exact match is only used without asking when the next best is at least this far behind
+const CLEAR_LEAD = 0.15;
+const MAX_CANDIDATES = 5;
+// Saved contacts win ties over people only seen in mail
+const SOURCE_RANK: Record<ContactSource, number> = { contact: 0, recent: 1, other: 2 };
+
+type DirectoryEntry = ContactMatch & { source: ContactSource };
+
+const directories = new Map<string, { entries: DirectoryEntry[]; loadedAt: number }>();
+
+/**
+ * Every person with an email address in a People API result
+ */
+function withEmails(people: people_v1.Schema$Person[], source: ContactSource): DirectoryEntry[] {
+  return people.flatMap((person) =>
+    (person.emailAddresses || [])
+      .filter((address) => address.value)
+      .map((address) => ({
+        name: person.names?.[0]?.displayName || "",
+        email: address.value!,
+        source,
+      }))
+  );
+}
+
+/**
+ * Saved contacts, across pages
+ */
+async function listSavedContacts(people: people_v1.People): Promise<DirectoryEntry[]> {
+  const entries: DirectoryEntry[] = [];
+  let pageToken: string | undefined;
+  do {
+    const response = await people.people.connections.list({
+      resourceName: "people/me",
+      personFields: READ_MASK,
+      pageSize: 1000,
+      pageToken,
+    });
+    entries.push(...withEmails(response.data.connections || [], "contact"));
+    pageToken = response.data.nextPageToken || undefined;
+  } while (pageToken);
+  return entries;
+}
+
+/**
+ * "Other contacts": people Google remembers from the user's mail
+ */
+async function listOtherContacts(people: people_v1.People): Promise<DirectoryEntry[]> {
+  const response = await people.otherContacts.list({ readMask: READ_MASK, pageSize: 1000 });
+  return withEmails(response.data.otherContacts || [], "other");
+}
+
+/**
+ * Everyone the user could mean by name, from contacts and recent mail
+ * Cached per user for a few minutes, since each lookup would otherwise list them all again.
+ * One source failing does not hide the others; only when all fail is the first error thrown.
+ */
+async function loadDirectory(userId: string): Promise<DirectoryEntry[]> {
+  const cached = directories.get(userId);
+  if (cached && Date.now() - cached.loadedAt < DIRECTORY_TTL_MS) {
+    return cached.entries;
+  }
+
+  const auth = await getAuthenticatedClient(userId);
+  const people = google.people({ version: "v1", auth: auth as any });
+
+  const sources = await Promise.allSettled([
+    listSavedContacts(people),
+    listOtherContacts(people),
+    listRecentCorrespondents(userId).then((recent) =>
+      recent.map((person): DirectoryEntry => ({ ...person, source: "recent" }))
+    ),
+  ]);
+
+  const failures = sources.filter((source): source is PromiseRejectedResult => source.status === "rejected");
+  if (failures.length === sources.length) {
+    const error = failures[0].reason;
+    // Accounts connected before contacts access was added have tokens without the scope
+    if (error?.code === 403) {
+      throw new Error("Google contacts access not granted. Please reconnect your Google account to find people by name.");
+    }
+    throw error;
+  }
+  for (const failure of failures) {
+    console.warn("⚠️  Contact source unavailable:", failure.reason?.message || failure.reason);
+  }
+
+  const entries = sources.flatMap((source) => (source.status === "fulfilled" ? source.value : []));
+  directories.set(userId, { entries, loadedAt: Date.now() });
+  console.log(`👥 Contact directory loaded: ${entries.length} address(es)`);
+  return entries;
+}
+
+/**
+ * Find who the user means by a spoken name ("Priya", "Pria Shah", "Sam from Acme")
+ * Names are matched by spelling, prefix and sound against contacts and recent
+ * correspondents. Only an exact match with a clear lead is used as is; anything less
+ * certain comes back as candidates for the user to choose from.
+ */
+export async function resolveContact(
+  userId: string,
+  spoken: string
+): Promise<ContactResolution> {
+  const directory = await loadDirectory(userId);
+
+  // One candidate per address, keeping its best score and most trusted source
+  const byEmail = new Map<string, ContactCandidate>();
+  for (const entry of directory) {
+    const score = nameSimilarity(spoken, entry);
+    if (score < MIN_MATCH_SCORE) {
+      continue;
+    }
+    const key = entry.email.toLowerCase();
+    const known = byEmail.get(key);
+    if (
+      !known ||
+      score > known.score ||
+      (score === known.score && SOURCE_RANK[entry.source] < SOURCE_RANK[known.source])
+    ) {
+      byEmail.set(key, { ...entry, name: entry.name || known?.name || "", score });
+    }
+  }
+
+  const candidates = [...byEmail.values()].sort(
+    (a, b) => b.score - a.score || SOURCE_RANK[a.source] - SOURCE_RANK[b.source]
+  );
+  if (candidates.length === 0) {
+    console.log("👥 No contact matches:", spoken);
+    return { status: "notFound" };
+  }
+
+  const [best, next] = candidates;
+  if (best.score === 1 && (!next || best.score - next.score >= CLEAR_LEAD)) {
+    console.log("👥 Contact found:", spoken, "→", best.email);
+    return { status: "resolved", contact: { name: best.name || spoken, email: best.email } };
+  }
+
+  console.log(`👥 ${candidates.length} possible contact(s) for:`, spoken);
+  return { status: "ambiguous", candidates: candidates.slice(0, MAX_CANDIDATES) };
+}
+
+/* ================== ACTION RECIPIENTS ================== */
+
+// The fields of each action that name people to send to or invite
+const PEOPLE_FIELDS: Partial<Record<string, ("recipient" | "cc" | "bcc" | "attendees")[]>> = {
+  email: ["recipient", "cc", "bcc"],
+  calendar: ["attendees"],
+  findTime: ["attendees"],
+  update: ["attendees"],
+};
+
+export type ActionContacts =
+  | { status: "resolved"; action: GeminiResponse }
+  | { status: "ambiguous"; field: string; name: string; candidates: ContactCandidate[] };
+
+/**
+ * Replace the names in an action's recipients or attendees with email addresses
+ * Addresses are checked strictly, so nothing goes out to a malformed address, and
+ * names are looked up with resolveContact. The first name that needs the user to
+ * choose stops resolution; once chosen, the action is resolved again.
+ * @throws When an address is malformed or nobody matches a name
+ */
+export async function resolveActionContacts(
+  userId: string,
+  action: GeminiResponse
+): Promise<ActionContacts> {
+  const resolved: GeminiResponse = { ...action };
+  const missing: string[] = [];
+
+  for (const field of PEOPLE_FIELDS[action.action || ""] || []) {
+    const entries = field === "attendees"
+      ? (action.attendees || []).map((value) => value.trim()).filter(Boolean)
+      : splitAddressList(action[field]);
+    if (entries.length === 0) {
+      continue;
+    }
+
+    const addresses: string[] = [];
+    for (const entry of entries) {
+      if (isEmailAddress(entry)) {
+        addresses.push(entry);
+        continue;
+      }
+      if (entry.includes("@")) {
+        throw new Error(`"${entry}" is not a valid email address`);
+      }
+
+      const match = await resolveContact(userId, entry);
+      if (match.status === "ambiguous") {
+        return { status: "ambiguous", field, name: entry, candidates: match.candidates };
+      }
+      if (match.status === "notFound") {
+        missing.push(entry);
+        continue;
+      }
+      addresses.push(match.contact.email);
+    }
+
+    // The same person may be named and spelled out ("Sam" and sam@acme.com)
+    const unique = addresses.filter(
+      (address, index) => addresses.findIndex((other) => other.toLowerCase() === address.toLowerCase()) === index
+    );
+    if (field === "attendees") {
+      resolved.attendees = unique;
+    } else {
+      resolved[field] = unique.join(", ");
+    }
+  }
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Could not find an email address for ${missing.join(", ")}. Use their email address or add them to your Google contacts.`
+    );
+  }
+  return { status: "resolved", action: resolved };
+}
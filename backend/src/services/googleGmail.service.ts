@@ -1,61 +1,121 @@
 import { gmail_v1, google } from "googleapis";
 import { getAuthenticatedClient, getUserProfile } from "./googleOAuth.service";
 import { GeminiResponse } from "./gemini.service";
+import { getEmailPreferences } from "./userProfile.service";
+import {
+  MimeAttachment,
+  buildMimeMessage,
+  extractAddresses,
+  parseAddressList,
+  plainTextToHtml,
+  splitAddressList,
+  toBase64Url,
+} from "../utils/mime";
+
+// Sign-offs AI tends to add even when told not to
+const COMMON_SIGN_OFFS = [
+  "best regards", "kind regards", "warm regards", "regards", "best", "best wishes", "all the best",
+  "sincerely", "yours sincerely", "yours truly", "thanks", "thank you", "many thanks", "cheers",
+];
+// Longer first lines of a signature are a name or title, not a sign-off
+const MAX_SIGN_OFF_CHARS = 40;
 
 /**
- * Remove any AI-generated signature from email body
- * This ensures we always use the real Google account name
+ * Remove any AI-generated sign-off, and everything after it, from email body
+ * This ensures we always use the user's own signature and real Google account name.
+ * A sign-off only counts on a line of its own after the first ("Thanks, that works" stays),
+ * and the first line of the user's signature is recognised too, so it never appears twice.
  */
-function removeAISignature(body: string): string {
-  // Remove common sign-off patterns that AI might generate
-  const signaturePattern = /(best regards,|regards,|sincerely,|thanks,|thank you,|cheers,|warm regards,|kind regards,)[\s\S]*$/i;
-  return body.replace(signaturePattern, "").trim();
+function removeAISignature(body: string, signature: string): string {
+  const normalize = (line: string) => line.trim().replace(/[,.!]+$/, "").toLowerCase();
+  const ownSignOff = normalize(signature.split("\n")[0] || "");
+  const signOffs = new Set(COMMON_SIGN_OFFS);
+  if (ownSignOff && ownSignOff.length <= MAX_SIGN_OFF_CHARS && !ownSignOff.includes("{")) {
+    signOffs.add(ownSignOff);
+  }
+
+  const lines = body.split(/\r?\n/);
+  const signOffLine = lines.findIndex((line, index) => index > 0 && signOffs.has(normalize(line)));
+  return (signOffLine === -1 ? lines : lines.slice(0, signOffLine)).join("\n").trim();
 }
 
 /**
- * Append enforced signature with real Google account name
+ * Fill in the user's signature template with their real Google account details
  */
-function appendSignature(body: string, senderName: string): string {
-  return `${body}\n\nBest regards,\n${senderName}`;
+function renderSignature(template: string, sender: { name: string; email: string }): string {
+  return template.replace(/\{name\}/g, sender.name).replace(/\{email\}/g, sender.email);
 }
 
 /**
- * Create email message in RFC 2822 format
+ * Append the user's signature; an empty signature leaves the body as it is
  */
-function createEmailMessage(
-  to: string,
-  subject: string,
-  body: string
-): string {
-  const message = [
-    `To: ${to}`,
-    `Subject: ${subject}`,
-    "Content-Type: text/plain; charset=utf-8",
-    "",
-    body,
-  ].join("\n");
+function appendSignature(body: string, signature: string): string {
+  return signature ? `${body}\n\n${signature}` : body;
+}
 
-  return Buffer.from(message)
-    .toString("base64")
-    .replace(/\+/g, "-")
-    .replace(/\//g, "_")
-    .replace(/=+$/, "");
+/**
+ * A file to attach, as uploaded from the browser
+ */
+export interface EmailAttachment {
+  filename: string;
+  mimeType: string;
+  data: string; // Base64
 }
 
+// Gmail accepts messages up to 25 MB; base64 makes attachments about a third larger
+export const MAX_ATTACHMENT_BYTES = 18 * 1024 * 1024;
+
 /**
- * Send an email via Gmail
+ * What a reply or forward carries over from the original email
+ */
+export interface EmailThreadContext {
+  threadId?: string;                // Gmail thread the reply belongs to
+  headers?: Record<string, string>; // In-Reply-To and References
+  quote?: string;                   // Quoted or forwarded original, placed after the signature
+  attachments?: MimeAttachment[];   // The original's files, when forwarding
+}
+
+/**
+ * Decode uploaded attachments, rejecting empty files and oversized totals
+ * Files carried over from a forwarded email count towards the same limit.
+ */
+function toMimeAttachments(attachments: EmailAttachment[], forwarded: MimeAttachment[] = []): MimeAttachment[] {
+  const decoded: MimeAttachment[] = attachments.map((attachment) => {
+    if (!attachment?.filename || typeof attachment.data !== "string") {
+      throw new Error("Each attachment needs a file name and its contents");
+    }
+    return {
+      filename: attachment.filename,
+      mimeType: attachment.mimeType || "application/octet-stream",
+      content: Buffer.from(attachment.data, "base64"),
+    };
+  });
+
+  decoded.push(...forwarded);
+  const total = decoded.reduce((sum, attachment) => sum + attachment.content.length, 0);
+  if (total > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`Attachments are too large (${Math.ceil(total / 1024 / 1024)} MB; the limit is ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB)`);
+  }
+  return decoded;
+}
+
+/**
+ * Build the raw Gmail message for an email action
  * CRITICAL: Always uses the real Google account name for signature
  * Never trusts AI-generated signatures
  */
-export async function sendEmail(
+export async function composeEmail(
   userId: string,
-  data: GeminiResponse
-): Promise<gmail_v1.Schema$Message> {
+  data: GeminiResponse,
+  attachments: EmailAttachment[] = [],
+  thread?: EmailThreadContext
+): Promise<string> {
   if (data.action !== "email") {
     throw new Error("Invalid action type for Gmail service");
   }
 
-  if (!data.recipient) {
+  const to = splitAddressList(data.recipient);
+  if (to.length === 0) {
     throw new Error("Email recipient is required");
   }
 
@@ -63,19 +123,16 @@ export async function sendEmail(
     throw new Error("Email subject is required");
   }
 
-  if (!data.body) {
+  // A forward may go without a note of its own
+  if (!data.body && !thread?.quote) {
     throw new Error("Email body is required");
   }
 
-  // Step 1: Get authenticated client
-  const auth = await getAuthenticatedClient(userId);
-  const gmail = google.gmail({ version: "v1", auth: auth as any });
-
-  // Step 2: Get user profile (tries Firestore first, then Google API)
+  // Step 1: Get user profile (tries Firestore first, then Google API)
   console.log("📧 Preparing email with proper signature...");
   const userProfile = await getUserProfile(userId);
   
-  // Step 3: Determine sender name (use profile name, fallback to email prefix)
+  // Step 2: Determine sender name (use profile name, fallback to email prefix)
   let senderName = userProfile.name;
   if (!senderName || senderName.trim() === "") {
     // Fallback: extract name from email (before @)
@@ -84,25 +141,50 @@ export async function sendEmail(
   }
   console.log("✅ Sender name for signature:", senderName);
 
-  // Step 4: Remove any AI-generated signature from body
-  let emailBody = removeAISignature(data.body);
+  // Step 3: Remove any AI-generated signature from body
+  const { signature } = await getEmailPreferences(userId);
+  let emailBody = removeAISignature(data.body || "", signature);
   console.log("🧹 Removed any AI-generated signature");
 
-  // Step 5: Append enforced signature with real Google account name
-  emailBody = appendSignature(emailBody, senderName);
-  console.log("✅ Appended enforced signature with:", senderName);
+  // Step 4: Append the user's signature with their real Google account name
+  emailBody = appendSignature(emailBody, renderSignature(signature, { name: senderName, email: userProfile.email })).trimStart();
+  console.log("✅ Appended signature for:", senderName);
 
-  // Step 6: Create and send email
-  const rawMessage = createEmailMessage(
-    data.recipient,
-    data.subject,
-    emailBody
-  );
+  // The original goes below the signature, as mail clients quote it
+  if (thread?.quote) {
+    emailBody = `${emailBody}\n\n${thread.quote}`;
+  }
+
+  // Step 5: Build the MIME message, with an HTML version and any attachments
+  const raw = buildMimeMessage({
+    to,
+    cc: splitAddressList(data.cc),
+    bcc: splitAddressList(data.bcc),
+    subject: data.subject,
+    text: emailBody,
+    html: plainTextToHtml(emailBody),
+    attachments: toMimeAttachments(attachments, thread?.attachments),
+    headers: thread?.headers,
+  });
+  return toBase64Url(raw);
+}
+
+/**
+ * Send an already composed raw message, into an existing thread when given
+ */
+export async function sendRawEmail(
+  userId: string,
+  rawMessage: string,
+  threadId?: string
+): Promise<gmail_v1.Schema$Message> {
+  const auth = await getAuthenticatedClient(userId);
+  const gmail = google.gmail({ version: "v1", auth: auth as any });
 
   const response = await gmail.users.messages.send({
     userId: "me",
     requestBody: {
       raw: rawMessage,
+      ...(threadId && { threadId }),
     },
   });
 
@@ -110,9 +192,451 @@ export async function sendEmail(
     throw new Error("Failed to send email");
   }
 
-  console.log("✅ Email sent successfully with signature: Best regards,", senderName);
   return response.data;
 }
 
+/**
+ * Send an email via Gmail
+ */
+export async function sendEmail(
+  userId: string,
+  data: GeminiResponse,
+  attachments: EmailAttachment[] = [],
+  thread?: EmailThreadContext
+): Promise<gmail_v1.Schema$Message> {
+  const rawMessage = await composeEmail(userId, data, attachments, thread);
+  const message = await sendRawEmail(userId, rawMessage, thread?.threadId);
+
+  console.log("✅ Email sent successfully with enforced signature");
+  return message;
+}
+
+/**
+ * Move a sent message to the trash (used to undo a sent email)
+ */
+export async function trashEmail(
+  userId: string,
+  messageId: string
+): Promise<void> {
+  const auth = await getAuthenticatedClient(userId);
+  const gmail = google.gmail({ version: "v1", auth: auth as any });
+
+  await gmail.users.messages.trash({
+    userId: "me",
+    id: messageId,
+  });
+  console.log("🗑️  Email moved to trash:", messageId);
+}
+
+/* ================== RECEIVED MESSAGES ================== */
+
+/**
+ * An existing message, as needed to reply to or forward it
+ */
+export interface EmailMessage {
+  id: string;
+  threadId: string;
+  rfcMessageId: string; // The Message-ID header
+  inReplyTo: string;
+  references: string;
+  from: string;         // As in the header, e.g. "Sarah Lee <sarah@acme.com>"
+  replyTo: string;
+  to: string;
+  cc: string;
+  bcc: string;
+  subject: string;
+  date: string;
+  body: string;         // Plain text
+  attachments: { filename: string; mimeType: string; attachmentId: string }[];
+}
+
+/**
+ * Decode a base64url message part body
+ */
+function decodePart(data: string): string {
+  return Buffer.from(data, "base64").toString("utf8");
+}
+
+/**
+ * The first text/plain body in a message payload, decoded
+ */
+function findPlainText(part: gmail_v1.Schema$MessagePart | undefined): string {
+  if (!part) return "";
+  if (part.mimeType === "text/plain" && part.body?.data) {
+    return decodePart(part.body.data);
+  }
+  for (const child of part.parts || []) {
+    const text = findPlainText(child);
+    if (text) return text;
+  }
+  return "";
+}
+
+/**
+ * Readable text from the first text/html body, for messages sent without a plain version
+ */
+function findHtmlText(part: gmail_v1.Schema$MessagePart | undefined): string {
+  if (!part) return "";
+  if (part.mimeType === "text/html" && part.body?.data) {
+    return decodePart(part.body.data)
+      .replace(/<(script|style)[\s\S]*?<\/\1>/gi, "")
+      .replace(/<br\s*\/?>|<\/(p|div|li|tr|h\d)>/gi, "\n")
+      .replace(/<[^>]+>/g, "")
+      .replace(/&nbsp;/g, " ")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&quot;/g, "\"")
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, "&")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  }
+  for (const child of part.parts || []) {
+    const text = findHtmlText(child);
+    if (text) return text;
+  }
+  return "";
+}
+
+/**
+ * Files attached to a message payload (parts with a file name)
+ */
+function findAttachments(part: gmail_v1.Schema$MessagePart | undefined): EmailMessage["attachments"] {
+  if (!part) return [];
+  const own = part.filename && part.body?.attachmentId
+    ? [{ filename: part.filename, mimeType: part.mimeType || "application/octet-stream", attachmentId: part.body.attachmentId }]
+    : [];
+  return [...own, ...(part.parts || []).flatMap(findAttachments)];
+}
+
+/**
+ * Read the headers, body and attachment list of a Gmail message
+ */
+function toEmailMessage(message: gmail_v1.Schema$Message | undefined): EmailMessage {
+  const headers = message?.payload?.headers || [];
+  const header = (name: string) =>
+    headers.find((entry) => entry.name?.toLowerCase() === name.toLowerCase())?.value || "";
+
+  return {
+    id: message?.id || "",
+    threadId: message?.threadId || "",
+    rfcMessageId: header("Message-ID"),
+    inReplyTo: header("In-Reply-To"),
+    references: header("References"),
+    from: header("From"),
+    replyTo: header("Reply-To"),
+    to: header("To"),
+    cc: header("Cc"),
+    bcc: header("Bcc"),
+    subject: header("Subject"),
+    date: header("Date"),
+    body: findPlainText(message?.payload) || findHtmlText(message?.payload) || message?.snippet || "",
+    attachments: findAttachments(message?.payload),
+  };
+}
+
+/**
+ * Get a single message with its headers and body
+ * @returns Null when the message is gone or the id is not one
+ */
+export async function findMessage(
+  userId: string,
+  messageId: string
+): Promise<EmailMessage | null> {
+  const auth = await getAuthenticatedClient(userId);
+  const gmail = google.gmail({ version: "v1", auth: auth as any });
+
+  try {
+    const response = await gmail.users.messages.get({ userId: "me", id: messageId, format: "full" });
+    return toEmailMessage(response.data);
+  } catch (error: any) {
+    if (error.code === 404 || error.code === 400) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get a single message with its headers and body
+ * @throws When the message no longer exists
+ */
+export async function getMessage(
+  userId: string,
+  messageId: string
+): Promise<EmailMessage> {
+  const message = await findMessage(userId, messageId);
+  if (!message) {
+    throw new Error("That email no longer exists");
+  }
+  return message;
+}
+
+/**
+ * Find messages with Gmail search syntax (from:sarah subject:budget), newest first
+ */
+export async function searchMessages(
+  userId: string,
+  query: string,
+  maxResults: number = 1
+): Promise<EmailMessage[]> {
+  const auth = await getAuthenticatedClient(userId);
+  const gmail = google.gmail({ version: "v1", auth: auth as any });
+
+  const response = await gmail.users.messages.list({ userId: "me", q: query, maxResults });
+  const ids = (response.data.messages || []).map((message) => message.id).filter((id): id is string => Boolean(id));
+  console.log(`🔎 ${ids.length} message(s) match:`, query);
+  return Promise.all(ids.map((id) => getMessage(userId, id)));
+}
+
+/**
+ * Download a message's attachments, e.g. to forward them
+ */
+export async function downloadAttachments(
+  userId: string,
+  message: EmailMessage
+): Promise<MimeAttachment[]> {
+  if (message.attachments.length === 0) {
+    return [];
+  }
+
+  const auth = await getAuthenticatedClient(userId);
+  const gmail = google.gmail({ version: "v1", auth: auth as any });
+
+  return Promise.all(
+    message.attachments.map(async (attachment) => {
+      const response = await gmail.users.messages.attachments.get({
+        userId: "me",
+        messageId: message.id,
+        id: attachment.attachmentId,
+      });
+      return {
+        filename: attachment.filename,
+        mimeType: attachment.mimeType,
+        content: Buffer.from(response.data.data || "", "base64"),
+      };
+    })
+  );
+}
+
+// Automated senders are never who the user means by name
+const AUTOMATED_SENDER = /^(?:no-?reply|do-?not-?reply|notifications?|mailer-daemon|bounce)/i;
+
+/**
+ * People the user has recently written to or heard from, most frequent first
+ * Recipients of sent mail (last 180 days) and senders of recent inbox mail (last 60 days),
+ * read from message headers only.
+ */
+export async function listRecentCorrespondents(
+  userId: string,
+  maxMessages: number = 50
+): Promise<{ name: string; email: string }[]> {
+  const auth = await getAuthenticatedClient(userId);
+  const gmail = google.gmail({ version: "v1", auth: auth as any });
+  const { email: ownEmail } = await getUserProfile(userId);
+
+  const headersOf = async (query: string, names: string[]): Promise<string[]> => {
+    const response = await gmail.users.messages.list({ userId: "me", q: query, maxResults: maxMessages });
+    const messages = await Promise.all(
+      (response.data.messages || []).map((message) =>
+        gmail.users.messages.get({ userId: "me", id: message.id!, format: "metadata", metadataHeaders: names })
+      )
+    );
+    return messages.flatMap((message) =>
+      (message.data.payload?.headers || [])
+        .filter((header) => names.includes(header.name || ""))
+        .map((header) => header.value || "")
+    );
+  };
+
+  const [sent, received] = await Promise.all([
+    headersOf("in:sent newer_than:180d", ["To", "Cc"]),
+    headersOf("in:inbox newer_than:60d -category:promotions -category:social", ["From"]),
+  ]);
+
+  const people = new Map<string, { name: string; email: string; count: number }>();
+  for (const person of [...sent, ...received].flatMap(parseAddressList)) {
+    const key = person.email.toLowerCase();
+    if (key === ownEmail.toLowerCase() || AUTOMATED_SENDER.test(key)) {
+      continue;
+    }
+    const known = people.get(key);
+    if (known) {
+      known.count++;
+      known.name = known.name || person.name;
+    } else {
+      people.set(key, { ...person, count: 1 });
+    }
+  }
+
+  return [...people.values()]
+    .sort((a, b) => b.count - a.count)
+    .map(({ name, email }) => ({ name, email }));
+}
+
+/* ================== DRAFTS ================== */
+
+/**
+ * Link that opens a draft in Gmail's compose window
+ */
+export function draftLink(messageId: string): string {
+  return `https://mail.google.com/mail/u/0/#drafts?compose=${encodeURIComponent(messageId)}`;
+}
+
+/**
+ * Save an email as a Gmail draft instead of sending it
+ */
+export async function createDraft(
+  userId: string,
+  data: GeminiResponse,
+  attachments: EmailAttachment[] = [],
+  thread?: EmailThreadContext
+): Promise<gmail_v1.Schema$Draft> {
+  const rawMessage = await composeEmail(userId, data, attachments, thread);
+  const auth = await getAuthenticatedClient(userId);
+  const gmail = google.gmail({ version: "v1", auth: auth as any });
+
+  const response = await gmail.users.drafts.create({
+    userId: "me",
+    requestBody: {
+      message: { raw: rawMessage, ...(thread?.threadId && { threadId: thread.threadId }) },
+    },
+  });
+
+  if (!response.data?.id) {
+    throw new Error("Failed to save draft");
+  }
+
+  console.log("📝 Draft saved:", response.data.id);
+  return response.data;
+}
+
+/**
+ * Get a Gmail draft with its recipients, subject and plain-text body
+ */
+export async function getDraft(
+  userId: string,
+  draftId: string
+): Promise<{
+  id: string;
+  messageId: string;
+  recipient: string;
+  cc: string;
+  bcc: string;
+  subject: string;
+  body: string;
+  message: EmailMessage;
+}> {
+  const auth = await getAuthenticatedClient(userId);
+  const gmail = google.gmail({ version: "v1", auth: auth as any });
 
+  let response;
+  try {
+    response = await gmail.users.drafts.get({ userId: "me", id: draftId, format: "full" });
+  } catch (error: any) {
+    if (error.code === 404 || error.code === 400) {
+      throw new Error(`No Gmail draft with id ${draftId}`);
+    }
+    throw error;
+  }
 
+  const message = toEmailMessage(response.data.message);
+  // Bare addresses, so the draft can be composed again
+  return {
+    id: response.data.id || draftId,
+    messageId: message.id,
+    recipient: extractAddresses(message.to).join(", "),
+    cc: extractAddresses(message.cc).join(", "),
+    bcc: extractAddresses(message.bcc).join(", "),
+    subject: message.subject,
+    body: message.body,
+    message,
+  };
+}
+
+/**
+ * Replace the contents of an existing Gmail draft
+ * Fields not given keep the draft's current recipients, subject and body;
+ * a reply draft stays in its thread.
+ */
+export async function updateDraft(
+  userId: string,
+  draftId: string,
+  data: GeminiResponse,
+  attachments: EmailAttachment[] = [],
+  thread?: EmailThreadContext
+): Promise<gmail_v1.Schema$Draft> {
+  const current = await getDraft(userId, draftId);
+  const merged: GeminiResponse = {
+    ...data,
+    recipient: data.recipient || current.recipient,
+    cc: data.cc ?? current.cc,
+    bcc: data.bcc ?? current.bcc,
+    subject: data.subject || current.subject,
+    body: data.body || current.body,
+  };
+
+  const context: EmailThreadContext = thread || {
+    threadId: current.message.threadId,
+    ...(current.message.inReplyTo && {
+      headers: { "In-Reply-To": current.message.inReplyTo, References: current.message.references || current.message.inReplyTo },
+    }),
+  };
+
+  const rawMessage = await composeEmail(userId, merged, attachments, context);
+  const auth = await getAuthenticatedClient(userId);
+  const gmail = google.gmail({ version: "v1", auth: auth as any });
+
+  const response = await gmail.users.drafts.update({
+    userId: "me",
+    id: draftId,
+    requestBody: {
+      id: draftId,
+      message: { raw: rawMessage, ...(context.threadId && { threadId: context.threadId }) },
+    },
+  });
+
+  console.log("📝 Draft updated:", draftId);
+  return response.data;
+}
+
+/**
+ * Send an existing Gmail draft as it is
+ */
+export async function sendDraft(
+  userId: string,
+  draftId: string
+): Promise<gmail_v1.Schema$Message> {
+  const auth = await getAuthenticatedClient(userId);
+  const gmail = google.gmail({ version: "v1", auth: auth as any });
+
+  let response;
+  try {
+    response = await gmail.users.drafts.send({
+      userId: "me",
+      requestBody: { id: draftId },
+    });
+  } catch (error: any) {
+    if (error.code === 404 || error.code === 400) {
+      throw new Error(`No Gmail draft with id ${draftId}`);
+    }
+    throw error;
+  }
+
+  console.log("✅ Draft sent:", draftId);
+  return response.data;
+}
+
+/**
+ * Delete a Gmail draft (used to undo saving one)
+ */
+export async function deleteDraft(
+  userId: string,
+  draftId: string
+): Promise<void> {
+  const auth = await getAuthenticatedClient(userId);
+  const gmail = google.gmail({ version: "v1", auth: auth as any });
+
+  await gmail.users.drafts.delete({ userId: "me", id: draftId });
+  console.log("🗑️  Draft deleted:", draftId);
+}
@@ -14,6 +14,9 @@ export const SCOPES = [
   "https://www.googleapis.com/auth/calendar",
   "https://www.googleapis.com/auth/tasks",
   "https://www.googleapis.com/auth/gmail.send",
+  "https://www.googleapis.com/auth/gmail.modify", // Trash sent messages when an email is undone
+  "https://www.googleapis.com/auth/contacts.readonly", // Resolve attendee names to email addresses
+  "https://www.googleapis.com/auth/contacts.other.readonly",
   "https://www.googleapis.com/auth/userinfo.profile",
   "https://www.googleapis.com/auth/userinfo.email",
 ];
@@ -256,11 +259,15 @@ export async function storeUserProfile(
   profile: { name: string; email: string }
 ): Promise<void> {
   const db = admin.firestore();
-  await db.collection("userProfiles").doc(userId).set({
-    name: profile.name,
-    email: profile.email,
-    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-  });
+  // Merge so settings stored on the profile (e.g. time zone) survive a refresh
+  await db.collection("userProfiles").doc(userId).set(
+    {
+      name: profile.name,
+      email: profile.email,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
   console.log("✅ User profile stored in Firestore for user:", userId);
 }
 
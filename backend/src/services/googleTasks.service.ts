@@ -1,72 +1,184 @@
 import { tasks_v1, google } from "googleapis";
 import { getAuthenticatedClient } from "./googleOAuth.service";
 import { GeminiResponse } from "./gemini.service";
+import { getDefaultTimeZone, resolveDate, resolveTime } from "../utils/temporalResolver";
+import { titleSimilarity } from "../utils/fuzzyMatch";
 
 /**
- * Parse date string for task due date
- * Google Tasks API requires RFC 3339 timestamp format
- * Set to end of day in local timezone
- */
-function parseDate(dateString: string): string {
-  const now = new Date();
-  const lowerDate = dateString.toLowerCase().trim();
-
-  let targetDate: Date;
-
-  // Handle relative dates
-  if (lowerDate === "today") {
-    targetDate = new Date(now);
-    targetDate.setHours(23, 59, 59, 0); // End of today
-  } else if (lowerDate === "tomorrow") {
-    targetDate = new Date(now);
-    targetDate.setDate(targetDate.getDate() + 1);
-    targetDate.setHours(23, 59, 59, 0); // End of tomorrow
-  } else {
-    // Try parsing as ISO date string (YYYY-MM-DD)
-    const parsedDate = new Date(dateString);
-    if (!isNaN(parsedDate.getTime())) {
-      parsedDate.setHours(23, 59, 59, 0); // Set to end of that day
-      targetDate = parsedDate;
-    } else {
-      // If parsing fails, default to end of today
-      targetDate = new Date(now);
-      targetDate.setHours(23, 59, 59, 0);
+ * Format a due date for the Google Tasks API
+ * Tasks only stores the date part of the RFC 3339 timestamp, so it is sent as UTC midnight
+ * to keep the calendar day from shifting across time zones
+ */
+export function toTaskDue(dateString: string, timeZone: string): string | undefined {
+  const date = resolveDate(dateString, { timeZone });
+  return date ? `${date}T00:00:00.000Z` : undefined;
+}
+
+/**
+ * When TASKS_CALENDAR_BLOCK=true, every task due at a time of day also gets a calendar block;
+ * otherwise only the tasks the user asks to block time for
+ */
+export function isTaskCalendarBlockEnabled(): boolean {
+  return process.env.TASKS_CALENDAR_BLOCK === "true";
+}
+
+export type TaskPriority = "low" | "medium" | "high";
+
+/**
+ * What a task's notes carry besides the user's own text
+ * Tasks has no priority or time-of-day fields, so both are kept as lines at the end of the notes
+ * ("Priority: high", "Due at: 3:00 PM") that the Tasks app shows and we can read back.
+ */
+export interface TaskDetails {
+  notes: string;
+  priority?: TaskPriority; // Missing means the default, medium
+  dueTime?: string;        // HH:MM, local to the user
+}
+
+const PRIORITY_LINE = /^Priority: (low|medium|high)\s*$/im;
+const DUE_TIME_LINE = /^Due at: (.+?)\s*$/im;
+// High-priority tasks are also marked in the title so they stand out in the list
+const HIGH_PRIORITY_MARK = "❗ ";
+
+/**
+ * Format a HH:MM time for the notes, e.g. "3:00 PM"
+ */
+export function formatDueTime(time: string): string {
+  const [hours, minutes] = time.split(":").map(Number);
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, "0")} ${hours < 12 ? "AM" : "PM"}`;
+}
+
+/**
+ * Build task notes from the user's text plus the priority and due time lines
+ */
+export function encodeTaskNotes(details: TaskDetails): string | undefined {
+  const lines = [
+    details.notes.trim(),
+    details.priority && details.priority !== "medium" ? `Priority: ${details.priority}` : "",
+    details.dueTime ? `Due at: ${formatDueTime(details.dueTime)}` : "",
+  ].filter(Boolean);
+  return lines.length > 0 ? lines.join("\n") : undefined;
+}
+
+/**
+ * Read the user's notes, priority and due time back out of a task
+ */
+export function readTaskDetails(task: tasks_v1.Schema$Task): TaskDetails {
+  const notes = task.notes || "";
+  const priority = notes.match(PRIORITY_LINE)?.[1] as TaskPriority | undefined;
+  const dueTimeText = notes.match(DUE_TIME_LINE)?.[1];
+  return {
+    notes: notes.replace(PRIORITY_LINE, "").replace(DUE_TIME_LINE, "").trim(),
+    priority: priority || (task.title?.startsWith(HIGH_PRIORITY_MARK) ? "high" : undefined),
+    dueTime: dueTimeText ? resolveTime(dueTimeText)?.start : undefined,
+  };
+}
+
+/**
+ * The title as the user said it, without the high-priority mark
+ */
+export function plainTaskTitle(title: string | null | undefined): string {
+  return (title || "").startsWith(HIGH_PRIORITY_MARK) ? title!.slice(HIGH_PRIORITY_MARK.length) : title || "";
+}
+
+/**
+ * The title to store, marked when the task is high priority
+ */
+export function markedTaskTitle(title: string, priority?: TaskPriority): string {
+  return priority === "high" ? HIGH_PRIORITY_MARK + plainTaskTitle(title) : plainTaskTitle(title);
+}
+
+/**
+ * A task list the user picked by name, or the first list when none was named
+ */
+export interface TaskList {
+  id: string;
+  title: string;
+}
+
+// How closely a spoken list name must match ("grocery" → "Groceries")
+const MIN_LIST_SCORE = 0.6;
+
+/**
+ * Find a task list by a spoken name, creating it when asked to
+ * Without a name the first list (the user's default) is used.
+ */
+async function resolveTaskList(
+  tasks: tasks_v1.Tasks,
+  name?: string,
+  create: boolean = false
+): Promise<TaskList> {
+  const lists = (await tasks.tasklists.list({ maxResults: 100 })).data.items || [];
+
+  if (!name) {
+    if (lists.length === 0) {
+      // Tasks always has a default list; this only happens if the listing came back empty
+      return { id: "@default", title: "My Tasks" };
     }
+    console.log("📋 Using task list:", lists[0].title, "(ID:", lists[0].id, ")");
+    return { id: lists[0].id!, title: lists[0].title || "My Tasks" };
+  }
+
+  const ranked = lists
+    .map((list) => ({ list, score: titleSimilarity(name, list.title || "") ?? 0 }))
+    .filter((entry) => entry.score >= MIN_LIST_SCORE)
+    .sort((a, b) => b.score - a.score);
+
+  if (ranked.length > 0) {
+    const { list } = ranked[0];
+    console.log("📋 Using task list:", list.title, "(ID:", list.id, ")");
+    return { id: list.id!, title: list.title || name };
   }
 
-  return targetDate.toISOString();
+  if (!create) {
+    const available = lists.map((list) => `"${list.title}"`).join(", ");
+    throw new Error(`No task list called "${name}". Your lists are ${available}. Say "a new ${name} list" to create it.`);
+  }
+
+  const response = await tasks.tasklists.insert({ requestBody: { title: name } });
+  console.log("📋 Created task list:", response.data.title, "(ID:", response.data.id, ")");
+  return { id: response.data.id!, title: response.data.title || name };
 }
 
 /**
- * Get task list ID (use the first available list)
+ * Find an open task in a list by its spoken title, to add a subtask under it
  */
-async function getTaskListId(auth: any): Promise<string> {
-  try {
-    const tasks = google.tasks({ version: "v1", auth });
-    const response = await tasks.tasklists.list();
+async function findParentTask(
+  tasks: tasks_v1.Tasks,
+  taskListId: string,
+  title: string
+): Promise<tasks_v1.Schema$Task> {
+  const response = await tasks.tasks.list({ tasklist: taskListId, showCompleted: false, maxResults: 100 });
+  const ranked = (response.data.items || [])
+    // Subtasks cannot have subtasks of their own
+    .filter((task) => !task.parent)
+    .map((task) => ({ task, score: titleSimilarity(title, task.title || "") ?? 0 }))
+    .filter((entry) => entry.score >= MIN_LIST_SCORE)
+    .sort((a, b) => b.score - a.score);
 
-    if (response.data.items && response.data.items.length > 0) {
-      // Use the first available task list
-      const firstList = response.data.items[0];
-      console.log("📋 Using task list:", firstList.title, "(ID:", firstList.id, ")");
-      return firstList.id!;
-    } else {
-      throw new Error("No task lists found for user");
-    }
-  } catch (error) {
-    console.error("❌ Error getting task list:", error);
-    // Fallback to default as last resort
-    return "@default";
+  if (ranked.length === 0) {
+    throw new Error(`No open task "${title}" to add the subtask under`);
   }
+  return ranked[0].task;
+}
+
+/**
+ * A created task together with the list it was inserted into
+ */
+export interface CreatedTask extends tasks_v1.Schema$Task {
+  taskListId: string;
+  taskListTitle?: string;
+  parentTitle?: string; // Subtasks: the task they were added under
 }
 
 /**
- * Create a task
+ * Create a task, in a named list and under a parent task when asked
  */
 export async function createTask(
   userId: string,
-  data: GeminiResponse
-): Promise<tasks_v1.Schema$Task> {
+  data: GeminiResponse,
+  timeZone: string = getDefaultTimeZone()
+): Promise<CreatedTask> {
   if (data.action !== "task") {
     throw new Error("Invalid action type for tasks service");
   }
@@ -78,15 +190,20 @@ export async function createTask(
   const auth = await getAuthenticatedClient(userId);
   const tasks = google.tasks({ version: "v1", auth: auth as any });
 
-  const taskListId = await getTaskListId(auth);
+  const taskList = await resolveTaskList(tasks, data.list, data.createList === true);
+  const parent = data.parent ? await findParentTask(tasks, taskList.id, data.parent) : undefined;
 
-  const parsedDueDate = data.dueDate ? parseDate(data.dueDate) : undefined;
-  console.log("📅 Task due date input:", data.dueDate);
+  // A time without a day means today
+  const dueDate = data.dueDate || (data.dueTime ? "today" : undefined);
+  const parsedDueDate = dueDate ? toTaskDue(dueDate, timeZone) : undefined;
+  console.log("📅 Task due date input:", data.dueDate, data.dueTime || "");
   console.log("📅 Task due date parsed:", parsedDueDate);
 
+  const notes = encodeTaskNotes({ notes: data.description || "", priority: data.priority, dueTime: data.dueTime });
+
   const task: tasks_v1.Schema$Task = {
-    title: data.title,
-    ...(data.description && data.description.trim() && { notes: data.description.trim() }),
+    title: markedTaskTitle(data.title, data.priority),
+    ...(notes && { notes }),
     due: parsedDueDate,
     status: "needsAction",
   };
@@ -94,16 +211,104 @@ export async function createTask(
   console.log("📝 Creating task with data:", JSON.stringify(task, null, 2));
 
   const response = await tasks.tasks.insert({
-    tasklist: taskListId,
+    tasklist: taskList.id,
     requestBody: task,
+    ...(parent && { parent: parent.id! }),
   });
 
   if (!response.data) {
     throw new Error("Failed to create task");
   }
 
-  return response.data;
+  return {
+    ...response.data,
+    taskListId: taskList.id,
+    taskListTitle: taskList.title,
+    ...(parent && { parentTitle: parent.title || undefined }),
+  };
 }
 
+/**
+ * Open tasks across all of the user's task lists, or in one named list, each tagged with its list
+ */
+export async function listOpenTasks(userId: string, listName?: string): Promise<CreatedTask[]> {
+  const auth = await getAuthenticatedClient(userId);
+  const tasks = google.tasks({ version: "v1", auth: auth as any });
+
+  const lists = listName
+    ? [await resolveTaskList(tasks, listName)]
+    : ((await tasks.tasklists.list({ maxResults: 100 })).data.items || []).map((list) => ({
+        id: list.id!,
+        title: list.title || "",
+      }));
 
+  const perList = await Promise.all(
+    lists.map(async (list) => {
+      const response = await tasks.tasks.list({
+        tasklist: list.id,
+        showCompleted: false,
+        maxResults: 100,
+      });
+      return (response.data.items || []).map((task) => ({
+        ...task,
+        taskListId: list.id,
+        taskListTitle: list.title || undefined,
+      }));
+    })
+  );
+  return perList.flat();
+}
 
+/**
+ * Load one task from a task list
+ */
+export async function getTask(
+  userId: string,
+  taskListId: string,
+  taskId: string
+): Promise<CreatedTask> {
+  const auth = await getAuthenticatedClient(userId);
+  const tasks = google.tasks({ version: "v1", auth: auth as any });
+
+  const response = await tasks.tasks.get({ tasklist: taskListId, task: taskId });
+  return { ...response.data, taskListId };
+}
+
+/**
+ * Change fields of an existing task; fields left out of the patch are kept
+ */
+export async function updateTask(
+  userId: string,
+  taskListId: string,
+  taskId: string,
+  patch: tasks_v1.Schema$Task
+): Promise<CreatedTask> {
+  const auth = await getAuthenticatedClient(userId);
+  const tasks = google.tasks({ version: "v1", auth: auth as any });
+
+  const response = await tasks.tasks.patch({
+    tasklist: taskListId,
+    task: taskId,
+    requestBody: patch,
+  });
+  console.log("✏️  Task updated:", taskId);
+  return { ...response.data, taskListId };
+}
+
+/**
+ * Delete a task (when the user asks, or to undo a created one)
+ */
+export async function deleteTask(
+  userId: string,
+  taskListId: string,
+  taskId: string
+): Promise<void> {
+  const auth = await getAuthenticatedClient(userId);
+  const tasks = google.tasks({ version: "v1", auth: auth as any });
+
+  await tasks.tasks.delete({
+    tasklist: taskListId,
+    task: taskId,
+  });
+  console.log("🗑️  Task deleted:", taskId);
+}
@@ -0,0 +1,59 @@
+import { GoogleGenerativeAI, GenerativeModel } from "@google/generative-ai";
+import { IntentProvider, IntentRequest } from "./intentProvider";
+
+/**
+ * Gemini via the Google Generative AI SDK
+ * Configure with GEMINI_API_KEY, GEMINI_MODEL (default gemini-2.5-flash)
+ * and GEMINI_STRUCTURED_OUTPUT=false to disable JSON schema mode.
+ */
+export function createGeminiProvider(): IntentProvider {
+  const modelName = process.env.GEMINI_MODEL || "gemini-2.5-flash";
+  const useStructuredOutput = process.env.GEMINI_STRUCTURED_OUTPUT !== "false";
+
+  return {
+    name: `gemini:${modelName}`,
+    deterministic: false,
+
+    async generate(request: IntentRequest): Promise<string> {
+      // 🔐 Validate API key
+      const apiKey = process.env.GEMINI_API_KEY;
+      if (!apiKey || apiKey.trim() === "") {
+        throw new Error("GEMINI_API_KEY is not set in .env file.");
+      }
+
+      const genAI = new GoogleGenerativeAI(apiKey);
+
+      // Structured JSON mode constrains the reply to our schema; the plain model is
+      // kept as a fallback for model versions that reject responseSchema
+      const plainModel: GenerativeModel = genAI.getGenerativeModel({ model: modelName });
+      const structuredModel: GenerativeModel | null =
+        useStructuredOutput && request.responseSchema
+          ? genAI.getGenerativeModel({
+              model: modelName,
+              generationConfig: {
+                responseMimeType: "application/json",
+                responseSchema: request.responseSchema,
+              },
+            })
+          : null;
+
+      let result: any;
+      if (structuredModel) {
+        try {
+          result = await structuredModel.generateContent(request.prompt);
+        } catch (structuredError: any) {
+          console.warn("⚠️ Structured JSON mode failed, retrying without schema:", structuredError.message);
+          result = await plainModel.generateContent(request.prompt);
+        }
+      } else {
+        result = await plainModel.generateContent(request.prompt);
+      }
+
+      const responseText = result?.response?.text();
+      if (!responseText) {
+        throw new Error("Empty response from Gemini");
+      }
+      return responseText;
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import { IntentProvider } from "./intentProvider";
+import { createGeminiProvider } from "./gemini.provider";
+import { createOpenAiCompatibleProvider } from "./openAiCompatible.provider";
+import { createRuleBasedProvider } from "./ruleBased.provider";
+
+export type { IntentProvider, IntentRequest } from "./intentProvider";
+export { parseCommand } from "./ruleBased.provider";
+
+export type IntentProviderName = "gemini" | "openai" | "rules";
+
+const PROVIDER_FACTORIES: Record<IntentProviderName, () => IntentProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAiCompatibleProvider,
+  rules: createRuleBasedProvider,
+};
+
+/**
+ * Name of the configured provider (INTENT_PROVIDER, default "gemini")
+ */
+export function getIntentProviderName(): IntentProviderName {
+  const configured = (process.env.INTENT_PROVIDER || "gemini").toLowerCase();
+  if (configured in PROVIDER_FACTORIES) {
+    return configured as IntentProviderName;
+  }
+  console.warn(`⚠️  Unknown INTENT_PROVIDER "${configured}", using gemini`);
+  return "gemini";
+}
+
+/**
+ * Provider selected by configuration
+ */
+export function getIntentProvider(): IntentProvider {
+  return PROVIDER_FACTORIES[getIntentProviderName()]();
+}
+
+/**
+ * Offline provider used when the configured one fails
+ */
+export function getFallbackProvider(): IntentProvider {
+  return createRuleBasedProvider();
+}
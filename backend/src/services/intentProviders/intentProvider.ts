@@ -0,0 +1,26 @@
+import { ResponseSchema } from "@google/generative-ai";
+
+/**
+ * Everything a provider may need to turn a command into GeminiResponse JSON.
+ * LLM providers use the prompt; rule-based providers parse the raw text.
+ */
+export interface IntentRequest {
+  prompt: string;
+  text: string;
+  now: Date;
+  timeZone: string;
+  responseSchema?: ResponseSchema;
+}
+
+export interface IntentProvider {
+  readonly name: string;
+  /**
+   * Deterministic providers give the same reply for the same input,
+   * so re-prompting them with validation errors is pointless
+   */
+  readonly deterministic: boolean;
+  /**
+   * Return the provider's reply as JSON text (a GeminiResponse object)
+   */
+  generate(request: IntentRequest): Promise<string>;
+}
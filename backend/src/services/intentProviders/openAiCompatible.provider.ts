@@ -0,0 +1,52 @@
+import { IntentProvider, IntentRequest } from "./intentProvider";
+
+/**
+ * Any server speaking the OpenAI chat completions API
+ * (OpenAI, Ollama, llama.cpp server, vLLM, LM Studio, ...)
+ * Configure with OPENAI_BASE_URL (default http://localhost:11434/v1),
+ * OPENAI_MODEL and, if the server needs one, OPENAI_API_KEY.
+ */
+export function createOpenAiCompatibleProvider(): IntentProvider {
+  const baseUrl = (process.env.OPENAI_BASE_URL || "http://localhost:11434/v1").replace(/\/+$/, "");
+  const model = process.env.OPENAI_MODEL || "llama3.1";
+  const timeoutMs = Number(process.env.OPENAI_TIMEOUT_MS) || 30000;
+
+  return {
+    name: `openai:${model}`,
+    deterministic: false,
+
+    async generate(request: IntentRequest): Promise<string> {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (process.env.OPENAI_API_KEY) {
+        headers.Authorization = `Bearer ${process.env.OPENAI_API_KEY}`;
+      }
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model,
+          temperature: 0,
+          response_format: { type: "json_object" },
+          messages: [
+            { role: "system", content: "You reply with a single JSON object and nothing else." },
+            { role: "user", content: request.prompt },
+          ],
+        }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => "");
+        throw new Error(`OpenAI-compatible endpoint returned ${response.status}: ${errorText.substring(0, 200)}`);
+      }
+
+      const data: any = await response.json();
+      const content = data?.choices?.[0]?.message?.content;
+      if (!content || typeof content !== "string") {
+        throw new Error("Empty response from OpenAI-compatible endpoint");
+      }
+      return content;
+    },
+  };
+}
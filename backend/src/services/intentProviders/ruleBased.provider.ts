@@ -0,0 +1,535 @@
+import type { EmailDescription, GeminiResponse } from "../gemini.service";
+import { IntentProvider, IntentRequest } from "./intentProvider";
+import { TemporalOptions, minutesBetween, resolveDate, resolveTemporal, resolveTime } from "../../utils/temporalResolver";
+import { alignToRecurrence, describeRecurrence, parseRecurrence } from "../../utils/recurrence";
+import { resolveQueryTiming, resolveSearchWindow } from "../../utils/availability";
+
+/* ================== VOCABULARY ================== */
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+};
+
+const MONTHS = ["january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december"];
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+// "cc lee@acme.com", "bcc boss@acme.com and ops@acme.com"
+const COPY_CLAUSE = new RegExp(
+  `,?\\s*\\b(?:and\\s+)?(b?cc|blind[- ]copy|copy(?:ing)?)\\s+(${EMAIL_PATTERN.source}(?:\\s*(?:,|and)\\s*${EMAIL_PATTERN.source})*)`,
+  "gi"
+);
+
+// A capitalised name that is not a day, month or relative date ("Priya", "Sam Lee")
+const NAME_WORD = `(?!(?:${[...WEEKDAYS, ...MONTHS, "today", "tomorrow", "tonight", "next", "this"].map(capitalize).join("|")})\\b)[A-Z][\\w'-]*`;
+const ATTENDEE = `(?:${EMAIL_PATTERN.source}|${NAME_WORD}(?:\\s+${NAME_WORD})?)`;
+const ATTENDEE_LIST = new RegExp(`\\b(?:with|invite|inviting)\\s+(${ATTENDEE}(?:\\s*(?:,\\s*(?:and\\s+)?|and\\s+|&\\s*)${ATTENDEE})*)`);
+
+const EMAIL_INTENT = /\b(e-?mail|mail|write to|send (?:an? )?(?:e-?mail|message|note) to|message)\b/i;
+// "draft an email to Sam", "email Sam about rent and save it as a draft"
+const DRAFT_INTENT = /^(?:please\s+)?draft\b/i;
+const SAVE_AS_DRAFT = /,?\s*(?:and\s+)?(?:save|keep|leave)\s+(?:it\s+)?(?:as\s+an?|in\s+(?:my\s+)?)\s*drafts?\b/i;
+// "reply to Sarah's last email saying I'll be there", "reply all to the budget thread"
+const REPLY_INTENT = /^(?:please\s+)?reply(?:[- ]all|\s+to\s+all|\s+all)?\s+(?:to\s+)?/i;
+const REPLY_ALL = /^(?:please\s+)?reply(?:[- ]all|\s+to\s+all|\s+all)\b/i;
+// "forward the invoice from Acme to sam@acme.com"
+const FORWARD_INTENT = /^(?:please\s+)?forward\s+(.+?)\s+to\s+(\S+@\S+?|[A-Z][\w'-]*(?:\s+[A-Z][\w'-]*)?)(?:\s+(?:saying|with a note|and say)\s+(.+?))?[.!?]?$/;
+const EMAIL_NOTE = /\s+(?:saying|telling (?:him|her|them)|and say|to say)\s+(?:that\s+)?/i;
+// "send draft r-5871204", "send the Gmail draft r-5871204"
+const SEND_DRAFT = /^(?:please\s+)?send\s+(?:the\s+|my\s+)?(?:gmail\s+)?draft\s+(?:id\s+)?([\w-]+?)[.!]?$/i;
+const TASK_INTENT = /\b(remind me|reminder|to-?do|task|subtask|add .+ to (?:my |the |a new )?(?:[\w' -]+ )?(?:list|tasks))\b/i;
+// "and block time for it", "put it on my calendar too"
+const TASK_BLOCK = /,?\s*(?:and\s+)?(?:block (?:out\s+)?(?:some\s+)?time(?:\s+for it)?|put it (?:on|in) my calendar)(?:\s+too)?\b/i;
+// "what's on my Groceries list", "show my tasks", "what's overdue"
+const TASK_QUERY = /^(?:please\s+)?(?:what(?:'s| is| are)?|show(?: me)?|list|which|read(?: me)?)\b(?!.*\bcalendar\b).*\b(?:tasks?|to-?dos?|list|overdue)\b/i;
+// "mark buy milk as done", "check off buy milk", "I finished the report"
+const COMPLETE_INTENT = /^(?:please\s+)?(?:mark\s+(.+?)\s+(?:as\s+)?(?:done|complete(?:d)?|finished)|(?:complete|check off|tick off|cross off)\s+(.+)|I(?:'ve| have)?\s+(?:finished|done|completed)\s+(.+))$/i;
+// "to my Groceries list", "on a new Packing list"
+const TASK_LIST = /\s+(?:to|on|in|onto)\s+(?:(a\s+new\s+|my\s+new\s+|the\s+new\s+)|my\s+|the\s+)?(?!(?:my|the|to-?do|tasks?)\b)([\w' -]+?)\s+list\b/i;
+const SUBTASK_OF = /\s+(?:as\s+a\s+subtask\s+(?:of|to|for|under)|under)\s+(?:the\s+|my\s+)?(.+?)(?:\s+task)?(?=\s+(?:on|in|to)\s+(?:my|the|a)\b|$)/i;
+const FIND_TIME_INTENT = /\b(?:find|look for|suggest)\s+(?:me\s+|us\s+)?(?:a\s+|some\s+)?(?:(?:free\s+|good\s+)?(?:time|slot|window)s?\b|(?:\d+|half an?)\s*(?:minutes?|mins?|hours?|hrs?)\b|an?\s+hour\b)|\bwhen (?:can|could|am|are) (?:I|we)\b.*\b(?:meet|free)\b/i;
+const AVAILABILITY_QUESTION = /\b(?:am I|are we|is (?:my|the) calendar)\s+(?:free|busy|available|booked)\b/i;
+const NEXT_EVENT_QUESTION = /\bwhen(?:'s| is| are)\s+(?:my|our|the)\s+(?:next\s+)?(.+?)[?.!]*$/i;
+const QUERY_INTENT = /\b(?:what(?:'s| is)? (?:on )?(?:my|the) (?:calendar|agenda|schedule)|what(?:'s| is) on\b|what do I have|what does my (?:day|week|morning|afternoon|evening|calendar|schedule)|show (?:me )?my (?:calendar|agenda|schedule|day|week)|(?:my )?(?:agenda|schedule) for|do I have (?:any(?:thing)?|meetings?|events?))\b/i;
+const DELETE_INTENT = /^(?:please\s+)?(?:cancel|delete|remove|drop|call off)\b/i;
+const UPDATE_INTENT = /^(?:please\s+)?(?:move|reschedule|push|pull|shift|postpone|bump|rename|change|update)\b/i;
+const TASK_ITEM = /\b(?:task|to-?do|reminder)\b/i;
+const CALENDAR_INTENT = /\b(schedule|meeting|meet|appointment|call with|video call|invite|event|book|set up|sync|standup|calendar|lunch|dinner|every)\b/i;
+
+// Splits "schedule X and email Y" into separately parsed segments
+const COMPOUND_SPLIT = /\s*(?:,?\s*\band then\b|,?\s*\bthen\b|,?\s*\band also\b|,?\s*\band\b(?=\s+(?:e-?mail|mail|send|schedule|remind|add|create|book|set up|write)\b))\s*/i;
+
+/* ================== HELPERS ================== */
+
+function parseCount(word: string): number {
+  return NUMBER_WORDS[word.toLowerCase()] ?? Number(word);
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+interface Extraction<T> {
+  value?: T;
+  match?: string;
+}
+
+/* ================== EXTRACTORS ================== */
+
+/**
+ * @param bare Also accept a length without "for" ("find 30 minutes"), when no time can follow
+ */
+function extractDuration(text: string, bare: boolean = false): Extraction<number> {
+  const prefix = bare ? "(?:for\\s+)?" : "for\\s+";
+
+  const halfHour = text.match(new RegExp(`\\b${prefix}(?:a\\s+)?half(?:\\s+an)?\\s+hour\\b`, "i"));
+  if (halfHour) return { value: 30, match: halfHour[0] };
+
+  const match = text.match(new RegExp(`\\b${prefix}(\\d+(?:\\.\\d+)?|an?|one|two|three|four|five|six)\\s*(hours?|hrs?|minutes?|mins?)\\b`, "i"));
+  if (!match) return {};
+
+  const amount = parseCount(match[1]);
+  const minutes = /^h/i.test(match[2]) ? Math.round(amount * 60) : Math.round(amount);
+  return { value: minutes, match: match[0] };
+}
+
+function extractPriority(text: string): Extraction<"low" | "medium" | "high"> {
+  const high = text.match(/\b(?:urgent(?:ly)?|asap|important|high[- ]priority)\b/i);
+  if (high) return { value: "high", match: high[0] };
+  const low = text.match(/\b(?:low[- ]priority|whenever|no rush)\b/i);
+  if (low) return { value: "low", match: low[0] };
+  const medium = text.match(/\bmedium[- ]priority\b/i);
+  if (medium) return { value: "medium", match: medium[0] };
+  return {};
+}
+
+function extractAttendees(text: string): Extraction<string[]> {
+  const match = text.match(ATTENDEE_LIST);
+  if (!match) return {};
+  const attendees = match[1].split(/\s*(?:,\s*(?:and\s+)?|\band\s+|&\s*)/).map((name) => name.trim()).filter(Boolean);
+  return { value: attendees, match: match[0] };
+}
+
+function extractConference(text: string): Extraction<true> {
+  // "with a Meet link" is dropped from the title; "video call with Dana" keeps its words
+  const link = text.match(/\b(?:with|and add|add|include)\s+(?:a\s+)?(?:google\s+meet|meet|video(?:\s+call)?)(?:\s+link)?\b/i);
+  if (link) return { value: true, match: link[0] };
+  return /\b(?:video call|google meet)\b/i.test(text) ? { value: true } : {};
+}
+
+function extractSendUpdates(text: string): Extraction<"none"> {
+  const match = text.match(/,?\s*\b(?:(?:but\s+)?(?:don't|do not|without)\s+(?:notify(?:ing)?|email(?:ing)?|send(?:ing)?\s+(?:out\s+)?(?:the\s+)?(?:invites?|invitations?|updates?))(?:\s+(?:them|anyone|anybody|the attendees|attendees))?|silently|quietly)\b/i);
+  return match ? { value: "none", match: match[0] } : {};
+}
+
+function removeFragments(text: string, fragments: (string | undefined)[]): string {
+  let result = text;
+  for (const fragment of fragments) {
+    if (fragment) result = result.replace(fragment, " ");
+  }
+  return result.replace(/\s+/g, " ").trim();
+}
+
+function cleanTitle(text: string): string {
+  return capitalize(
+    text
+      .replace(/^(?:please\s+)?(?:can you\s+)?/i, "")
+      .replace(/[\s,.!?]+$/g, "")
+      .replace(/\s+(?:on|at|by|for)$/i, "")
+      .trim()
+  );
+}
+
+/* ================== INTENT PARSERS ================== */
+
+function parseCalendar(text: string, options: TemporalOptions): GeminiResponse {
+  // Take the repeat phrase out first so "every Monday" or "until March" is not read as the start date
+  const conference = extractConference(text);
+  const sendUpdates = extractSendUpdates(text);
+  const attendees = extractAttendees(removeFragments(text, [conference.match]));
+
+  const recurrence = parseRecurrence(text, options);
+  const withoutRecurrence = removeFragments(text, [...(recurrence?.matched || []), conference.match, sendUpdates.match]);
+  const temporal = resolveTemporal(withoutRecurrence, options);
+  const duration = extractDuration(text);
+
+  const location = text.match(/\b(?:at|in)\s+(?:the\s+)?([A-Z][\w'&-]*(?:\s+[A-Z][\w'&-]*)*)/);
+  const locationValue = location && !WEEKDAYS.includes(location[1].toLowerCase()) ? location[1] : undefined;
+
+  const remainder = removeFragments(withoutRecurrence, [...(temporal?.matched || []), duration.match, locationValue && location![0]])
+    .replace(/^(?:please\s+)?(?:schedule|book(?=\s+(?:an?|the|me)\b)|set up|create|add|put|arrange|plan)\s+(?:an?\s+)?(?:new\s+)?(?:calendar\s+)?(?:event\s+(?:for|called)\s+)?/i, "")
+    .replace(/\s+(?:on|to)\s+(?:my\s+)?calendar\b/i, "")
+    .replace(/^invite\s+.+?\s+to\s+(?:the\s+|an?\s+|our\s+)?/i, "");
+
+  // "3 to 4:30pm" carries its own length
+  const rangeMinutes = temporal?.time && temporal.endTime
+    ? minutesBetween(temporal.time, temporal.endTime)
+    : undefined;
+  const minutes = duration.value || rangeMinutes;
+
+  const date = temporal?.date || resolveDate("today", options)!;
+
+  // "Call with sam@acme.com" reads better as "Call with Sam"
+  const title = remainder.replace(new RegExp(EMAIL_PATTERN.source, "g"), (address) => capitalize(address.split(/[@._+]/)[0]));
+
+  return {
+    action: "calendar",
+    title: cleanTitle(title) || "Meeting",
+    date: recurrence ? alignToRecurrence(recurrence.rule, date) : date,
+    time: temporal?.time || "09:00",
+    ...(minutes && { duration: minutes }),
+    ...(locationValue && { location: locationValue }),
+    ...(recurrence && {
+      repeat: describeRecurrence(recurrence.rule),
+      recurrence: recurrence.rule,
+    }),
+    ...(attendees.value && { attendees: attendees.value }),
+    ...(conference.value && { conference: true }),
+    ...(sendUpdates.value && { sendUpdates: sendUpdates.value }),
+  };
+}
+
+function parseFindTime(text: string, options: TemporalOptions): GeminiResponse {
+  const duration = extractDuration(text, true);
+  const attendees = extractAttendees(text);
+  const window = resolveSearchWindow(removeFragments(text, [duration.match, attendees.match]), options);
+
+  return {
+    action: "findTime",
+    ...(duration.value && { duration: duration.value }),
+    ...(attendees.value && { attendees: attendees.value }),
+    ...(window && { searchFrom: window.from, searchTo: window.to }),
+    ...(window?.dayPart && { dayPart: window.dayPart }),
+  };
+}
+
+function parseQuery(text: string, options: TemporalOptions): GeminiResponse {
+  const attendees = extractAttendees(text);
+  const next = text.match(NEXT_EVENT_QUESTION);
+  const question = AVAILABILITY_QUESTION.test(text) ? "availability" : next ? "nextEvent" : "agenda";
+
+  // "when is my next dentist appointment" is about the dentist; "my next meeting" is about anything
+  const about = question === "nextEvent"
+    ? removeFragments(next![1], [attendees.match])
+      .replace(/\b(?:meeting|event|appointment|call|thing|one)s?\b/gi, "")
+      .replace(/\s+/g, " ")
+      .trim()
+    : "";
+  const timing = question === "nextEvent" ? null : resolveQueryTiming(removeFragments(text, [attendees.match]), options);
+
+  return {
+    action: "query",
+    question,
+    ...(about && { about }),
+    ...(attendees.value && { attendees: attendees.value }),
+    ...(timing?.time && { date: timing.window.from, time: timing.time }),
+    ...(timing?.time && timing.endTime && { duration: minutesBetween(timing.time, timing.endTime) }),
+    ...(timing && !timing.time && { searchFrom: timing.window.from, searchTo: timing.window.to }),
+    ...(timing?.window.dayPart && { dayPart: timing.window.dayPart }),
+  };
+}
+
+/**
+ * Describe the existing item a change refers to: its title words, when it is, and who it is with
+ */
+function parseItemDescription(text: string, options: TemporalOptions): NonNullable<GeminiResponse["match"]> {
+  const phrase = text.replace(/(\w)['’]s\b/g, "$1");
+  const attendees = extractAttendees(phrase);
+  const withoutAttendees = removeFragments(phrase, [attendees.match]);
+  const temporal = resolveTemporal(withoutAttendees, options);
+  const whenWords = (temporal?.matched || []).join(" ");
+
+  const title = removeFragments(withoutAttendees, temporal?.matched || [])
+    .replace(/\b(?:my|the|our|a|an|next|upcoming)\b/gi, " ")
+    .replace(/\b(?:task|to-?do|reminder|appointment|meeting|event)s?\b/gi, " ")
+    .replace(/\b(?:on|at|for|from)\s*$/i, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  const date = whenWords ? resolveDate(whenWords, options) : null;
+  const time = whenWords ? resolveTime(whenWords) : null;
+
+  return {
+    ...(title && { title }),
+    ...(date && { date }),
+    ...(time && { time: time.start }),
+    ...(attendees.value && { attendee: attendees.value[0] }),
+  };
+}
+
+function parseItemEdit(text: string, options: TemporalOptions): GeminiResponse {
+  const itemType = TASK_ITEM.test(text) ? "task" : "event";
+  const command = text.replace(/^(?:please\s+)?/i, "").replace(/[.!?]+$/, "");
+
+  if (DELETE_INTENT.test(text)) {
+    const target = command
+      .replace(DELETE_INTENT, "")
+      .replace(/\s+(?:from|off|on)\s+(?:my\s+)?(?:calendar|list|tasks?|to-?do list)\b.*$/i, "");
+    return { action: "delete", itemType, match: parseItemDescription(target, options) };
+  }
+
+  // "move X to Y", "push X back to Y", "rename X to Y"
+  const parts = command.match(/^(\w+)\s+(.+?)\s+(?:(?:back|forward|out)\s+)?(?:to|until|till)\s+(?:be\s+(?:due\s+)?)?(.+)$/i);
+  const verb = parts ? parts[1].toLowerCase() : "";
+  const target = parts ? parts[2].replace(/\s+(?:back|forward|out)$/i, "") : command.replace(UPDATE_INTENT, "");
+  const change = parts ? parts[3] : "";
+
+  const date = change ? resolveDate(change, options) : null;
+  const time = change ? resolveTime(change) : null;
+  const changes: GeminiResponse = {};
+
+  if (verb === "rename" || (change && !date && !time && verb === "change")) {
+    changes.title = cleanTitle(change);
+  } else if (itemType === "task") {
+    if (date) changes.dueDate = date;
+  } else if (date || time) {
+    if (date) changes.date = date;
+    if (time) changes.time = time.start;
+    if (time?.end) changes.duration = minutesBetween(time.start, time.end);
+  } else if (change) {
+    changes.location = cleanTitle(change);
+  }
+
+  return { action: "update", itemType, match: parseItemDescription(target, options), ...changes };
+}
+
+function parseTask(text: string, options: TemporalOptions): GeminiResponse {
+  const list = text.match(TASK_LIST);
+  const subtask = text.match(SUBTASK_OF);
+  const block = text.match(TASK_BLOCK);
+  const withoutPlacement = removeFragments(text, [list?.[0], subtask?.[0], block?.[0]]);
+
+  const temporal = resolveTemporal(withoutPlacement, options);
+  const priority = extractPriority(withoutPlacement);
+
+  const remainder = removeFragments(withoutPlacement, [...(temporal?.matched || []), priority.match])
+    // "Urgent: remind me to ..." leaves the colon behind
+    .replace(/^[\s:,-]+/, "")
+    .replace(/^(?:please\s+)?(?:remind me to|remind me about|set a reminder to|create (?:a\s+)?(?:sub)?(?:task|to-?do)\s+(?:to|for)?|add (?:a\s+)?(?:sub)?(?:task|to-?do)\s+(?:to|for)?|add)\s*/i, "")
+    .replace(/\s+to\s+(?:my\s+)?(?:to-?do\s+list|tasks?(?:\s+list)?|list)\b/i, "")
+    .replace(/^(?:a\s+)?(?:sub)?(?:task|to-?do)\s*:?\s*/i, "")
+    .replace(/\s*,?\s*(?:it's|it is|this is)\s*$/i, "");
+
+  return {
+    action: "task",
+    title: cleanTitle(remainder) || "New task",
+    ...(temporal && { dueDate: temporal.date }),
+    ...(temporal?.time && { dueTime: temporal.time }),
+    ...(priority.value && { priority: priority.value }),
+    ...(block && { calendarBlock: true }),
+    ...(list && { list: list[2].trim() }),
+    ...(list?.[1] && { createList: true }),
+    ...(subtask && { parent: subtask[1].trim() }),
+  };
+}
+
+function parseTaskQuery(text: string): GeminiResponse {
+  const list = text.match(/\b(?:my|the)\s+(?!(?:to-?do|tasks?)\b)([\w' -]+?)\s+list\b/i);
+  return {
+    action: "query",
+    question: "tasks",
+    ...(/\b(?:overdue|late|past due)\b/i.test(text) && { overdue: true }),
+    ...(list && { list: list[1].trim() }),
+  };
+}
+
+function parseTaskCompletion(text: string, options: TemporalOptions): GeminiResponse {
+  const match = text.replace(/[.!?]+$/, "").match(COMPLETE_INTENT)!;
+  const target = (match[1] || match[2] || match[3])
+    .replace(/\s+(?:on|from|in)\s+(?:my|the)\s+[\w' -]+?\s+list$/i, "");
+  return { action: "update", itemType: "task", match: parseItemDescription(target, options), completed: true };
+}
+
+/**
+ * Describe an existing email from words like "Sarah's last email", "the budget thread"
+ * or "the invoice from Acme"
+ */
+function parseEmailDescription(target: string): EmailDescription {
+  let rest = target.trim().replace(/^(?:the|my|that)\s+/i, "");
+  const namesEmail = /\b(?:e-?mails?|messages?|mails?|thread|note)\b/i.test(rest);
+
+  let from: string | undefined;
+  const fromMatch = rest.match(/\b[Ff]rom\s+([\w.@'-]+(?:\s+[A-Z][\w'-]*)?)/);
+  if (fromMatch) {
+    from = fromMatch[1];
+    rest = rest.replace(fromMatch[0], " ");
+  }
+  const possessive = rest.match(/^([\w.@-]+)'s\s+/);
+  if (possessive) {
+    from = possessive[1];
+    rest = rest.slice(possessive[0].length);
+  }
+
+  const about = rest.match(/\b(?:about|regarding|re:?)\s+(?:the\s+)?(.+)$/i);
+  if (about) {
+    rest = rest.slice(0, about.index);
+  }
+  rest = rest
+    .replace(/\b(?:last|latest|most recent|recent|e-?mails?|messages?|mails?|thread|note)\b/gi, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  // "reply to Sarah" names the sender; "the budget thread" names the subject
+  if (!from && !about && rest && !namesEmail) {
+    return { from: rest };
+  }
+  const subject = about ? about[1].trim() : rest || undefined;
+  return { ...(from && { from }), ...(subject && { subject }) };
+}
+
+function parseReply(text: string): GeminiResponse {
+  const command = text.replace(/[.!?]+$/, "");
+  const remainder = command.replace(REPLY_INTENT, "");
+  const note = remainder.match(EMAIL_NOTE);
+  const target = note ? remainder.slice(0, note.index) : remainder;
+  const body = note ? capitalize(remainder.slice(note.index! + note[0].length).trim()) : "";
+
+  return {
+    action: "email",
+    emailType: REPLY_ALL.test(command) ? "replyAll" : "reply",
+    thread: parseEmailDescription(target),
+    ...(body && { body: `${body}.` }),
+  };
+}
+
+function parseForward(text: string): GeminiResponse {
+  const match = text.trim().match(FORWARD_INTENT)!;
+  return {
+    action: "email",
+    emailType: "forward",
+    thread: parseEmailDescription(match[1]),
+    recipient: match[2],
+    ...(match[3] && { body: `${capitalize(match[3].trim())}.` }),
+  };
+}
+
+function parseEmail(fullText: string): GeminiResponse {
+  const saveAsDraft = DRAFT_INTENT.test(fullText) || SAVE_AS_DRAFT.test(fullText);
+  const cc: string[] = [];
+  const bcc: string[] = [];
+  for (const clause of fullText.matchAll(COPY_CLAUSE)) {
+    const addresses = clause[2].match(new RegExp(EMAIL_PATTERN.source, "g")) || [];
+    (/^b|blind/i.test(clause[1]) ? bcc : cc).push(...addresses);
+  }
+  const text = fullText.replace(COPY_CLAUSE, "").replace(SAVE_AS_DRAFT, "");
+
+  const addresses = text.match(new RegExp(EMAIL_PATTERN.source, "g"));
+  const address = text.match(EMAIL_PATTERN);
+  const named = text.match(/\b(?:e-?mail|mail|message|write to|(?:e-?mail|message|note)\s+to)\s+(?!to\b)(?:an?\s+)?([A-Za-z][\w'-]*)(\s+[\w'-]+)?/i);
+  // A second word is only part of the name when it is capitalised ("Priya Shah", not "Priya the")
+  const namedRecipient = named
+    ? named[1] + (named[2] && /^\s+[A-Z]/.test(named[2]) ? named[2] : "")
+    : undefined;
+  const recipient = address ? address[0] : namedRecipient;
+
+  const subjectMatch = text.match(/\b(?:about|regarding|re:|subject)\s+(.+?)(?=\s+(?:saying|telling|and say|to say|that)\b|[.!?]?$)/i);
+  const bodyMatch = text.match(/\b(?:saying|telling (?:him|her|them)|and say|to say|that)\s+(?:that\s+)?(.+?)[.!?]?$/i);
+  // "email Priya the agenda" → subject "Agenda"
+  const objectMatch = recipient
+    ? text.match(new RegExp(`${recipient.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\s+(?:the|our|my)\\s+([\\w' -]+?)(?=\\s+(?:about|regarding|saying|that)\\b|[.!?]?$)`, "i"))
+    : null;
+
+  const subject = subjectMatch
+    ? capitalize(subjectMatch[1].replace(/^(?:the|our|my)\s+/i, "").trim())
+    : objectMatch
+      ? capitalize(objectMatch[1].trim())
+      : bodyMatch
+        ? capitalize(bodyMatch[1].split(/\s+/).slice(0, 6).join(" "))
+        : "Quick note";
+
+  const bodySentence = bodyMatch
+    ? capitalize(bodyMatch[1].trim())
+    : `I wanted to reach out regarding ${subject.toLowerCase()}`;
+
+  const greetingName = recipient && !address ? ` ${capitalize(recipient)}` : "";
+
+  return {
+    action: "email",
+    recipient: addresses && addresses.length > 1 ? addresses.join(", ") : recipient,
+    ...(cc.length > 0 && { cc: cc.join(", ") }),
+    ...(bcc.length > 0 && { bcc: bcc.join(", ") }),
+    subject,
+    body: `Hi${greetingName},\n\n${bodySentence}${/[.!?]$/.test(bodySentence) ? "" : "."}`,
+    ...(saveAsDraft && { saveAsDraft: true }),
+  };
+}
+
+/**
+ * Parse a single-intent segment
+ */
+function parseSegment(text: string, options: TemporalOptions): GeminiResponse {
+  const sendDraft = text.trim().match(SEND_DRAFT);
+  if (sendDraft) {
+    return { action: "email", gmailDraftId: sendDraft[1] };
+  }
+  if (REPLY_INTENT.test(text.trim())) {
+    return parseReply(text.trim());
+  }
+  if (FORWARD_INTENT.test(text.trim())) {
+    return parseForward(text);
+  }
+  if (FIND_TIME_INTENT.test(text)) {
+    return parseFindTime(text, options);
+  }
+  if (COMPLETE_INTENT.test(text.replace(/[.!?]+$/, ""))) {
+    return parseTaskCompletion(text, options);
+  }
+  if (TASK_QUERY.test(text)) {
+    return parseTaskQuery(text);
+  }
+  if (DELETE_INTENT.test(text) || UPDATE_INTENT.test(text)) {
+    return parseItemEdit(text, options);
+  }
+  if (QUERY_INTENT.test(text) || AVAILABILITY_QUESTION.test(text) || NEXT_EVENT_QUESTION.test(text)) {
+    return parseQuery(text, options);
+  }
+  // An address alone means an email, unless it belongs to someone invited to a meeting
+  if (EMAIL_INTENT.test(text) || (EMAIL_PATTERN.test(text) && !CALENDAR_INTENT.test(text))) {
+    return parseEmail(text);
+  }
+  if (TASK_INTENT.test(text)) {
+    return parseTask(text, options);
+  }
+  if (CALENDAR_INTENT.test(text)) {
+    return parseCalendar(text, options);
+  }
+  return { action: "unknown", title: text.substring(0, 50) };
+}
+
+/**
+ * Deterministic, offline parser for common calendar/task/email phrasings
+ * Compound commands ("schedule X and email Y") become an actions array.
+ */
+export function parseCommand(text: string, options: TemporalOptions = {}): GeminiResponse {
+  const segments = text
+    .trim()
+    .split(COMPOUND_SPLIT)
+    .map((segment) => segment.trim())
+    .filter((segment) => segment.length > 0);
+
+  const actions = segments
+    .map((segment) => parseSegment(segment, options))
+    .filter((action) => action.action !== "unknown");
+
+  if (actions.length > 1) {
+    return { actions };
+  }
+  if (actions.length === 1) {
+    return actions[0];
+  }
+  return parseSegment(text.trim(), options);
+}
+
+/**
+ * Rule/grammar-based provider: no network, no API key, same output for the same input
+ */
+export function createRuleBasedProvider(): IntentProvider {
+  return {
+    name: "rules",
+    deterministic: true,
+
+    async generate(request: IntentRequest): Promise<string> {
+      return JSON.stringify(parseCommand(request.text, { timeZone: request.timeZone, clock: () => request.now }));
+    },
+  };
+}
@@ -0,0 +1,363 @@
+import { calendar_v3, tasks_v1 } from "googleapis";
+import { GeminiResponse } from "./gemini.service";
+import {
+  deleteCalendarEvent,
+  getCalendarEvent,
+  getDefaultSendUpdates,
+  resolveAttendees,
+  updateCalendarEvent,
+} from "./googleCalendar.service";
+import {
+  CreatedTask,
+  deleteTask,
+  encodeTaskNotes,
+  formatDueTime,
+  getTask,
+  listOpenTasks,
+  markedTaskTitle,
+  plainTaskTitle,
+  readTaskDetails,
+  toTaskDue,
+  updateTask,
+} from "./googleTasks.service";
+import { hasAttendee, isBlocking, listEvents, toAgendaEvent } from "./calendarQuery.service";
+import { titleSimilarity } from "../utils/fuzzyMatch";
+import { toLocalDate, toLocalTime } from "../utils/availability";
+import {
+  getDefaultTimeZone,
+  minutesBetween,
+  resolveDate,
+  shiftDate,
+  toZonedIso,
+  zonedDateTimeToInstant,
+} from "../utils/temporalResolver";
+
+export interface EditTarget {
+  kind: "event" | "task";
+  id: string;
+  taskListId?: string;
+  title: string;
+  when: string; // When it is, ready to display
+  score: number;
+  event?: calendar_v3.Schema$Event;
+  task?: CreatedTask;
+}
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface EditPreview {
+  target: EditTarget;
+  changes: FieldChange[];
+  eventPatch?: calendar_v3.Schema$Event;
+  taskPatch?: tasks_v1.Schema$Task;
+  addedAttendees?: calendar_v3.Schema$EventAttendee[];
+}
+
+// Without a day, events are looked for from today this far ahead
+const SEARCH_DAYS = 30;
+const MIN_TITLE_SCORE = 0.6;
+// A match this far ahead of the next best is taken without asking
+const CLEAR_LEAD = 0.2;
+const MAX_CANDIDATES = 5;
+// How far a said time may be from the event's start ("my 3pm" for a 3:15 start)
+const TIME_TOLERANCE_MINUTES = 60;
+
+/**
+ * When an event is, e.g. "Tue, Oct 20, 3:00 PM – 4:00 PM" or "Tue, Oct 20 (all day)"
+ */
+function describeEventTime(event: calendar_v3.Schema$Event, timeZone: string): string {
+  const { start, end, allDay } = toAgendaEvent(event, timeZone);
+  const day = start.toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric", timeZone });
+  if (allDay) {
+    return `${day} (all day)`;
+  }
+  const format = (date: Date) => date.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit", timeZone });
+  return `${day}, ${format(start)} – ${format(end)}`;
+}
+
+/**
+ * When a task is due, e.g. "Tue, Oct 20" or "Tue, Oct 20, 3:00 PM" (due dates are stored as UTC midnight)
+ */
+function describeDue(due: string | null | undefined, dueTime?: string): string {
+  if (!due) {
+    return "No due date";
+  }
+  const day = new Date(due).toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric", timeZone: "UTC" });
+  return dueTime ? `${day}, ${formatDueTime(dueTime)}` : day;
+}
+
+/**
+ * A task as an edit target
+ */
+function toTaskTarget(task: CreatedTask, score: number): EditTarget {
+  return {
+    kind: "task",
+    id: task.id!,
+    taskListId: task.taskListId,
+    title: plainTaskTitle(task.title) || "(No title)",
+    when: describeDue(task.due, readTaskDetails(task).dueTime),
+    score,
+    task,
+  };
+}
+
+/**
+ * Keep the best matches: one when it clearly leads, otherwise the close ones to choose from
+ */
+function pickCandidates(targets: EditTarget[]): EditTarget[] {
+  const ranked = [...targets].sort((a, b) => b.score - a.score);
+  if (ranked.length <= 1 || ranked[0].score - ranked[1].score >= CLEAR_LEAD) {
+    return ranked.slice(0, 1);
+  }
+  return ranked.filter((target) => ranked[0].score - target.score < CLEAR_LEAD).slice(0, MAX_CANDIDATES);
+}
+
+/**
+ * Find the events that fit the user's description, scored by title, time and attendee
+ * Only the next occurrence of a repeating event is offered unless a day was said.
+ */
+async function findEvents(
+  userId: string,
+  data: GeminiResponse,
+  timeZone: string,
+  now: Date
+): Promise<EditTarget[]> {
+  const match = data.match || {};
+  const today = resolveDate("today", { timeZone, clock: () => now })!;
+  const from = match.date || today;
+  const to = match.date || shiftDate(today, SEARCH_DAYS);
+
+  const items = await listEvents(
+    userId,
+    zonedDateTimeToInstant(from, "00:00", timeZone),
+    zonedDateTimeToInstant(shiftDate(to, 1), "00:00", timeZone)
+  );
+
+  const seenSeries = new Set<string>();
+  const targets: EditTarget[] = [];
+
+  for (const event of items.filter(isBlocking)) {
+    if (!match.date && event.recurringEventId && seenSeries.has(event.recurringEventId)) continue;
+
+    let score = titleSimilarity(match.title || "", event.summary || "") ?? 1;
+    if (score < MIN_TITLE_SCORE) continue;
+
+    if (match.time) {
+      if (!event.start?.dateTime) continue;
+      const start = toLocalTime(new Date(event.start.dateTime), timeZone);
+      const offset = Math.abs(minutesBetween(match.time, start));
+      const distance = Math.min(offset, 24 * 60 - offset);
+      if (distance > TIME_TOLERANCE_MINUTES) continue;
+      score += distance === 0 ? 0.5 : 0.25;
+    }
+
+    if (match.attendee) {
+      if (!hasAttendee(event, [match.attendee])) continue;
+      score += 0.5;
+    }
+
+    if (event.recurringEventId) {
+      seenSeries.add(event.recurringEventId);
+    }
+
+    targets.push({
+      kind: "event",
+      id: event.id!,
+      title: event.summary || "(No title)",
+      when: describeEventTime(event, timeZone),
+      score,
+      event,
+    });
+  }
+
+  return pickCandidates(targets);
+}
+
+/**
+ * Find the open tasks that fit the user's description, scored by title and due date
+ */
+async function findTasks(userId: string, data: GeminiResponse): Promise<EditTarget[]> {
+  const match = data.match || {};
+  const targets: EditTarget[] = [];
+
+  for (const task of await listOpenTasks(userId)) {
+    const score = titleSimilarity(match.title || "", task.title || "") ?? 1;
+    if (score < MIN_TITLE_SCORE) continue;
+    if (match.date && task.due?.slice(0, 10) !== match.date) continue;
+
+    targets.push(toTaskTarget(task, score));
+  }
+
+  return pickCandidates(targets);
+}
+
+/**
+ * Find the event or task an update/delete refers to
+ * Once the user has picked one (targetId), only that item is loaded.
+ * @returns One target, several to choose from, or none
+ */
+export async function findEditTargets(
+  userId: string,
+  data: GeminiResponse,
+  timeZone: string = getDefaultTimeZone(),
+  now: Date = new Date()
+): Promise<EditTarget[]> {
+  if (data.action !== "update" && data.action !== "delete") {
+    throw new Error("Invalid action type for item edit service");
+  }
+
+  if (data.targetId) {
+    if (data.itemType === "task") {
+      const task = await getTask(userId, data.targetListId || "@default", data.targetId);
+      return [toTaskTarget(task, 1)];
+    }
+    const event = await getCalendarEvent(userId, data.targetId);
+    return [{ kind: "event", id: event.id!, title: event.summary || "(No title)", when: describeEventTime(event, timeZone), score: 1, event }];
+  }
+
+  const match = data.match || {};
+  if (!match.title && !match.date && !match.time && !match.attendee) {
+    throw new Error(`Say which ${data.itemType === "task" ? "task" : "event"} you mean, e.g. by its title or time.`);
+  }
+
+  return data.itemType === "task" ? findTasks(userId, data) : findEvents(userId, data, timeZone, now);
+}
+
+/**
+ * Work out what an update would change on the target, field by field
+ * Anything the user did not mention is kept: moving to "Thursday" keeps the time,
+ * and a new start time keeps the length.
+ */
+export async function previewEdit(
+  userId: string,
+  target: EditTarget,
+  data: GeminiResponse,
+  timeZone: string = getDefaultTimeZone()
+): Promise<EditPreview> {
+  const changes: FieldChange[] = [];
+  const change = (field: string, label: string, before: string, after: string) => {
+    if (before !== after) changes.push({ field, label, before, after });
+  };
+
+  if (target.kind === "task") {
+    const task = target.task!;
+    const details = readTaskDetails(task);
+    const patch: tasks_v1.Schema$Task = {};
+    if (data.title) {
+      change("title", "Title", plainTaskTitle(task.title), data.title);
+      patch.title = markedTaskTitle(data.title, details.priority);
+    }
+    if (data.dueDate || data.dueTime) {
+      // A new day keeps the time, and a new time keeps the day
+      const due = data.dueDate ? toTaskDue(data.dueDate, timeZone) : task.due || toTaskDue("today", timeZone);
+      const dueTime = data.dueTime || details.dueTime;
+      change("due", "Due", describeDue(task.due, details.dueTime), describeDue(due, dueTime));
+      patch.due = due;
+      details.dueTime = dueTime;
+    }
+    if (data.description) {
+      change("notes", "Notes", details.notes, data.description);
+      details.notes = data.description;
+    }
+    if (data.dueTime || data.description) {
+      // The priority and due time live in the notes, so they are rewritten together
+      patch.notes = encodeTaskNotes(details) || "";
+    }
+    if (data.completed) {
+      change("status", "Status", task.status === "completed" ? "Done" : "Open", "Done");
+      patch.status = "completed";
+    }
+    return { target, changes, taskPatch: patch };
+  }
+
+  const event = target.event!;
+  const patch: calendar_v3.Schema$Event = {};
+
+  if (data.title) {
+    change("title", "Title", event.summary || "", data.title);
+    patch.summary = data.title;
+  }
+
+  if (data.date || data.time || data.duration) {
+    const current = toAgendaEvent(event, timeZone);
+    if (current.allDay && !data.time) {
+      // An all-day event stays all-day, keeping how many days it spans
+      const days = Math.round((current.end.getTime() - current.start.getTime()) / 86400000) || 1;
+      const date = data.date || event.start!.date!;
+      patch.start = { date };
+      patch.end = { date: shiftDate(date, days) };
+    } else {
+      const date = data.date || toLocalDate(current.start, timeZone);
+      const time = data.time || toLocalTime(current.start, timeZone);
+      const minutes = data.duration || (current.allDay ? 60 : (current.end.getTime() - current.start.getTime()) / 60000);
+      const start = zonedDateTimeToInstant(date, time, timeZone);
+      const end = new Date(start.getTime() + minutes * 60000);
+      patch.start = { dateTime: toZonedIso(start, timeZone), timeZone };
+      patch.end = { dateTime: toZonedIso(end, timeZone), timeZone };
+    }
+    change("time", "When", target.when, describeEventTime({ ...event, ...patch }, timeZone));
+  }
+
+  if (data.location) {
+    change("location", "Location", event.location || "", data.location);
+    patch.location = data.location;
+  }
+
+  if (data.description) {
+    change("description", "Description", event.description || "", data.description);
+    patch.description = data.description;
+  }
+
+  let addedAttendees: calendar_v3.Schema$EventAttendee[] | undefined;
+  if (data.attendees?.length) {
+    const existing = event.attendees || [];
+    addedAttendees = (await resolveAttendees(userId, data.attendees)).filter(
+      (attendee) => !existing.some((current) => current.email?.toLowerCase() === attendee.email?.toLowerCase())
+    );
+    if (addedAttendees.length > 0) {
+      const names = (list: calendar_v3.Schema$EventAttendee[]) =>
+        list.filter((attendee) => !attendee.self).map((attendee) => attendee.displayName || attendee.email).join(", ");
+      patch.attendees = [...existing, ...addedAttendees];
+      change("attendees", "Attendees", names(existing), names(patch.attendees));
+    }
+  }
+
+  return { target, changes, eventPatch: patch, addedAttendees };
+}
+
+/**
+ * Apply a previewed update, or delete the target
+ */
+export async function applyEdit(
+  userId: string,
+  data: GeminiResponse,
+  preview: EditPreview
+): Promise<void> {
+  const { target } = preview;
+
+  if (data.action === "delete") {
+    if (target.kind === "task") {
+      await deleteTask(userId, target.taskListId || "@default", target.id);
+    } else {
+      await deleteCalendarEvent(userId, target.id);
+    }
+    return;
+  }
+
+  if (target.kind === "task") {
+    await updateTask(userId, target.taskListId || "@default", target.id, preview.taskPatch || {});
+  } else {
+    const invited = (target.event?.attendees || []).some((attendee) => !attendee.self);
+    await updateCalendarEvent(
+      userId,
+      target.id,
+      preview.eventPatch || {},
+      invited || preview.addedAttendees?.length ? data.sendUpdates || getDefaultSendUpdates() : "none"
+    );
+  }
+}
@@ -0,0 +1,182 @@
+import { GeminiResponse } from "./gemini.service";
+import { queryFreeBusy, resolveAttendees } from "./googleCalendar.service";
+import {
+  DEFAULT_SCHEDULING_PREFERENCES,
+  SchedulingPreferences,
+  getSchedulingPreferences,
+} from "./userProfile.service";
+import {
+  DAY_PART_HOURS,
+  DayPart,
+  TimeInterval,
+  findFreeSlots,
+  toLocalDate,
+  toLocalTime,
+} from "../utils/availability";
+import { getDefaultTimeZone, resolveDate, shiftDate, zonedDateTimeToInstant } from "../utils/temporalResolver";
+
+export interface RankedSlot extends TimeInterval {
+  score: number;
+  reasons: string[]; // Why the slot ranks where it does, for display
+}
+
+export interface MeetingTimeSearch {
+  title: string;
+  duration: number;
+  from: string; // First day searched, YYYY-MM-DD
+  to: string;   // Last day searched, inclusive
+  dayPart?: DayPart;
+  attendees: { email: string; name?: string }[];
+  unavailable: string[]; // Attendees whose calendars are not visible, so their time was not checked
+  slots: RankedSlot[];   // Best first
+}
+
+const DEFAULT_DURATION = 30;
+const DEFAULT_SEARCH_DAYS = 7;
+const MAX_SLOTS = 5;
+const MAX_SLOTS_PER_DAY = 2; // Spread suggestions across days instead of listing one busy afternoon
+const LUNCH: { start: string; end: string } = { start: "12:00", end: "13:00" };
+
+/**
+ * Which part of the day a local HH:MM falls in
+ */
+function dayPartOf(time: string): DayPart | undefined {
+  return (Object.keys(DAY_PART_HOURS) as DayPart[]).find(
+    (part) => time >= DAY_PART_HOURS[part].start && time < DAY_PART_HOURS[part].end
+  );
+}
+
+/**
+ * Score a free slot against the user's preferences; higher is better
+ */
+function scoreSlot(
+  slot: TimeInterval,
+  dayOffset: number,
+  busy: TimeInterval[],
+  preferences: SchedulingPreferences,
+  timeZone: string
+): RankedSlot {
+  const reasons: string[] = [];
+  let score = 10;
+
+  // Sooner is slightly better
+  score -= dayOffset * 0.5;
+
+  const start = toLocalTime(slot.start, timeZone);
+  const end = toLocalTime(slot.end, timeZone);
+
+  if (preferences.preferredDayPart && dayPartOf(start) === preferences.preferredDayPart) {
+    score += 2;
+    reasons.push(`In your preferred ${preferences.preferredDayPart}`);
+  }
+
+  if (preferences.avoidLunch && start < LUNCH.end && end > LUNCH.start) {
+    score -= 3;
+    reasons.push("Over lunch");
+  }
+
+  const backToBack = busy.some(
+    (interval) => interval.end.getTime() === slot.start.getTime() || interval.start.getTime() === slot.end.getTime()
+  );
+  if (backToBack) {
+    score -= 1;
+    reasons.push("Back-to-back with another meeting");
+  }
+
+  if (start.endsWith(":00")) {
+    score += 0.5;
+  }
+
+  return { ...slot, score, reasons };
+}
+
+/**
+ * Find and rank free times for a meeting across the user's calendar and the attendees'
+ * Days outside the user's working days are skipped unless a single day was asked for;
+ * an explicit part of the day ("in the afternoon") replaces the working hours.
+ */
+export async function findMeetingTimes(
+  userId: string,
+  data: GeminiResponse,
+  timeZone: string = getDefaultTimeZone(),
+  now: Date = new Date()
+): Promise<MeetingTimeSearch> {
+  if (data.action !== "findTime") {
+    throw new Error("Invalid action type for scheduling service");
+  }
+
+  let preferences = DEFAULT_SCHEDULING_PREFERENCES;
+  try {
+    preferences = await getSchedulingPreferences(userId);
+  } catch (error: any) {
+    console.warn("⚠️  Could not load scheduling preferences, using defaults:", error.message);
+  }
+
+  const today = resolveDate("today", { timeZone, clock: () => now })!;
+  const from = data.searchFrom && data.searchFrom > today ? data.searchFrom : today;
+  const to = data.searchTo || shiftDate(from, DEFAULT_SEARCH_DAYS - 1);
+  if (to < from) {
+    throw new Error("That time window has already passed. Try a later day.");
+  }
+
+  const duration = data.duration || DEFAULT_DURATION;
+  const attendees = data.attendees?.length ? await resolveAttendees(userId, data.attendees) : [];
+  const emails = attendees.map((attendee) => attendee.email!);
+
+  const timeMin = new Date(Math.max(now.getTime(), zonedDateTimeToInstant(from, "00:00", timeZone).getTime()));
+  const timeMax = zonedDateTimeToInstant(shiftDate(to, 1), "00:00", timeZone);
+  const busyByCalendar = await queryFreeBusy(userId, timeMin, timeMax, ["primary", ...emails]);
+
+  const busy = Object.values(busyByCalendar).flatMap((intervals) => intervals || []);
+  const unavailable = emails.filter((email) => busyByCalendar[email] === null);
+
+  const hours = data.dayPart ? DAY_PART_HOURS[data.dayPart] : preferences.workingHours;
+  const singleDay = from === to;
+  const candidates: RankedSlot[] = [];
+
+  for (let offset = 0, date = from; date <= to; offset++, date = shiftDate(from, offset)) {
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    if (!singleDay && !preferences.workingDays.includes(weekday)) continue;
+
+    const dayEnd = zonedDateTimeToInstant(date, hours.end, timeZone);
+    if (dayEnd <= now) continue;
+
+    const dayStart = zonedDateTimeToInstant(date, hours.start, timeZone);
+    const slots = findFreeSlots(busy, {
+      from: dayStart > now ? dayStart : now,
+      duration,
+      timeZone,
+      days: 1,
+      dayStart: hours.start,
+      dayEnd: hours.end,
+      limit: Infinity,
+    });
+    candidates.push(...slots.map((slot) => scoreSlot(slot, offset, busy, preferences, timeZone)));
+  }
+
+  // Best first, earliest breaking ties, at most a couple per day
+  candidates.sort((a, b) => b.score - a.score || a.start.getTime() - b.start.getTime());
+  const perDay = new Map<string, number>();
+  const ranked: RankedSlot[] = [];
+  for (const slot of candidates) {
+    const day = toLocalDate(slot.start, timeZone);
+    if ((perDay.get(day) || 0) >= MAX_SLOTS_PER_DAY) continue;
+    perDay.set(day, (perDay.get(day) || 0) + 1);
+    ranked.push(slot);
+    if (ranked.length === MAX_SLOTS) break;
+  }
+
+  const names = attendees.map((attendee) => attendee.displayName || attendee.email!.split("@")[0]);
+  console.log(`🗓️  ${ranked.length} slot(s) found from ${candidates.length} free candidates (${from} → ${to})`);
+
+  return {
+    title: data.title || (names.length > 0 ? `Meeting with ${names.join(", ")}` : "Meeting"),
+    duration,
+    from,
+    to,
+    dayPart: data.dayPart,
+    attendees: attendees.map((attendee) => ({ email: attendee.email!, name: attendee.displayName || undefined })),
+    unavailable,
+    slots: ranked,
+  };
+}
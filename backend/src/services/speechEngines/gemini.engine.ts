@@ -0,0 +1,39 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { SpeechEngine, TranscriptionRequest } from "./speechEngine";
+
+/**
+ * Gemini listening to the recording itself
+ * Uses GEMINI_API_KEY and GEMINI_MODEL (default gemini-2.5-flash), like the intent provider.
+ */
+export function createGeminiEngine(): SpeechEngine {
+  const modelName = process.env.GEMINI_MODEL || "gemini-2.5-flash";
+
+  return {
+    name: `gemini:${modelName}`,
+
+    async transcribe(request: TranscriptionRequest): Promise<string> {
+      const apiKey = process.env.GEMINI_API_KEY;
+      if (!apiKey || apiKey.trim() === "") {
+        throw new Error("GEMINI_API_KEY is not set in .env file.");
+      }
+
+      const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+        model: modelName,
+        generationConfig: { temperature: 0 },
+      });
+
+      const instructions = [
+        "Transcribe the speech in this recording word for word.",
+        request.language ? `The speaker is talking in language "${request.language}".` : "",
+        "Reply with the transcript only: no quotes, labels, timestamps or notes.",
+        "If nobody is speaking, reply with an empty message.",
+      ].filter(Boolean).join(" ");
+
+      const result = await model.generateContent([
+        { inlineData: { mimeType: request.mimeType, data: request.audio.toString("base64") } },
+        { text: instructions },
+      ]);
+      return result.response.text().trim();
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import { SpeechEngine } from "./speechEngine";
+import { createGeminiEngine } from "./gemini.engine";
+import { createOpenAiCompatibleEngine } from "./openAiCompatible.engine";
+import { createLocalEngine } from "./local.engine";
+
+export type { SpeechEngine, TranscriptionRequest } from "./speechEngine";
+
+export type SpeechEngineName = "gemini" | "openai" | "local";
+
+const ENGINE_FACTORIES: Record<SpeechEngineName, () => SpeechEngine> = {
+  gemini: createGeminiEngine,
+  openai: createOpenAiCompatibleEngine,
+  local: createLocalEngine,
+};
+
+/**
+ * Name of the configured engine (SPEECH_ENGINE, default "gemini")
+ */
+export function getSpeechEngineName(): SpeechEngineName {
+  const configured = (process.env.SPEECH_ENGINE || "gemini").toLowerCase();
+  if (configured in ENGINE_FACTORIES) {
+    return configured as SpeechEngineName;
+  }
+  console.warn(`⚠️  Unknown SPEECH_ENGINE "${configured}", using gemini`);
+  return "gemini";
+}
+
+/**
+ * Engine selected by configuration
+ */
+export function getSpeechEngine(): SpeechEngine {
+  return ENGINE_FACTORIES[getSpeechEngineName()]();
+}
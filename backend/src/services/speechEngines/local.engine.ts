@@ -0,0 +1,57 @@
+import { execFile } from "child_process";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { promisify } from "util";
+import { SpeechEngine, TranscriptionRequest, audioExtension } from "./speechEngine";
+
+const run = promisify(execFile);
+
+/**
+ * whisper.cpp on this machine: nothing leaves the server and no account is needed
+ * ffmpeg turns the browser's recording into the 16 kHz mono WAV whisper.cpp reads.
+ * Configure with WHISPER_MODEL_PATH (a ggml model file, required), WHISPER_CPP_BIN
+ * (default whisper-cli), FFMPEG_BIN (default ffmpeg) and STT_TIMEOUT_MS.
+ */
+export function createLocalEngine(): SpeechEngine {
+  const whisperBin = process.env.WHISPER_CPP_BIN || "whisper-cli";
+  const ffmpegBin = process.env.FFMPEG_BIN || "ffmpeg";
+  const modelPath = process.env.WHISPER_MODEL_PATH;
+  const timeoutMs = Number(process.env.STT_TIMEOUT_MS) || 60000;
+
+  return {
+    name: `local:${modelPath ? path.basename(modelPath) : "whisper.cpp"}`,
+
+    async transcribe(request: TranscriptionRequest): Promise<string> {
+      if (!modelPath) {
+        throw new Error("WHISPER_MODEL_PATH is not set in .env file.");
+      }
+
+      const workDir = await mkdtemp(path.join(tmpdir(), "voice-audit-stt-"));
+      try {
+        const input = path.join(workDir, `speech.${audioExtension(request.mimeType)}`);
+        const wav = path.join(workDir, "speech.wav");
+        await writeFile(input, request.audio);
+
+        await run(ffmpegBin, ["-nostdin", "-loglevel", "error", "-i", input, "-ar", "16000", "-ac", "1", "-c:a", "pcm_s16le", wav], {
+          timeout: timeoutMs,
+        });
+
+        const { stdout } = await run(
+          whisperBin,
+          ["-m", modelPath, "-f", wav, "-l", request.language || "auto", "--no-timestamps", "--no-prints"],
+          { timeout: timeoutMs, maxBuffer: 4 * 1024 * 1024 }
+        );
+        // whisper.cpp marks silence as [BLANK_AUDIO] and sounds like (music) or [typing]
+        return stdout.replace(/\[[^\]]*\]|\([^)]*\)/g, " ").replace(/\s+/g, " ").trim();
+      } catch (error: any) {
+        if (error.code === "ENOENT") {
+          throw new Error(`${error.path || "A transcription program"} was not found. Install ffmpeg and whisper.cpp, or set FFMPEG_BIN and WHISPER_CPP_BIN.`);
+        }
+        throw error;
+      } finally {
+        await rm(workDir, { recursive: true, force: true });
+      }
+    },
+  };
+}
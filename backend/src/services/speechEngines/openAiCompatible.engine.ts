@@ -0,0 +1,54 @@
+import { SpeechEngine, TranscriptionRequest, audioExtension } from "./speechEngine";
+
+/**
+ * Any server speaking the OpenAI audio transcriptions API
+ * (OpenAI Whisper, Groq, faster-whisper-server, LocalAI, ...)
+ * Configure with STT_BASE_URL (default https://api.openai.com/v1), STT_MODEL (default whisper-1)
+ * and, if the server needs one, STT_API_KEY.
+ */
+export function createOpenAiCompatibleEngine(): SpeechEngine {
+  const baseUrl = (process.env.STT_BASE_URL || "https://api.openai.com/v1").replace(/\/+$/, "");
+  const model = process.env.STT_MODEL || "whisper-1";
+  const timeoutMs = Number(process.env.STT_TIMEOUT_MS) || 60000;
+
+  return {
+    name: `openai:${model}`,
+
+    async transcribe(request: TranscriptionRequest): Promise<string> {
+      const form = new FormData();
+      form.append(
+        "file",
+        new Blob([new Uint8Array(request.audio)], { type: request.mimeType }),
+        `speech.${audioExtension(request.mimeType)}`
+      );
+      form.append("model", model);
+      form.append("response_format", "json");
+      if (request.language) {
+        form.append("language", request.language);
+      }
+
+      const headers: Record<string, string> = {};
+      if (process.env.STT_API_KEY) {
+        headers.Authorization = `Bearer ${process.env.STT_API_KEY}`;
+      }
+
+      const response = await fetch(`${baseUrl}/audio/transcriptions`, {
+        method: "POST",
+        headers,
+        body: form,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => "");
+        throw new Error(`Transcription endpoint returned ${response.status}: ${errorText.substring(0, 200)}`);
+      }
+
+      const data: any = await response.json();
+      if (typeof data?.text !== "string") {
+        throw new Error("Empty response from transcription endpoint");
+      }
+      return data.text.trim();
+    },
+  };
+}
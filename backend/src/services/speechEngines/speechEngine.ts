@@ -0,0 +1,34 @@
+/**
+ * Recorded speech to turn into text, as uploaded by the browser
+ */
+export interface TranscriptionRequest {
+  audio: Buffer;
+  mimeType: string; // e.g. audio/webm, audio/ogg, audio/mp4 (without codec parameters)
+  language?: string; // ISO 639-1 code such as "en"; engines detect it when left out
+}
+
+export interface SpeechEngine {
+  readonly name: string;
+  /**
+   * Return what was said, or an empty string when there was no speech
+   */
+  transcribe(request: TranscriptionRequest): Promise<string>;
+}
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "video/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mp4": "m4a",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/flac": "flac",
+};
+
+/**
+ * File extension for an audio type, for engines that go by the file name
+ */
+export function audioExtension(mimeType: string): string {
+  return AUDIO_EXTENSIONS[mimeType] || "webm";
+}
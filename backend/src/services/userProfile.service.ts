@@ -0,0 +1,328 @@
+import admin from "../firebaseAdmin";
+import { getDefaultTimeZone, isValidTimeZone } from "../utils/temporalResolver";
+import type { DayPart } from "../utils/availability";
+
+const PROFILES_COLLECTION = "userProfiles";
+
+/**
+ * Get the user's stored IANA time zone
+ * @returns The stored zone, or null if the browser has never reported one
+ */
+export async function getStoredTimeZone(userId: string): Promise<string | null> {
+  const db = admin.firestore();
+  const doc = await db.collection(PROFILES_COLLECTION).doc(userId).get();
+  const timeZone = doc.data()?.timeZone;
+  return typeof timeZone === "string" && isValidTimeZone(timeZone) ? timeZone : null;
+}
+
+/**
+ * Store the user's IANA time zone on their profile
+ */
+export async function storeTimeZone(userId: string, timeZone: string): Promise<void> {
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Invalid time zone: ${timeZone}`);
+  }
+
+  const db = admin.firestore();
+  await db.collection(PROFILES_COLLECTION).doc(userId).set(
+    {
+      timeZone,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+  console.log("🌍 Time zone stored for user:", userId, timeZone);
+}
+
+/**
+ * Work out which time zone to use for a request
+ * - A valid zone reported by the browser wins and is saved when it changed
+ * - Otherwise the zone stored on the profile, then the server default
+ */
+export async function resolveUserTimeZone(
+  userId: string,
+  requestedTimeZone?: unknown
+): Promise<string> {
+  let stored: string | null = null;
+  try {
+    stored = await getStoredTimeZone(userId);
+  } catch (error: any) {
+    console.warn("⚠️  Could not load stored time zone:", error.message);
+  }
+
+  if (typeof requestedTimeZone === "string" && isValidTimeZone(requestedTimeZone)) {
+    if (requestedTimeZone !== stored) {
+      try {
+        await storeTimeZone(userId, requestedTimeZone);
+      } catch (error: any) {
+        console.warn("⚠️  Could not store time zone:", error.message);
+      }
+    }
+    return requestedTimeZone;
+  }
+
+  return stored || getDefaultTimeZone();
+}
+
+/* ================== SCHEDULING PREFERENCES ================== */
+
+export interface SchedulingPreferences {
+  workingHours: { start: string; end: string }; // Local HH:MM
+  workingDays: number[];                         // 0 = Sunday … 6 = Saturday
+  preferredDayPart?: DayPart;                    // Favoured when ranking free slots
+  avoidLunch: boolean;                           // Rank 12:00–13:00 slots lower
+}
+
+export const DEFAULT_SCHEDULING_PREFERENCES: SchedulingPreferences = {
+  workingHours: { start: "09:00", end: "17:00" },
+  workingDays: [1, 2, 3, 4, 5],
+  avoidLunch: true,
+};
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DAY_PARTS: readonly DayPart[] = ["morning", "afternoon", "evening"];
+
+// A change to the scheduling preferences; a null preferredDayPart clears it
+export type SchedulingPreferencesUpdate = Partial<Omit<SchedulingPreferences, "preferredDayPart">> & {
+  preferredDayPart?: DayPart | null;
+};
+
+/**
+ * Validate a partial preferences object, keeping only well-formed fields
+ * @throws When a field is present but invalid
+ */
+function parseSchedulingPreferences(raw: unknown): Partial<SchedulingPreferences> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("Scheduling preferences must be an object");
+  }
+
+  const input = raw as Record<string, unknown>;
+  const result: Partial<SchedulingPreferences> = {};
+
+  if (input.workingHours !== undefined) {
+    const hours = input.workingHours as { start?: unknown; end?: unknown } | null;
+    if (
+      !hours ||
+      typeof hours.start !== "string" || !TIME_OF_DAY.test(hours.start) ||
+      typeof hours.end !== "string" || !TIME_OF_DAY.test(hours.end) ||
+      hours.start >= hours.end
+    ) {
+      throw new Error("workingHours must have start and end times in HH:MM, with start before end");
+    }
+    result.workingHours = { start: hours.start, end: hours.end };
+  }
+
+  if (input.workingDays !== undefined) {
+    const days = input.workingDays;
+    if (!Array.isArray(days) || days.length === 0 || !days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)) {
+      throw new Error("workingDays must be a non-empty list of weekday numbers (0 = Sunday)");
+    }
+    result.workingDays = Array.from(new Set(days as number[])).sort();
+  }
+
+  if (input.preferredDayPart !== undefined && input.preferredDayPart !== null) {
+    if (!DAY_PARTS.includes(input.preferredDayPart as DayPart)) {
+      throw new Error(`preferredDayPart must be one of ${DAY_PARTS.join(", ")}`);
+    }
+    result.preferredDayPart = input.preferredDayPart as DayPart;
+  }
+
+  if (input.avoidLunch !== undefined) {
+    if (typeof input.avoidLunch !== "boolean") {
+      throw new Error("avoidLunch must be true or false");
+    }
+    result.avoidLunch = input.avoidLunch;
+  }
+
+  return result;
+}
+
+/**
+ * Get the user's scheduling preferences, filling gaps with the defaults
+ */
+export async function getSchedulingPreferences(userId: string): Promise<SchedulingPreferences> {
+  const db = admin.firestore();
+  const doc = await db.collection(PROFILES_COLLECTION).doc(userId).get();
+  const stored = doc.data()?.scheduling;
+
+  let parsed: Partial<SchedulingPreferences> = {};
+  try {
+    parsed = stored ? parseSchedulingPreferences(stored) : {};
+  } catch (error: any) {
+    console.warn("⚠️  Ignoring invalid stored scheduling preferences:", error.message);
+  }
+  return { ...DEFAULT_SCHEDULING_PREFERENCES, ...parsed };
+}
+
+/**
+ * Validate a scheduling preferences change sent by the user
+ * @throws When it is not an object or a field is invalid
+ */
+export function parseSchedulingPreferencesUpdate(raw: unknown): SchedulingPreferencesUpdate {
+  const update: SchedulingPreferencesUpdate = parseSchedulingPreferences(raw);
+  if ((raw as Record<string, unknown>).preferredDayPart === null) {
+    update.preferredDayPart = null;
+  }
+  return update;
+}
+
+/**
+ * Update some of the user's scheduling preferences
+ * @returns The full preferences after the update
+ */
+export async function updateSchedulingPreferences(
+  userId: string,
+  changes: SchedulingPreferencesUpdate
+): Promise<SchedulingPreferences> {
+  const { preferredDayPart, ...rest } = changes;
+  const updated: SchedulingPreferences = {
+    ...(await getSchedulingPreferences(userId)),
+    ...rest,
+    ...(preferredDayPart && { preferredDayPart }),
+  };
+  if (preferredDayPart === null) {
+    delete updated.preferredDayPart;
+  }
+
+  const db = admin.firestore();
+  await db.collection(PROFILES_COLLECTION).doc(userId).set(
+    {
+      // Firestore rejects undefined values
+      scheduling: JSON.parse(JSON.stringify(updated)),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+    // Replace the whole map so cleared fields do not linger
+    { mergeFields: ["scheduling", "updatedAt"] }
+  );
+  console.log("🗓️  Scheduling preferences stored for user:", userId);
+  return updated;
+}
+
+/* ================== EMAIL PREFERENCES ================== */
+
+export type EmailTone = "formal" | "friendly" | "terse";
+export type EmailLength = "short" | "medium" | "long";
+
+export interface EmailPreferences {
+  saveAsDraft: boolean; // Save composed emails as Gmail drafts instead of sending them
+  signature: string;    // Added below every email; {name} and {email} are the Google account's
+  tone: EmailTone;      // How written email bodies sound
+  length: EmailLength;  // How long written email bodies are
+}
+
+export const DEFAULT_EMAIL_PREFERENCES: EmailPreferences = {
+  saveAsDraft: false,
+  signature: "Best regards,\n{name}",
+  tone: "formal",
+  length: "medium",
+};
+
+export const EMAIL_TONES: readonly EmailTone[] = ["formal", "friendly", "terse"];
+export const EMAIL_LENGTHS: readonly EmailLength[] = ["short", "medium", "long"];
+// Room for a sign-off, name, title, company, phone and a link or two
+const MAX_SIGNATURE_CHARS = 500;
+const MAX_SIGNATURE_LINES = 8;
+
+/**
+ * Validate a partial email preferences object
+ * @throws When a field is present but invalid
+ */
+export function parseEmailPreferences(raw: unknown): Partial<EmailPreferences> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("Email preferences must be an object");
+  }
+
+  const input = raw as Record<string, unknown>;
+  const result: Partial<EmailPreferences> = {};
+
+  if (input.saveAsDraft !== undefined) {
+    if (typeof input.saveAsDraft !== "boolean") {
+      throw new Error("saveAsDraft must be true or false");
+    }
+    result.saveAsDraft = input.saveAsDraft;
+  }
+
+  if (input.signature !== undefined) {
+    if (typeof input.signature !== "string") {
+      throw new Error("signature must be text");
+    }
+    // Trailing spaces and blank lines would only push the quoted original further down
+    const signature = input.signature.replace(/\r\n?/g, "\n").split("\n").map((line) => line.trimEnd()).join("\n").trim();
+    if (signature.length > MAX_SIGNATURE_CHARS || signature.split("\n").length > MAX_SIGNATURE_LINES) {
+      throw new Error(`signature must be at most ${MAX_SIGNATURE_LINES} lines and ${MAX_SIGNATURE_CHARS} characters`);
+    }
+    result.signature = signature;
+  }
+
+  if (input.tone !== undefined) {
+    if (!EMAIL_TONES.includes(input.tone as EmailTone)) {
+      throw new Error(`tone must be one of ${EMAIL_TONES.join(", ")}`);
+    }
+    result.tone = input.tone as EmailTone;
+  }
+
+  if (input.length !== undefined) {
+    if (!EMAIL_LENGTHS.includes(input.length as EmailLength)) {
+      throw new Error(`length must be one of ${EMAIL_LENGTHS.join(", ")}`);
+    }
+    result.length = input.length as EmailLength;
+  }
+
+  return result;
+}
+
+/**
+ * Get the user's email preferences, filling gaps with the defaults
+ */
+export async function getEmailPreferences(userId: string): Promise<EmailPreferences> {
+  const db = admin.firestore();
+  const doc = await db.collection(PROFILES_COLLECTION).doc(userId).get();
+  const stored = doc.data()?.emailPreferences;
+
+  let parsed: Partial<EmailPreferences> = {};
+  try {
+    parsed = stored ? parseEmailPreferences(stored) : {};
+  } catch (error: any) {
+    console.warn("⚠️  Ignoring invalid stored email preferences:", error.message);
+  }
+  return { ...DEFAULT_EMAIL_PREFERENCES, ...parsed };
+}
+
+// What shapes the emails the assistant writes
+export type EmailStyle = Pick<EmailPreferences, "tone" | "length">;
+
+/**
+ * The tone and length to write the user's emails in
+ * Falls back to the defaults when preferences cannot be loaded, so commands still work.
+ */
+export async function resolveEmailStyle(userId: string): Promise<EmailStyle> {
+  try {
+    const { tone, length } = await getEmailPreferences(userId);
+    return { tone, length };
+  } catch (error: any) {
+    console.warn("⚠️  Could not load email preferences:", error.message);
+    return { tone: DEFAULT_EMAIL_PREFERENCES.tone, length: DEFAULT_EMAIL_PREFERENCES.length };
+  }
+}
+
+/**
+ * Update some of the user's email preferences
+ * @returns The full preferences after the update
+ */
+export async function updateEmailPreferences(
+  userId: string,
+  changes: Partial<EmailPreferences>
+): Promise<EmailPreferences> {
+  const updated = { ...(await getEmailPreferences(userId)), ...changes };
+
+  const db = admin.firestore();
+  await db.collection(PROFILES_COLLECTION).doc(userId).set(
+    {
+      emailPreferences: JSON.parse(JSON.stringify(updated)),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+    { mergeFields: ["emailPreferences", "updatedAt"] }
+  );
+  console.log("📧 Email preferences stored for user:", userId);
+  return updated;
+}
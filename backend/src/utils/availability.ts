@@ -0,0 +1,227 @@
+import {
+  TemporalOptions,
+  resolveDate,
+  resolveTemporal,
+  shiftDate,
+  toZonedIso,
+  zonedDateTimeToInstant,
+} from "./temporalResolver";
+
+/**
+ * Free/busy arithmetic on absolute time intervals, and the day ranges searched for free time
+ * Pure helpers shared by conflict detection and slot finding; no Google API calls here.
+ */
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface SlotSearchOptions {
+  from: Date;            // Earliest start
+  duration: number;      // Minutes
+  timeZone: string;
+  days?: number;         // How many calendar days to search, starting with the day of "from" (default 3)
+  dayStart?: string;     // HH:MM, local (default 08:00)
+  dayEnd?: string;       // HH:MM, local; slots must end by then (default 20:00)
+  stepMinutes?: number;  // Candidate spacing (default 30)
+  limit?: number;        // Maximum slots returned (default 3)
+}
+
+/**
+ * Do two intervals share any time? Touching intervals (10–11 and 11–12) do not overlap
+ */
+export function overlaps(a: TimeInterval, b: TimeInterval): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Sort intervals and merge the ones that overlap or touch
+ */
+export function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const sorted = [...intervals].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: TimeInterval[] = [];
+
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) last.end = interval.end;
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+  }
+  return merged;
+}
+
+/**
+ * The local calendar date (YYYY-MM-DD) of an instant
+ */
+export function toLocalDate(instant: Date, timeZone: string): string {
+  return toZonedIso(instant, timeZone).slice(0, 10);
+}
+
+/**
+ * The local wall-clock time (HH:MM) of an instant
+ */
+export function toLocalTime(instant: Date, timeZone: string): string {
+  return toZonedIso(instant, timeZone).slice(11, 16);
+}
+
+/**
+ * Find the earliest free slots of the given length, inside daily hours
+ * Candidates start on the step grid of each day ("08:00", "08:30", ...).
+ */
+export function findFreeSlots(busy: TimeInterval[], options: SlotSearchOptions): TimeInterval[] {
+  const {
+    from,
+    duration,
+    timeZone,
+    days = 3,
+    dayStart = "08:00",
+    dayEnd = "20:00",
+    stepMinutes = 30,
+    limit = 3,
+  } = options;
+
+  const blocked = mergeIntervals(busy);
+  const durationMs = duration * 60 * 1000;
+  const stepMs = stepMinutes * 60 * 1000;
+  const firstDate = toLocalDate(from, timeZone);
+  const slots: TimeInterval[] = [];
+
+  for (let day = 0; day < days && slots.length < limit; day++) {
+    const date = shiftDate(firstDate, day);
+    const windowStart = zonedDateTimeToInstant(date, dayStart, timeZone);
+    const windowEnd = zonedDateTimeToInstant(date, dayEnd, timeZone);
+
+    for (
+      let start = windowStart.getTime();
+      start + durationMs <= windowEnd.getTime() && slots.length < limit;
+      start += stepMs
+    ) {
+      if (start < from.getTime()) continue;
+      const candidate = { start: new Date(start), end: new Date(start + durationMs) };
+      if (!blocked.some((interval) => overlaps(interval, candidate))) {
+        slots.push(candidate);
+      }
+    }
+  }
+
+  return slots;
+}
+
+/* ================== SEARCH WINDOWS ================== */
+
+export type DayPart = "morning" | "afternoon" | "evening";
+
+// Local hours each part of the day covers when looking for a slot
+export const DAY_PART_HOURS: Record<DayPart, { start: string; end: string }> = {
+  morning: { start: "08:00", end: "12:00" },
+  afternoon: { start: "12:00", end: "17:00" },
+  evening: { start: "17:00", end: "21:00" },
+};
+
+export interface SearchWindow {
+  from: string;      // First day searched, YYYY-MM-DD
+  to: string;        // Last day searched, inclusive
+  dayPart?: DayPart;
+  matched: string[]; // Fragments of the phrase that were understood
+}
+
+type WindowRule = {
+  pattern: RegExp;
+  resolve: (match: RegExpMatchArray, options: TemporalOptions) => { from: string; to: string } | null;
+};
+
+// Ordered most-specific first; the first rule that matches wins
+const WINDOW_RULES: WindowRule[] = [
+  {
+    // "in the next 3 days", "over the next 10 days"
+    pattern: /\b(?:in|over|within)?\s*the\s+next\s+(\d+)\s+days\b/i,
+    resolve: (m, options) => {
+      const today = resolveDate("today", options)!;
+      return { from: today, to: shiftDate(today, Math.max(1, Number(m[1])) - 1) };
+    },
+  },
+  {
+    // "next week": its working days
+    pattern: /\bnext\s+week\b/i,
+    resolve: (_m, options) => {
+      const monday = resolveDate("next monday", options)!;
+      return { from: monday, to: shiftDate(monday, 4) };
+    },
+  },
+  {
+    // "this week", "later this week": the rest of the working week (at the weekend, the coming one)
+    pattern: /\b(?:later\s+)?this\s+week\b/i,
+    resolve: (_m, options) => ({
+      from: resolveDate("today", options)!,
+      to: resolveDate("end of this week", options)!,
+    }),
+  },
+];
+
+/**
+ * Resolve the window to look for free time in ("next week in the afternoon", "tomorrow")
+ * Ranges come from WINDOW_RULES; any other date phrase is searched as a single day.
+ * @returns null when the phrase names neither days nor a part of the day
+ */
+export function resolveSearchWindow(phrase: string, options: TemporalOptions = {}): SearchWindow | null {
+  const matched: string[] = [];
+
+  const dayPartMatch = phrase.match(/\b(?:in the\s+|this\s+)?(morning|afternoon|evening)s?\b/i);
+  const dayPart = dayPartMatch ? (dayPartMatch[1].toLowerCase() as DayPart) : undefined;
+  if (dayPartMatch) matched.push(dayPartMatch[0]);
+
+  for (const rule of WINDOW_RULES) {
+    const match = phrase.match(rule.pattern);
+    const range = match && rule.resolve(match, options);
+    if (match && range) {
+      return { ...range, dayPart, matched: [...matched, match[0]] };
+    }
+  }
+
+  // "tomorrow afternoon" keeps the day but not the default afternoon time; "this afternoon" is today
+  const withoutDayPart = dayPartMatch
+    ? phrase.replace(dayPartMatch[0], /^this/i.test(dayPartMatch[0]) ? " today " : " ")
+    : phrase;
+  const day = resolveTemporal(withoutDayPart, options);
+  if (day) {
+    return { from: day.date, to: day.date, dayPart, matched: [...matched, ...day.matched] };
+  }
+
+  if (dayPart) {
+    // Only a part of the day: the coming working week
+    const today = resolveDate("today", options)!;
+    return { from: today, to: shiftDate(today, 6), dayPart, matched };
+  }
+  return null;
+}
+
+export interface QueryTiming {
+  window: SearchWindow;
+  time?: string;    // A specific time was asked about ("am I free at 3 tomorrow")
+  endTime?: string; // End of an asked range ("between 2 and 4")
+}
+
+/**
+ * Resolve the time a calendar question is about
+ * A part of the day ("Friday afternoon") is a window; an explicit time narrows it to that slot.
+ * @returns null when the phrase names no day or time
+ */
+export function resolveQueryTiming(phrase: string, options: TemporalOptions = {}): QueryTiming | null {
+  const window = resolveSearchWindow(phrase, options);
+  if (window?.dayPart) {
+    return { window };
+  }
+
+  const temporal = resolveTemporal(phrase, options);
+  if (temporal?.time) {
+    return {
+      window: { from: temporal.date, to: temporal.date, matched: temporal.matched },
+      time: temporal.time,
+      endTime: temporal.endTime,
+    };
+  }
+  return window ? { window } : null;
+}
@@ -0,0 +1,53 @@
+/**
+ * Server-Sent Events over an Express response.
+ *
+ * Each event is written as "event: <name>" and a single JSON "data:" line. A comment
+ * is sent every 15 seconds so proxies do not drop the connection during a long model
+ * or Google API call. Once the client has gone away, further events are dropped;
+ * whatever is running still finishes, so executed actions are journaled as usual.
+ */
+
+import { Response } from "express";
+
+const HEARTBEAT_MS = 15000;
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  end(): void;
+}
+
+/**
+ * Start an event stream; nothing else may be written to the response afterwards
+ */
+export function openEventStream(res: Response): EventStream {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no"); // nginx would otherwise hold events back
+  res.flushHeaders();
+
+  let open = true;
+  const heartbeat = setInterval(() => {
+    if (open) res.write(": keep-alive\n\n");
+  }, HEARTBEAT_MS);
+
+  const close = () => {
+    open = false;
+    clearInterval(heartbeat);
+  };
+  // The request's own "close" fires once its body is read, so watch the response
+  res.on("close", close);
+
+  return {
+    send(event, data) {
+      if (!open) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    end() {
+      if (!open) return;
+      close();
+      res.end();
+    },
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * Fuzzy matching of spoken descriptions against stored titles.
+ *
+ * "my dentist appointment" should find "Dentist", and "stand-up" should find
+ * "Standup", so words that only say what kind of item it is are ignored and
+ * small spelling differences are tolerated.
+ */
+
+// Words that describe the kind of item rather than which one
+const GENERIC_WORDS = new Set([
+  "a", "an", "the", "my", "our", "his", "her", "their", "this", "that", "next",
+  "meeting", "meetings", "appointment", "appointments", "event", "events",
+  "task", "tasks", "todo", "to-do", "reminder", "item", "one",
+]);
+
+/**
+ * Lowercase the significant words of a phrase
+ */
+export function significantWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/['’]s\b/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 0 && !GENERIC_WORDS.has(word));
+}
+
+/**
+ * Levenshtein distance between two words
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How alike two words are, from 0 (unrelated) to 1 (equal)
+ * A prefix of three or more letters counts as a near match ("dent" → "dentist").
+ */
+export function wordSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (Math.min(a.length, b.length) >= 3 && (a.startsWith(b) || b.startsWith(a))) return 0.9;
+
+  const similarity = 1 - editDistance(a, b) / Math.max(a.length, b.length);
+  return similarity >= 0.75 ? similarity : 0;
+}
+
+/**
+ * How well a spoken description matches a title, from 0 to 1
+ * Each significant word of the description is scored against its best match in the title,
+ * and joined words ("stand up" / "standup") are compared as one.
+ * @returns null when the description has no significant words to compare
+ */
+export function titleSimilarity(description: string, title: string): number | null {
+  const wanted = significantWords(description);
+  if (wanted.length === 0) {
+    return null;
+  }
+
+  const words = significantWords(title);
+  const joined = words.join("");
+  if (words.length === 0) {
+    return 0;
+  }
+
+  if (wanted.join("") === joined) {
+    return 1;
+  }
+
+  const total = wanted.reduce(
+    (sum, word) => sum + Math.max(...words.map((candidate) => wordSimilarity(word, candidate))),
+    0
+  );
+  return Math.max(total / wanted.length, wordSimilarity(wanted.join(""), joined));
+}
+
+/* ================== NAMES ================== */
+
+// Spellings that sound alike, rewritten before coding ("Kathryn" / "Catherine")
+const SOUND_RULES: [RegExp, string][] = [
+  [/^kn/, "n"],
+  [/^wr/, "r"],
+  [/^ps/, "s"],
+  [/ph/g, "f"],
+  [/ck/g, "k"],
+  [/c(?=[eiy])/g, "s"],
+  [/c/g, "k"],
+  [/q/g, "k"],
+  [/x/g, "ks"],
+  [/dg/g, "j"],
+  [/gh/g, "g"],
+  [/sch/g, "sk"],
+  [/th/g, "t"],
+  [/z/g, "s"],
+];
+
+const SOUND_CODES: Record<string, string> = {
+  b: "1", f: "1", p: "1", v: "1",
+  g: "2", j: "2", k: "2", s: "2",
+  d: "3", t: "3",
+  l: "4",
+  m: "5", n: "5",
+  r: "6",
+};
+
+/**
+ * A Soundex-style key for how a name sounds, so transcription misspellings
+ * ("Pria", "Shawn", "Kathryn") still find "Priya", "Sean" and "Catherine"
+ * Unlike plain Soundex the first letter is coded too, and a leading vowel is just "A".
+ */
+export function phoneticKey(word: string): string {
+  let text = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (!text) return "";
+  for (const [pattern, replacement] of SOUND_RULES) {
+    text = text.replace(pattern, replacement);
+  }
+
+  const first = /[aeiouy]/.test(text[0]) ? "A" : (SOUND_CODES[text[0]] || text[0].toUpperCase());
+  let key = first;
+  let previous = SOUND_CODES[text[0]] || "";
+  for (const char of text.slice(1)) {
+    const code = SOUND_CODES[char] || "";
+    // h and w do not separate repeated sounds; vowels do
+    if (code && code !== previous) {
+      key += code;
+    }
+    if (char !== "h" && char !== "w") {
+      previous = code;
+    }
+  }
+  return key.slice(0, 4);
+}
+
+/**
+ * How well a spoken name matches a person, from 0 to 1
+ * Each spoken word is compared with the person's name words and the parts of their
+ * address ("priya.shah@…"): by spelling, as a prefix, and by sound.
+ */
+export function nameSimilarity(spoken: string, person: { name: string; email: string }): number {
+  const wanted = spoken.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  if (wanted.length === 0) {
+    return 0;
+  }
+
+  const nameWords = person.name.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  if (nameWords.join(" ") === wanted.join(" ")) {
+    return 1;
+  }
+  const addressWords = person.email.toLowerCase().split("@")[0].split(/[^a-z0-9]+/).filter(Boolean);
+  const words = [...nameWords, ...addressWords];
+  if (words.length === 0) {
+    return 0;
+  }
+
+  const total = wanted.reduce((sum, word) => {
+    const key = phoneticKey(word);
+    const best = Math.max(
+      ...words.map((candidate) => {
+        const spelled = wordSimilarity(word, candidate);
+        // Sounding alike is a strong hint, but short keys collide too easily to trust alone
+        const sounded = key.length >= 2 && key === phoneticKey(candidate) ? 0.85 : 0;
+        return Math.max(spelled, sounded);
+      })
+    );
+    return sum + best;
+  }, 0);
+  return total / wanted.length;
+}
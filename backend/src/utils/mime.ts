@@ -0,0 +1,262 @@
+/**
+ * MIME message building for outgoing email.
+ *
+ * Turns recipients, a subject, a plain-text body (with an optional HTML version)
+ * and attachments into a raw RFC 5322 message as the Gmail API expects it:
+ * multipart/alternative for text + HTML, wrapped in multipart/mixed when files
+ * are attached, with RFC 2047 encoded headers for anything that is not ASCII.
+ */
+
+import { randomBytes } from "crypto";
+
+export interface MimeAttachment {
+  filename: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+export interface MimeMessage {
+  from?: string;
+  to: string[];
+  cc?: string[];
+  bcc?: string[]; // Gmail removes the header before delivery
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MimeAttachment[];
+  headers?: Record<string, string>; // Extra headers, e.g. In-Reply-To
+}
+
+export interface MimeOptions {
+  boundary?: string; // Fixed boundary prefix, so the output is reproducible
+  date?: Date;
+}
+
+const CRLF = "\r\n";
+// Encoded words may be at most 75 characters; 45 bytes of text stay well inside that
+const ENCODED_WORD_BYTES = 45;
+const BASE64_LINE_LENGTH = 76;
+// RFC 5322 dot-atom local part and a hostname domain with an alphabetic top-level label
+const EMAIL_LOCAL_PART = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/;
+const EMAIL_DOMAIN = /^(?:[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?\.)+[A-Za-z]{2,63}$/;
+
+/**
+ * Is this a single bare, deliverable-looking email address ("sam@acme.com")?
+ * Names, display forms ("Sam <sam@acme.com>"), spaces, missing domains and
+ * over-long parts are all rejected.
+ */
+export function isEmailAddress(value: string): boolean {
+  const address = value.trim();
+  const at = address.lastIndexOf("@");
+  if (at < 1 || address.length > 254) {
+    return false;
+  }
+  const local = address.slice(0, at);
+  const domain = address.slice(at + 1);
+  return local.length <= 64 && EMAIL_LOCAL_PART.test(local) && EMAIL_DOMAIN.test(domain);
+}
+
+/**
+ * Split a comma- or semicolon-separated address list ("sam@acme.com, priya@acme.com")
+ */
+export function splitAddressList(value: string | string[] | undefined): string[] {
+  const entries = Array.isArray(value) ? value : (value || "").split(/[,;]/);
+  return entries.map((entry) => entry.trim()).filter(Boolean);
+}
+
+/**
+ * The people in an address header, with their display names when given
+ * ("Sam Lee" <sam@acme.com>, priya@acme.com → Sam Lee / sam@acme.com, "" / priya@acme.com)
+ */
+export function parseAddressList(header: string): { name: string; email: string }[] {
+  const people: { name: string; email: string }[] = [];
+  const entry = /\s*(?:"((?:[^"\\]|\\.)*)"|([^,<>"]*?))\s*<([^<>\s]+@[^<>\s]+)>|([^\s,;<>"]+@[^\s,;<>"]+)/g;
+  for (const match of header.matchAll(entry)) {
+    const email = (match[3] || match[4]).trim();
+    const name = (match[1] ?? match[2] ?? "").replace(/\\(.)/g, "$1").trim();
+    people.push({ name, email });
+  }
+  return people;
+}
+
+/**
+ * The bare addresses in an address header ("Sam Lee" <sam@acme.com>, priya@acme.com)
+ */
+export function extractAddresses(header: string): string[] {
+  return header.match(/[^\s<>,;"]+@[^\s<>,;"]+/g) || [];
+}
+
+/**
+ * Encode a header value as RFC 2047 encoded words when it is not plain ASCII
+ * Words are split on character boundaries so no UTF-8 sequence is cut in half.
+ */
+export function encodeHeaderValue(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return value;
+  }
+
+  const words: string[] = [];
+  let chunk = "";
+  for (const char of value) {
+    if (Buffer.byteLength(chunk + char, "utf8") > ENCODED_WORD_BYTES) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+
+  return words
+    .map((word) => `=?UTF-8?B?${Buffer.from(word, "utf8").toString("base64")}?=`)
+    .join(`${CRLF} `);
+}
+
+/**
+ * A quoted header parameter, e.g. filename="report.pdf"
+ * Encoded words are not allowed inside quoted strings (RFC 2047 §5), so a non-ASCII
+ * name is quoted as an ASCII look-alike ("Résumé.pdf" → "Resume.pdf") and given in
+ * full in the RFC 2231 form (filename*=UTF-8''...) that mail clients prefer.
+ */
+function headerParameter(name: string, value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return `${name}="${value.replace(/(["\\])/g, "\\$1")}"`;
+  }
+  const fallback = value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\x20-\x7e]/g, "_")
+    .replace(/(["\\])/g, "\\$1");
+  const extended = encodeURIComponent(value).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${name}="${fallback}"; ${name}*=UTF-8''${extended}`;
+}
+
+/**
+ * Base64 in lines of 76 characters, as MIME bodies require
+ */
+function base64Lines(content: Buffer): string {
+  const encoded = content.toString("base64");
+  const lines: string[] = [];
+  for (let i = 0; i < encoded.length; i += BASE64_LINE_LENGTH) {
+    lines.push(encoded.slice(i, i + BASE64_LINE_LENGTH));
+  }
+  return lines.join(CRLF);
+}
+
+/**
+ * Header values must not carry line breaks, or they could inject headers of their own
+ */
+function assertSingleLine(name: string, value: string): void {
+  if (/[\r\n]/.test(value)) {
+    throw new Error(`${name} must not contain line breaks`);
+  }
+}
+
+/**
+ * Check and format an address header, e.g. "To: sam@acme.com, priya@acme.com"
+ */
+function addressHeader(name: string, addresses: string[]): string {
+  for (const address of addresses) {
+    if (!isEmailAddress(address)) {
+      throw new Error(`"${address}" is not a valid email address`);
+    }
+  }
+  return `${name}: ${addresses.join(", ")}`;
+}
+
+function textPart(content: string, subtype: "plain" | "html"): string {
+  return [
+    `Content-Type: text/${subtype}; charset="UTF-8"`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(Buffer.from(content, "utf8")),
+  ].join(CRLF);
+}
+
+function attachmentPart(attachment: MimeAttachment): string {
+  assertSingleLine("Attachment name", attachment.filename);
+  assertSingleLine("Attachment type", attachment.mimeType);
+  return [
+    `Content-Type: ${attachment.mimeType || "application/octet-stream"}; ${headerParameter("name", attachment.filename)}`,
+    `Content-Disposition: attachment; ${headerParameter("filename", attachment.filename)}`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(attachment.content),
+  ].join(CRLF);
+}
+
+function multipart(subtype: "alternative" | "mixed", boundary: string, parts: string[]): string {
+  return [
+    `Content-Type: multipart/${subtype}; boundary="${boundary}"`,
+    "",
+    ...parts.map((part) => `--${boundary}${CRLF}${part}`),
+    `--${boundary}--`,
+  ].join(CRLF);
+}
+
+/**
+ * Build a raw RFC 5322 message
+ * - text only: a single text/plain part
+ * - text + HTML: multipart/alternative, plain text first so it is the fallback
+ * - with attachments: multipart/mixed holding the body and then each file
+ */
+export function buildMimeMessage(message: MimeMessage, options: MimeOptions = {}): string {
+  if (message.to.length === 0) {
+    throw new Error("At least one recipient is required");
+  }
+  assertSingleLine("Subject", message.subject);
+
+  const boundary = options.boundary || `=_${randomBytes(12).toString("hex")}`;
+  const headers = [
+    ...(message.from ? [`From: ${encodeHeaderValue(message.from)}`] : []),
+    addressHeader("To", message.to),
+    ...(message.cc?.length ? [addressHeader("Cc", message.cc)] : []),
+    ...(message.bcc?.length ? [addressHeader("Bcc", message.bcc)] : []),
+    `Subject: ${encodeHeaderValue(message.subject)}`,
+    `Date: ${(options.date || new Date()).toUTCString().replace("GMT", "+0000")}`,
+    ...Object.entries(message.headers || {}).map(([name, value]) => {
+      assertSingleLine(name, value);
+      return `${name}: ${encodeHeaderValue(value)}`;
+    }),
+    "MIME-Version: 1.0",
+  ];
+
+  let body = message.html
+    ? multipart("alternative", `${boundary}_alt`, [textPart(message.text, "plain"), textPart(message.html, "html")])
+    : textPart(message.text, "plain");
+
+  if (message.attachments?.length) {
+    body = multipart("mixed", `${boundary}_mix`, [body, ...message.attachments.map(attachmentPart)]);
+  }
+
+  return [...headers, body].join(CRLF);
+}
+
+/**
+ * Encode a raw message for the Gmail API (base64url, no padding)
+ */
+export function toBase64Url(raw: string): string {
+  return Buffer.from(raw, "utf8")
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * A simple HTML version of a plain-text email: paragraphs, line breaks and clickable links
+ */
+export function plainTextToHtml(text: string): string {
+  const escape = (value: string) =>
+    value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+  const paragraphs = text
+    .trim()
+    .split(/\r?\n\s*\r?\n/)
+    .map((paragraph) =>
+      escape(paragraph)
+        .replace(/https?:\/\/[^\s<]+[^\s<.,;:!?)]/g, (url) => `<a href="${url}">${url}</a>`)
+        .replace(/\r?\n/g, "<br>")
+    );
+  return `<!DOCTYPE html><html><body style="font-family: Arial, sans-serif; font-size: 14px;">` +
+    paragraphs.map((paragraph) => `<p>${paragraph}</p>`).join("") +
+    `</body></html>`;
+}
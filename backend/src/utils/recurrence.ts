@@ -0,0 +1,386 @@
+/**
+ * Recurrence rules for repeating calendar events.
+ *
+ * Parses phrases such as "every Monday", "every other Friday until March" or
+ * "first Tuesday of every month" into a RecurrenceRule, turns rules into
+ * RFC 5545 RRULE strings for Google Calendar, and describes/expands them for display.
+ */
+
+import {
+  TemporalOptions,
+  getDefaultTimeZone,
+  resolveDate,
+  shiftDate,
+  zonedDateTimeToInstant,
+} from "./temporalResolver";
+
+export type Weekday = "mo" | "tu" | "we" | "th" | "fr" | "sa" | "su";
+
+export const WEEKDAY_CODES: readonly Weekday[] = ["su", "mo", "tu", "we", "th", "fr", "sa"];
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly";
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval?: number;      // Every N units, default 1
+  byWeekday?: Weekday[];  // weekly: the days it repeats on; monthly: the weekday for setPosition
+  setPosition?: number;   // monthly: 1-4 for "first".."fourth", -1 for "last"
+  byMonthDay?: number;    // monthly: day of the month
+  until?: string;         // YYYY-MM-DD, last day an occurrence may fall on
+  count?: number;         // Total number of occurrences
+}
+
+export interface RecurrenceParse {
+  rule: RecurrenceRule;
+  matched: string[]; // Substrings of the input that described the recurrence
+}
+
+/* ================== VOCABULARY ================== */
+
+const WEEKDAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const WEEKDAY_WORD = "(?:sunday|monday|tuesday|wednesday|thursday|friday|saturday)";
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const MONTH_WORD = "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+
+const COUNT_WORDS: Record<string, number> = {
+  other: 2, second: 2, third: 3, fourth: 4,
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, twelve: 12,
+};
+const POSITION_WORDS: Record<string, number> = {
+  first: 1, "1st": 1, second: 2, "2nd": 2, third: 3, "3rd": 3, fourth: 4, "4th": 4, last: -1,
+};
+
+function parseNumber(word: string): number {
+  const normalized = word.toLowerCase().replace(/(st|nd|rd|th)$/, "");
+  return COUNT_WORDS[word.toLowerCase()] ?? Number(normalized);
+}
+
+function weekdaysIn(text: string): Weekday[] {
+  const found = text.toLowerCase().match(new RegExp(WEEKDAY_WORD, "g")) || [];
+  return Array.from(new Set(found.map((name) => WEEKDAY_CODES[WEEKDAY_NAMES.indexOf(name)])));
+}
+
+/* ================== DATE HELPERS ================== */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toUtc(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function parts(date: string) {
+  const utc = new Date(toUtc(date));
+  return {
+    year: utc.getUTCFullYear(),
+    month: utc.getUTCMonth() + 1,
+    day: utc.getUTCDate(),
+    weekday: utc.getUTCDay(),
+  };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// RRULE weeks start on Monday (WKST=MO)
+function mondayOf(date: string): number {
+  const weekday = parts(date).weekday;
+  return toUtc(date) - ((weekday + 6) % 7) * DAY_MS;
+}
+
+/* ================== PARSING ================== */
+
+/**
+ * "until March" → the last day of the next March; otherwise any phrase resolveDate understands
+ */
+function resolveUntil(phrase: string, options: TemporalOptions): string | null {
+  const monthOnly = phrase.trim().match(new RegExp(`^${MONTH_WORD}(?:\\s+(\\d{4}))?$`, "i"));
+  if (monthOnly) {
+    const month = MONTH_NAMES.indexOf(monthOnly[1].toLowerCase().substring(0, 3)) + 1;
+    const today = resolveDate("today", options)!;
+    const { year: currentYear, month: currentMonth } = parts(today);
+    const year = monthOnly[2] ? Number(monthOnly[2]) : month < currentMonth ? currentYear + 1 : currentYear;
+    return `${year}-${String(month).padStart(2, "0")}-${daysInMonth(year, month)}`;
+  }
+  return resolveDate(phrase, options);
+}
+
+type FrequencyRule = {
+  pattern: RegExp;
+  build: (match: RegExpMatchArray) => RecurrenceRule;
+};
+
+// Ordered most-specific first; the first pattern that matches sets the frequency
+const FREQUENCY_RULES: FrequencyRule[] = [
+  {
+    // "first Tuesday of every month", "the last Friday of each month"
+    pattern: new RegExp(
+      `\\b(?:on\\s+)?(?:the\\s+|every\\s+)?(first|1st|second|2nd|third|3rd|fourth|4th|last)\\s+(${WEEKDAY_WORD})\\s+of\\s+(?:every|each|the)\\s+month\\b`, "i"
+    ),
+    build: (m) => ({
+      frequency: "monthly",
+      setPosition: POSITION_WORDS[m[1].toLowerCase()],
+      byWeekday: weekdaysIn(m[2]),
+    }),
+  },
+  {
+    // "the 15th of every month", "every month on the 15th", "monthly on the 15th"
+    pattern: /\b(?:(?:on\s+)?the\s+(\d{1,2})(?:st|nd|rd|th)\s+of\s+(?:every|each|the)\s+month|(?:every|each)\s+month\s+on\s+the\s+(\d{1,2})(?:st|nd|rd|th)?|monthly\s+on\s+the\s+(\d{1,2})(?:st|nd|rd|th)?)\b/i,
+    build: (m) => ({ frequency: "monthly", byMonthDay: Number(m[1] || m[2] || m[3]) }),
+  },
+  {
+    pattern: /\b(?:every|on)\s+weekdays?\b|\bweekdays\b/i,
+    build: () => ({ frequency: "weekly", byWeekday: ["mo", "tu", "we", "th", "fr"] }),
+  },
+  {
+    pattern: /\b(?:every|on)\s+weekends?\b|\bweekends\b/i,
+    build: () => ({ frequency: "weekly", byWeekday: ["sa", "su"] }),
+  },
+  {
+    // "every Monday", "every other Friday", "every Monday and Thursday"
+    pattern: new RegExp(
+      `\\bevery\\s+(?:(other|second|third|fourth|\\d+(?:st|nd|rd|th)?)\\s+)?${WEEKDAY_WORD}s?(?:\\s*(?:,|and|&)\\s*${WEEKDAY_WORD}s?)*`, "i"
+    ),
+    build: (m) => {
+      const interval = m[1] ? parseNumber(m[1]) : 1;
+      return { frequency: "weekly", byWeekday: weekdaysIn(m[0]), ...(interval > 1 && { interval }) };
+    },
+  },
+  {
+    // "on Mondays and Wednesdays"
+    pattern: new RegExp(`\\b(?:on\\s+)?${WEEKDAY_WORD}s(?:\\s*(?:,|and|&)\\s*${WEEKDAY_WORD}s)*\\b`, "i"),
+    build: (m) => ({ frequency: "weekly", byWeekday: weekdaysIn(m[0]) }),
+  },
+  {
+    // "every day", "every 3 weeks", "every other month", "every morning"
+    pattern: /\bevery\s+(?:(other|second|third|fourth|\d+|two|three|four|five|six)\s+)?(day|week|month|year|morning|evening|night)s?\b/i,
+    build: (m) => {
+      const interval = m[1] ? parseNumber(m[1]) : 1;
+      const unit = m[2].toLowerCase();
+      const frequency: RecurrenceFrequency =
+        unit === "week" ? "weekly" : unit === "month" ? "monthly" : unit === "year" ? "yearly" : "daily";
+      return { frequency, ...(interval > 1 && { interval }) };
+    },
+  },
+  {
+    pattern: /\b(bi-?weekly|fortnightly)\b/i,
+    build: () => ({ frequency: "weekly", interval: 2 }),
+  },
+  {
+    pattern: /\b(daily|nightly|weekly|monthly|yearly|annually)\b/i,
+    build: (m) => {
+      const word = m[1].toLowerCase();
+      const frequency: RecurrenceFrequency =
+        word === "weekly" ? "weekly" : word === "monthly" ? "monthly" : word === "daily" || word === "nightly" ? "daily" : "yearly";
+      return { frequency };
+    },
+  },
+];
+
+/**
+ * Parse how an event repeats
+ * @returns null when the phrase does not describe a recurrence
+ */
+export function parseRecurrence(phrase: string, options: TemporalOptions = {}): RecurrenceParse | null {
+  let rule: RecurrenceRule | undefined;
+  const matched: string[] = [];
+
+  for (const frequencyRule of FREQUENCY_RULES) {
+    const match = phrase.match(frequencyRule.pattern);
+    if (match) {
+      rule = frequencyRule.build(match);
+      matched.push(match[0]);
+      break;
+    }
+  }
+
+  if (!rule) {
+    return null;
+  }
+
+  // End conditions
+  const until = phrase.match(/\b(?:until|till|through|thru|ending(?:\s+on)?)\s+(.+?)(?=\s+(?:for|at|from|with|starting)\b|[,.;]|$)/i);
+  if (until) {
+    const untilDate = resolveUntil(until[1], options);
+    if (untilDate) {
+      rule.until = untilDate;
+      matched.push(until[0]);
+    }
+  }
+
+  const times = phrase.match(/\b(?:for\s+)?(\d+|two|three|four|five|six|seven|eight|nine|ten|twelve)\s+(?:times|occurrences|sessions)\b/i);
+  const span = phrase.match(/\bfor\s+(?:the\s+next\s+)?(\d+|a|two|three|four|five|six|seven|eight|nine|ten|twelve)\s+(week|month)s?\b/i);
+  if (times) {
+    rule.count = parseNumber(times[1]);
+    matched.push(times[0]);
+  } else if (span && !rule.until) {
+    const amount = span[1].toLowerCase() === "a" ? 1 : parseNumber(span[1]);
+    const untilDate = resolveDate(`in ${amount} ${span[2]}s`, options);
+    if (untilDate) {
+      rule.until = shiftDate(untilDate, -1);
+      matched.push(span[0]);
+    }
+  }
+
+  return { rule, matched };
+}
+
+/* ================== EXPANSION ================== */
+
+function isOccurrence(rule: RecurrenceRule, anchor: string, date: string): boolean {
+  const interval = rule.interval && rule.interval > 1 ? rule.interval : 1;
+  const a = parts(anchor);
+  const d = parts(date);
+
+  switch (rule.frequency) {
+    case "daily":
+      return Math.round((toUtc(date) - toUtc(anchor)) / DAY_MS) % interval === 0;
+
+    case "weekly": {
+      const weekdays = rule.byWeekday?.length ? rule.byWeekday : [WEEKDAY_CODES[a.weekday]];
+      if (!weekdays.includes(WEEKDAY_CODES[d.weekday])) return false;
+      const weeks = Math.round((mondayOf(date) - mondayOf(anchor)) / (7 * DAY_MS));
+      return weeks % interval === 0;
+    }
+
+    case "monthly": {
+      const months = (d.year - a.year) * 12 + (d.month - a.month);
+      if (months % interval !== 0) return false;
+      if (rule.setPosition && rule.byWeekday?.length) {
+        if (!rule.byWeekday.includes(WEEKDAY_CODES[d.weekday])) return false;
+        return rule.setPosition > 0
+          ? Math.ceil(d.day / 7) === rule.setPosition
+          : d.day + 7 > daysInMonth(d.year, d.month);
+      }
+      return d.day === (rule.byMonthDay || a.day);
+    }
+
+    case "yearly":
+      return (d.year - a.year) % interval === 0 && d.month === a.month && d.day === a.day;
+  }
+}
+
+/**
+ * List occurrence dates of a rule starting at `anchor` (the first event's date)
+ * @param from Only return occurrences on or after this date
+ */
+export function listOccurrences(
+  rule: RecurrenceRule,
+  anchor: string,
+  limit: number,
+  from: string = anchor
+): string[] {
+  const occurrences: string[] = [];
+  let seen = 0;
+
+  // Five years is plenty for "every N years" rules and keeps the scan bounded
+  for (let offset = 0; offset < 366 * 5 && occurrences.length < limit; offset++) {
+    const date = shiftDate(anchor, offset);
+    if (rule.until && date > rule.until) break;
+    if (!isOccurrence(rule, anchor, date)) continue;
+
+    seen++;
+    if (rule.count && seen > rule.count) break;
+    if (date >= from) occurrences.push(date);
+  }
+
+  return occurrences;
+}
+
+/**
+ * The first date on or after `date` that fits the rule
+ * Google Calendar counts DTSTART as an occurrence, so events should start on one
+ */
+export function alignToRecurrence(rule: RecurrenceRule, date: string): string {
+  const [first] = listOccurrences({ ...rule, count: undefined }, date, 1);
+  return first || date;
+}
+
+/* ================== OUTPUT ================== */
+
+/**
+ * Build an RFC 5545 RRULE line for Google Calendar
+ * UNTIL is the end of that day in the event's time zone, expressed in UTC as the spec requires
+ */
+export function toRRule(rule: RecurrenceRule, timeZone: string = getDefaultTimeZone()): string {
+  const fields = [`FREQ=${rule.frequency.toUpperCase()}`];
+
+  if (rule.interval && rule.interval > 1) {
+    fields.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byWeekday?.length) {
+    const prefix = rule.frequency === "monthly" && rule.setPosition ? String(rule.setPosition) : "";
+    fields.push(`BYDAY=${rule.byWeekday.map((day) => `${prefix}${day.toUpperCase()}`).join(",")}`);
+  }
+  if (rule.byMonthDay) {
+    fields.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  }
+  if (rule.count) {
+    fields.push(`COUNT=${rule.count}`);
+  } else if (rule.until) {
+    const endOfDay = zonedDateTimeToInstant(rule.until, "23:59", timeZone);
+    fields.push(`UNTIL=${endOfDay.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")}`);
+  }
+
+  return `RRULE:${fields.join(";")}`;
+}
+
+const ORDINAL_LABELS: Record<number, string> = { 1: "first", 2: "second", 3: "third", 4: "fourth", [-1]: "last" };
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = { daily: "day", weekly: "week", monthly: "month", yearly: "year" };
+
+function dayName(code: Weekday): string {
+  const name = WEEKDAY_NAMES[WEEKDAY_CODES.indexOf(code)];
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function listNames(names: string[]): string {
+  return names.length <= 1 ? names.join("") : `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+}
+
+function ordinal(day: number): string {
+  const suffix = day % 10 === 1 && day !== 11 ? "st" : day % 10 === 2 && day !== 12 ? "nd" : day % 10 === 3 && day !== 13 ? "rd" : "th";
+  return `${day}${suffix}`;
+}
+
+/**
+ * Human-readable description, e.g. "Every other Friday until Mar 31, 2027"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = rule.interval && rule.interval > 1 ? rule.interval : 1;
+  const every = interval === 1 ? "Every" : interval === 2 ? "Every other" : `Every ${interval}`;
+  let text: string;
+
+  if (rule.frequency === "weekly" && rule.byWeekday?.length) {
+    const days = rule.byWeekday;
+    const isWeekdays = days.length === 5 && ["mo", "tu", "we", "th", "fr"].every((day) => days.includes(day as Weekday));
+    text = isWeekdays && interval === 1
+      ? "Every weekday"
+      : interval > 2
+        ? `Every ${interval} weeks on ${listNames(days.map(dayName))}`
+        : `${every} ${listNames(days.map(dayName))}`;
+  } else if (rule.frequency === "monthly" && rule.setPosition && rule.byWeekday?.length) {
+    const position = ORDINAL_LABELS[rule.setPosition] || `#${rule.setPosition}`;
+    const label = `${position.charAt(0).toUpperCase()}${position.slice(1)} ${dayName(rule.byWeekday[0])}`;
+    text = interval === 1 ? `${label} of every month` : `${label} of every ${interval} months`;
+  } else if (rule.frequency === "monthly" && rule.byMonthDay) {
+    text = interval === 1 ? `Monthly on the ${ordinal(rule.byMonthDay)}` : `Every ${interval} months on the ${ordinal(rule.byMonthDay)}`;
+  } else {
+    const unit = UNIT_LABELS[rule.frequency];
+    text = interval === 1 ? `Every ${unit}` : interval === 2 ? `Every other ${unit}` : `Every ${interval} ${unit}s`;
+  }
+
+  if (rule.count) {
+    text += `, ${rule.count} times`;
+  } else if (rule.until) {
+    const until = new Date(`${rule.until}T00:00:00.000Z`).toLocaleDateString("en-US", {
+      timeZone: "UTC",
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+    text += ` until ${until}`;
+  }
+
+  return text;
+}
@@ -0,0 +1,632 @@
+/**
+ * Deterministic natural-language date/time resolver.
+ *
+ * Turns phrases such as "next Tuesday at 3", "in 3 weeks", "end of month",
+ * "the 5th", "half past four" or "3 to 4:30pm" into calendar dates, wall-clock
+ * times and ISO datetimes in a given IANA time zone. The current time comes
+ * from an injectable clock so results are reproducible.
+ */
+
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
+
+export interface TemporalOptions {
+  timeZone?: string;
+  clock?: Clock;
+}
+
+export interface TemporalResolution {
+  date: string;        // YYYY-MM-DD in the resolved time zone
+  time?: string;       // HH:MM, absent for date-only phrases
+  endDate?: string;    // Only for ranges ("3 to 4:30pm"); may be the next day
+  endTime?: string;
+  start: string;       // ISO datetime with offset (midnight for date-only phrases)
+  end?: string;
+  allDay: boolean;
+  timeZone: string;
+  matched: string[];   // Substrings of the input that were consumed
+}
+
+interface CivilDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+interface TimeRange {
+  start: string;
+  end?: string;
+}
+
+interface Extraction<T> {
+  value?: T;
+  match?: string;
+}
+
+/* ================== TIME ZONES ================== */
+
+/**
+ * Time zone used when none is supplied: DEFAULT_TIME_ZONE, else the server's zone
+ */
+export function getDefaultTimeZone(): string {
+  const configured = process.env.DEFAULT_TIME_ZONE;
+  if (configured && isValidTimeZone(configured)) {
+    return configured;
+  }
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+/**
+ * Whether the given string is an IANA time zone this runtime understands
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function zonedParts(instant: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/**
+ * Offset of the zone from UTC at the given instant, in minutes
+ */
+function getOffsetMinutes(instant: Date, timeZone: string): number {
+  const p = zonedParts(instant, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * The instant at which the wall clock in `timeZone` reads `date` `time`
+ */
+export function zonedDateTimeToInstant(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  const guess = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // Re-check the offset at the corrected instant so DST transitions land correctly
+  const firstOffset = getOffsetMinutes(new Date(guess), timeZone);
+  let instant = guess - firstOffset * 60000;
+  const secondOffset = getOffsetMinutes(new Date(instant), timeZone);
+  if (secondOffset !== firstOffset) {
+    instant = guess - secondOffset * 60000;
+  }
+  return new Date(instant);
+}
+
+/**
+ * Format an instant as an ISO datetime with the zone's offset, e.g. 2026-10-20T15:00:00-04:00
+ */
+export function toZonedIso(instant: Date, timeZone: string): string {
+  const p = zonedParts(instant, timeZone);
+  const offset = getOffsetMinutes(instant, timeZone);
+  const sign = offset < 0 ? "-" : "+";
+  const absolute = Math.abs(offset);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}` +
+    `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+}
+
+/* ================== CIVIL DATE ARITHMETIC ================== */
+
+function formatCivil(date: CivilDate): string {
+  return `${date.year}-${String(date.month).padStart(2, "0")}-${String(date.day).padStart(2, "0")}`;
+}
+
+function todayIn(now: Date, timeZone: string): CivilDate {
+  const p = zonedParts(now, timeZone);
+  return { year: p.year, month: p.month, day: p.day };
+}
+
+function fromUtc(ms: number): CivilDate {
+  const date = new Date(ms);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function addDays(date: CivilDate, days: number): CivilDate {
+  return fromUtc(Date.UTC(date.year, date.month - 1, date.day + days));
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// Clamps the day so "in a month" from Jan 31 lands on the last day of February
+function addMonths(date: CivilDate, months: number): CivilDate {
+  const index = date.year * 12 + (date.month - 1) + months;
+  const year = Math.floor(index / 12);
+  const month = (index % 12) + 1;
+  return { year, month, day: Math.min(date.day, daysInMonth(year, month)) };
+}
+
+function weekdayOf(date: CivilDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+function compareCivil(a: CivilDate, b: CivilDate): number {
+  return Date.UTC(a.year, a.month - 1, a.day) - Date.UTC(b.year, b.month - 1, b.day);
+}
+
+function isRealDate(year: number, month: number, day: number): boolean {
+  return month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth(year, month);
+}
+
+/* ================== VOCABULARY ================== */
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const WEEKDAY_PATTERN = "(sunday|monday|tuesday|wednesday|thursday|friday|saturday)";
+const MONTH_PATTERN = "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7,
+  eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, couple: 2,
+};
+const COUNT_PATTERN = "(\\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|(?:a\\s+)?couple(?:\\s+of)?)";
+
+const ORDINAL_WORDS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8,
+  ninth: 9, tenth: 10, eleventh: 11, twelfth: 12, fifteenth: 15, twentieth: 20, thirtieth: 30,
+};
+const ORDINAL_PATTERN = `(\\d{1,2}(?:st|nd|rd|th)|${Object.keys(ORDINAL_WORDS).join("|")})`;
+
+function parseCount(word: string): number {
+  const normalized = word.toLowerCase().replace(/\s+of$/, "").replace(/^a\s+/, "").trim();
+  return NUMBER_WORDS[normalized] ?? Number(normalized);
+}
+
+function parseOrdinal(word: string): number {
+  const normalized = word.toLowerCase();
+  return ORDINAL_WORDS[normalized] ?? parseInt(normalized, 10);
+}
+
+function weekdayIndex(word: string): number {
+  return WEEKDAYS.indexOf(word.toLowerCase());
+}
+
+function monthIndex(word: string): number {
+  return MONTHS.indexOf(word.toLowerCase().substring(0, 3)) + 1;
+}
+
+/* ================== DATES ================== */
+
+/**
+ * Next occurrence of a weekday
+ * - "Tuesday" / "this Tuesday": the coming Tuesday (today only counts for "this")
+ * - "next Tuesday": the Tuesday of next week (weeks start on Monday)
+ */
+function resolveWeekday(today: CivilDate, weekday: number, modifier?: string): CivilDate {
+  const current = weekdayOf(today);
+  const normalized = modifier?.toLowerCase();
+
+  if (normalized === "next") {
+    const daysUntilNextMonday = ((8 - current) % 7) || 7;
+    const nextMonday = addDays(today, daysUntilNextMonday);
+    return addDays(nextMonday, (weekday + 6) % 7);
+  }
+
+  let days = (weekday - current + 7) % 7;
+  if (days === 0 && normalized !== "this") {
+    days = 7;
+  }
+  return addDays(today, days);
+}
+
+/**
+ * An explicit day of a month; without a year, the next time that date comes around
+ */
+function resolveMonthDay(today: CivilDate, month: number, day: number, year?: number): CivilDate | undefined {
+  if (year !== undefined) {
+    return isRealDate(year, month, day) ? { year, month, day } : undefined;
+  }
+  for (const candidateYear of [today.year, today.year + 1]) {
+    const candidate = { year: candidateYear, month, day };
+    if (isRealDate(candidateYear, month, day) && compareCivil(candidate, today) >= 0) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+type DateRule = {
+  pattern: RegExp;
+  resolve: (match: RegExpMatchArray, today: CivilDate) => CivilDate | undefined;
+};
+
+// Ordered most-specific first; the first rule that matches wins
+const DATE_RULES: DateRule[] = [
+  {
+    pattern: /\b(\d{4})-(\d{2})-(\d{2})\b/,
+    resolve: (m) => {
+      const [year, month, day] = [Number(m[1]), Number(m[2]), Number(m[3])];
+      return isRealDate(year, month, day) ? { year, month, day } : undefined;
+    },
+  },
+  {
+    pattern: /\b(?:on\s+)?(?:the\s+)?day after tomorrow\b/i,
+    resolve: (_m, today) => addDays(today, 2),
+  },
+  {
+    pattern: /\b(?:by\s+|on\s+)?tomorrow\b/i,
+    resolve: (_m, today) => addDays(today, 1),
+  },
+  {
+    pattern: /\b(?:by\s+)?(?:today|tonight|this (?:morning|afternoon|evening))\b/i,
+    resolve: (_m, today) => today,
+  },
+  {
+    pattern: new RegExp(`\\b(?:in\\s+${COUNT_PATTERN}\\s+(day|week|month|year)s?(?:\\s+time)?|${COUNT_PATTERN}\\s+(day|week|month|year)s?\\s+from\\s+(?:now|today))\\b`, "i"),
+    resolve: (m, today) => {
+      const count = parseCount(m[1] || m[3]);
+      const unit = (m[2] || m[4]).toLowerCase();
+      if (isNaN(count)) return undefined;
+      if (unit === "day") return addDays(today, count);
+      if (unit === "week") return addDays(today, count * 7);
+      if (unit === "month") return addMonths(today, count);
+      return addMonths(today, count * 12);
+    },
+  },
+  {
+    pattern: /\b(?:by\s+)?(?:the\s+)?end of (?:the\s+)?(this\s+|next\s+)?(week|month|year)\b/i,
+    resolve: (m, today) => {
+      const next = Boolean(m[1]?.trim().toLowerCase() === "next");
+      const unit = m[2].toLowerCase();
+      if (unit === "week") {
+        // End of the working week: Friday
+        const friday = resolveWeekday(today, 5, "this");
+        return next ? addDays(friday, 7) : friday;
+      }
+      if (unit === "month") {
+        const month = next ? addMonths({ ...today, day: 1 }, 1) : today;
+        return { year: month.year, month: month.month, day: daysInMonth(month.year, month.month) };
+      }
+      return { year: today.year + (next ? 1 : 0), month: 12, day: 31 };
+    },
+  },
+  {
+    pattern: new RegExp(`\\b(?:on\\s+|by\\s+)?(?:(next|this|coming)\\s+)?${WEEKDAY_PATTERN}\\b(\\s+after next|\\s+next week)?`, "i"),
+    resolve: (m, today) => {
+      const weekday = weekdayIndex(m[2]);
+      const suffix = m[3]?.trim().toLowerCase();
+      if (suffix === "after next") {
+        return addDays(resolveWeekday(today, weekday, "next"), 7);
+      }
+      return resolveWeekday(today, weekday, suffix === "next week" ? "next" : m[1]);
+    },
+  },
+  {
+    pattern: /\bnext\s+(week|month|year)\b/i,
+    resolve: (m, today) => {
+      const unit = m[1].toLowerCase();
+      if (unit === "week") return addDays(today, 7);
+      if (unit === "month") return addMonths(today, 1);
+      return addMonths(today, 12);
+    },
+  },
+  {
+    pattern: new RegExp(`\\b(?:on\\s+)?${MONTH_PATTERN}\\.?\\s+(?:the\\s+)?(\\d{1,2}(?:st|nd|rd|th)?|${Object.keys(ORDINAL_WORDS).join("|")})\\b(?:,?\\s+(\\d{4}))?`, "i"),
+    resolve: (m, today) =>
+      resolveMonthDay(today, monthIndex(m[1]), parseOrdinal(m[2]), m[3] ? Number(m[3]) : undefined),
+  },
+  {
+    pattern: new RegExp(`\\b(?:on\\s+)?(?:the\\s+)?(\\d{1,2}(?:st|nd|rd|th)?|${Object.keys(ORDINAL_WORDS).join("|")})\\s+(?:of\\s+)?${MONTH_PATTERN}\\b(?:,?\\s+(\\d{4}))?`, "i"),
+    resolve: (m, today) =>
+      resolveMonthDay(today, monthIndex(m[2]), parseOrdinal(m[1]), m[3] ? Number(m[3]) : undefined),
+  },
+  {
+    // "the 5th": this month, or next month once it has passed
+    pattern: new RegExp(`\\b(?:on\\s+|by\\s+)?the\\s+${ORDINAL_PATTERN}\\b`, "i"),
+    resolve: (m, today) => {
+      const day = parseOrdinal(m[1]);
+      for (const offset of [0, 1, 2]) {
+        const month = addMonths({ ...today, day: 1 }, offset);
+        const candidate = { ...month, day };
+        if (isRealDate(month.year, month.month, day) && compareCivil(candidate, today) >= 0) {
+          return candidate;
+        }
+      }
+      return undefined;
+    },
+  },
+];
+
+function extractDate(text: string, today: CivilDate): Extraction<CivilDate> {
+  for (const rule of DATE_RULES) {
+    const match = text.match(rule.pattern);
+    if (!match) continue;
+    const value = rule.resolve(match, today);
+    if (value) {
+      return { value, match: match[0] };
+    }
+  }
+  return {};
+}
+
+/* ================== TIMES ================== */
+
+const HOUR_PATTERN = "(?:\\d{1,2}|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)";
+const MERIDIEM_PATTERN = "(?:\\s*(?:a\\.?m\\.?|p\\.?m\\.?)(?![a-z]))";
+const TIME_TOKEN = `(?:noon|midday|midnight|half past ${HOUR_PATTERN}|(?:a\\s+)?quarter (?:past|to) ${HOUR_PATTERN}|${HOUR_PATTERN}(?::[0-5]\\d)?${MERIDIEM_PATTERN}?(?:\\s*o'?clock)?)`;
+
+const RANGE_PATTERN = new RegExp(
+  `\\b(at\\s+|from\\s+|between\\s+)?(${TIME_TOKEN})\\s*(?:-|–|to|until|till|and)\\s*(${TIME_TOKEN})(?![\\w:])`,
+  "gi"
+);
+const SINGLE_PATTERN = new RegExp(`\\b(at\\s+|by\\s+|around\\s+|from\\s+)?(${TIME_TOKEN})(?![\\w:])`, "gi");
+
+const DAY_PARTS: [RegExp, string, "am" | "pm"][] = [
+  [/\b(?:in the\s+)?morning\b/i, "09:00", "am"],
+  [/\b(?:in the\s+)?afternoon\b/i, "14:00", "pm"],
+  [/\b(?:in the\s+)?evening\b/i, "18:00", "pm"],
+  [/\btonight\b/i, "19:00", "pm"],
+];
+
+interface ParsedTime {
+  hour: number;     // 0-23 once a meridiem is known, else 1-12 or a 24h hour
+  minute: number;
+  meridiem?: "am" | "pm";
+  explicit: boolean; // Unambiguous on its own (has am/pm, minutes, o'clock or is a named time)
+  twentyFourHour: boolean;
+}
+
+function hourValue(word: string): number {
+  return NUMBER_WORDS[word.toLowerCase()] ?? Number(word);
+}
+
+function parseTimeToken(token: string): ParsedTime | undefined {
+  const normalized = token.toLowerCase().replace(/\s+/g, " ").trim();
+
+  if (normalized === "noon" || normalized === "midday") {
+    return { hour: 12, minute: 0, meridiem: "pm", explicit: true, twentyFourHour: false };
+  }
+  if (normalized === "midnight") {
+    return { hour: 0, minute: 0, meridiem: "am", explicit: true, twentyFourHour: true };
+  }
+
+  const half = normalized.match(/^half past (\S+)$/);
+  if (half) {
+    return { hour: hourValue(half[1]), minute: 30, explicit: true, twentyFourHour: false };
+  }
+
+  const quarter = normalized.match(/^(?:a )?quarter (past|to) (\S+)$/);
+  if (quarter) {
+    const hour = hourValue(quarter[2]);
+    return quarter[1] === "past"
+      ? { hour, minute: 15, explicit: true, twentyFourHour: false }
+      : { hour: hour === 1 ? 12 : hour - 1, minute: 45, explicit: true, twentyFourHour: false };
+  }
+
+  const clock = normalized.match(/^(\S+?)(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)?(?:\s*o'?clock)?$/);
+  if (!clock) return undefined;
+
+  const hour = hourValue(clock[1]);
+  const minute = clock[2] ? Number(clock[2]) : 0;
+  if (isNaN(hour) || hour > 23) return undefined;
+
+  const meridiem = clock[3] ? (clock[3].startsWith("p") ? "pm" : "am") : undefined;
+  if (meridiem && (hour < 1 || hour > 12)) return undefined;
+
+  return {
+    hour,
+    minute,
+    meridiem,
+    explicit: Boolean(meridiem || clock[2] || /o'?clock/.test(normalized)),
+    // "15:30" or "09:00" are already 24-hour times
+    twentyFourHour: Boolean(clock[2] && (hour > 12 || /^0\d/.test(clock[1]))),
+  };
+}
+
+function to24Hour(time: ParsedTime, meridiem: "am" | "pm"): number {
+  if (time.twentyFourHour) return time.hour;
+  const base = time.hour % 12;
+  return meridiem === "pm" ? base + 12 : base;
+}
+
+/**
+ * Resolve a time whose am/pm was not said: 1-7 → afternoon, 8-11 → morning, 12 → noon
+ */
+function guessHour(time: ParsedTime, dayPart?: "am" | "pm"): number {
+  if (time.meridiem) return to24Hour(time, time.meridiem);
+  if (time.twentyFourHour) return time.hour;
+  if (dayPart) return to24Hour(time, dayPart);
+  if (time.hour === 12) return 12;
+  return time.hour >= 1 && time.hour <= 7 ? time.hour + 12 : time.hour;
+}
+
+function formatTime(hour: number, minute: number): string {
+  return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+}
+
+function findDayPart(text: string): { time: string; meridiem: "am" | "pm"; match: string } | undefined {
+  for (const [pattern, time, meridiem] of DAY_PARTS) {
+    const match = text.match(pattern);
+    if (match) return { time, meridiem, match: match[0] };
+  }
+  return undefined;
+}
+
+function resolveRange(start: ParsedTime, end: ParsedTime, dayPart?: "am" | "pm"): TimeRange {
+  let endHour: number;
+  let startHour: number;
+
+  if (end.meridiem || end.twentyFourHour) {
+    endHour = end.meridiem ? to24Hour(end, end.meridiem) : end.hour;
+    if (start.meridiem || start.twentyFourHour) {
+      startHour = guessHour(start);
+    } else {
+      // "3 to 4:30pm" shares the pm; "11 to 1pm" starts in the morning
+      const sharedMeridiem: "am" | "pm" = endHour >= 12 ? "pm" : "am";
+      startHour = to24Hour(start, sharedMeridiem);
+      if (startHour * 60 + start.minute > endHour * 60 + end.minute) {
+        startHour = to24Hour(start, sharedMeridiem === "pm" ? "am" : "pm");
+      }
+    }
+  } else {
+    startHour = guessHour(start, dayPart);
+    // The end is the first reading of the clock after the start
+    const candidates = [end.hour % 12, (end.hour % 12) + 12];
+    endHour = candidates.find((hour) => hour * 60 + end.minute > startHour * 60 + start.minute) ?? candidates[0];
+  }
+
+  return { start: formatTime(startHour, start.minute), end: formatTime(endHour, end.minute) };
+}
+
+/**
+ * @param context Full phrase to look for "morning"/"tonight" in, when `text` has had the date removed
+ */
+function extractTime(text: string, context: string = text): Extraction<TimeRange> {
+  const dayPart = findDayPart(context);
+
+  for (const match of text.matchAll(RANGE_PATTERN)) {
+    const start = parseTimeToken(match[2]);
+    const end = parseTimeToken(match[3]);
+    if (!start || !end) continue;
+    // "between 2 and 3" needs its preposition; "2 and 3" alone is not a time range
+    const connector = match[0].slice(match[0].indexOf(match[2]) + match[2].length).trim().toLowerCase();
+    if (connector.startsWith("and") && match[1]?.trim().toLowerCase() !== "between") continue;
+    if (!match[1] && !start.explicit && !end.explicit) continue;
+    return { value: resolveRange(start, end, dayPart?.meridiem), match: match[0] };
+  }
+
+  for (const match of text.matchAll(SINGLE_PATTERN)) {
+    const time = parseTimeToken(match[2]);
+    if (!time) continue;
+    // A bare number is only a time after "at"/"by"/"around" ("at 3"), never in "3 weeks"
+    if (!match[1] && !time.explicit) continue;
+    const hour = guessHour(time, dayPart?.meridiem);
+    return { value: { start: formatTime(hour, time.minute) }, match: match[0] };
+  }
+
+  if (dayPart) {
+    return { value: { start: dayPart.time }, match: dayPart.match };
+  }
+
+  return {};
+}
+
+/* ================== PUBLIC API ================== */
+
+/**
+ * Resolve every date/time expression in a phrase
+ * @returns null when the phrase contains no recognisable date or time
+ */
+export function resolveTemporal(phrase: string, options: TemporalOptions = {}): TemporalResolution | null {
+  const timeZone = options.timeZone || getDefaultTimeZone();
+  const now = (options.clock || systemClock)();
+  const today = todayIn(now, timeZone);
+
+  const date = extractDate(phrase, today);
+  // Remove the date first so "the 5th" or "March 3" cannot be mistaken for a time
+  const time = extractTime(date.match ? phrase.replace(date.match, " ") : phrase, phrase);
+
+  if (!date.value && !time.value) {
+    return null;
+  }
+
+  let day = date.value || today;
+  // "at 9 in the evening": the day part only shaped the time, but it is still part of the phrase
+  const dayPartMatch = time.value ? findDayPart(phrase)?.match : undefined;
+  const dayPart = dayPartMatch && /^in the\b/i.test(dayPartMatch) ? dayPartMatch : undefined;
+  const matched = Array.from(new Set([date.match, time.match, dayPart]))
+    .filter((match): match is string => Boolean(match));
+
+  if (!time.value) {
+    const startDate = formatCivil(day);
+    return {
+      date: startDate,
+      start: toZonedIso(zonedDateTimeToInstant(startDate, "00:00", timeZone), timeZone),
+      allDay: true,
+      timeZone,
+      matched,
+    };
+  }
+
+  // "at 3pm" said after 3pm means tomorrow
+  if (!date.value && zonedDateTimeToInstant(formatCivil(day), time.value.start, timeZone) <= now) {
+    day = addDays(day, 1);
+  }
+
+  const startDate = formatCivil(day);
+  const startInstant = zonedDateTimeToInstant(startDate, time.value.start, timeZone);
+  const resolution: TemporalResolution = {
+    date: startDate,
+    time: time.value.start,
+    start: toZonedIso(startInstant, timeZone),
+    allDay: false,
+    timeZone,
+    matched,
+  };
+
+  if (time.value.end) {
+    // "11pm to 1am" ends on the following day
+    const endDay = time.value.end <= time.value.start ? addDays(day, 1) : day;
+    const endInstant = zonedDateTimeToInstant(formatCivil(endDay), time.value.end, timeZone);
+    resolution.endDate = formatCivil(endDay);
+    resolution.endTime = time.value.end;
+    resolution.end = toZonedIso(endInstant, timeZone);
+  }
+
+  return resolution;
+}
+
+/**
+ * Resolve a date phrase ("next Friday", "2026-11-02") to YYYY-MM-DD, ignoring any time
+ */
+export function resolveDate(phrase: string, options: TemporalOptions = {}): string | null {
+  const timeZone = options.timeZone || getDefaultTimeZone();
+  const today = todayIn((options.clock || systemClock)(), timeZone);
+  const date = extractDate(phrase, today);
+  return date.value ? formatCivil(date.value) : null;
+}
+
+/**
+ * Resolve a time phrase ("half past four", "15:30", "3 to 4:30pm") to HH:MM
+ */
+export function resolveTime(phrase: string): TimeRange | null {
+  return extractTime(phrase).value || null;
+}
+
+/**
+ * Move a YYYY-MM-DD date by a number of days
+ */
+export function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return formatCivil(addDays({ year, month, day }, days));
+}
+
+/**
+ * Minutes between two HH:MM wall-clock times, wrapping past midnight
+ */
+export function minutesBetween(startTime: string, endTime: string): number {
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+  };
+  const difference = toMinutes(endTime) - toMinutes(startTime);
+  return difference > 0 ? difference : difference + 24 * 60;
+}
@@ -0,0 +1,26 @@
+import { validateGeminiResponse } from "../src/schemas/geminiResponse.schema";
+
+describe("validateGeminiResponse", () => {
+  it("accepts a follow-up change that names its target by id without a match", () => {
+    const result = validateGeminiResponse({ action: "update", itemType: "event", targetId: "abc123", time: "16:00" });
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+    expect(result.value).toMatchObject({ action: "update", targetId: "abc123", time: "16:00" });
+  });
+
+  it("accepts a follow-up cancellation of a task by id", () => {
+    const result = validateGeminiResponse({ action: "delete", itemType: "task", targetId: "t1", targetListId: "list1" });
+    expect(result.valid).toBe(true);
+  });
+
+  it("still requires a match when there is no target id", () => {
+    const result = validateGeminiResponse({ action: "update", itemType: "event", time: "16:00" });
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((error) => error.path)).toContain("match");
+  });
+
+  it("does not count an empty target id", () => {
+    const result = validateGeminiResponse({ action: "delete", itemType: "event", targetId: " " });
+    expect(result.errors.map((error) => error.path)).toContain("match");
+  });
+});
@@ -0,0 +1,163 @@
+import { buildMimeMessage, MimeMessage } from "../src/utils/mime";
+
+const CRLF = "\r\n";
+const options = { boundary: "BOUNDARY", date: new Date("2026-10-14T14:00:00Z") };
+
+function build(message: Partial<MimeMessage>): string {
+  return buildMimeMessage({ to: ["sam@acme.com"], subject: "Hello", text: "Hi Sam", ...message }, options);
+}
+
+/**
+ * A header's value, with folded continuation lines joined back up
+ */
+function header(raw: string, name: string): string | undefined {
+  const head = raw.split(`${CRLF}${CRLF}`)[0].replace(/\r\n[ \t]/g, " ");
+  const line = head.split(CRLF).find((entry) => entry.startsWith(`${name}: `));
+  return line?.substring(name.length + 2);
+}
+
+/**
+ * The parts between the delimiters of a multipart boundary
+ */
+function parts(raw: string, boundary: string): string[] {
+  const sections = raw.split(`--${boundary}`);
+  expect(sections[sections.length - 1].startsWith("--")).toBe(true); // Closed with --boundary--
+  return sections.slice(1, -1).map((section) => section.replace(/^\r\n/, "").replace(/\r\n$/, ""));
+}
+
+function decodeBody(part: string): string {
+  const [, body] = part.split(`${CRLF}${CRLF}`);
+  return Buffer.from(body.replace(/\r\n/g, ""), "base64").toString("utf8");
+}
+
+function decodeEncodedWords(value: string): string {
+  return value
+    .split(" ")
+    .map((word) => {
+      const match = word.match(/^=\?UTF-8\?B\?([A-Za-z0-9+/=]+)\?=$/);
+      expect(match).not.toBeNull();
+      return Buffer.from(match![1], "base64").toString("utf8");
+    })
+    .join("");
+}
+
+describe("buildMimeMessage", () => {
+  it("lists several To, Cc and Bcc recipients", () => {
+    const raw = build({
+      to: ["sam@acme.com", "priya@acme.com"],
+      cc: ["lee@acme.com", "ops@acme.com"],
+      bcc: ["boss@acme.com", "audit@acme.com"],
+    });
+
+    expect(header(raw, "To")).toBe("sam@acme.com, priya@acme.com");
+    expect(header(raw, "Cc")).toBe("lee@acme.com, ops@acme.com");
+    expect(header(raw, "Bcc")).toBe("boss@acme.com, audit@acme.com");
+    expect(header(raw, "Subject")).toBe("Hello");
+    expect(header(raw, "Date")).toBe("Wed, 14 Oct 2026 14:00:00 +0000");
+    expect(header(raw, "MIME-Version")).toBe("1.0");
+  });
+
+  it("leaves out Cc and Bcc when there are none", () => {
+    const raw = build({});
+    expect(header(raw, "Cc")).toBeUndefined();
+    expect(header(raw, "Bcc")).toBeUndefined();
+  });
+
+  it("sends plain text alone as a single text/plain part", () => {
+    const raw = build({ text: "Hi Sam,\n\nSee you at 3." });
+
+    expect(header(raw, "Content-Type")).toBe('text/plain; charset="UTF-8"');
+    expect(header(raw, "Content-Transfer-Encoding")).toBe("base64");
+    expect(decodeBody(raw)).toBe("Hi Sam,\n\nSee you at 3.");
+  });
+
+  it("puts text and HTML in multipart/alternative, plain text first", () => {
+    const raw = build({ text: "Hi Sam", html: "<p>Hi <b>Sam</b></p>" });
+
+    expect(header(raw, "Content-Type")).toBe('multipart/alternative; boundary="BOUNDARY_alt"');
+    const [plain, html, ...rest] = parts(raw, "BOUNDARY_alt");
+    expect(rest).toHaveLength(0);
+    expect(plain.startsWith('Content-Type: text/plain; charset="UTF-8"')).toBe(true);
+    expect(decodeBody(plain)).toBe("Hi Sam");
+    expect(html.startsWith('Content-Type: text/html; charset="UTF-8"')).toBe(true);
+    expect(decodeBody(html)).toBe("<p>Hi <b>Sam</b></p>");
+  });
+
+  it("wraps the body and attachments in multipart/mixed", () => {
+    const content = Buffer.alloc(200, 7);
+    const raw = build({
+      html: "<p>Hi Sam</p>",
+      attachments: [{ filename: "report.pdf", mimeType: "application/pdf", content }],
+    });
+
+    expect(header(raw, "Content-Type")).toBe('multipart/mixed; boundary="BOUNDARY_mix"');
+    const [body, attachment, ...rest] = parts(raw, "BOUNDARY_mix");
+    expect(rest).toHaveLength(0);
+    expect(body.startsWith('Content-Type: multipart/alternative; boundary="BOUNDARY_alt"')).toBe(true);
+    expect(parts(body, "BOUNDARY_alt")).toHaveLength(2);
+
+    const [attachmentHeaders, encoded] = attachment.split(`${CRLF}${CRLF}`);
+    expect(attachmentHeaders.split(CRLF)).toEqual([
+      'Content-Type: application/pdf; name="report.pdf"',
+      'Content-Disposition: attachment; filename="report.pdf"',
+      "Content-Transfer-Encoding: base64",
+    ]);
+    expect(encoded.split(CRLF).every((line) => line.length <= 76)).toBe(true);
+    expect(Buffer.from(encoded.replace(/\r\n/g, ""), "base64").equals(content)).toBe(true);
+  });
+
+  it("gives a non-ASCII file name as an ASCII quoted name and an RFC 2231 name", () => {
+    const raw = build({
+      attachments: [{ filename: "Résumé 履歴書.pdf", mimeType: "application/pdf", content: Buffer.from("x") }],
+    });
+
+    const disposition = raw.split(CRLF).find((line) => line.startsWith("Content-Disposition:"));
+    expect(disposition).toBe(
+      `Content-Disposition: attachment; filename="Resume ___.pdf"; filename*=UTF-8''${encodeURIComponent("Résumé 履歴書.pdf")}`
+    );
+    expect(raw).not.toContain('"=?');
+  });
+
+  it("encodes a non-ASCII subject as RFC 2047 words without splitting characters", () => {
+    const subject = "Réunion d'équipe 🎉 — compte rendu et prochaines étapes pour le trimestre à venir";
+    const raw = build({ subject });
+
+    const folded = raw.split(`${CRLF}${CRLF}`)[0].match(/^Subject: [\s\S]*?(?=\r\n[^ ])/m)![0];
+    const words = folded.substring("Subject: ".length).split(`${CRLF} `);
+    expect(words.length).toBeGreaterThan(1);
+    for (const word of words) {
+      expect(word).toMatch(/^=\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=$/);
+      expect(word.length).toBeLessThanOrEqual(75);
+      // Each word decodes on its own, so no UTF-8 sequence was cut in half
+      const text = Buffer.from(word.slice(10, -2), "base64").toString("utf8");
+      expect(text).not.toContain("�");
+    }
+    expect(decodeEncodedWords(header(raw, "Subject")!)).toBe(subject);
+  });
+
+  describe("header injection", () => {
+    it("rejects a subject with a line break", () => {
+      expect(() => build({ subject: "Hello\r\nBcc: attacker@evil.com" })).toThrow("Subject must not contain line breaks");
+      expect(() => build({ subject: "Hello\nX-Spam: yes" })).toThrow("Subject must not contain line breaks");
+    });
+
+    it("rejects an address that smuggles in another header", () => {
+      expect(() => build({ to: ["sam@acme.com\r\nBcc: attacker@evil.com"] })).toThrow("is not a valid email address");
+      expect(() => build({ cc: ["lee@acme.com\nBcc: attacker@evil.com"] })).toThrow("is not a valid email address");
+      expect(() => build({ bcc: ["Sam <sam@acme.com>"] })).toThrow("is not a valid email address");
+    });
+
+    it("rejects extra headers and attachment names with line breaks", () => {
+      expect(() => build({ headers: { "In-Reply-To": "<abc@mail>\r\nBcc: attacker@evil.com" } })).toThrow(
+        "In-Reply-To must not contain line breaks"
+      );
+      expect(() =>
+        build({ attachments: [{ filename: "a.pdf\r\nBcc: attacker@evil.com", mimeType: "application/pdf", content: Buffer.from("x") }] })
+      ).toThrow("Attachment name must not contain line breaks");
+    });
+
+    it("requires at least one recipient", () => {
+      expect(() => build({ to: [] })).toThrow("At least one recipient is required");
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { createRuleBasedProvider, parseCommand } from "../src/services/intentProviders/ruleBased.provider";
+
+// Wednesday 14 October 2026, 10:00 in New York
+const NOW = new Date("2026-10-14T14:00:00Z");
+const options = { timeZone: "America/New_York", clock: () => NOW };
+
+describe("parseCommand", () => {
+  it("parses a meeting with an attendee, a relative day, a time and a duration", () => {
+    expect(parseCommand("Schedule a meeting with Priya tomorrow at 3pm for 30 minutes", options)).toEqual({
+      action: "calendar",
+      title: "Meeting with Priya",
+      date: "2026-10-15",
+      time: "15:00",
+      duration: 30,
+      attendees: ["Priya"],
+    });
+  });
+
+  it("parses a recurring event", () => {
+    expect(parseCommand("Schedule standup every weekday at 9am", options)).toMatchObject({
+      action: "calendar",
+      title: "Standup",
+      time: "09:00",
+      recurrence: { frequency: "weekly", byWeekday: ["mo", "tu", "we", "th", "fr"] },
+    });
+  });
+
+  it("parses a reminder with a due weekday", () => {
+    expect(parseCommand("Remind me to buy milk on Friday", options)).toEqual({
+      action: "task",
+      title: "Buy milk",
+      dueDate: "2026-10-16",
+    });
+  });
+
+  it("puts a task on a named list", () => {
+    expect(parseCommand("Add eggs to my Groceries list", options)).toEqual({
+      action: "task",
+      title: "Eggs",
+      list: "Groceries",
+    });
+  });
+
+  it("parses an email with a subject and a message", () => {
+    expect(parseCommand("Email sam@acme.com about the rent saying it is late", options)).toEqual({
+      action: "email",
+      recipient: "sam@acme.com",
+      subject: "Rent",
+      body: "Hi,\n\nIt is late.",
+    });
+  });
+
+  it("saves an email as a draft when asked to draft it", () => {
+    expect(parseCommand("draft an email to sam@acme.com about the launch", options)).toMatchObject({
+      action: "email",
+      recipient: "sam@acme.com",
+      saveAsDraft: true,
+    });
+  });
+
+  it("sends an existing draft by id", () => {
+    expect(parseCommand("Send draft r-123", options)).toEqual({ action: "email", gmailDraftId: "r-123" });
+  });
+
+  it("parses a reply to an existing thread", () => {
+    expect(parseCommand("Reply to Sarah's last email saying I'll be there", options)).toEqual({
+      action: "email",
+      emailType: "reply",
+      thread: { from: "Sarah" },
+      body: "I'll be there.",
+    });
+  });
+
+  it("splits a compound command into separate actions", () => {
+    const parsed = parseCommand("Schedule lunch with Dana tomorrow at noon and email dana@acme.com about the menu", options);
+    expect(parsed.actions).toHaveLength(2);
+    expect(parsed.actions?.[0]).toMatchObject({ action: "calendar", title: "Lunch with Dana", date: "2026-10-15", time: "12:00" });
+    expect(parsed.actions?.[1]).toMatchObject({ action: "email", recipient: "dana@acme.com", subject: "Menu" });
+  });
+
+  it("parses a find-a-time request over next week", () => {
+    expect(parseCommand("Find 30 minutes with alex@acme.com next week in the afternoon", options)).toEqual({
+      action: "findTime",
+      duration: 30,
+      attendees: ["alex@acme.com"],
+      searchFrom: "2026-10-19",
+      searchTo: "2026-10-23",
+      dayPart: "afternoon",
+    });
+  });
+
+  it("parses an agenda question", () => {
+    expect(parseCommand("What's on my calendar tomorrow?", options)).toEqual({
+      action: "query",
+      question: "agenda",
+      searchFrom: "2026-10-15",
+      searchTo: "2026-10-15",
+    });
+  });
+
+  it("parses changes and cancellations of existing items", () => {
+    expect(parseCommand("Move the team sync to 4pm", options)).toEqual({
+      action: "update",
+      itemType: "event",
+      match: { title: "team sync" },
+      time: "16:00",
+    });
+    expect(parseCommand("Cancel my dentist appointment on Friday", options)).toEqual({
+      action: "delete",
+      itemType: "event",
+      match: { title: "dentist", date: "2026-10-16" },
+    });
+    expect(parseCommand("Mark buy milk as done", options)).toEqual({
+      action: "update",
+      itemType: "task",
+      match: { title: "buy milk" },
+      completed: true,
+    });
+  });
+
+  it("returns unknown for text it cannot parse", () => {
+    expect(parseCommand("asdf qwerty", options)).toEqual({ action: "unknown", title: "asdf qwerty" });
+  });
+});
+
+describe("createRuleBasedProvider", () => {
+  it("resolves dates against the request's clock and time zone", async () => {
+    const provider = createRuleBasedProvider();
+    const reply = await provider.generate({
+      prompt: "",
+      text: "Remind me to call mom tomorrow",
+      now: new Date("2026-10-15T02:00:00Z"), // Still the 14th in New York, already the 15th in UTC
+      timeZone: "America/New_York",
+    });
+
+    expect(provider.deterministic).toBe(true);
+    expect(JSON.parse(reply)).toMatchObject({ action: "task", dueDate: "2026-10-15" });
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  Clock,
+  minutesBetween,
+  resolveDate,
+  resolveTemporal,
+  resolveTime,
+  shiftDate,
+  toZonedIso,
+  zonedDateTimeToInstant,
+} from "../src/utils/temporalResolver";
+
+const fixedClock = (iso: string): Clock => () => new Date(iso);
+
+// Wednesday 14 October 2026, 10:00 in New York
+const NEW_YORK = { timeZone: "America/New_York", clock: fixedClock("2026-10-14T14:00:00Z") };
+
+describe("resolveTemporal", () => {
+  describe("relative days", () => {
+    it.each([
+      ["today", "2026-10-14"],
+      ["tomorrow", "2026-10-15"],
+      ["day after tomorrow", "2026-10-16"],
+      ["in 3 days", "2026-10-17"],
+      ["in 2 weeks", "2026-10-28"],
+      ["next month", "2026-11-14"],
+      ["end of month", "2026-10-31"],
+      ["the 5th", "2026-11-05"], // Already past this month
+    ])("%s → %s", (phrase, date) => {
+      expect(resolveTemporal(phrase, NEW_YORK)).toMatchObject({ date, allDay: true });
+    });
+
+    it("gives midnight with the zone's offset for a date-only phrase", () => {
+      expect(resolveTemporal("tomorrow", NEW_YORK)).toEqual({
+        date: "2026-10-15",
+        start: "2026-10-15T00:00:00-04:00",
+        allDay: true,
+        timeZone: "America/New_York",
+        matched: ["tomorrow"],
+      });
+    });
+  });
+
+  describe("weekdays", () => {
+    it.each([
+      ["friday", "2026-10-16"],
+      ["on monday", "2026-10-19"],
+      ["this friday", "2026-10-16"],
+      ["wednesday", "2026-10-21"], // Today's weekday means the coming one
+    ])("%s → %s", (phrase, date) => {
+      expect(resolveDate(phrase, NEW_YORK)).toBe(date);
+    });
+  });
+
+  describe('"next X"', () => {
+    it.each([
+      ["next wednesday", "2026-10-21"],
+      ["next week", "2026-10-21"],
+    ])("%s → %s", (phrase, date) => {
+      expect(resolveDate(phrase, NEW_YORK)).toBe(date);
+    });
+
+    it("combines a weekday with a time", () => {
+      expect(resolveTemporal("next tuesday at 3", NEW_YORK)).toMatchObject({
+        date: "2026-10-20",
+        time: "15:00",
+        start: "2026-10-20T15:00:00-04:00",
+        allDay: false,
+        matched: ["next tuesday", "at 3"],
+      });
+    });
+  });
+
+  describe("times", () => {
+    it("reads spoken times", () => {
+      expect(resolveTemporal("half past four", NEW_YORK)).toMatchObject({ date: "2026-10-14", time: "16:30" });
+      expect(resolveTime("quarter to five")).toEqual({ start: "16:45" });
+    });
+
+    it("moves a time that has already passed today to tomorrow", () => {
+      expect(resolveTemporal("at 9", NEW_YORK)).toMatchObject({ date: "2026-10-15", time: "09:00" });
+    });
+
+    it("resolves a range that ends after midnight", () => {
+      expect(resolveTemporal("11pm to 1am", NEW_YORK)).toMatchObject({
+        date: "2026-10-14",
+        time: "23:00",
+        endDate: "2026-10-15",
+        endTime: "01:00",
+        end: "2026-10-15T01:00:00-04:00",
+      });
+      expect(minutesBetween("23:00", "01:00")).toBe(120);
+    });
+  });
+
+  describe("time zone boundaries", () => {
+    // 23:30 on the 14th in New York is already the 15th in UTC and in Tokyo
+    const lateEvening = fixedClock("2026-10-15T03:30:00Z");
+
+    it("takes today from the user's zone, not from UTC", () => {
+      expect(resolveDate("today", { timeZone: "America/New_York", clock: lateEvening })).toBe("2026-10-14");
+      expect(resolveDate("today", { timeZone: "UTC", clock: lateEvening })).toBe("2026-10-15");
+      expect(resolveDate("tomorrow", { timeZone: "America/New_York", clock: lateEvening })).toBe("2026-10-15");
+      expect(resolveDate("tomorrow", { timeZone: "Asia/Tokyo", clock: lateEvening })).toBe("2026-10-16");
+    });
+
+    it("uses half-hour offsets", () => {
+      const clock = fixedClock("2026-10-14T20:00:00Z"); // 01:30 on the 15th in Kolkata
+      expect(resolveTemporal("tomorrow at 9am", { timeZone: "Asia/Kolkata", clock })).toMatchObject({
+        date: "2026-10-16",
+        start: "2026-10-16T09:00:00+05:30",
+      });
+    });
+
+    it("uses the offset in force on the resolved day across a DST change", () => {
+      const clock = fixedClock("2026-10-28T14:00:00Z"); // A Wednesday, still on daylight time
+      expect(resolveTemporal("sunday at 10am", { timeZone: "America/New_York", clock })).toMatchObject({
+        date: "2026-11-01",
+        start: "2026-11-01T10:00:00-05:00",
+      });
+    });
+  });
+
+  it("returns null when there is nothing to resolve", () => {
+    expect(resolveTemporal("buy milk", NEW_YORK)).toBeNull();
+  });
+});
+
+describe("zone conversion", () => {
+  it("maps a wall-clock time to an instant and back", () => {
+    const instant = zonedDateTimeToInstant("2026-10-14", "15:00", "America/New_York");
+    expect(instant.toISOString()).toBe("2026-10-14T19:00:00.000Z");
+    expect(toZonedIso(instant, "America/New_York")).toBe("2026-10-14T15:00:00-04:00");
+  });
+
+  it("tells the two 1:30s apart on the night clocks go back", () => {
+    expect(toZonedIso(new Date("2026-11-01T05:30:00Z"), "America/New_York")).toBe("2026-11-01T01:30:00-04:00");
+    expect(toZonedIso(new Date("2026-11-01T06:30:00Z"), "America/New_York")).toBe("2026-11-01T01:30:00-05:00");
+  });
+
+  it("shifts dates across month and year ends", () => {
+    expect(shiftDate("2026-12-31", 1)).toBe("2027-01-01");
+    expect(shiftDate("2026-03-01", -1)).toBe("2026-02-28");
+  });
+});
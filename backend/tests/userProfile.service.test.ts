@@ -0,0 +1,71 @@
+import { getStoredUserProfile, storeUserProfile } from "../src/services/googleOAuth.service";
+import {
+  DEFAULT_EMAIL_PREFERENCES,
+  getEmailPreferences,
+  resolveEmailStyle,
+  updateEmailPreferences,
+} from "../src/services/userProfile.service";
+
+// Profile documents by id, standing in for the userProfiles collection
+const mockProfiles = new Map<string, Record<string, any>>();
+
+jest.mock("../src/firebaseAdmin", () => {
+  const doc = (id: string) => ({
+    get: async () => ({ exists: mockProfiles.has(id), data: () => mockProfiles.get(id) }),
+    set: async (data: Record<string, any>, options: { merge?: boolean; mergeFields?: string[] } = {}) => {
+      const existing = mockProfiles.get(id) || {};
+      if (options.mergeFields) {
+        const fields = Object.fromEntries(options.mergeFields.map((field) => [field, data[field]]));
+        mockProfiles.set(id, { ...existing, ...fields });
+      } else {
+        mockProfiles.set(id, options.merge ? { ...existing, ...data } : data);
+      }
+    },
+  });
+  const firestore = Object.assign(() => ({ collection: () => ({ doc }) }), {
+    FieldValue: { serverTimestamp: () => "timestamp" },
+  });
+  return { __esModule: true, default: { firestore } };
+});
+
+describe("email preferences", () => {
+  beforeEach(() => {
+    mockProfiles.clear();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("reads the defaults next to a stored profile without warning", async () => {
+    await storeUserProfile("u1", { name: "Sam Lee", email: "sam@acme.com" });
+
+    expect(await getEmailPreferences("u1")).toEqual(DEFAULT_EMAIL_PREFERENCES);
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it("keeps the profile's address when preferences are saved", async () => {
+    await storeUserProfile("u1", { name: "Sam Lee", email: "sam@acme.com" });
+    const saved = await updateEmailPreferences("u1", {
+      signature: "Sam Lee\n{email}",
+      tone: "terse",
+      length: "short",
+      saveAsDraft: true,
+    });
+
+    expect(await getEmailPreferences("u1")).toEqual(saved);
+    expect(await getStoredUserProfile("u1")).toEqual({ name: "Sam Lee", email: "sam@acme.com" });
+  });
+
+  it("keeps saved preferences when the profile is refreshed", async () => {
+    await storeUserProfile("u1", { name: "Sam Lee", email: "sam@acme.com" });
+    await updateEmailPreferences("u1", { tone: "formal", length: "long" });
+    await storeUserProfile("u1", { name: "Sam Lee", email: "sam.lee@acme.com" });
+
+    expect(await resolveEmailStyle("u1")).toEqual({ tone: "formal", length: "long" });
+    expect((await getStoredUserProfile("u1"))?.email).toBe("sam.lee@acme.com");
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,64 @@
+import React from 'react';
+import './ActionProgressCard.css';
+
+export interface ProgressStep {
+  action: string; // calendar, task, email, reply, ...
+  title?: string;
+  state: 'pending' | 'running' | 'succeeded' | 'failed' | 'waiting'; // waiting: held back for the user
+  message?: string; // The action's result, once it has ended
+}
+
+interface ActionProgressCardProps {
+  heading: string;
+  steps: ProgressStep[];
+}
+
+const STEP_LABELS: Record<string, string> = {
+  calendar: 'Calendar event',
+  task: 'Task',
+  email: 'Email',
+  findTime: 'Find a time',
+  query: 'Calendar question',
+  update: 'Change existing item',
+  delete: 'Cancel or delete',
+  reply: 'Reply',
+  replyAll: 'Reply all',
+  forward: 'Forward',
+};
+
+const STATE_ICONS: Record<ProgressStep['state'], string> = {
+  pending: 'bi-circle',
+  running: 'bi-arrow-repeat',
+  succeeded: 'bi-check-circle-fill',
+  failed: 'bi-x-circle-fill',
+  waiting: 'bi-exclamation-circle-fill',
+};
+
+/**
+ * Live progress of a command: each action with its result as soon as it has run
+ */
+export const ActionProgressCard: React.FC<ActionProgressCardProps> = ({ heading, steps }) => {
+  return (
+    <div className="action-progress-card" aria-live="polite">
+      <div className="action-progress-heading">{heading}</div>
+      {steps.length > 0 && (
+        <ol className="action-progress-steps">
+          {steps.map((step, index) => (
+            <li key={index} className={`action-progress-step ${step.state}`}>
+              <i className={`bi ${STATE_ICONS[step.state]}`} />
+              <span className="action-progress-text">
+                <span className="action-progress-label">
+                  {STEP_LABELS[step.action] || step.action}
+                  {step.title && <span className="action-progress-title"> · {step.title}</span>}
+                </span>
+                {step.message && <span className="action-progress-message">{step.message}</span>}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default ActionProgressCard;
@@ -0,0 +1,72 @@
+import React from 'react';
+import type { Agenda } from '../../services/api.service';
+import './AgendaCard.css';
+
+interface AgendaCardProps {
+  agenda: Agenda;
+}
+
+/**
+ * Answer to a calendar question: the matching events grouped by day,
+ * with a free/busy badge when the user asked whether a time is free
+ */
+export const AgendaCard: React.FC<AgendaCardProps> = ({ agenda }) => {
+  return (
+    <div className="agenda-card">
+      <div className="agenda-header">
+        <span className="agenda-range">{agenda.range}</span>
+        {agenda.free !== undefined && (
+          <span className={`agenda-badge ${agenda.free ? 'agenda-badge-free' : 'agenda-badge-busy'}`}>
+            {agenda.free ? 'Free' : 'Busy'}
+          </span>
+        )}
+      </div>
+
+      {agenda.days.length === 0 && (
+        <div className="agenda-empty">
+          <i className="bi bi-calendar-check" /> No events
+        </div>
+      )}
+
+      {agenda.days.map((day) => (
+        <div key={day.date} className="agenda-day">
+          {(agenda.days.length > 1 || agenda.question === 'nextEvent') && (
+            <div className="agenda-day-label">{day.label}</div>
+          )}
+          <ul className="agenda-events">
+            {day.events.map((event) => (
+              <li key={`${event.id}-${event.startISO}`} className="agenda-event">
+                <span className="agenda-event-time">{event.time}</span>
+                <div className="agenda-event-details">
+                  {event.link ? (
+                    <a className="agenda-event-title" href={event.link} target="_blank" rel="noopener noreferrer">
+                      {event.title}
+                    </a>
+                  ) : (
+                    <span className="agenda-event-title">{event.title}</span>
+                  )}
+                  {(event.location || event.attendees.length > 0) && (
+                    <span className="agenda-event-meta">
+                      {[
+                        event.location,
+                        event.attendees.length > 0 &&
+                          `with ${event.attendees.map((attendee) => attendee.name || attendee.email).join(', ')}`,
+                      ].filter(Boolean).join(' · ')}
+                    </span>
+                  )}
+                </div>
+                {event.meetLink && (
+                  <a className="agenda-event-join" href={event.meetLink} target="_blank" rel="noopener noreferrer">
+                    <i className="bi bi-camera-video" /> Join
+                  </a>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AgendaCard;
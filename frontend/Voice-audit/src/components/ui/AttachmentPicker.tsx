@@ -0,0 +1,79 @@
+import React, { useRef } from 'react';
+import { MAX_ATTACHMENT_BYTES } from '../../services/api.service';
+import './AttachmentPicker.css';
+
+interface AttachmentPickerProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Human-readable file size, e.g. "240 KB" or "3.1 MB"
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Files to attach to a drafted email, picked from the user's device
+ */
+export const AttachmentPicker: React.FC<AttachmentPickerProps> = ({ files, onChange, disabled = false }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const total = files.reduce((sum, file) => sum + file.size, 0);
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    // Picking the same file twice adds it once
+    const added = selected.filter(
+      (file) => !files.some((existing) => existing.name === file.name && existing.size === file.size)
+    );
+    onChange([...files, ...added]);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="attachment-picker">
+      <span className="attachment-picker-label">Attachments</span>
+      {files.length > 0 && (
+        <ul className="attachment-list">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="attachment-chip">
+              <i className="bi bi-paperclip" />
+              <span className="attachment-name" title={file.name}>{file.name}</span>
+              <span className="attachment-size">{formatSize(file.size)}</span>
+              <button
+                type="button"
+                className="attachment-remove"
+                onClick={() => onChange(files.filter((_, i) => i !== index))}
+                disabled={disabled}
+                title="Remove"
+              >
+                <i className="bi bi-x" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {total > MAX_ATTACHMENT_BYTES && (
+        <small className="attachment-warning">
+          Attachments add up to {formatSize(total)}; Gmail allows {formatSize(MAX_ATTACHMENT_BYTES)}.
+        </small>
+      )}
+      <input ref={inputRef} type="file" multiple hidden onChange={handleSelect} />
+      <button
+        type="button"
+        className="attachment-add-btn"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+      >
+        <i className="bi bi-paperclip" /> Attach files
+      </button>
+    </div>
+  );
+};
+
+export default AttachmentPicker;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import type { ChangeTarget, PendingChange } from '../../services/api.service';
+import './ChangePreviewCard.css';
+
+interface ChangePreviewCardProps {
+  change: PendingChange;
+  onChoose: (target: ChangeTarget) => Promise<void>;
+  onConfirm: () => Promise<void>;
+  onDismiss: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * A change to an existing event or task, before it is applied: either the
+ * matching items to choose from, or what will change on the one that matched
+ */
+export const ChangePreviewCard: React.FC<ChangePreviewCardProps> = ({
+  change,
+  onChoose,
+  onConfirm,
+  onDismiss,
+  disabled = false,
+}) => {
+  const [isWorking, setIsWorking] = useState(false);
+
+  const run = async (step: () => Promise<void>) => {
+    setIsWorking(true);
+    try {
+      await step();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const isDisabled = disabled || isWorking;
+  const isDelete = change.operation === 'delete';
+
+  if (change.candidates) {
+    return (
+      <div className="change-preview-card">
+        <ul className="change-candidates">
+          {change.candidates.map((candidate) => (
+            <li key={candidate.id}>
+              <button
+                type="button"
+                className="change-candidate"
+                onClick={() => run(() => onChoose(candidate))}
+                disabled={isDisabled}
+              >
+                <span className="change-candidate-title">{candidate.title}</span>
+                <span className="change-candidate-when">{candidate.when}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+        <button type="button" className="change-btn change-btn-secondary" onClick={onDismiss} disabled={isDisabled}>
+          <i className="bi bi-x-lg" /> None of these
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="change-preview-card">
+      {change.target && (
+        <div className="change-target">
+          <i className={`bi ${change.itemType === 'task' ? 'bi-check2-square' : 'bi-calendar-event'}`} />
+          <span className="change-target-title">{change.target.title}</span>
+          <span className="change-target-when">{change.target.when}</span>
+        </div>
+      )}
+
+      {!isDelete && change.changes && change.changes.length > 0 && (
+        <table className="change-diff">
+          <tbody>
+            {change.changes.map((entry) => (
+              <tr key={entry.field}>
+                <th scope="row">{entry.label}</th>
+                <td className="change-before">{entry.before || '—'}</td>
+                <td className="change-arrow"><i className="bi bi-arrow-right" /></td>
+                <td className="change-after">{entry.after || '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="change-actions">
+        <button type="button" className="change-btn change-btn-secondary" onClick={onDismiss} disabled={isDisabled}>
+          <i className="bi bi-x-lg" /> Keep as is
+        </button>
+        <button
+          type="button"
+          className={`change-btn ${isDelete ? 'change-btn-danger' : 'change-btn-primary'}`}
+          onClick={() => run(onConfirm)}
+          disabled={isDisabled}
+        >
+          <i className={`bi ${isWorking ? 'bi-arrow-repeat' : isDelete ? 'bi-trash' : 'bi-check-lg'}`} />
+          {' '}{isDelete ? (change.itemType === 'task' ? 'Delete' : 'Cancel event') : 'Apply changes'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ChangePreviewCard;
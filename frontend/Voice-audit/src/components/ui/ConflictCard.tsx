@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import type { CalendarConflict, ConflictSuggestion } from '../../services/api.service';
+import './ConflictCard.css';
+
+interface ConflictCardProps {
+  conflict: CalendarConflict;
+  onPick: (slot: ConflictSuggestion) => Promise<void>;
+  onForce: () => Promise<void>;
+  disabled?: boolean;
+}
+
+/**
+ * Shown when an event clashes with the calendar: lists the clashes and
+ * offers the suggested free slots, or booking at the requested time anyway
+ */
+export const ConflictCard: React.FC<ConflictCardProps> = ({ conflict, onPick, onForce, disabled = false }) => {
+  const [isBooking, setIsBooking] = useState(false);
+
+  const run = async (book: () => Promise<void>) => {
+    setIsBooking(true);
+    try {
+      await book();
+    } finally {
+      setIsBooking(false);
+    }
+  };
+
+  const isDisabled = disabled || isBooking;
+
+  return (
+    <div className="conflict-card">
+      <ul className="conflict-list">
+        {conflict.conflicts.map((event, index) => (
+          <li key={event.id || index}>
+            <i className="bi bi-calendar-x" />
+            <span className="conflict-title">{event.title}</span>
+            <span className="conflict-time">{event.start} – {event.end}</span>
+          </li>
+        ))}
+      </ul>
+
+      {conflict.suggestions.length > 0 && (
+        <>
+          <div className="conflict-label">Free instead</div>
+          <div className="conflict-suggestions">
+            {conflict.suggestions.map((slot) => (
+              <button
+                type="button"
+                key={slot.startISO}
+                className="conflict-btn conflict-btn-slot"
+                onClick={() => run(() => onPick(slot))}
+                disabled={isDisabled}
+              >
+                <i className="bi bi-clock" /> {slot.label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      <button
+        type="button"
+        className="conflict-btn conflict-btn-force"
+        onClick={() => run(onForce)}
+        disabled={isDisabled}
+      >
+        <i className="bi bi-exclamation-triangle" /> Book at {conflict.start} anyway
+      </button>
+    </div>
+  );
+};
+
+export default ConflictCard;
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import type { ContactCandidate, ContactChoice } from '../../services/api.service';
+import './ContactPickerCard.css';
+
+interface ContactPickerCardProps {
+  choice: ContactChoice;
+  onChoose: (candidate: ContactCandidate) => Promise<void>;
+  onDismiss: () => void;
+  disabled?: boolean;
+}
+
+const SOURCE_LABELS: Record<ContactCandidate['source'], string> = {
+  contact: 'Contact',
+  other: 'Emailed before',
+  recent: 'Recent mail',
+};
+
+/**
+ * The people a spoken name could mean, to pick the one to send to or invite
+ */
+export const ContactPickerCard: React.FC<ContactPickerCardProps> = ({
+  choice,
+  onChoose,
+  onDismiss,
+  disabled = false,
+}) => {
+  const [isWorking, setIsWorking] = useState(false);
+
+  const choose = async (candidate: ContactCandidate) => {
+    setIsWorking(true);
+    try {
+      await onChoose(candidate);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const isDisabled = disabled || isWorking;
+
+  return (
+    <div className="contact-picker-card">
+      <ul className="contact-candidates">
+        {choice.contact.candidates.map((candidate) => (
+          <li key={candidate.email}>
+            <button
+              type="button"
+              className="contact-candidate"
+              onClick={() => choose(candidate)}
+              disabled={isDisabled}
+            >
+              <i className="bi bi-person-circle" />
+              <span className="contact-candidate-text">
+                <span className="contact-candidate-name">{candidate.name || candidate.email}</span>
+                <span className="contact-candidate-email">{candidate.email}</span>
+              </span>
+              <span className="contact-candidate-source">{SOURCE_LABELS[candidate.source]}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+      <button type="button" className="contact-picker-dismiss" onClick={onDismiss} disabled={isDisabled}>
+        <i className="bi bi-x-lg" /> None of these
+      </button>
+    </div>
+  );
+};
+
+export default ContactPickerCard;
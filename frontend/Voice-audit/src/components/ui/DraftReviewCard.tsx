@@ -0,0 +1,310 @@
+import React from 'react';
+import type { DraftAction } from '../../services/api.service';
+import { AttachmentPicker } from './AttachmentPicker';
+import { QuotedEmail } from './QuotedEmail';
+import './DraftReviewCard.css';
+
+interface DraftReviewCardProps {
+  actions: DraftAction[];
+  onChange: (actions: DraftAction[]) => void;
+  onConfirm: () => void;
+  onDiscard: () => void;
+  isSubmitting?: boolean;
+  attachments?: File[]; // Files to attach to the draft's emails
+  onAttachmentsChange?: (files: File[]) => void;
+}
+
+type DraftField = {
+  key: keyof DraftAction;
+  label: string;
+  type?: 'text' | 'date' | 'time' | 'number' | 'email' | 'textarea' | 'priority' | 'readonly' | 'list' | 'checkbox' | 'select';
+  options?: { value: string; label: string }[]; // For 'select'
+};
+
+const FIELDS_BY_ACTION: Record<string, DraftField[]> = {
+  calendar: [
+    { key: 'title', label: 'Title' },
+    { key: 'date', label: 'Date', type: 'date' },
+    { key: 'time', label: 'Time', type: 'time' },
+    { key: 'duration', label: 'Duration (min)', type: 'number' },
+    { key: 'location', label: 'Location' },
+    { key: 'attendees', label: 'Attendees (comma-separated)', type: 'list' },
+    { key: 'conference', label: 'Add Google Meet link', type: 'checkbox' },
+    { key: 'repeat', label: 'Repeats', type: 'readonly' },
+    { key: 'description', label: 'Description', type: 'textarea' },
+  ],
+  task: [
+    { key: 'title', label: 'Title' },
+    { key: 'dueDate', label: 'Due date', type: 'date' },
+    { key: 'dueTime', label: 'Due time', type: 'time' },
+    { key: 'priority', label: 'Priority', type: 'priority' },
+    { key: 'calendarBlock', label: 'Block the time on my calendar', type: 'checkbox' },
+    { key: 'list', label: 'List' },
+    { key: 'createList', label: 'Create this list if it does not exist', type: 'checkbox' },
+    { key: 'parent', label: 'Subtask of' },
+    { key: 'description', label: 'Notes', type: 'textarea' },
+  ],
+  findTime: [
+    { key: 'title', label: 'Title' },
+    { key: 'attendees', label: 'With (comma-separated)', type: 'list' },
+    { key: 'duration', label: 'Duration (min)', type: 'number' },
+    { key: 'searchFrom', label: 'From', type: 'date' },
+    { key: 'searchTo', label: 'To', type: 'date' },
+    {
+      key: 'dayPart',
+      label: 'Time of day',
+      type: 'select',
+      options: [
+        { value: '', label: 'Any time' },
+        { value: 'morning', label: 'Morning' },
+        { value: 'afternoon', label: 'Afternoon' },
+        { value: 'evening', label: 'Evening' },
+      ],
+    },
+  ],
+  query: [
+    {
+      key: 'question',
+      label: 'Question',
+      type: 'select',
+      options: [
+        { value: 'agenda', label: "What's on my calendar" },
+        { value: 'nextEvent', label: 'When is the next one' },
+        { value: 'availability', label: 'Am I free' },
+        { value: 'tasks', label: 'Open tasks' },
+      ],
+    },
+    { key: 'about', label: 'About' },
+    { key: 'list', label: 'Task list' },
+    { key: 'overdue', label: 'Only overdue tasks', type: 'checkbox' },
+    { key: 'attendees', label: 'With (comma-separated)', type: 'list' },
+    { key: 'searchFrom', label: 'From', type: 'date' },
+    { key: 'searchTo', label: 'To', type: 'date' },
+    { key: 'date', label: 'Date', type: 'date' },
+    { key: 'time', label: 'Time', type: 'time' },
+  ],
+  update: [
+    { key: 'match', label: 'Change', type: 'readonly' },
+    { key: 'title', label: 'New title' },
+    { key: 'date', label: 'New date', type: 'date' },
+    { key: 'time', label: 'New time', type: 'time' },
+    { key: 'dueDate', label: 'New due date', type: 'date' },
+    { key: 'completed', label: 'Mark as done', type: 'checkbox' },
+  ],
+  delete: [
+    { key: 'match', label: 'Remove', type: 'readonly' },
+  ],
+  email: [
+    { key: 'gmailDraftId', label: 'Gmail draft', type: 'readonly' },
+    { key: 'recipient', label: 'To (comma-separated)', type: 'email' },
+    { key: 'cc', label: 'Cc', type: 'email' },
+    { key: 'bcc', label: 'Bcc', type: 'email' },
+    { key: 'subject', label: 'Subject' },
+    { key: 'body', label: 'Body', type: 'textarea' },
+    { key: 'saveAsDraft', label: 'Save as Gmail draft instead of sending', type: 'checkbox' },
+  ],
+};
+
+// Placeholders like {{actions[0].start}} are filled in from earlier steps when the draft runs
+const REFERENCE_PATTERN = /\{\{\s*actions\[(\d+)\]\.\w+\s*\}\}/;
+
+const ACTION_HEADINGS: Record<string, { icon: string; label: string }> = {
+  calendar: { icon: 'bi-calendar-event', label: 'Calendar event' },
+  task: { icon: 'bi-check2-square', label: 'Task' },
+  email: { icon: 'bi-envelope', label: 'Email' },
+  findTime: { icon: 'bi-search', label: 'Find a time' },
+  query: { icon: 'bi-calendar-week', label: 'Calendar question' },
+  update: { icon: 'bi-pencil-square', label: 'Change existing item' },
+  delete: { icon: 'bi-trash', label: 'Cancel or delete' },
+  reply: { icon: 'bi-reply', label: 'Reply' },
+  replyAll: { icon: 'bi-reply-all', label: 'Reply all' },
+  forward: { icon: 'bi-forward', label: 'Forward' },
+};
+
+export const DraftReviewCard: React.FC<DraftReviewCardProps> = ({
+  actions,
+  onChange,
+  onConfirm,
+  onDiscard,
+  isSubmitting = false,
+  attachments = [],
+  onAttachmentsChange,
+}) => {
+  const firstEmailIndex = actions.findIndex((action) => action.action === 'email');
+
+  const patchAction = (index: number, patch: Partial<DraftAction>) => {
+    onChange(actions.map((action, i) => (i === index ? { ...action, ...patch } : action)));
+  };
+
+  const updateField = (index: number, key: keyof DraftAction, value: string) => {
+    if (key === 'duration') {
+      patchAction(index, { duration: value === '' ? undefined : Number(value) });
+    } else if (key === 'attendees') {
+      // Keep empty entries while typing so "Sam, " can be followed by the next name
+      patchAction(index, { attendees: value.split(',').map((entry) => entry.trimStart()) });
+    } else {
+      patchAction(index, { [key]: value });
+    }
+  };
+
+  const renderField = (action: DraftAction, index: number, field: DraftField) => {
+    const id = `draft-${index}-${field.key}`;
+    const value = action[field.key] ?? '';
+
+    let input: React.ReactNode;
+    if (field.type === 'checkbox') {
+      return (
+        <label className="draft-field draft-field-checkbox" key={field.key} htmlFor={id}>
+          <input
+            id={id}
+            type="checkbox"
+            checked={Boolean(value)}
+            onChange={(e) => patchAction(index, { [field.key]: e.target.checked })}
+            disabled={isSubmitting}
+          />
+          <span>{field.label}</span>
+        </label>
+      );
+    } else if (field.type === 'list') {
+      input = (
+        <input
+          id={id}
+          type="text"
+          className="draft-field-input"
+          value={Array.isArray(value) ? value.join(', ') : String(value)}
+          placeholder="sam@acme.com, Priya"
+          onChange={(e) => updateField(index, field.key, e.target.value)}
+          disabled={isSubmitting}
+        />
+      );
+    } else if (field.type === 'readonly') {
+      // Derived values (like the parsed recurrence) are shown but not edited here
+      if (!value) return null;
+      const text = typeof value === 'object' ? Object.values(value).join(' · ') : String(value);
+      input = <div id={id} className="draft-field-static">{text}</div>;
+    } else if (field.type === 'textarea') {
+      input = (
+        <textarea
+          id={id}
+          className="draft-field-input draft-field-textarea"
+          value={String(value)}
+          onChange={(e) => updateField(index, field.key, e.target.value)}
+          disabled={isSubmitting}
+          rows={field.key === 'body' ? 6 : 2}
+        />
+      );
+    } else if (field.type === 'select') {
+      input = (
+        <select
+          id={id}
+          className="draft-field-input"
+          value={String(value)}
+          onChange={(e) => updateField(index, field.key, e.target.value)}
+          disabled={isSubmitting}
+        >
+          {field.options?.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      );
+    } else if (field.type === 'priority') {
+      input = (
+        <select
+          id={id}
+          className="draft-field-input"
+          value={String(value || 'medium')}
+          onChange={(e) => updateField(index, field.key, e.target.value)}
+          disabled={isSubmitting}
+        >
+          <option value="low">Low</option>
+          <option value="medium">Medium</option>
+          <option value="high">High</option>
+        </select>
+      );
+    } else {
+      input = (
+        <input
+          id={id}
+          type={field.type || 'text'}
+          className="draft-field-input"
+          value={String(value)}
+          min={field.type === 'number' ? 1 : undefined}
+          multiple={field.type === 'email' || undefined}
+          onChange={(e) => updateField(index, field.key, e.target.value)}
+          disabled={isSubmitting}
+        />
+      );
+    }
+
+    const reference = typeof value === 'string' ? value.match(REFERENCE_PATTERN) : null;
+
+    return (
+      <div className="draft-field" key={field.key}>
+        <label htmlFor={id} className="draft-field-label">{field.label}</label>
+        {input}
+        {reference && (
+          <small className="draft-field-hint">
+            Placeholders are filled in from step {Number(reference[1]) + 1} once it has run
+          </small>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="draft-review-card">
+      <div className="draft-review-header">
+        <i className="bi bi-shield-check" />
+        <span>Review before I do anything</span>
+      </div>
+
+      {actions.map((action, index) => {
+        const heading = ACTION_HEADINGS[action.emailType || action.action || ''] || { icon: 'bi-question-circle', label: action.action || 'Action' };
+        const fields = FIELDS_BY_ACTION[action.action || ''] || [];
+        return (
+          <div className="draft-action" key={index}>
+            <div className="draft-action-heading">
+              <i className={`bi ${heading.icon}`} />
+              <span>{actions.length > 1 ? `${index + 1}. ` : ''}{heading.label}</span>
+            </div>
+            {fields.map((field) => renderField(action, index, field))}
+            {action.original && <QuotedEmail email={action.original} forwarding={action.emailType === 'forward'} />}
+            {/* One set of files goes with every email in the draft, so the picker is shown once */}
+            {index === firstEmailIndex && onAttachmentsChange && (
+              <AttachmentPicker files={attachments} onChange={onAttachmentsChange} disabled={isSubmitting} />
+            )}
+          </div>
+        );
+      })}
+
+      <div className="draft-review-footer">
+        <button
+          type="button"
+          className="draft-btn draft-btn-secondary"
+          onClick={onDiscard}
+          disabled={isSubmitting}
+        >
+          <i className="bi bi-x-lg" /> Discard
+        </button>
+        <button
+          type="button"
+          className="draft-btn draft-btn-primary"
+          onClick={onConfirm}
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? (
+            <>
+              <i className="bi bi-arrow-repeat" /> Working...
+            </>
+          ) : (
+            <>
+              <i className="bi bi-check-lg" /> Confirm
+            </>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DraftReviewCard;
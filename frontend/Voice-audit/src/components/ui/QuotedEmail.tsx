@@ -0,0 +1,39 @@
+import React from 'react';
+import type { QuotedEmail as QuotedEmailData } from '../../services/api.service';
+import './QuotedEmail.css';
+
+interface QuotedEmailProps {
+  email: QuotedEmailData;
+  forwarding?: boolean;
+}
+
+/**
+ * The Date header in the user's locale, or as sent when it cannot be read
+ */
+function formatDate(value: string): string {
+  const date = new Date(value);
+  return isNaN(date.getTime())
+    ? value
+    : date.toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+/**
+ * The original email a reply or forward is about, quoted under the draft
+ */
+export const QuotedEmail: React.FC<QuotedEmailProps> = ({ email, forwarding = false }) => {
+  return (
+    <div className="quoted-email">
+      <span className="quoted-email-label">
+        <i className={`bi ${forwarding ? 'bi-forward' : 'bi-reply'}`} /> {forwarding ? 'Forwarding' : 'Replying to'}
+      </span>
+      <div className="quoted-email-meta">
+        <span className="quoted-email-from" title={email.from}>{email.from}</span>
+        {email.date && <span className="quoted-email-date">{formatDate(email.date)}</span>}
+      </div>
+      {email.subject && <div className="quoted-email-subject">{email.subject}</div>}
+      <blockquote className="quoted-email-body">{email.body || '(no text)'}</blockquote>
+    </div>
+  );
+};
+
+export default QuotedEmail;
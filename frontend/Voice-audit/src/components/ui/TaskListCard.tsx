@@ -0,0 +1,55 @@
+import React from 'react';
+import type { TaskOverview } from '../../services/api.service';
+import './TaskListCard.css';
+
+interface TaskListCardProps {
+  overview: TaskOverview;
+}
+
+/**
+ * Answer to a tasks question: open tasks grouped by list, subtasks indented
+ * under their parent, overdue ones flagged and priorities other than medium shown
+ */
+export const TaskListCard: React.FC<TaskListCardProps> = ({ overview }) => {
+  return (
+    <div className="task-list-card">
+      {overview.lists.length === 0 && (
+        <div className="task-list-empty">
+          <i className="bi bi-check2-all" /> {overview.overdue ? 'Nothing overdue' : 'No open tasks'}
+        </div>
+      )}
+
+      {overview.lists.map((list) => (
+        <div key={list.id} className="task-list">
+          <div className="task-list-title">{list.title}</div>
+          <ul className="task-list-items">
+            {list.tasks.map((task) => (
+              <li
+                key={task.id}
+                className={`task-list-item${task.subtask ? ' task-list-subtask' : ''}${task.overdue ? ' task-list-overdue' : ''}`}
+              >
+                <i className="bi bi-circle task-list-check" />
+                <div className="task-list-details">
+                  <span className="task-list-name">
+                    {task.title}
+                    {task.priority !== 'medium' && (
+                      <span className={`task-list-priority task-list-priority-${task.priority}`}>{task.priority}</span>
+                    )}
+                  </span>
+                  {task.notes && <span className="task-list-notes">{task.notes}</span>}
+                </div>
+                {task.due && (
+                  <span className="task-list-due">
+                    {task.overdue && <i className="bi bi-exclamation-circle" />} {task.due}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TaskListCard;
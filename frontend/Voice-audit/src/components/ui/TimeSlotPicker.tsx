@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import type { TimeSearch, TimeSlot } from '../../services/api.service';
+import './TimeSlotPicker.css';
+
+interface TimeSlotPickerProps {
+  search: TimeSearch;
+  onBook: (slot: TimeSlot) => Promise<void>;
+  disabled?: boolean;
+}
+
+/**
+ * Ranked free times from a "find me a time" request, each bookable with one click
+ */
+export const TimeSlotPicker: React.FC<TimeSlotPickerProps> = ({ search, onBook, disabled = false }) => {
+  const [bookingSlot, setBookingSlot] = useState<string | null>(null);
+
+  const handleBook = async (slot: TimeSlot) => {
+    setBookingSlot(slot.startISO);
+    try {
+      await onBook(slot);
+    } finally {
+      setBookingSlot(null);
+    }
+  };
+
+  return (
+    <div className="time-slot-picker">
+      {search.unavailable.length > 0 && (
+        <div className="time-slot-note">
+          <i className="bi bi-eye-slash" /> Couldn't see the calendar of {search.unavailable.join(', ')}
+        </div>
+      )}
+      <ol className="time-slot-list">
+        {search.slots.map((slot) => (
+          <li key={slot.startISO} className="time-slot">
+            <div className="time-slot-details">
+              <span className="time-slot-label">{slot.label}</span>
+              {slot.reasons.length > 0 && (
+                <span className="time-slot-reasons">{slot.reasons.join(' · ')}</span>
+              )}
+            </div>
+            <button
+              type="button"
+              className="time-slot-btn"
+              onClick={() => handleBook(slot)}
+              disabled={disabled || bookingSlot !== null}
+            >
+              <i className={`bi ${bookingSlot === slot.startISO ? 'bi-arrow-repeat' : 'bi-calendar-plus'}`} /> Book
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default TimeSlotPicker;
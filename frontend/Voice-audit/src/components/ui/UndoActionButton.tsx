@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import './UndoActionButton.css';
+
+interface UndoActionButtonProps {
+  label: string;
+  expiresAt: string;
+  onUndo: () => Promise<void>;
+}
+
+/**
+ * Undo button with a countdown that hides itself once the undo window closes
+ */
+export const UndoActionButton: React.FC<UndoActionButtonProps> = ({ label, expiresAt, onUndo }) => {
+  const deadline = new Date(expiresAt).getTime();
+  const [secondsLeft, setSecondsLeft] = useState(() => Math.max(0, Math.ceil((deadline - Date.now()) / 1000)));
+  const [isUndoing, setIsUndoing] = useState(false);
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const remaining = Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+      if (remaining === 0) {
+        clearInterval(timer);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  if (secondsLeft <= 0) {
+    return null;
+  }
+
+  const handleClick = async () => {
+    setIsUndoing(true);
+    try {
+      await onUndo();
+    } finally {
+      setIsUndoing(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      className="undo-action-btn"
+      onClick={handleClick}
+      disabled={isUndoing}
+      title={`Undo ${label}`}
+    >
+      <i className={`bi ${isUndoing ? 'bi-arrow-repeat' : 'bi-arrow-counterclockwise'}`} />
+      <span>Undo {label}</span>
+      <span className="undo-action-countdown">{secondsLeft}s</span>
+    </button>
+  );
+};
+
+export default UndoActionButton;
@@ -30,6 +30,19 @@ const XIcon = (props: React.SVGProps<SVGSVGElement>) => (
   </svg>
 );
 
+const PauseIcon = (props: React.SVGProps<SVGSVGElement>) => (
+  <svg width="24" height="24" viewBox="0 0 24 24" fill="currentColor" {...props}>
+    <rect x="6" y="5" width="4" height="14" rx="1" />
+    <rect x="14" y="5" width="4" height="14" rx="1" />
+  </svg>
+);
+
+const ResumeIcon = (props: React.SVGProps<SVGSVGElement>) => (
+  <svg width="24" height="24" viewBox="0 0 24 24" fill="currentColor" {...props}>
+    <path d="M8 5.5v13a1 1 0 0 0 1.5.86l10.5-6.5a1 1 0 0 0 0-1.72L9.5 4.64A1 1 0 0 0 8 5.5z" />
+  </svg>
+);
+
 const RefreshIcon = (props: React.SVGProps<SVGSVGElement>) => (
   <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" {...props}>
     <path d="M1 4v6h6"></path>
@@ -48,6 +61,14 @@ interface VoicePromptBoxProps {
   onCancel: () => void;
   onRecordAgain: () => void;
   isProcessing?: boolean;
+  isTranscribing?: boolean; // A recording is being turned into text on the server
+  isPaused?: boolean;
+  onPauseRecording?: () => void; // Shown while recording when given
+  onResumeRecording?: () => void;
+  liveTranscript?: string; // Words recognised so far while dictating
+  interimTranscript?: string; // Words still being recognised, shown lighter
+  question?: string; // A question the next command answers, shown above the box
+  onDismissQuestion?: () => void;
 }
 
 export const VoicePromptBox = React.forwardRef<HTMLTextAreaElement, VoicePromptBoxProps>(
@@ -63,6 +84,14 @@ export const VoicePromptBox = React.forwardRef<HTMLTextAreaElement, VoicePromptB
       onCancel,
       onRecordAgain,
       isProcessing = false,
+      isTranscribing = false,
+      isPaused = false,
+      onPauseRecording,
+      onResumeRecording,
+      liveTranscript = "",
+      interimTranscript = "",
+      question,
+      onDismissQuestion,
     },
     ref
   ) => {
@@ -92,9 +121,35 @@ export const VoicePromptBox = React.forwardRef<HTMLTextAreaElement, VoicePromptB
     };
 
     const hasContent = transcribedText || editedText.trim();
+    const statusRef = React.useRef<HTMLDivElement>(null);
+
+    // Keep the newest dictated words in view
+    React.useLayoutEffect(() => {
+      const status = statusRef.current;
+      if (status) {
+        status.scrollTop = status.scrollHeight;
+      }
+    }, [liveTranscript, interimTranscript]);
 
     return (
       <div className="voice-prompt-box">
+        {/* The question being answered */}
+        {question && (
+          <div className="voice-prompt-question">
+            <span className="voice-prompt-question-text">Answering: {question}</span>
+            {onDismissQuestion && (
+              <button
+                type="button"
+                className="voice-prompt-question-dismiss"
+                onClick={onDismissQuestion}
+                title="Never mind"
+              >
+                <XIcon className="voice-prompt-question-icon" />
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Transcribed text editing mode */}
         {transcribedText ? (
           <div className="voice-prompt-content has-text">
@@ -125,7 +180,7 @@ export const VoicePromptBox = React.forwardRef<HTMLTextAreaElement, VoicePromptB
               value={editedText}
               onChange={(e) => onEditedTextChange(e.target.value)}
               onKeyDown={handleKeyDown}
-              placeholder="Edit your voice command..."
+              placeholder={question ? "Edit your answer..." : "Edit your voice command..."}
               rows={1}
               autoFocus
             />
@@ -149,6 +204,7 @@ export const VoicePromptBox = React.forwardRef<HTMLTextAreaElement, VoicePromptB
               type="button"
               className={`voice-prompt-btn mic-btn ${isRecording ? "recording" : ""}`}
               onClick={isRecording ? onStopRecording : onStartRecording}
+              disabled={isTranscribing}
               title={isRecording ? "Stop Recording" : "Start Recording"}
             >
               {isRecording ? (
@@ -161,11 +217,44 @@ export const VoicePromptBox = React.forwardRef<HTMLTextAreaElement, VoicePromptB
               )}
             </button>
 
-            {/* Status text */}
-            <div className="voice-prompt-status">
-              <span className="voice-prompt-status-text">
-                {isRecording ? "Listening..." : "Click mic to start"}
-              </span>
+            {/* Pause / resume while recording */}
+            {isRecording && onPauseRecording && onResumeRecording && (
+              <button
+                type="button"
+                className="voice-prompt-btn icon-btn"
+                onClick={isPaused ? onResumeRecording : onPauseRecording}
+                title={isPaused ? "Resume" : "Pause"}
+              >
+                {isPaused ? (
+                  <ResumeIcon className="voice-prompt-icon" />
+                ) : (
+                  <PauseIcon className="voice-prompt-icon" />
+                )}
+              </button>
+            )}
+
+            {/* Status text, or the words dictated so far */}
+            <div className="voice-prompt-status" ref={statusRef}>
+              {isRecording && (liveTranscript || interimTranscript) ? (
+                <span className="voice-prompt-live-text">
+                  {liveTranscript}
+                  {interimTranscript && (
+                    <span className="voice-prompt-interim-text">
+                      {liveTranscript ? " " : ""}
+                      {interimTranscript}
+                    </span>
+                  )}
+                  {isPaused && <span className="voice-prompt-paused-label"> (paused)</span>}
+                </span>
+              ) : (
+                <span className="voice-prompt-status-text">
+                  {isRecording
+                    ? isPaused ? "Paused" : "Listening..."
+                    : isTranscribing
+                      ? "Transcribing..."
+                      : question ? "Click mic to answer" : "Click mic to start"}
+                </span>
+              )}
             </div>
 
             {/* Send button (disabled when no content) */}
@@ -1,11 +1,27 @@
 // Backend API configuration
 export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000';
 
+// How voice input is turned into text: 'browser' (Web Speech API), 'server' (recorded and
+// sent to /api/transcribe) or 'auto', which uses the browser where it can
+export const SPEECH_INPUT: 'auto' | 'browser' | 'server' =
+  import.meta.env.VITE_SPEECH_INPUT === 'browser' || import.meta.env.VITE_SPEECH_INPUT === 'server'
+    ? import.meta.env.VITE_SPEECH_INPUT
+    : 'auto';
+
 export const API_ENDPOINTS = {
   HEALTH: `${API_BASE_URL}/health`,
   PROCESS_TEXT: `${API_BASE_URL}/api/process`,
+  PROCESS_TEXT_STREAM: `${API_BASE_URL}/api/process/stream`,
+  PLAN_TEXT: `${API_BASE_URL}/api/process/plan`,
+  CLARIFY_TEXT: `${API_BASE_URL}/api/process/clarify`,
+  COMMIT_DRAFT: `${API_BASE_URL}/api/process/commit`,
+  COMMIT_DRAFT_STREAM: `${API_BASE_URL}/api/process/commit/stream`,
+  DISCARD_DRAFT: `${API_BASE_URL}/api/process/discard`,
+  TRANSCRIBE: `${API_BASE_URL}/api/transcribe`,
+  ACTIONS: `${API_BASE_URL}/api/actions`,
   GOOGLE_AUTH_URL: `${API_BASE_URL}/api/auth/google/url`,
   GOOGLE_AUTH_CALLBACK: `${API_BASE_URL}/api/auth/google/callback`,
   GOOGLE_STATUS: `${API_BASE_URL}/api/user/google-status`,
+  EMAIL_PREFERENCES: `${API_BASE_URL}/api/user/email-preferences`,
 };
 
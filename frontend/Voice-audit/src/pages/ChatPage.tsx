@@ -2,7 +2,8 @@ import { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { logout } from '../firebase/auth';
-import { processText, getGoogleAuthUrl, checkBackendHealth, checkGoogleConnection } from '../services/api.service';
+import { planText, clarifyText, commitDraftStream, discardDraft, undoAction, executeAction, getGoogleAuthUrl, checkBackendHealth, checkGoogleConnection, readAttachments, transcribeAudio, MAX_ATTACHMENT_BYTES, getEmailPreferences, updateEmailPreferences } from '../services/api.service';
+import type { Agenda, CalendarConflict, ChangeTarget, Clarification, ConflictSuggestion, ContactCandidate, ContactChoice, DraftAction, EmailAttachment, EmailLength, EmailPreferences, EmailTone, PendingChange, ProcessStreamEvent, ProcessTextResponse, TaskOverview, TimeSearch, TimeSlot, TurnResult } from '../services/api.service';
 import { 
   createChat, 
   saveMessage, 
@@ -17,18 +18,85 @@ import {
 } from '../services/firestore.service';
 import { updateUserDisplayName } from '../firebase/auth';
 import { initChromeExtension } from '../services/chromeExtension.service';
+import { speak } from '../utils/speech';
+import { canRecordAudio, startAudioRecording } from '../utils/audioRecorder';
+import type { AudioRecording } from '../utils/audioRecorder';
+import { applySpokenPunctuation, getSpeechRecognition, loadDictationSettings, saveDictationSettings, startDictation } from '../utils/dictation';
+import type { Dictation, DictationSettings } from '../utils/dictation';
+import { SPEECH_INPUT } from '../config/api.config';
+import { buildConversation, summarizeResults } from '../utils/conversation';
 import { VoicePromptBox } from '../components/ui/VoicePromptBox';
 import { Tiles } from '../components/ui/Tiles';
 import { UserDropdown } from '../components/ui/UserDropdown';
 import { ShiningText } from '../components/ui/ShiningText';
 import { TextShimmer } from '../components/ui/TextShimmer';
+import { DraftReviewCard } from '../components/ui/DraftReviewCard';
+import { UndoActionButton } from '../components/ui/UndoActionButton';
+import { ConflictCard } from '../components/ui/ConflictCard';
+import { TimeSlotPicker } from '../components/ui/TimeSlotPicker';
+import { AgendaCard } from '../components/ui/AgendaCard';
+import { TaskListCard } from '../components/ui/TaskListCard';
+import { ChangePreviewCard } from '../components/ui/ChangePreviewCard';
+import { ContactPickerCard } from '../components/ui/ContactPickerCard';
+import { ActionProgressCard } from '../components/ui/ActionProgressCard';
+import type { ProgressStep } from '../components/ui/ActionProgressCard';
 import './ChatPage.css';
 
+interface UndoEntry {
+  journalId: string;
+  expiresAt: string;
+  label: string;
+}
+
 interface Message {
   id: string;
   text: string;
   sender: 'user' | 'assistant';
   timestamp: Date;
+  results?: TurnResult[]; // What the reply's actions did, sent as context with later commands
+  undo?: UndoEntry[]; // Actions in this reply that can still be undone (not persisted)
+  conflicts?: CalendarConflict[]; // Events that were not booked because the time is taken (not persisted)
+  timeSearches?: TimeSearch[]; // Free times offered for booking (not persisted)
+  agendas?: Agenda[]; // Events answering a calendar question (not persisted)
+  taskLists?: TaskOverview[]; // Open tasks answering a tasks question (not persisted)
+  pendingChanges?: PendingChange[]; // Edits waiting for the user to pick an item or confirm (not persisted)
+  contactChoices?: ContactChoice[]; // Names that could be several people, waiting for the user to pick (not persisted)
+}
+
+const UNDO_LABELS: Record<string, string> = {
+  calendar: 'event',
+  task: 'task',
+  email: 'email',
+};
+
+interface CommandProgress {
+  heading: string;
+  steps: ProgressStep[]; // One per action of the command, in order
+}
+
+/**
+ * A not-yet-run action as a line of the progress card
+ */
+function toProgressStep(action: DraftAction): ProgressStep {
+  return {
+    action: action.emailType || action.action || 'unknown',
+    title: action.title || action.subject || action.match?.title,
+    state: 'pending',
+  };
+}
+
+interface PendingDraft {
+  draftId: string;
+  text: string;
+  actions: DraftAction[];
+  attachments?: File[]; // Picked for the draft's emails; read and uploaded on confirm
+}
+
+interface PendingClarification {
+  question: string;
+  text: string; // The command being completed
+  draftId?: string; // A draft still missing something, or
+  action?: DraftAction; // an action that came back needing more
 }
 
 interface ChatHistory {
@@ -55,7 +123,12 @@ const ChatPage = () => {
   const [editedText, setEditedText] = useState<string>('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [isGoogleConnected, setIsGoogleConnected] = useState(false);
-  const recognitionRef = useRef<any>(null);
+  const dictationRef = useRef<Dictation | null>(null); // Web Speech dictation
+  const recorderRef = useRef<AudioRecording | null>(null); // Recording for server-side transcription
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [liveTranscript, setLiveTranscript] = useState({ text: '', interim: '' });
+  const [dictationSettings, setDictationSettings] = useState<DictationSettings>(loadDictationSettings);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const [chatHistories, setChatHistories] = useState<ChatHistory[]>([]);
   const [currentChatId, setCurrentChatId] = useState<string | null>(null);
@@ -65,6 +138,12 @@ const ChatPage = () => {
   const [editDisplayName, setEditDisplayName] = useState('');
   const [editProfilePhoto, setEditProfilePhoto] = useState<File | null>(null);
   const [editProfilePhotoPreview, setEditProfilePhotoPreview] = useState<string | null>(null);
+  const [emailPreferences, setEmailPreferences] = useState<EmailPreferences | null>(null);
+  const [editSaveAsDraft, setEditSaveAsDraft] = useState(false);
+  const [editSignature, setEditSignature] = useState('');
+  const [editTone, setEditTone] = useState<EmailTone>('formal');
+  const [editLength, setEditLength] = useState<EmailLength>('medium');
+  const [editSilenceTimeout, setEditSilenceTimeout] = useState(0);
   const [isUpdatingProfile, setIsUpdatingProfile] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -73,6 +152,9 @@ const ChatPage = () => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [notification, setNotification] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
   const [openMenuChatId, setOpenMenuChatId] = useState<string | null>(null);
+  const [pendingDraft, setPendingDraft] = useState<PendingDraft | null>(null);
+  const [pendingClarification, setPendingClarification] = useState<PendingClarification | null>(null);
+  const [progress, setProgress] = useState<CommandProgress | null>(null);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -80,9 +162,8 @@ const ChatPage = () => {
 
   useEffect(() => {
     return () => {
-      if (recognitionRef.current) {
-        recognitionRef.current.stop();
-      }
+      dictationRef.current?.cancel();
+      recorderRef.current?.cancel();
     };
   }, []);
 
@@ -129,6 +210,7 @@ const ChatPage = () => {
                   text: msg.text,
                   sender: msg.sender,
                   timestamp: msg.timestamp instanceof Date ? msg.timestamp : new Date(),
+                  results: msg.results,
                 }));
                 setMessages(formattedMessages);
               } else {
@@ -199,6 +281,10 @@ const ChatPage = () => {
           setIsGoogleConnected(false);
         });
 
+      getEmailPreferences()
+        .then(setEmailPreferences)
+        .catch((error) => console.error('Error loading email preferences:', error));
+
       // Load user profile
       loadUserProfile(currentUser.uid)
         .then((profile) => {
@@ -262,64 +348,133 @@ const ChatPage = () => {
     }, 4000);
   };
 
-  const startListening = () => {
-    if (isRecording) return;
+  /**
+   * Put what was said in the editable textarea
+   */
+  const showTranscript = (text: string) => {
+    setTranscribedText(text);
+    setEditedText(text); // Set editedText immediately so text is directly editable
+    // Focus the textarea after a short delay to ensure it's rendered
+    setTimeout(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(
+        textareaRef.current.value.length,
+        textareaRef.current.value.length
+      );
+    }, 100);
+  };
 
-    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-    
-    if (!SpeechRecognition) {
-      alert('Speech recognition is not supported in your browser. Please use Chrome or Edge.');
+  const endListening = () => {
+    setIsRecording(false);
+    setIsPaused(false);
+    setLiveTranscript({ text: '', interim: '' });
+  };
+
+  /**
+   * Record with MediaRecorder for the backend to transcribe, where the Web Speech API is
+   * missing (Firefox, Safari) or VITE_SPEECH_INPUT=server
+   */
+  const startServerRecording = async () => {
+    if (!canRecordAudio()) {
+      alert('Voice input is not supported in your browser. Please type your command instead.');
       return;
     }
 
-    const recognition = new SpeechRecognition();
-    recognition.lang = 'en-US';
-    recognition.continuous = false;
-    recognition.interimResults = false;
-
-    recognition.onstart = () => {
-      setIsRecording(true);
+    try {
+      recorderRef.current = await startAudioRecording({
+        silenceTimeoutMs: dictationSettings.silenceTimeoutMs,
+        onSilence: finishServerRecording,
+      });
       setTranscribedText('');
-    };
+      setIsRecording(true);
+    } catch (error) {
+      console.error('Microphone error:', error);
+      alert('Microphone permission denied. Please allow microphone access.');
+    }
+  };
 
-    recognition.onresult = (event: any) => {
-      const text = event.results[0][0].transcript;
-      setTranscribedText(text);
-      setEditedText(text); // Set editedText immediately so text is directly editable
-      setIsRecording(false);
-      // Focus the textarea after a short delay to ensure it's rendered
-      setTimeout(() => {
-        textareaRef.current?.focus();
-        textareaRef.current?.setSelectionRange(
-          textareaRef.current.value.length,
-          textareaRef.current.value.length
-        );
-      }, 100);
-    };
+  // Reads only the ref, so it also works from the silence callback set up when recording started
+  const finishServerRecording = () => {
+    const recording = recorderRef.current;
+    if (!recording) return;
+    recorderRef.current = null;
+    endListening();
+    transcribeRecording(recording);
+  };
 
-    recognition.onerror = (event: any) => {
-      console.error('Speech recognition error:', event.error);
-      setIsRecording(false);
-      if (event.error === 'no-speech') {
-        alert('No speech detected. Please try again.');
-      } else if (event.error === 'not-allowed') {
-        alert('Microphone permission denied. Please allow microphone access.');
-      }
-    };
+  const transcribeRecording = async (recording: AudioRecording) => {
+    setIsTranscribing(true);
+    try {
+      const audio = await recording.stop();
+      showTranscript(applySpokenPunctuation(await transcribeAudio(audio, 'en-US')));
+    } catch (error) {
+      console.error('Transcription error:', error);
+      alert((error instanceof Error && error.message) || 'Could not transcribe the recording. Please try again.');
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
 
-    recognition.onend = () => {
-      setIsRecording(false);
-    };
+  const startListening = () => {
+    if (isRecording || isTranscribing) return;
+
+    const SpeechRecognition = getSpeechRecognition();
+
+    if (SPEECH_INPUT === 'server' || (SPEECH_INPUT === 'auto' && !SpeechRecognition)) {
+      startServerRecording();
+      return;
+    }
 
-    recognitionRef.current = recognition;
-    recognition.start();
+    if (!SpeechRecognition) {
+      alert('Speech recognition is not supported in your browser. Please use Chrome or Edge.');
+      return;
+    }
+
+    // Keeps listening through pauses; the words appear as they are recognised
+    dictationRef.current = startDictation({
+      lang: 'en-US',
+      silenceTimeoutMs: dictationSettings.silenceTimeoutMs,
+      onTranscript: (text, interim) => setLiveTranscript({ text, interim }),
+      onEnd: (text) => {
+        dictationRef.current = null;
+        endListening();
+        if (text) {
+          showTranscript(text);
+        } else {
+          alert('No speech detected. Please try again.');
+        }
+      },
+      onError: (error) => {
+        console.error('Speech recognition error:', error);
+        if (error === 'not-allowed') {
+          alert('Microphone permission denied. Please allow microphone access.');
+        }
+      },
+    });
+    setTranscribedText('');
+    setIsRecording(true);
   };
 
   const stopRecording = () => {
-    if (recognitionRef.current && isRecording) {
-      recognitionRef.current.stop();
-      setIsRecording(false);
+    if (recorderRef.current) {
+      finishServerRecording();
+      return;
     }
+
+    // The transcript arrives through onEnd once the last words are in
+    dictationRef.current?.stop();
+  };
+
+  const pauseRecording = () => {
+    dictationRef.current?.pause();
+    recorderRef.current?.pause();
+    setIsPaused(true);
+  };
+
+  const resumeRecording = () => {
+    dictationRef.current?.resume();
+    recorderRef.current?.resume();
+    setIsPaused(false);
   };
 
   const handleSend = () => {
@@ -333,8 +488,17 @@ const ChatPage = () => {
   };
 
   const handleCancel = () => {
+    if (recorderRef.current) {
+      // Nothing is uploaded for a cancelled recording
+      recorderRef.current.cancel();
+      recorderRef.current = null;
+    }
+    if (dictationRef.current) {
+      dictationRef.current.cancel();
+      dictationRef.current = null;
+    }
     if (isRecording) {
-      stopRecording();
+      endListening();
     }
     setTranscribedText('');
     setEditedText('');
@@ -344,6 +508,28 @@ const ChatPage = () => {
    * Format action result for display
    */
   const formatActionResult = (result: any): string => {
+    if (result.status === 'conflict') {
+      return `${result.message}\n\n` +
+             `Event: ${result.data?.title || 'N/A'}\n` +
+             `Requested: ${result.data?.start || 'N/A'}`;
+    }
+
+    if (result.status === 'ambiguous') {
+      return result.message;
+    }
+
+    if (result.status === 'needsClarification') {
+      return `💬 ${result.message}`;
+    }
+
+    if (result.status === 'preview') {
+      return `${result.message}\n\n` +
+             `${result.data?.target?.title || 'N/A'} (${result.data?.target?.when || 'N/A'})\n` +
+             (result.data?.changes || [])
+               .map((change: { label: string; before: string; after: string }) => `${change.label}: ${change.before || '—'} → ${change.after || '—'}\n`)
+               .join('');
+    }
+
     if (!result.success) {
       return `❌ ${result.message}`;
     }
@@ -356,21 +542,58 @@ const ChatPage = () => {
                `Event: ${data?.title || 'N/A'}\n` +
                `Start: ${data?.start || 'N/A'}\n` +
                `End: ${data?.end || 'N/A'}\n` +
+               (data?.recurrence ? `Repeats: ${data.recurrence.description}\n` : '') +
+               (data?.recurrence?.nextOccurrences?.length
+                 ? `Next: ${data.recurrence.nextOccurrences.join(' · ')}\n`
+                 : '') +
                (data?.location ? `Location: ${data.location}\n` : '') +
+               (data?.attendees?.length
+                 ? `Attendees: ${data.attendees.map((a: { email: string; name?: string }) => a.name ? `${a.name} <${a.email}>` : a.email).join(', ')}\n`
+                 : '') +
+               (data?.meetLink ? `Meet: ${data.meetLink}\n` : '') +
                (data?.description ? `Description: ${data.description}\n` : '');
       
       case "task":
         return `✅ ${message}\n\n` +
                `Task: ${data?.title || 'N/A'}\n` +
                `Due: ${data?.due || 'N/A'}\n` +
+               (data?.priority && data.priority !== 'medium' ? `Priority: ${data.priority}\n` : '') +
+               (data?.calendarBlock?.link ? `Calendar: ${data.calendarBlock.link}\n` : '') +
+               (data?.list ? `List: ${data.list}\n` : '') +
+               (data?.parent ? `Subtask of: ${data.parent}\n` : '') +
                (data?.notes ? `Notes: ${data.notes}\n` : '') +
                (data?.status ? `Status: ${data.status}\n` : '');
       
+      case "findTime":
+        return `${message}\n\n` +
+               `Meeting: ${data?.title || 'N/A'} (${data?.duration || '?'} min)\n` +
+               `Searched: ${data?.window || 'N/A'}\n` +
+               (data?.attendees?.length
+                 ? `With: ${data.attendees.map((a: { email: string; name?: string }) => a.name || a.email).join(', ')}\n`
+                 : '');
+
+      case "query":
+        // The events or tasks themselves are shown in the agenda or task list card
+        return message;
+
+      case "update":
+      case "delete":
+        return `${message}\n` +
+               (data?.changes || [])
+                 .map((change: { label: string; before: string; after: string }) => `${change.label}: ${change.before || '—'} → ${change.after || '—'}\n`)
+                 .join('');
+
       case "email":
         return `📧 ${message}\n\n` +
                `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n` +
                `📮 Recipient: ${data?.recipient || 'N/A'}\n` +
+               (data?.cc ? `👥 Cc: ${data.cc}\n` : '') +
+               (data?.bcc ? `🙈 Bcc: ${data.bcc}\n` : '') +
                `📋 Subject: ${data?.subject || 'N/A'}\n` +
+               (data?.attachments?.length ? `📎 Attachments: ${data.attachments.join(', ')}\n` : '') +
+               (data?.original ? `${data.emailType === 'forward' ? '↪️ Forwarded' : '↩️ In reply to'}: ${data.original.subject || '(no subject)'} — ${data.original.from}\n` : '') +
+               (data?.draftId ? `📝 Gmail draft: ${data.draftId}\n` : '') +
+               (data?.link ? `🔗 Open draft: ${data.link}\n` : '') +
                `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n` +
                `💬 Email Content:\n${data?.body || 'N/A'}\n` +
                `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`;
@@ -397,7 +620,8 @@ const ChatPage = () => {
                        lowerText.includes('calendar') || lowerText.includes('event') ||
                        lowerText.includes('task') || lowerText.includes('todo') ||
                        lowerText.includes('email') || lowerText.includes('send') ||
-                       lowerText.includes('gmail') || lowerText.includes('mail');
+                       lowerText.includes('gmail') || lowerText.includes('mail') ||
+                       lowerText.includes('reply') || lowerText.includes('forward');
 
     // If command needs Google but not connected, show helpful message
     if (needsGoogle && !isGoogleConnected) {
@@ -458,123 +682,115 @@ const ChatPage = () => {
     };
 
     setMessages((prev) => [...prev, userMessage]);
-    
-    // Don't save user message yet - wait for valid response
-    let shouldSaveMessages = false;
+
+    // A new command replaces any draft that is still waiting for review
+    if (pendingDraft) {
+      discardDraft(pendingDraft.draftId).catch(console.error);
+      setPendingDraft(null);
+    }
 
     setIsProcessing(true);
 
+    // An answer to a question fills in the command it was about instead of starting a new one
+    const clarifying = pendingClarification;
+    setPendingClarification(null);
+
     try {
-      const response = await processText(text.trim());
-      
-      // Check if this is a valid response (not an error or Gemini failure)
-      // Valid if: success is true, OR has results array with items, OR action is not "unknown"
-      const hasValidAction = response.action && 
-        response.action !== "unknown" && 
-        !response.message?.includes("Could not determine");
-      
-      const hasValidResults = response.results && 
-        Array.isArray(response.results) && 
-        response.results.length > 0 &&
-        response.results.some((r: any) => r.success && r.action !== "unknown");
-      
-      const isNotError = !response.message?.includes("Gemini API Error") && 
-        !response.message?.includes("Failed to process") &&
-        !response.message?.includes("GEMINI_ERROR") &&
-        !response.message?.includes("Could not determine");
-      
-      // Only save if we got a valid response with actual action
-      shouldSaveMessages = (response.success && hasValidAction) || hasValidResults || isNotError;
-      
-      // Check if response indicates Google auth is needed
-      const needsAuth = !response.success && (
-        response.message?.includes("not connected") || 
-        response.message?.includes("authenticate") ||
-        response.message?.includes("Connect Google")
-      );
-      
-      let messageText = "";
-      
-      // Handle multiple actions response
-      if (response.results && Array.isArray(response.results)) {
-        messageText = `${response.message}\n\n`;
-        response.results.forEach((result: any, index: number) => {
-          messageText += `\n${index + 1}. ${formatActionResult(result)}\n`;
-        });
-      } else {
-        // Single action response
-        if (response.success) {
-          messageText = formatActionResult(response);
-        } else {
-          messageText = `❌ ${response.message}`;
-        }
+      // Parse only - nothing is executed until the user confirms the draft
+      const plan = clarifying
+        ? await clarifyText(text.trim(), clarifying.draftId ? { draftId: clarifying.draftId } : { action: clarifying.action! })
+        : await planText(text.trim(), buildConversation(messages));
+      const commandText = clarifying ? `${clarifying.text} — ${text.trim()}` : text.trim();
+
+      if (plan.clarification) {
+        askClarification(plan.clarification, { draftId: plan.draftId, text: commandText });
+        return;
       }
-      
-      // Add helpful message if Google auth is needed
-      if (needsAuth && !isGoogleConnected) {
-        messageText += `\n\n💡 Tip: Click the "Connect Google" button in the sidebar to enable Calendar, Tasks, and Gmail features.`;
+
+      // Questions only read the calendar, and changes to existing items are previewed
+      // before anything is applied, so neither needs a review step
+      if (plan.actions.length > 0 && plan.actions.every((action) => ['query', 'update', 'delete'].includes(action.action || ''))) {
+        const response = await runDraft(plan.draftId, plan.actions);
+        await handleActionResponse(commandText, response);
+        return;
       }
-      
-      const assistantMessage: Message = {
+
+      setPendingDraft({
+        draftId: plan.draftId,
+        text: commandText,
+        // New emails follow the draft preference unless the command said otherwise
+        actions: plan.actions.map((action) =>
+          action.action === 'email' && action.saveAsDraft === undefined && !action.gmailDraftId
+            ? { ...action, saveAsDraft: emailPreferences?.saveAsDraft ?? false }
+            : action
+        ),
+      });
+    } catch (error) {
+      const errorMessage: Message = {
         id: (Date.now() + 1).toString(),
-        text: messageText,
+        text: `❌ Error: ${(error instanceof Error && error.message) || 'Failed to process request. Make sure backend is running and you are authenticated.'}`,
         sender: 'assistant',
         timestamp: new Date(),
       };
-      
-      setMessages((prev) => [...prev, assistantMessage]);
-      
-      // Only save messages to Firestore if we got a valid response
-      if (shouldSaveMessages) {
-        // Create chat if it doesn't exist yet (only when we have valid response)
-        if (!chatId) {
-          const newTitle = text.substring(0, 30) || 'New Chat';
-          chatId = await createChat(currentUser.uid, newTitle);
-          setCurrentChatId(chatId);
-          
-          // Add new chat to chatHistories
-          const newChat: ChatHistory = {
-            id: chatId,
-            title: newTitle,
-            messages: [],
-            createdAt: new Date(),
-          };
-          setChatHistories((prev) => [newChat, ...prev]);
-        }
-        
-        // Save user message
-        saveMessage(chatId, {
-          text: text.trim(),
-          sender: 'user',
-          chatId,
-        }).catch(console.error);
-        
-        // Save assistant message
-        saveMessage(chatId, {
-          text: assistantMessage.text,
-          sender: 'assistant',
-          chatId,
-        }).catch(console.error);
-      } else {
-        // If no valid response, don't save anything to database
-        console.log("⚠️ No valid response from Gemini - not saving to database");
-      }
+      setMessages((prev) => [...prev, errorMessage]);
 
-      // Update chat title if it's still "New Chat" (only if chat was created)
-      if (chatId) {
-        const currentChat = chatHistories.find(c => c.id === chatId);
-        if (currentChat && currentChat.title === 'New Chat') {
-          const newTitle = text.substring(0, 30) || 'Chat';
-          updateChatTitle(chatId, newTitle).catch(console.error);
-          setChatHistories(prev => prev.map(c => 
-            c.id === chatId ? { ...c, title: newTitle } : c
-          ));
-        }
-        
-        // Refresh chat list from Firestore to ensure proper ordering (chats ordered by updatedAt)
-        await refreshChatsFromFirestore(false);
-      }
+      // Don't save error messages to Firestore - no valid conversation happened
+      console.log("⚠️ Error occurred - not saving to database");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  /**
+   * Execute a draft, showing each action as it starts and ends
+   */
+  const runDraft = async (draftId: string, actions: DraftAction[], attachments?: EmailAttachment[]) => {
+    setProgress({ heading: 'Working on it...', steps: actions.map(toProgressStep) });
+    try {
+      return await commitDraftStream(draftId, actions, attachments, trackProgress);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const trackProgress = (event: ProcessStreamEvent) => {
+    if (event.type !== 'action') return;
+
+    const { stage, index, total, result } = event.progress;
+    const state: ProgressStep['state'] = stage === 'started'
+      ? 'running'
+      : stage === 'succeeded' ? 'succeeded' : result?.status ? 'waiting' : 'failed';
+
+    setProgress((prev) => prev && {
+      heading: stage === 'started' && total > 1 ? `Step ${index + 1} of ${total}...` : prev.heading,
+      steps: prev.steps.map((step, position) =>
+        position === index ? { ...step, state, message: result?.message } : step
+      ),
+    });
+  };
+
+  /**
+   * Execute the reviewed draft and show the result
+   */
+  const handleConfirmDraft = async () => {
+    if (!pendingDraft || isProcessing || !currentUser) return;
+
+    const draft = pendingDraft;
+    const files = draft.attachments || [];
+    if (files.reduce((total, file) => total + file.size, 0) > MAX_ATTACHMENT_BYTES) {
+      showNotification('Attachments are too large for Gmail. Remove some files and try again.', 'error');
+      return;
+    }
+
+    setIsProcessing(true);
+
+    try {
+      const attachments = files.length > 0 ? await readAttachments(files) : undefined;
+      const response = await runDraft(draft.draftId, draft.actions, attachments);
+      setPendingDraft(null);
+      await handleActionResponse(draft.text, response);
     } catch (error: any) {
+      setPendingDraft(null);
       const errorMessage: Message = {
         id: (Date.now() + 1).toString(),
         text: `❌ Error: ${error.message || 'Failed to process request. Make sure backend is running and you are authenticated.'}`,
@@ -586,9 +802,6 @@ const ChatPage = () => {
       // Don't save error messages to Firestore - no valid conversation happened
       console.log("⚠️ Error occurred - not saving to database");
       
-      // If chat was just created and has no saved messages, we could optionally delete it
-      // But for now, just don't save the messages
-      
       // Refresh chat list from Firestore to ensure proper ordering
       await refreshChatsFromFirestore(false);
     } finally {
@@ -596,6 +809,352 @@ const ChatPage = () => {
     }
   };
 
+  /**
+   * Ask for something a command is missing, on screen and aloud
+   * The next thing the user says or types is taken as the answer.
+   */
+  const askClarification = (clarification: Pick<Clarification, 'question'>, pending: Omit<PendingClarification, 'question'>) => {
+    setPendingClarification({ ...pending, question: clarification.question });
+    addSystemMessage(`💬 ${clarification.question}`);
+    speak(clarification.question);
+  };
+
+  const dismissClarification = () => {
+    if (!pendingClarification) return;
+
+    if (pendingClarification.draftId) {
+      discardDraft(pendingClarification.draftId).catch(console.error);
+    }
+    setPendingClarification(null);
+    addSystemMessage('👍 Never mind. Nothing was sent or created.');
+  };
+
+  const handleDiscardDraft = () => {
+    if (!pendingDraft) return;
+
+    discardDraft(pendingDraft.draftId).catch(console.error);
+    setPendingDraft(null);
+    addSystemMessage('🗑️ Draft discarded. Nothing was sent or created.');
+  };
+
+  /**
+   * Show the result of executed actions and save the exchange to Firestore
+   */
+  const handleActionResponse = async (text: string, response: ProcessTextResponse) => {
+    if (!currentUser) return;
+
+    let chatId = currentChatId;
+
+    // Check if this is a valid response (not an error or Gemini failure)
+    // Valid if: success is true, OR has results array with items, OR action is not "unknown"
+    const hasValidAction = response.action && 
+      response.action !== "unknown" && 
+      !response.message?.includes("Could not determine");
+
+    const hasValidResults = response.results && 
+      Array.isArray(response.results) && 
+      response.results.length > 0 &&
+      response.results.some((r: any) => r.success && r.action !== "unknown");
+
+    const isNotError = !response.message?.includes("Gemini API Error") && 
+      !response.message?.includes("Failed to process") &&
+      !response.message?.includes("GEMINI_ERROR") &&
+      !response.message?.includes("Could not determine");
+
+    // Don't save the exchange unless we got a valid response with an actual action
+    const shouldSaveMessages = (response.success && hasValidAction) || hasValidResults || isNotError;
+
+    // Check if response indicates Google auth is needed
+    const needsAuth = !response.success && (
+      response.message?.includes("not connected") || 
+      response.message?.includes("authenticate") ||
+      response.message?.includes("Connect Google")
+    );
+
+    let messageText = "";
+
+    // Handle multiple actions response
+    if (response.results && Array.isArray(response.results)) {
+      messageText = `${response.message}\n\n`;
+      response.results.forEach((result: any, index: number) => {
+        messageText += `\n${index + 1}. ${formatActionResult(result)}\n`;
+      });
+    } else {
+      // Single action response
+      if (response.success || response.status) {
+        messageText = formatActionResult(response);
+      } else {
+        messageText = `❌ ${response.message}`;
+      }
+    }
+
+    // Add helpful message if Google auth is needed
+    if (needsAuth && !isGoogleConnected) {
+      messageText += `\n\n💡 Tip: Click the "Connect Google" button in the sidebar to enable Calendar, Tasks, and Gmail features.`;
+    }
+
+    // Collect executed actions that can still be undone
+    const undoEntries: UndoEntry[] = (response.results || [response])
+      .filter((result) => result.success && result.undo)
+      .map((result) => ({
+        journalId: result.undo!.journalId,
+        expiresAt: result.undo!.expiresAt,
+        label: UNDO_LABELS[result.action || ''] || 'action',
+      }));
+
+    // Calendar events held back by a clash, waiting for the user to pick a time
+    const conflicts: CalendarConflict[] = (response.results || [response])
+      .filter((result) => result.status === 'conflict' && result.data?.pendingAction)
+      .map((result) => result.data as CalendarConflict);
+
+    // Free times the user can book with one click
+    const timeSearches: TimeSearch[] = (response.results || [response])
+      .filter((result) => result.success && result.action === 'findTime' && result.data?.slots?.length)
+      .map((result) => result.data as TimeSearch);
+
+    // Answers to calendar questions
+    const agendas: Agenda[] = (response.results || [response])
+      .filter((result) => result.success && result.action === 'query' && result.data?.days)
+      .map((result) => result.data as Agenda);
+
+    // Open tasks the user asked about
+    const taskLists: TaskOverview[] = (response.results || [response])
+      .filter((result) => result.success && result.action === 'query' && result.data?.question === 'tasks')
+      .map((result) => result.data as TaskOverview);
+
+    // Changes to existing items waiting for the user to choose or confirm
+    const pendingChanges: PendingChange[] = (response.results || [response])
+      .filter((result) => (result.status === 'ambiguous' || result.status === 'preview') && result.data?.pendingAction && !result.data.contact)
+      .map((result) => result.data as PendingChange);
+
+    // People to pick for a name that matched several contacts
+    const contactChoices: ContactChoice[] = (response.results || [response])
+      .filter((result) => result.status === 'ambiguous' && result.data?.contact)
+      .map((result) => result.data as ContactChoice);
+
+    const results = summarizeResults(response);
+
+    const assistantMessage: Message = {
+      id: (Date.now() + 1).toString(),
+      text: messageText,
+      sender: 'assistant',
+      timestamp: new Date(),
+      results: results.length > 0 ? results : undefined,
+      undo: undoEntries.length > 0 ? undoEntries : undefined,
+      conflicts: conflicts.length > 0 ? conflicts : undefined,
+      timeSearches: timeSearches.length > 0 ? timeSearches : undefined,
+      agendas: agendas.length > 0 ? agendas : undefined,
+      taskLists: taskLists.length > 0 ? taskLists : undefined,
+      pendingChanges: pendingChanges.length > 0 ? pendingChanges : undefined,
+      contactChoices: contactChoices.length > 0 ? contactChoices : undefined,
+    };
+
+    setMessages((prev) => [...prev, assistantMessage]);
+
+    // An action that is missing something waits for the user's answer (already shown above)
+    const unclear = (response.results || [response])
+      .find((result) => result.status === 'needsClarification' && result.data?.pendingAction);
+    if (unclear) {
+      setPendingClarification({ question: unclear.message, text, action: unclear.data.pendingAction as DraftAction });
+      speak(unclear.message);
+    }
+
+    // Only save messages to Firestore if we got a valid response
+    if (shouldSaveMessages) {
+      // Create chat if it doesn't exist yet (only when we have valid response)
+      if (!chatId) {
+        const newTitle = text.substring(0, 30) || 'New Chat';
+        chatId = await createChat(currentUser.uid, newTitle);
+        setCurrentChatId(chatId);
+
+        // Add new chat to chatHistories
+        const newChat: ChatHistory = {
+          id: chatId,
+          title: newTitle,
+          messages: [],
+          createdAt: new Date(),
+        };
+        setChatHistories((prev) => [newChat, ...prev]);
+      }
+
+      // Save user message
+      saveMessage(chatId, {
+        text: text.trim(),
+        sender: 'user',
+        chatId,
+      }).catch(console.error);
+
+      // Save assistant message
+      saveMessage(chatId, {
+        text: assistantMessage.text,
+        sender: 'assistant',
+        chatId,
+        ...(assistantMessage.results && { results: assistantMessage.results }),
+      }).catch(console.error);
+    } else {
+      // If no valid response, don't save anything to database
+      console.log("⚠️ No valid response from Gemini - not saving to database");
+    }
+
+    // Update chat title if it's still "New Chat" (only if chat was created)
+    if (chatId) {
+      const currentChat = chatHistories.find(c => c.id === chatId);
+      if (currentChat && currentChat.title === 'New Chat') {
+        const newTitle = text.substring(0, 30) || 'Chat';
+        updateChatTitle(chatId, newTitle).catch(console.error);
+        setChatHistories(prev => prev.map(c => 
+          c.id === chatId ? { ...c, title: newTitle } : c
+        ));
+      }
+
+      // Refresh chat list from Firestore to ensure proper ordering (chats ordered by updatedAt)
+      await refreshChatsFromFirestore(false);
+    }
+  };
+
+  /**
+   * Undo an executed action and drop its undo button
+   */
+  const handleUndo = async (messageId: string, journalId: string) => {
+    try {
+      const result = await undoAction(journalId);
+      addSystemMessage(`↩️ ${result.message}`);
+    } catch (error) {
+      addSystemMessage(`❌ Undo failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setMessages((prev) => prev.map((m) =>
+        m.id === messageId
+          ? { ...m, undo: m.undo?.filter((entry) => entry.journalId !== journalId) }
+          : m
+      ));
+    }
+  };
+
+  /**
+   * Book a conflicting event at a suggested slot, or at the requested time when no slot is given
+   */
+  const handleResolveConflict = async (messageId: string, conflict: CalendarConflict, slot?: ConflictSuggestion) => {
+    if (isProcessing) return;
+
+    const action = slot
+      ? { ...conflict.pendingAction, date: slot.date, time: slot.time }
+      : conflict.pendingAction;
+    const text = slot
+      ? `Book "${conflict.title || 'event'}" at ${slot.label}`
+      : `Book "${conflict.title || 'event'}" at ${conflict.start} anyway`;
+
+    setIsProcessing(true);
+    try {
+      const response = await executeAction(action, { allowConflicts: !slot, command: text });
+      setMessages((prev) => prev.map((m) =>
+        m.id === messageId
+          ? { ...m, conflicts: m.conflicts?.filter((entry) => entry !== conflict) }
+          : m
+      ));
+      await handleActionResponse(text, response);
+    } catch (error) {
+      addSystemMessage(`❌ Booking failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  /**
+   * Pick one of several matching items (which previews the change), or apply a previewed change
+   */
+  const handleResolveChange = async (messageId: string, change: PendingChange, target?: ChangeTarget) => {
+    if (isProcessing) return;
+
+    const action = target
+      ? { ...change.pendingAction, targetId: target.id, targetListId: target.taskListId }
+      : change.pendingAction;
+    const title = target?.title || change.target?.title || 'item';
+    const text = target
+      ? `The one on ${target.when}: "${title}"`
+      : `${change.operation === 'delete' ? 'Remove' : 'Update'} "${title}"`;
+
+    setIsProcessing(true);
+    try {
+      const response = await executeAction(action, { confirmChanges: !target, command: text });
+      dismissChange(messageId, change);
+      await handleActionResponse(text, response);
+    } catch (error) {
+      addSystemMessage(`❌ Change failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const dismissChange = (messageId: string, change: PendingChange) => {
+    setMessages((prev) => prev.map((m) =>
+      m.id === messageId
+        ? { ...m, pendingChanges: m.pendingChanges?.filter((entry) => entry !== change) }
+        : m
+    ));
+  };
+
+  /**
+   * Send to or invite the person the user picked for an ambiguous name
+   * Their address replaces the name in the pending action, which is then run again.
+   */
+  const handleChooseContact = async (messageId: string, choice: ContactChoice, candidate: ContactCandidate) => {
+    if (isProcessing) return;
+
+    const { field, name } = choice.contact;
+    const replace = (entry: string) => (entry.trim().toLowerCase() === name.toLowerCase() ? candidate.email : entry.trim());
+    const action: DraftAction = field === 'attendees'
+      ? { ...choice.pendingAction, attendees: (choice.pendingAction.attendees || []).map(replace) }
+      : { ...choice.pendingAction, [field]: (choice.pendingAction[field] || '').split(/[,;]/).map(replace).join(', ') };
+    const text = `${name}: ${candidate.name || candidate.email} <${candidate.email}>`;
+
+    setIsProcessing(true);
+    try {
+      const response = await executeAction(action, { command: text });
+      dismissContactChoice(messageId, choice);
+      await handleActionResponse(text, response);
+    } catch (error) {
+      addSystemMessage(`❌ Action failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const dismissContactChoice = (messageId: string, choice: ContactChoice) => {
+    setMessages((prev) => prev.map((m) =>
+      m.id === messageId
+        ? { ...m, contactChoices: m.contactChoices?.filter((entry) => entry !== choice) }
+        : m
+    ));
+  };
+
+  /**
+   * Book one of the free times found for a "find me a time" request
+   */
+  const handleBookSlot = async (messageId: string, search: TimeSearch, slot: TimeSlot) => {
+    if (isProcessing) return;
+
+    const text = `Book "${search.title}" at ${slot.label}`;
+    setIsProcessing(true);
+    try {
+      const response = await executeAction(
+        { ...search.pendingAction, date: slot.date, time: slot.time },
+        { command: text }
+      );
+      if (response.success) {
+        setMessages((prev) => prev.map((m) =>
+          m.id === messageId
+            ? { ...m, timeSearches: m.timeSearches?.filter((entry) => entry !== search) }
+            : m
+        ));
+      }
+      await handleActionResponse(text, response);
+    } catch (error) {
+      addSystemMessage(`❌ Booking failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   const handleConnectGoogle = async () => {
     if (!currentUser) {
       addSystemMessage('❌ Please sign in first');
@@ -707,6 +1266,11 @@ const ChatPage = () => {
     // Show custom photo if exists, otherwise show Google photo as preview
     const currentPhoto = userProfile?.profilePhotoURL || currentUser?.photoURL || null;
     setEditProfilePhotoPreview(currentPhoto);
+    setEditSaveAsDraft(emailPreferences?.saveAsDraft ?? false);
+    setEditSignature(emailPreferences?.signature ?? '');
+    setEditTone(emailPreferences?.tone ?? 'formal');
+    setEditLength(emailPreferences?.length ?? 'medium');
+    setEditSilenceTimeout(dictationSettings.silenceTimeoutMs);
     setShowEditProfile(true);
   };
 
@@ -792,6 +1356,24 @@ const ChatPage = () => {
       // Update Firestore profile
       await updateUserProfile(currentUser.uid, editDisplayName.trim(), photoURL);
       
+      // Only the email settings that changed are sent
+      const emailChanges: Partial<EmailPreferences> = {
+        ...(editSaveAsDraft !== (emailPreferences?.saveAsDraft ?? false) && { saveAsDraft: editSaveAsDraft }),
+        ...(editSignature.trim() !== (emailPreferences?.signature ?? '') && { signature: editSignature }),
+        ...(editTone !== (emailPreferences?.tone ?? 'formal') && { tone: editTone }),
+        ...(editLength !== (emailPreferences?.length ?? 'medium') && { length: editLength }),
+      };
+      if (Object.keys(emailChanges).length > 0) {
+        setEmailPreferences(await updateEmailPreferences(emailChanges));
+      }
+
+      // Voice input settings stay in this browser
+      if (editSilenceTimeout !== dictationSettings.silenceTimeoutMs) {
+        const settings = { ...dictationSettings, silenceTimeoutMs: editSilenceTimeout };
+        saveDictationSettings(settings);
+        setDictationSettings(settings);
+      }
+
       // Update local state - use Google photo as fallback
       setUserProfile({
         displayName: editDisplayName.trim(),
@@ -829,6 +1411,7 @@ const ChatPage = () => {
             text: msg.text,
             sender: msg.sender,
             timestamp: msg.timestamp instanceof Date ? msg.timestamp : new Date(),
+            results: msg.results,
           }));
           setMessages(formattedMessages);
         } else {
@@ -1182,13 +1765,101 @@ const ChatPage = () => {
               )}
               <div className="message-content">
                 {message.text}
+                {message.undo && message.undo.length > 0 && (
+                  <div className="message-undo-actions">
+                    {message.undo.map((entry) => (
+                      <UndoActionButton
+                        key={entry.journalId}
+                        label={entry.label}
+                        expiresAt={entry.expiresAt}
+                        onUndo={() => handleUndo(message.id, entry.journalId)}
+                      />
+                    ))}
+                  </div>
+                )}
+                {message.conflicts?.map((conflict, conflictIndex) => (
+                  <ConflictCard
+                    key={conflictIndex}
+                    conflict={conflict}
+                    onPick={(slot) => handleResolveConflict(message.id, conflict, slot)}
+                    onForce={() => handleResolveConflict(message.id, conflict)}
+                    disabled={isProcessing}
+                  />
+                ))}
+                {message.timeSearches?.map((search, searchIndex) => (
+                  <TimeSlotPicker
+                    key={searchIndex}
+                    search={search}
+                    onBook={(slot) => handleBookSlot(message.id, search, slot)}
+                    disabled={isProcessing}
+                  />
+                ))}
+                {message.agendas?.map((agenda, agendaIndex) => (
+                  <AgendaCard key={agendaIndex} agenda={agenda} />
+                ))}
+                {message.taskLists?.map((overview, overviewIndex) => (
+                  <TaskListCard key={overviewIndex} overview={overview} />
+                ))}
+                {message.pendingChanges?.map((change, changeIndex) => (
+                  <ChangePreviewCard
+                    key={changeIndex}
+                    change={change}
+                    onChoose={(target) => handleResolveChange(message.id, change, target)}
+                    onConfirm={() => handleResolveChange(message.id, change)}
+                    onDismiss={() => {
+                      dismissChange(message.id, change);
+                      addSystemMessage('👍 Left as is. Nothing was changed.');
+                    }}
+                    disabled={isProcessing}
+                  />
+                ))}
+                {message.contactChoices?.map((choice, choiceIndex) => (
+                  <ContactPickerCard
+                    key={choiceIndex}
+                    choice={choice}
+                    onChoose={(candidate) => handleChooseContact(message.id, choice, candidate)}
+                    onDismiss={() => {
+                      dismissContactChoice(message.id, choice);
+                      addSystemMessage('👍 Left as is. Say their email address to include someone else.');
+                    }}
+                    disabled={isProcessing}
+                  />
+                ))}
               </div>
               <div className="message-time">
                 {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
               </div>
             </div>
           ))}
-          {isProcessing && (
+          {pendingDraft && (
+            <div className="message assistant-message message-slide-in">
+              <div className="assistant-avatar">
+                <div className="avatar-glow"></div>
+                <i className="bi bi-robot avatar-icon"></i>
+              </div>
+              <DraftReviewCard
+                actions={pendingDraft.actions}
+                onChange={(actions) => setPendingDraft({ ...pendingDraft, actions })}
+                onConfirm={handleConfirmDraft}
+                onDiscard={handleDiscardDraft}
+                isSubmitting={isProcessing}
+                attachments={pendingDraft.attachments}
+                onAttachmentsChange={(attachments) => setPendingDraft({ ...pendingDraft, attachments })}
+              />
+            </div>
+          )}
+          {progress && (
+            <div className="message assistant-message message-slide-in">
+              <div className="assistant-avatar">
+                <div className="avatar-glow"></div>
+                <i className="bi bi-robot avatar-icon"></i>
+              </div>
+              <div className="message-content">
+                <ActionProgressCard heading={progress.heading} steps={progress.steps} />
+              </div>
+            </div>
+          )}
+          {isProcessing && !pendingDraft && !progress && (
             <div className="message assistant-message message-slide-in">
               <div className="assistant-avatar">
                 <div className="avatar-glow"></div>
@@ -1215,6 +1886,14 @@ const ChatPage = () => {
           onCancel={handleCancel}
           onRecordAgain={handleRecordAgain}
           isProcessing={isProcessing}
+          isTranscribing={isTranscribing}
+          isPaused={isPaused}
+          onPauseRecording={pauseRecording}
+          onResumeRecording={resumeRecording}
+          liveTranscript={liveTranscript.text}
+          interimTranscript={liveTranscript.interim}
+          question={pendingClarification?.question}
+          onDismissQuestion={dismissClarification}
         />
       </div>
 
@@ -1310,6 +1989,75 @@ const ChatPage = () => {
                 />
                 <small className="form-hint">Email cannot be changed</small>
               </div>
+              <div className="form-group">
+                <label htmlFor="saveAsDraft" className="form-checkbox">
+                  <input
+                    id="saveAsDraft"
+                    type="checkbox"
+                    checked={editSaveAsDraft}
+                    onChange={(e) => setEditSaveAsDraft(e.target.checked)}
+                  />
+                  Save emails as Gmail drafts instead of sending them
+                </label>
+                <small className="form-hint">You can still send a draft later by saying "send draft" and its id</small>
+              </div>
+              <div className="form-group">
+                <label htmlFor="emailSignature">Email Signature</label>
+                <textarea
+                  id="emailSignature"
+                  className="form-input form-textarea"
+                  value={editSignature}
+                  onChange={(e) => setEditSignature(e.target.value)}
+                  placeholder={'Best regards,\n{name}\nProduct Manager, Acme\n+1 555 0100'}
+                  rows={4}
+                  maxLength={500}
+                />
+                <small className="form-hint">Added below every email. {'{name}'} and {'{email}'} are filled in from your Google account; leave empty for no signature</small>
+              </div>
+              <div className="form-row">
+                <div className="form-group">
+                  <label htmlFor="emailTone">Email Tone</label>
+                  <select
+                    id="emailTone"
+                    className="form-input"
+                    value={editTone}
+                    onChange={(e) => setEditTone(e.target.value as EmailTone)}
+                  >
+                    <option value="formal">Formal</option>
+                    <option value="friendly">Friendly</option>
+                    <option value="terse">Terse</option>
+                  </select>
+                </div>
+                <div className="form-group">
+                  <label htmlFor="emailLength">Email Length</label>
+                  <select
+                    id="emailLength"
+                    className="form-input"
+                    value={editLength}
+                    onChange={(e) => setEditLength(e.target.value as EmailLength)}
+                  >
+                    <option value="short">Short</option>
+                    <option value="medium">Medium</option>
+                    <option value="long">Long</option>
+                  </select>
+                </div>
+              </div>
+              <div className="form-group">
+                <label htmlFor="silenceTimeout">Stop Listening After Silence</label>
+                <select
+                  id="silenceTimeout"
+                  className="form-input"
+                  value={editSilenceTimeout}
+                  onChange={(e) => setEditSilenceTimeout(Number(e.target.value))}
+                >
+                  <option value={2000}>2 seconds</option>
+                  <option value={3000}>3 seconds</option>
+                  <option value={5000}>5 seconds</option>
+                  <option value={10000}>10 seconds</option>
+                  <option value={0}>Never (click stop)</option>
+                </select>
+                <small className="form-hint">To punctuate while dictating, pause after "comma", "period", "question mark" or "new line", or say "insert comma" anywhere; "new paragraph" always works. Saved in this browser</small>
+              </div>
             </div>
             <div className="modal-footer">
               <button
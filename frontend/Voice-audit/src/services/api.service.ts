@@ -1,17 +1,277 @@
 import { API_ENDPOINTS } from '../config/api.config';
 import { auth } from '../firebase/firebaseConfig';
 
+export interface UndoInfo {
+  journalId: string;
+  expiresAt: string; // ISO timestamp
+}
+
 export interface ProcessTextResponse {
   success: boolean;
   action?: string;
   message: string;
   data?: any;
+  undo?: UndoInfo;
+  status?: 'conflict' | 'ambiguous' | 'preview' | 'needsClarification'; // Not executed: the user has to choose how to proceed, or say more
   results?: ProcessTextResponse[]; // For multiple actions
   totalActions?: number;
   successfulActions?: number;
   failedActions?: number;
 }
 
+/**
+ * A single parsed action awaiting review (mirrors the backend GeminiResponse)
+ */
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  interval?: number;
+  byWeekday?: string[];
+  setPosition?: number;
+  byMonthDay?: number;
+  until?: string;
+  count?: number;
+}
+
+export interface DraftAction {
+  action?: 'calendar' | 'task' | 'email' | 'findTime' | 'query' | 'update' | 'delete' | 'unknown';
+  title?: string;
+  description?: string;
+  date?: string;
+  time?: string;
+  duration?: number;
+  location?: string;
+  repeat?: string; // Readable recurrence, e.g. "Every other Friday until Mar 31, 2027"
+  recurrence?: RecurrenceRule;
+  attendees?: string[]; // Email addresses or contact names to invite
+  conference?: boolean; // Add a Google Meet link
+  sendUpdates?: 'all' | 'externalOnly' | 'none';
+  searchFrom?: string; // findTime: first day to search
+  searchTo?: string; // findTime: last day to search
+  dayPart?: 'morning' | 'afternoon' | 'evening';
+  question?: 'agenda' | 'nextEvent' | 'availability' | 'tasks'; // query: what the user asked
+  about?: string; // query: words the matching events contain
+  itemType?: 'event' | 'task'; // update/delete: what kind of item to change
+  match?: { title?: string; date?: string; time?: string; attendee?: string }; // update/delete: the existing item
+  targetId?: string; // update/delete: the chosen item
+  targetListId?: string;
+  recipient?: string; // email: To addresses, comma-separated
+  cc?: string;
+  bcc?: string;
+  subject?: string;
+  body?: string;
+  dueDate?: string;
+  dueTime?: string; // task: HH:MM it is due at
+  priority?: 'low' | 'medium' | 'high';
+  calendarBlock?: boolean; // task: also block the due time on the calendar
+  list?: string; // task/query: task list name as said
+  createList?: boolean; // task: create the list if it does not exist
+  parent?: string; // task: title of the task to add it under
+  completed?: boolean; // update: mark the task done
+  overdue?: boolean; // query: only tasks past their due date
+  saveAsDraft?: boolean; // email: save as a Gmail draft instead of sending
+  gmailDraftId?: string; // email: an existing Gmail draft to update or send
+  emailType?: 'reply' | 'replyAll' | 'forward'; // email: answer or pass on an existing email
+  thread?: { from?: string; subject?: string }; // email: how the user described that email
+  original?: QuotedEmail; // email: that email, once found
+}
+
+/**
+ * The email a reply or forward is about, as shown for review
+ */
+export interface QuotedEmail {
+  id: string;
+  threadId: string;
+  from: string;
+  to: string;
+  date: string; // As in the Date header
+  subject: string;
+  body: string; // Plain text, shortened
+}
+
+/**
+ * A calendar event that was not booked because the time is taken (result data when status is "conflict")
+ */
+export interface CalendarConflict {
+  title?: string;
+  start: string;
+  end: string;
+  conflicts: { id?: string; title: string; start: string; end: string }[];
+  suggestions: ConflictSuggestion[];
+  pendingAction: DraftAction;
+}
+
+export interface ConflictSuggestion {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  label: string;
+  startISO: string;
+  endISO: string;
+}
+
+/**
+ * Ranked free times from a "find me a time" request (result data of a findTime action)
+ */
+export interface TimeSearch {
+  title: string;
+  duration: number;
+  window: string;
+  attendees: { email: string; name?: string }[];
+  unavailable: string[]; // Attendees whose availability could not be checked
+  slots: TimeSlot[];
+  pendingAction: DraftAction; // Calendar action to book; a slot fills in date and time
+}
+
+export interface TimeSlot extends ConflictSuggestion {
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * An update or delete waiting for the user (result data when status is "ambiguous" or "preview")
+ */
+export interface PendingChange {
+  itemType: 'event' | 'task';
+  operation: 'update' | 'delete';
+  candidates?: ChangeTarget[]; // ambiguous: several items match
+  target?: ChangeTarget; // preview: the item that will change
+  changes?: FieldChange[];
+  pendingAction: DraftAction;
+}
+
+/**
+ * A name in an email's recipients or an event's attendees that could be several people
+ * (result data when status is "ambiguous" and `contact` is set)
+ */
+export interface ContactChoice {
+  contact: {
+    field: 'recipient' | 'cc' | 'bcc' | 'attendees';
+    name: string; // As the user said it
+    candidates: ContactCandidate[];
+  };
+  pendingAction: DraftAction;
+}
+
+export interface ContactCandidate {
+  name: string;
+  email: string;
+  source: 'contact' | 'other' | 'recent'; // Saved contact, Google's other contacts, or recent mail
+}
+
+export interface ChangeTarget {
+  id: string;
+  taskListId?: string;
+  title: string;
+  when: string;
+}
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * Events answering a calendar question, grouped by day (result data of a query action)
+ */
+export interface Agenda {
+  question: 'agenda' | 'nextEvent' | 'availability';
+  range: string; // The day, range or time asked about, ready to display
+  free?: boolean; // availability: nothing blocks the asked time
+  days: AgendaDay[];
+}
+
+export interface AgendaDay {
+  date: string; // YYYY-MM-DD
+  label: string;
+  events: AgendaEvent[];
+}
+
+export interface AgendaEvent {
+  id: string;
+  title: string;
+  time: string; // e.g. "9:00 AM – 9:30 AM" or "All day"
+  startISO: string;
+  endISO: string;
+  allDay: boolean;
+  location?: string;
+  attendees: { email: string; name?: string }[];
+  meetLink?: string;
+  link?: string;
+}
+
+/**
+ * Open tasks grouped by list, subtasks right after their parent (result data of a tasks query)
+ */
+export interface TaskOverview {
+  question: 'tasks';
+  overdue: boolean; // Only overdue tasks were asked for
+  lists: TaskListSummary[];
+}
+
+export interface TaskListSummary {
+  id: string;
+  title: string;
+  tasks: TaskSummary[];
+}
+
+export interface TaskSummary {
+  id: string;
+  title: string;
+  due?: string; // Ready to display
+  dueDate?: string; // YYYY-MM-DD
+  dueTime?: string; // HH:MM
+  priority: 'low' | 'medium' | 'high';
+  overdue: boolean;
+  notes?: string;
+  subtask: boolean;
+}
+
+export interface PlanTextResponse {
+  success: boolean;
+  message: string;
+  draftId: string;
+  actions: DraftAction[];
+  clarification?: Clarification; // Something the draft cannot run without; ask before reviewing
+}
+
+/**
+ * A question for the user about a command that is missing something
+ */
+export interface Clarification {
+  index: number; // Which action of the draft it is about
+  missing: ('title' | 'when' | 'time' | 'recipient' | 'subject' | 'body')[];
+  question: string;
+}
+
+/**
+ * What one executed action did, kept with the reply so later commands can refer to it
+ * ("make it 4pm instead", "also invite Raj")
+ */
+export interface TurnResult {
+  action: string;
+  success: boolean;
+  status?: string;
+  itemType?: 'event' | 'task';
+  id?: string; // Calendar event or task ID
+  listId?: string; // Task list of a task
+  title?: string;
+  when?: string; // ISO start or due date
+  attendees?: string[];
+  recipient?: string;
+  subject?: string;
+  threadId?: string;
+}
+
+/**
+ * An earlier message of the chat, sent with a command as context (oldest first)
+ */
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  text: string;
+  results?: TurnResult[];
+}
+
 /**
  * Get Firebase ID token for authentication
  */
@@ -78,10 +338,21 @@ async function parseJsonResponse(response: Response): Promise<any> {
   }
 }
 
+/**
+ * The browser's IANA time zone (e.g. "Asia/Kolkata"), so dates resolve in the user's zone
+ */
+export function getBrowserTimeZone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Process text command through backend
  */
-export async function processText(text: string): Promise<ProcessTextResponse> {
+export async function processText(text: string, conversation?: ConversationTurn[]): Promise<ProcessTextResponse> {
   const token = await getAuthToken();
   
   if (!token) {
@@ -94,7 +365,7 @@ export async function processText(text: string): Promise<ProcessTextResponse> {
       'Content-Type': 'application/json',
       'Authorization': `Bearer ${token}`,
     },
-    body: JSON.stringify({ text }),
+    body: JSON.stringify({ text, conversation, timeZone: getBrowserTimeZone() }),
   });
 
   if (!response.ok) {
@@ -114,6 +385,359 @@ export async function processText(text: string): Promise<ProcessTextResponse> {
   return await parseJsonResponse(response);
 }
 
+/**
+ * POST JSON to an authenticated backend endpoint and parse the JSON reply
+ */
+async function postAuthorizedJson<T>(url: string, payload: unknown): Promise<T> {
+  return sendAuthorizedJson<T>('POST', url, payload);
+}
+
+/**
+ * Call an authenticated backend endpoint, with a JSON body unless it is a GET
+ */
+async function sendAuthorizedJson<T>(method: 'GET' | 'POST' | 'PUT', url: string, payload?: unknown): Promise<T> {
+  const token = await getAuthToken();
+
+  if (!token) {
+    throw new Error('User not authenticated. Please sign in.');
+  }
+
+  const response = await fetch(url, {
+    method,
+    headers: {
+      ...(method !== 'GET' && { 'Content-Type': 'application/json' }),
+      'Authorization': `Bearer ${token}`,
+    },
+    ...(method !== 'GET' && { body: JSON.stringify(payload) }),
+  });
+
+  if (!response.ok) {
+    const errorData = await parseJsonResponse(response);
+    throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
+  }
+
+  return await parseJsonResponse(response);
+}
+
+/**
+ * Parse a command into a reviewable draft without executing anything
+ * The earlier turns of the chat let the command follow up on them.
+ */
+export async function planText(text: string, conversation?: ConversationTurn[]): Promise<PlanTextResponse> {
+  return postAuthorizedJson<PlanTextResponse>(API_ENDPOINTS.PLAN_TEXT, {
+    text,
+    conversation,
+    timeZone: getBrowserTimeZone(),
+  });
+}
+
+/**
+ * Answer a clarification question: the answer is merged into the draft (or the action
+ * that came back with status "needsClarification") and the result comes back for review
+ */
+export async function clarifyText(
+  answer: string,
+  pending: { draftId: string } | { action: DraftAction }
+): Promise<PlanTextResponse> {
+  return postAuthorizedJson<PlanTextResponse>(API_ENDPOINTS.CLARIFY_TEXT, {
+    answer,
+    ...pending,
+    timeZone: getBrowserTimeZone(),
+  });
+}
+
+/**
+ * A file attached to the emails of a draft, base64-encoded for the JSON body
+ */
+export interface EmailAttachment {
+  filename: string;
+  mimeType: string;
+  data: string;
+}
+
+// Gmail accepts messages up to 25 MB; base64 makes attachments about a third larger
+export const MAX_ATTACHMENT_BYTES = 18 * 1024 * 1024;
+
+/**
+ * Read picked files into attachments the backend can put on an email
+ */
+export async function readAttachments(files: File[]): Promise<EmailAttachment[]> {
+  return Promise.all(
+    files.map(
+      (file) =>
+        new Promise<EmailAttachment>((resolve, reject) => {
+          const reader = new FileReader();
+          reader.onload = () => {
+            // Data URL: "data:<type>;base64,<data>"
+            const dataUrl = String(reader.result);
+            resolve({
+              filename: file.name,
+              mimeType: file.type || 'application/octet-stream',
+              data: dataUrl.slice(dataUrl.indexOf(',') + 1),
+            });
+          };
+          reader.onerror = () => reject(new Error(`Could not read ${file.name}`));
+          reader.readAsDataURL(file);
+        })
+    )
+  );
+}
+
+/**
+ * Execute a draft, sending the (possibly edited) actions and any files for its emails
+ */
+export async function commitDraft(
+  draftId: string,
+  actions: DraftAction[],
+  attachments?: EmailAttachment[]
+): Promise<ProcessTextResponse> {
+  const token = await getAuthToken();
+
+  if (!token) {
+    throw new Error('User not authenticated. Please sign in.');
+  }
+
+  const response = await fetch(API_ENDPOINTS.COMMIT_DRAFT, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+    body: JSON.stringify({ draftId, actions, attachments, timeZone: getBrowserTimeZone() }),
+  });
+
+  // Failed actions come back as 400 with a normal result body, so only
+  // treat non-JSON replies as transport errors
+  return await parseJsonResponse(response);
+}
+
+/**
+ * One action of a command starting or ending, streamed while it runs
+ * A "failed" action may just be waiting for the user (result.status, e.g. a conflict).
+ */
+export interface ActionProgress {
+  stage: 'started' | 'succeeded' | 'failed';
+  index: number; // Position of the action in the command
+  total: number;
+  action: string;
+  result?: ProcessTextResponse; // Once the action has ended
+}
+
+/**
+ * What a streamed command reports before its result
+ */
+export type ProcessStreamEvent =
+  | { type: 'parsing'; text: string }
+  | { type: 'parsed'; actions: DraftAction[] } // What the command was understood as
+  | { type: 'action'; progress: ActionProgress };
+
+/**
+ * POST to a route that answers with Server-Sent Events, passing each progress event on
+ * @returns The payload of the final "done" event
+ */
+async function postEventStream<T>(
+  url: string,
+  payload: unknown,
+  onEvent: (event: ProcessStreamEvent) => void
+): Promise<T> {
+  const token = await getAuthToken();
+
+  if (!token) {
+    throw new Error('User not authenticated. Please sign in.');
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+      'Authorization': `Bearer ${token}`,
+    },
+    body: JSON.stringify(payload),
+  });
+
+  // Anything wrong with the request itself is answered as JSON before the stream opens
+  if (!response.ok || !response.body) {
+    const errorData = await parseJsonResponse(response);
+    throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        let event = 'message';
+        const dataLines: string[] = [];
+        for (const line of block.split('\n')) {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+        }
+        // Keep-alive comments carry no data
+        if (dataLines.length === 0) continue;
+
+        const data = JSON.parse(dataLines.join('\n'));
+        if (event === 'done') {
+          return data as T;
+        }
+        if (event === 'error') {
+          throw new Error(data.message || 'Failed to process request');
+        }
+        if (event === 'parsing' || event === 'parsed') {
+          onEvent({ type: event, ...data });
+        } else if (event.startsWith('action-')) {
+          onEvent({ type: 'action', progress: data as ActionProgress });
+        }
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+
+  throw new Error('The connection closed before the result arrived. Check your calendar, tasks and sent mail before trying again.');
+}
+
+/**
+ * Process a command like processText, reporting each step as it happens
+ */
+export async function processTextStream(
+  text: string,
+  conversation: ConversationTurn[] | undefined,
+  onEvent: (event: ProcessStreamEvent) => void
+): Promise<ProcessTextResponse> {
+  return postEventStream<ProcessTextResponse>(
+    API_ENDPOINTS.PROCESS_TEXT_STREAM,
+    { text, conversation, timeZone: getBrowserTimeZone() },
+    onEvent
+  );
+}
+
+/**
+ * Execute a reviewed draft like commitDraft, reporting each action as it starts and ends
+ */
+export async function commitDraftStream(
+  draftId: string,
+  actions: DraftAction[],
+  attachments: EmailAttachment[] | undefined,
+  onEvent: (event: ProcessStreamEvent) => void
+): Promise<ProcessTextResponse> {
+  return postEventStream<ProcessTextResponse>(
+    API_ENDPOINTS.COMMIT_DRAFT_STREAM,
+    { draftId, actions, attachments, timeZone: getBrowserTimeZone() },
+    onEvent
+  );
+}
+
+/**
+ * Run a single parsed action directly, e.g. a conflicting event rebooked at another
+ * time or booked anyway with allowConflicts
+ */
+export async function executeAction(
+  action: DraftAction,
+  options: { allowConflicts?: boolean; confirmChanges?: boolean; command?: string } = {}
+): Promise<ProcessTextResponse> {
+  const token = await getAuthToken();
+
+  if (!token) {
+    throw new Error('User not authenticated. Please sign in.');
+  }
+
+  const response = await fetch(`${API_ENDPOINTS.ACTIONS}/execute`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+    body: JSON.stringify({ action, ...options, timeZone: getBrowserTimeZone() }),
+  });
+
+  // Like commitDraft, failed actions come back as 400 with a normal result body
+  return await parseJsonResponse(response);
+}
+
+/**
+ * How composed emails are handled and written
+ */
+export interface EmailPreferences {
+  saveAsDraft: boolean; // Save emails as Gmail drafts instead of sending them
+  signature: string; // Added below every email; {name} and {email} are filled in from the Google account
+  tone: EmailTone;
+  length: EmailLength;
+}
+
+export type EmailTone = 'formal' | 'friendly' | 'terse';
+export type EmailLength = 'short' | 'medium' | 'long';
+
+/**
+ * Load the user's email preferences
+ */
+export async function getEmailPreferences(): Promise<EmailPreferences> {
+  const data = await sendAuthorizedJson<{ preferences: EmailPreferences }>('GET', API_ENDPOINTS.EMAIL_PREFERENCES);
+  return data.preferences;
+}
+
+/**
+ * Update some of the user's email preferences
+ */
+export async function updateEmailPreferences(changes: Partial<EmailPreferences>): Promise<EmailPreferences> {
+  const data = await sendAuthorizedJson<{ preferences: EmailPreferences }>('PUT', API_ENDPOINTS.EMAIL_PREFERENCES, changes);
+  return data.preferences;
+}
+
+/**
+ * Discard a draft so it can no longer be executed
+ */
+export async function discardDraft(draftId: string): Promise<void> {
+  await postAuthorizedJson<{ success: boolean }>(API_ENDPOINTS.DISCARD_DRAFT, { draftId });
+}
+
+/**
+ * Turn a voice recording into text on the server, for browsers without the Web Speech API
+ * @param language A language code such as "en-US"; the speech engine detects it when left out
+ */
+export async function transcribeAudio(audio: Blob, language?: string): Promise<string> {
+  const token = await getAuthToken();
+
+  if (!token) {
+    throw new Error('User not authenticated. Please sign in.');
+  }
+
+  const query = language ? `?language=${encodeURIComponent(language)}` : '';
+  const response = await fetch(`${API_ENDPOINTS.TRANSCRIBE}${query}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': audio.type || 'audio/webm',
+      'Authorization': `Bearer ${token}`,
+    },
+    body: audio,
+  });
+
+  const data = await parseJsonResponse(response);
+  if (!response.ok || !data.success) {
+    throw new Error(data.message || `HTTP error! status: ${response.status}`);
+  }
+  return data.text;
+}
+
+/**
+ * Undo an executed action while its undo window is open
+ */
+export async function undoAction(journalId: string): Promise<ProcessTextResponse> {
+  return postAuthorizedJson<ProcessTextResponse>(
+    `${API_ENDPOINTS.ACTIONS}/${encodeURIComponent(journalId)}/undo`,
+    {}
+  );
+}
+
 /**
  * Get Google OAuth authorization URL
  */
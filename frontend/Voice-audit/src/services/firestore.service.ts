@@ -18,6 +18,7 @@ import { db } from "../firebase/firestore";
 import { storage } from "../firebase/storage";
 import type { User } from "firebase/auth";
 import { compressImage } from "../utils/imageCompression";
+import type { TurnResult } from "./api.service";
 
 // User Profile Interface
 export interface UserProfile {
@@ -36,6 +37,7 @@ export interface FirestoreMessage {
   sender: 'user' | 'assistant';
   timestamp: Timestamp | Date;
   chatId: string;
+  results?: TurnResult[]; // What the reply's actions did, sent back as context for follow-ups
 }
 
 // Chat History Interface
@@ -361,6 +363,7 @@ export async function loadChatMessages(chatId: string): Promise<FirestoreMessage
         sender: data.sender,
         timestamp: data.timestamp?.toDate() || new Date(),
         chatId: data.chatId,
+        ...(Array.isArray(data.results) && { results: data.results }),
       });
     });
 
@@ -0,0 +1,97 @@
+// Formats the backend's speech engines accept, in order of preference
+// (Chrome and Firefox record Opus in WebM or Ogg, Safari AAC in MP4)
+const RECORDING_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+// Loudness (RMS of the waveform, 0–1) above which the microphone is taken to hear speech
+const SPEECH_LEVEL = 0.02;
+const LEVEL_CHECK_MS = 100;
+
+export interface AudioRecording {
+  pause(): void;
+  resume(): void;
+  stop(): Promise<Blob>; // The recording so far, once the recorder has flushed it
+  cancel(): void; // Stop without keeping anything
+}
+
+export interface RecordingOptions {
+  silenceTimeoutMs?: number; // Call onSilence once the microphone has been quiet this long (not while paused)
+  onSilence?: () => void;
+}
+
+/**
+ * Whether this browser can record audio for server-side transcription
+ */
+export function canRecordAudio(): boolean {
+  return typeof window !== 'undefined' && 'MediaRecorder' in window && !!navigator.mediaDevices?.getUserMedia;
+}
+
+/**
+ * Record from the microphone until stopped
+ * Asks for microphone permission; the microphone is released when the recording ends.
+ */
+export async function startAudioRecording(options: RecordingOptions = {}): Promise<AudioRecording> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const mimeType = RECORDING_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  // Watch the input level so a recording can end by itself when the user stops talking
+  let levelTimer: ReturnType<typeof setInterval> | undefined;
+  let audioContext: AudioContext | undefined;
+  const { silenceTimeoutMs, onSilence } = options;
+  if (silenceTimeoutMs && silenceTimeoutMs > 0 && onSilence) {
+    audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+    let lastSound = Date.now();
+
+    levelTimer = setInterval(() => {
+      if (recorder.state !== 'recording') {
+        lastSound = Date.now();
+        return;
+      }
+      analyser.getFloatTimeDomainData(samples);
+      const level = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+      if (level > SPEECH_LEVEL) {
+        lastSound = Date.now();
+      } else if (Date.now() - lastSound > silenceTimeoutMs) {
+        clearInterval(levelTimer);
+        onSilence();
+      }
+    }, LEVEL_CHECK_MS);
+  }
+
+  const release = () => {
+    clearInterval(levelTimer);
+    audioContext?.close().catch(() => undefined);
+    stream.getTracks().forEach((track) => track.stop());
+  };
+  recorder.start();
+
+  return {
+    pause: () => {
+      if (recorder.state === 'recording') recorder.pause();
+    },
+    resume: () => {
+      if (recorder.state === 'paused') recorder.resume();
+    },
+    stop: () =>
+      new Promise<Blob>((resolve) => {
+        recorder.onstop = () => {
+          release();
+          resolve(new Blob(chunks, { type: recorder.mimeType || mimeType || 'audio/webm' }));
+        };
+        recorder.stop();
+      }),
+    cancel: () => {
+      recorder.onstop = release;
+      if (recorder.state !== 'inactive') recorder.stop();
+      else release();
+    },
+  };
+}
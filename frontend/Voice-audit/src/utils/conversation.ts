@@ -0,0 +1,92 @@
+import type { ConversationTurn, ProcessTextResponse, TurnResult } from '../services/api.service';
+
+// Messages sent with each command; the backend summarizes the older ones to fit its budget
+const MAX_CONTEXT_MESSAGES = 20;
+// The backend keeps no more of each message than this, so longer text would only inflate the request
+const MAX_CONTEXT_MESSAGE_CHARS = 2000;
+
+/**
+ * Drop empty fields, which Firestore will not store
+ */
+function compact(result: TurnResult): TurnResult {
+  return Object.fromEntries(
+    Object.entries(result).filter(([, value]) => value !== undefined && value !== null && value !== '')
+  ) as unknown as TurnResult;
+}
+
+/**
+ * The parts of an action result a follow-up command can refer to
+ */
+function toTurnResult(result: ProcessTextResponse): TurnResult {
+  const data = result.data || {};
+  const base: TurnResult = { action: result.action || 'unknown', success: result.success, status: result.status };
+
+  switch (result.action) {
+    case 'calendar':
+      return compact({
+        ...base,
+        itemType: 'event',
+        id: data.id,
+        title: data.title || data.pendingAction?.title,
+        when: data.startISO,
+        attendees: data.attendees?.map((attendee: { email: string }) => attendee.email),
+      });
+
+    case 'task':
+      return compact({
+        ...base,
+        itemType: 'task',
+        id: data.id,
+        listId: data.taskListId,
+        title: data.title || data.pendingAction?.title,
+        when: data.dueISO,
+      });
+
+    case 'email':
+      return compact({
+        ...base,
+        recipient: data.recipient || data.pendingAction?.recipient,
+        subject: data.subject || data.pendingAction?.subject,
+        threadId: data.threadId,
+      });
+
+    case 'update':
+    case 'delete':
+      return compact({
+        ...base,
+        itemType: data.itemType,
+        id: data.target?.id,
+        listId: data.target?.taskListId,
+        title: data.target?.title,
+        when: data.target?.when,
+      });
+
+    default:
+      return compact(base);
+  }
+}
+
+/**
+ * What each action of a reply did, to keep with the message
+ */
+export function summarizeResults(response: ProcessTextResponse): TurnResult[] {
+  return (response.results || [response])
+    .filter((result) => result.action && result.action !== 'unknown')
+    .map(toTurnResult);
+}
+
+/**
+ * The latest messages of the chat as context for the next command, oldest first
+ */
+export function buildConversation(
+  messages: { text: string; sender: 'user' | 'assistant'; results?: TurnResult[] }[]
+): ConversationTurn[] {
+  return messages
+    .filter((message) => message.text.trim() !== '')
+    .slice(-MAX_CONTEXT_MESSAGES)
+    .map((message) => ({
+      role: message.sender,
+      text: message.text.substring(0, MAX_CONTEXT_MESSAGE_CHARS),
+      ...(message.results?.length && { results: message.results }),
+    }));
+}
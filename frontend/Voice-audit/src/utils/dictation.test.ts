@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { applySpokenPunctuation } from './dictation';
+
+describe('applySpokenPunctuation', () => {
+  it('turns the request examples into marks', () => {
+    expect(applySpokenPunctuation('dear Sam comma new paragraph the launch moved period')).toBe(
+      'Dear Sam,\n\nThe launch moved.'
+    );
+  });
+
+  it('places each mark at the end of a phrase', () => {
+    expect(applySpokenPunctuation('is it ready question mark')).toBe('Is it ready?');
+    expect(applySpokenPunctuation('great news exclamation point')).toBe('Great news!');
+    expect(applySpokenPunctuation('it is done full stop')).toBe('It is done.');
+    expect(applySpokenPunctuation('bring three things colon')).toBe('Bring three things:');
+    expect(applySpokenPunctuation('first part semicolon')).toBe('First part;');
+  });
+
+  it('uses the pauses between recognised phrases', () => {
+    expect(applySpokenPunctuation(['hi Sam comma', 'the report is ready period', 'any questions question mark'])).toBe(
+      'Hi Sam, the report is ready. Any questions?'
+    );
+    expect(applySpokenPunctuation(['shopping list colon new line', 'milk'])).toBe('Shopping list:\nMilk');
+  });
+
+  it('keeps the words in ordinary speech', () => {
+    expect(applySpokenPunctuation('the trial period ends Friday')).toBe('The trial period ends Friday');
+    expect(applySpokenPunctuation('a comma splice is a common mistake')).toBe('A comma splice is a common mistake');
+    expect(applySpokenPunctuation('we launched a new line of products')).toBe('We launched a new line of products');
+  });
+
+  it('places a mark anywhere when asked to insert it', () => {
+    expect(applySpokenPunctuation('hi Sam insert comma the trial period ends Friday insert period')).toBe(
+      'Hi Sam, the trial period ends Friday.'
+    );
+    expect(applySpokenPunctuation('items insert colon insert new line milk')).toBe('Items:\nMilk');
+  });
+
+  it('lets one mark end the phrase for the mark before it', () => {
+    expect(applySpokenPunctuation('thanks comma new line Sam')).toBe('Thanks comma new line Sam');
+    expect(applySpokenPunctuation('thanks comma new line')).toBe('Thanks,');
+  });
+
+  it('does not read a mark inside a longer word', () => {
+    expect(applySpokenPunctuation('the commander sent periodic updates')).toBe('The commander sent periodic updates');
+    expect(applySpokenPunctuation('semicolons and colons')).toBe('Semicolons and colons');
+  });
+
+  it('merges marks the speech engine already added', () => {
+    expect(applySpokenPunctuation('Dear Sam, comma. New paragraph. Thanks period')).toBe('Dear Sam,\n\nThanks.');
+    expect(applySpokenPunctuation('Is it ready question mark.')).toBe('Is it ready?');
+  });
+
+  it('leaves text without punctuation words alone apart from the first capital', () => {
+    expect(applySpokenPunctuation('schedule lunch with Dana tomorrow at noon')).toBe('Schedule lunch with Dana tomorrow at noon');
+    expect(applySpokenPunctuation([])).toBe('');
+  });
+});
@@ -0,0 +1,259 @@
+/* ================== SETTINGS ================== */
+
+export interface DictationSettings {
+  silenceTimeoutMs: number; // Stop listening after this long without new words; 0 keeps listening until stopped
+}
+
+export const DEFAULT_DICTATION_SETTINGS: DictationSettings = { silenceTimeoutMs: 3000 };
+
+// Kept in the browser: how long a pause should be depends on the microphone and the room
+const SETTINGS_KEY = 'voiceAudit.dictation';
+
+export function loadDictationSettings(): DictationSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    const silenceTimeoutMs = Number(stored.silenceTimeoutMs);
+    return {
+      silenceTimeoutMs: Number.isFinite(silenceTimeoutMs) && silenceTimeoutMs >= 0
+        ? silenceTimeoutMs
+        : DEFAULT_DICTATION_SETTINGS.silenceTimeoutMs,
+    };
+  } catch {
+    return DEFAULT_DICTATION_SETTINGS;
+  }
+}
+
+export function saveDictationSettings(settings: DictationSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/* ================== SPOKEN PUNCTUATION ================== */
+
+// Stands for a pause between recognised phrases while marks are placed
+const PAUSE = '\u2029';
+
+// Longer phrases first, so "new paragraph" is not read as "new" + something else
+const SPOKEN_MARKS: [string, string][] = [
+  ['new paragraph', '\n\n'],
+  ['new line', '\n'],
+  ['question mark', '?'],
+  ['exclamation (?:mark|point)', '!'],
+  ['full stop|period', '.'],
+  ['comma', ','],
+  ['semicolon', ';'],
+  ['colon', ':'],
+];
+
+// "insert comma" is always a mark, and so is "new paragraph", which ordinary speech never says
+const INSERTED_MARKS: [RegExp, string][] = SPOKEN_MARKS.map(([words, mark]) => [
+  new RegExp(`\\s*\\binsert (?:${words})\\b`, 'gi'),
+  mark,
+]);
+const NEW_PARAGRAPH = /\s*\bnew paragraph\b/gi;
+
+// Otherwise a mark's name only counts where the phrase ends: at a pause, the end, or another mark
+// ("the trial period ends" keeps its word, "it ends Friday period" gets its full stop)
+const PAUSED_MARKS: [RegExp, string][] = SPOKEN_MARKS.map(([words, mark]) => [
+  new RegExp(`\\s*\\b(?:${words})\\b(?=[ \\t]*(?:$|${PAUSE}|[.,;:?!\\n]))`, 'gi'),
+  mark,
+]);
+
+/**
+ * Turn spoken punctuation into the marks themselves
+ * Takes the text, or its phrases as recognised between pauses.
+ * "dear Sam comma new paragraph the launch moved period" → "Dear Sam,\n\nThe launch moved."
+ */
+export function applySpokenPunctuation(phrases: string | string[]): string {
+  let result = (Array.isArray(phrases) ? phrases : [phrases]).map((phrase) => phrase.trim()).join(PAUSE);
+  for (const [pattern, mark] of INSERTED_MARKS) {
+    result = result.replace(pattern, mark);
+  }
+  result = result.replace(NEW_PARAGRAPH, '\n\n');
+  // A mark placed at the end of a phrase can end the phrase for the word before it ("comma period")
+  let previous;
+  do {
+    previous = result;
+    for (const [pattern, mark] of PAUSED_MARKS) {
+      result = result.replace(pattern, mark);
+    }
+  } while (result !== previous);
+
+  return result
+    .replaceAll(PAUSE, ' ')
+    // A mark the speech engine added next to a spoken one ("Sam, comma." → "Sam,")
+    .replace(/([,;:?!])[.,;:]+/g, '$1')
+    .replace(/\.[,;:]+/g, '.')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n[.,;:]+ */g, '\n')
+    // A space after a mark that is followed by a word ("Sam,the" → "Sam, the")
+    .replace(/([.,;:?!])(?=\p{L})/gu, '$1 ')
+    // Capitals at the start and after the end of a sentence or a line break
+    .replace(/(^|[.?!] |\n)(\p{Ll})/gu, (_match, before: string, letter: string) => before + letter.toUpperCase())
+    .trim();
+}
+
+/* ================== WEB SPEECH SESSION ================== */
+
+// The parts of the Web Speech API used here; browsers ship it without TypeScript types
+interface RecognitionResult {
+  readonly isFinal: boolean;
+  readonly [index: number]: { transcript: string };
+}
+
+interface RecognitionEvent {
+  readonly resultIndex: number;
+  readonly results: ArrayLike<RecognitionResult>;
+}
+
+interface Recognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: RecognitionEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type RecognitionConstructor = new () => Recognition;
+
+export interface DictationOptions {
+  lang: string;
+  silenceTimeoutMs: number;
+  onTranscript: (text: string, interim: string) => void; // Words so far, and those still being recognised (as heard)
+  onEnd: (text: string) => void; // Everything said, once listening has stopped
+  onError: (error: string) => void; // e.g. "not-allowed" when the microphone is blocked
+}
+
+export interface Dictation {
+  pause(): void;
+  resume(): void;
+  stop(): void; // Stop and hand over the transcript
+  cancel(): void; // Stop and drop it
+}
+
+export function getSpeechRecognition(): RecognitionConstructor | undefined {
+  return window.SpeechRecognition || window.webkitSpeechRecognition;
+}
+
+/**
+ * Listen until stopped, or until nothing new has been said for silenceTimeoutMs
+ * (the timer does not run while paused).
+ * Recognition is restarted whenever the browser ends it on its own, so long dictation
+ * is not cut off at the first pause. Spoken punctuation is applied to each phrase once it is final.
+ */
+export function startDictation(options: DictationOptions): Dictation {
+  const SpeechRecognition = getSpeechRecognition();
+  if (!SpeechRecognition) {
+    throw new Error('Speech recognition is not supported in your browser');
+  }
+
+  let state: 'listening' | 'paused' | 'stopped' = 'listening';
+  let recognition: Recognition | null = null;
+  const phrases: string[] = []; // Final results of every session so far, one per pause
+  let interim = '';
+  let silenceTimer: ReturnType<typeof setTimeout> | undefined;
+  let finished = false;
+  let failed = false;
+
+  const report = () => options.onTranscript(applySpokenPunctuation(phrases), interim);
+
+  const finish = () => {
+    if (finished) return;
+    finished = true;
+    clearTimeout(silenceTimer);
+    const text = applySpokenPunctuation(interim ? [...phrases, interim] : phrases);
+    // After an error that was already reported, only hand over words that were caught
+    if (text || !failed) {
+      options.onEnd(text);
+    }
+  };
+
+  const armSilenceTimer = () => {
+    clearTimeout(silenceTimer);
+    if (options.silenceTimeoutMs > 0) {
+      silenceTimer = setTimeout(stop, options.silenceTimeoutMs);
+    }
+  };
+
+  const listen = () => {
+    const session = new SpeechRecognition();
+    session.lang = options.lang;
+    session.continuous = true;
+    session.interimResults = true;
+
+    session.onresult = (event) => {
+      let pending = '';
+      for (let index = event.resultIndex; index < event.results.length; index++) {
+        const result = event.results[index];
+        if (result.isFinal) {
+          if (result[0].transcript.trim()) phrases.push(result[0].transcript);
+        } else {
+          pending += result[0].transcript;
+        }
+      }
+      interim = pending.trim();
+      report();
+      if (state === 'listening') armSilenceTimer();
+    };
+
+    session.onerror = (event) => {
+      // Silence and our own stop() end the session normally; anything else ends dictation
+      if (event.error === 'no-speech' || event.error === 'aborted') return;
+      state = 'stopped';
+      failed = true;
+      options.onError(event.error);
+    };
+
+    session.onend = () => {
+      recognition = null;
+      if (state === 'listening') {
+        listen();
+      } else if (state === 'stopped') {
+        finish();
+      }
+    };
+
+    recognition = session;
+    session.start();
+  };
+
+  function stop() {
+    if (state === 'stopped') return;
+    state = 'stopped';
+    clearTimeout(silenceTimer);
+    if (recognition) {
+      recognition.stop(); // The last words arrive before onend, which finishes
+    } else {
+      finish();
+    }
+  }
+
+  listen();
+  armSilenceTimer();
+
+  return {
+    pause() {
+      if (state !== 'listening') return;
+      state = 'paused';
+      clearTimeout(silenceTimer);
+      recognition?.stop();
+    },
+    resume() {
+      if (state !== 'paused') return;
+      state = 'listening';
+      if (!recognition) listen();
+      armSilenceTimer();
+    },
+    stop,
+    cancel() {
+      finished = true;
+      state = 'stopped';
+      clearTimeout(silenceTimer);
+      recognition?.abort();
+    },
+  };
+}
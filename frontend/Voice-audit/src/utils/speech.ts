@@ -0,0 +1,18 @@
+/**
+ * Read a short message aloud with the browser's speech synthesis
+ * Emoji and other symbols are dropped so they are not spelled out. Anything still
+ * being spoken is cut off, so only the latest question is heard.
+ */
+export function speak(text: string): void {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) {
+    return;
+  }
+
+  const spoken = text.replace(/[^\p{L}\p{N}\p{P}\s]/gu, '').trim();
+  if (!spoken) {
+    return;
+  }
+
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(new SpeechSynthesisUtterance(spoken));
+}